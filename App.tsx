@@ -1,6 +1,8 @@
 import React from 'react';
 import { AuthProvider, useAuth } from './context/AuthContext';
 import { ClientProvider, useClient } from './context/ClientContext';
+import { DocumentProvider } from './context/DocumentContext';
+import { TaxonomyProvider } from './context/TaxonomyContext';
 import { Login } from './components/Login';
 import { ClientOnboarding } from './components/ClientOnboarding';
 import { Dashboard } from './components/Dashboard';
@@ -46,7 +48,13 @@ function AppWithClient() {
     return <ClientOnboarding />;
   }
 
-  return <Dashboard />;
+  return (
+    <DocumentProvider>
+      <TaxonomyProvider>
+        <Dashboard />
+      </TaxonomyProvider>
+    </DocumentProvider>
+  );
 }
 
 function App() {
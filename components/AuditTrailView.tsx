@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { History, Loader2, RefreshCcw, ChevronDown, ChevronRight } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useClient } from '../context/ClientContext';
+import { getDocumentAuditTrail } from '../services/auditService';
+import type { AuditEntry, AuditSource } from '../types';
+
+const SOURCE_LABELS: Record<AuditSource, string> = {
+  extraction: 'AI extraction',
+  refinement: 'AI refinement',
+  manual: 'Manual edit',
+  certification: 'Certification',
+  'workbook-import': 'Offline review',
+  'duplicate-merge': 'Duplicate merge',
+  'category-retag': 'Category re-tag',
+};
+
+const shorten = (value: AuditEntry['oldValue']) => {
+  if (value === null) return '—';
+  const text = String(value);
+  return text.length > 80 ? `${text.slice(0, 77)}…` : text;
+};
+
+/**
+ * Read-only change history of one document, oldest first. Loaded when opened, since most reviews never look at it.
+ */
+export const AuditTrailView: React.FC<{ documentId: string }> = ({ documentId }) => {
+  const { user } = useAuth();
+  const { currentClient } = useClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = () => {
+    if (!user?.uid) return;
+    setError(null);
+    setEntries(null);
+    getDocumentAuditTrail(user.uid, documentId, currentClient?.firm_id).then(setEntries).catch((err) => setError(err.message));
+  };
+
+  useEffect(() => {
+    if (isOpen) load();
+  }, [isOpen, documentId, user?.uid]);
+
+  return (
+    <div className="border border-ypsom-alice rounded-sm mt-6">
+      <div className="flex items-center justify-between px-4 py-3 bg-gray-50">
+        <button onClick={() => setIsOpen(v => !v)} className="text-[10px] font-black uppercase tracking-widest text-ypsom-deep flex items-center gap-2">
+          {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          <History className="w-3.5 h-3.5" /> Change History {entries && `(${entries.length})`}
+        </button>
+        {isOpen && <button onClick={load} className="text-ypsom-slate hover:text-ypsom-deep"><RefreshCcw className="w-3 h-3" /></button>}
+      </div>
+      {isOpen && (
+        <div className="max-h-[280px] overflow-y-auto custom-scrollbar">
+          {error && <p className="p-3 text-[10px] font-bold text-red-600">{error}</p>}
+          {!error && entries === null && <div className="p-6 text-center"><Loader2 className="w-4 h-4 animate-spin text-ypsom-slate mx-auto" /></div>}
+          {entries?.length === 0 && <p className="p-4 text-[10px] text-ypsom-slate text-center">No changes recorded yet.</p>}
+          {entries && entries.length > 0 && (
+            <table className="min-w-full text-[10px]">
+              <thead className="bg-white sticky top-0">
+                <tr className="text-[8px] font-black uppercase tracking-widest text-ypsom-slate text-left">
+                  <th className="px-3 py-2">When</th>
+                  <th className="px-3 py-2">Who</th>
+                  <th className="px-3 py-2">Field</th>
+                  <th className="px-3 py-2">Old</th>
+                  <th className="px-3 py-2">New</th>
+                  <th className="px-3 py-2">Source</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-ypsom-alice">
+                {entries.map(e => (
+                  <tr key={e.id} className="align-top">
+                    <td className="px-3 py-1.5 font-mono whitespace-nowrap">{e.createdAt.replace('T', ' ').slice(0, 16)}</td>
+                    <td className="px-3 py-1.5 truncate max-w-[120px]">{e.userEmail || e.userId}</td>
+                    <td className="px-3 py-1.5 font-mono font-bold">{e.path}</td>
+                    <td className="px-3 py-1.5 font-mono text-red-700 break-all">{shorten(e.oldValue)}</td>
+                    <td className="px-3 py-1.5 font-mono text-green-700 break-all">{shorten(e.newValue)}</td>
+                    <td className="px-3 py-1.5">
+                      <span className="font-black uppercase text-[8px] tracking-widest text-ypsom-slate">{SOURCE_LABELS[e.source] || e.source}</span>
+                      {e.reason && <span className="block italic text-ypsom-slate">{e.reason}</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,18 @@
 
-import React, { useState, useRef, useMemo } from 'react';
-import { Upload, CheckCircle, Wallet, RefreshCcw, Download, Trash2, FileSpreadsheet, Search, FileCheck, XCircle, FileUp, Zap, Clock, Loader2, ArrowUpRight, ArrowDownRight, Activity, Ban } from 'lucide-react';
-import { analyzeBankStatement } from '../services/geminiService';
-import { ProcessedBankStatement, BankStatementAnalysis, FinancialData } from '../types';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { Upload, CheckCircle, Wallet, RefreshCcw, Download, Trash2, FileSpreadsheet, Search, FileCheck, XCircle, FileUp, Zap, Clock, Loader2, ArrowUpRight, ArrowDownRight, Activity, Ban, Link2, Scale, AlertTriangle } from 'lucide-react';
+import { analyzeBankStatement } from '../services/extractionService';
+import { importStatementFile, isCsvStatementFile, isStructuredStatementFile } from '../services/statementImportService';
+import { checkBalanceChain, checkStatementBalance, documentFromStatement, statementFromDocument, statementRange } from '../services/balanceCheckService';
+import { assignDocuments, confirmMatch, matchSummary, reconcileStatement, rejectMatch, usedDocumentIds } from '../services/reconciliationService';
+import { applyRulesToTransactions, getCategorizationRules } from '../services/categorizationRuleService';
+import { assertPeriodsOpen } from '../services/periodService';
+import { useAuth } from '../context/AuthContext';
+import { useClient } from '../context/ClientContext';
+import { useDocuments } from '../context/DocumentContext';
+import { useTaxonomy } from '../context/TaxonomyContext';
+import { CsvMappingPanel } from './CsvMappingPanel';
+import { ProcessedBankStatement, BankStatementAnalysis, BankTransaction, SupportingDoc, BalanceChainLink, CategorizationRule, DocumentType } from '../types';
 import * as XLSX from 'xlsx';
 
 interface Notification {
@@ -11,28 +21,71 @@ interface Notification {
   type: 'warning' | 'error' | 'success';
 }
 
-interface SupportingDoc extends FinancialData {
-  sourceFile: string;
-}
-
 interface BankStatementAnalyzerProps {
   supportingInvoices: SupportingDoc[];
 }
 
+const CHAIN_LINK_STYLES: Record<BalanceChainLink['kind'], string> = {
+  continuous: 'text-green-700',
+  break: 'text-red-600',
+  gap: 'text-red-600',
+  overlap: 'text-amber-600',
+  unverifiable: 'text-ypsom-slate',
+};
+
 export const BankStatementAnalyzer: React.FC<BankStatementAnalyzerProps> = ({ supportingInvoices }) => {
-  const [statements, setStatements] = useState<ProcessedBankStatement[]>([]);
+  const { user } = useAuth();
+  const { currentClient } = useClient();
+  const { documents, addDocument, updateDocumentData } = useDocuments();
+  const { taxonomy } = useTaxonomy();
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  // Files waiting for (or failed in) extraction; completed statements are stored as client documents.
+  const [uploads, setUploads] = useState<ProcessedBankStatement[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isStopping, setIsStopping] = useState(false);
-  const [reportingCurrency, setReportingCurrency] = useState('CHF');
   const [selectedStatementId, setSelectedStatementId] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [csvQueue, setCsvQueue] = useState<File[]>([]);
   const dragCounter = useRef(0);
   const stopProcessingRef = useRef(false);
 
   // INCREASED FOR ACCELERATION
   const CONCURRENCY_LIMIT = 6; 
 
+  const addNotification = (message: string, type: 'warning' | 'error' | 'success' = 'warning') => {
+    const id = Math.random().toString(36).substring(7);
+    setNotifications(prev => [...prev, { id, message, type }]);
+    setTimeout(() => setNotifications(prev => prev.filter(n => n.id !== id)), 5000);
+  };
+
+  useEffect(() => {
+    if (!currentClient?.id) return;
+    getCategorizationRules(currentClient.id)
+      .then(set => setRules(set.rules))
+      .catch(err => addNotification(`Categorization rules not loaded: ${err.message}`, 'error'));
+  }, [currentClient?.id]);
+
+  // The client's rules are applied once, when a statement comes in; later edits of a category are kept.
+  const categorize = (result: BankStatementAnalysis): BankStatementAnalysis =>
+    ({ ...result, transactions: applyRulesToTransactions(result.transactions, rules, result.currency) });
+
+  // Documents linked by the other statements are off-limits, so no document is used twice.
+  const reconcile = (result: BankStatementAnalysis, statementId: string, all: ProcessedBankStatement[]): BankStatementAnalysis =>
+    reconcileStatement(result, supportingInvoices, usedDocumentIds(all, statementId));
+
+  // Stored statements keep their confirmed matches and rejections; the other transactions are matched
+  // again whenever documents are added or edited.
+  const statements = useMemo(() => {
+    const stored: ProcessedBankStatement[] = documents
+      .filter(d => d.status === 'completed' && d.data?.documentType === DocumentType.BANK_STATEMENT)
+      .map(d => ({ id: d.id, fileName: d.fileName, status: 'completed', data: statementFromDocument(d.data!) }));
+    stored.forEach((s, i) => {
+      stored[i] = { ...s, data: reconcile(s.data!, s.id, stored) };
+    });
+    return [...stored, ...uploads];
+  }, [documents, uploads, supportingInvoices]);
+
   const stats = useMemo(() => {
     const total = statements.length;
     const completed = statements.filter(s => s.status === 'completed').length;
@@ -48,20 +101,67 @@ export const BankStatementAnalyzer: React.FC<BankStatementAnalyzerProps> = ({ su
     return { total, pending, progress, errors, timeStr: `${minutes}m ${seconds}s` };
   }, [statements]);
 
-  const addNotification = (message: string, type: 'warning' | 'error' | 'success' = 'warning') => {
-    const id = Math.random().toString(36).substring(7);
-    setNotifications(prev => [...prev, { id, message, type }]);
-    setTimeout(() => setNotifications(prev => prev.filter(n => n.id !== id)), 5000);
+  const selectFirst = (id: string, replacing?: string) =>
+    setSelectedStatementId(prev => (!prev || prev === replacing ? id : prev));
+
+  // Stores a categorized statement as a bank-statement document of the client and returns its id.
+  const storeStatement = async (fileName: string, result: BankStatementAnalysis, file?: File): Promise<string> => {
+    if (!user || !currentClient) throw new Error('User or client not found');
+    const data = documentFromStatement(categorize(result));
+    await assertPeriodsOpen(user.uid, currentClient.id, [data.date]);
+    const stored = await addDocument({ id: Math.random().toString(36).substr(2, 9), fileName, status: 'completed', data, fileRaw: file });
+    return stored.id;
+  };
+
+  // Match reviews are written to the statement's lines, so they survive a reload and reach the journal.
+  const updateStatementData = async (statementId: string, change: (data: BankStatementAnalysis, all: ProcessedBankStatement[]) => BankStatementAnalysis) => {
+    const statement = statements.find(s => s.id === statementId);
+    const stored = documents.find(d => d.id === statementId);
+    if (!statement?.data || !stored?.data) return;
+    const next = change(statement.data, statements);
+    try {
+      await updateDocumentData(statementId, { data: { ...stored.data, lineItems: next.transactions } });
+    } catch (err: any) {
+      addNotification(`${stored.fileName}: match review not saved: ${err.message}`, 'error');
+    }
+  };
+
+  // camt XML and MT940 are exact: parse them on the spot instead of queueing them for AI extraction.
+  const importStructured = async (file: File) => {
+    try {
+      const results = await importStatementFile(file);
+      if (results.length === 0) throw new Error('No statement found in file');
+      for (const [i, result] of results.entries()) {
+        const id = await storeStatement(results.length > 1 ? `${file.name} (${result.statementId || i + 1})` : file.name, result, file);
+        selectFirst(id);
+      }
+    } catch (err: any) {
+      // Not queued for AI extraction: the file is exact, or the store refused it.
+      addNotification(`${file.name}: ${err.message}`, 'error');
+    }
+  };
+
+  const importCsv = async (file: File, result: BankStatementAnalysis) => {
+    setCsvQueue(prev => prev.filter(f => f !== file));
+    try {
+      selectFirst(await storeStatement(file.name, result, file));
+    } catch (err: any) {
+      addNotification(`${file.name}: ${err.message}`, 'error');
+    }
   };
 
-  const addFiles = (files: File[]) => {
-    const newFiles: ProcessedBankStatement[] = Array.from(files).map(f => ({
+  const addFiles = async (files: File[]) => {
+    const structured = files.filter(isStructuredStatementFile);
+    const csv = files.filter(isCsvStatementFile);
+    if (csv.length > 0) setCsvQueue(prev => [...prev, ...csv]);
+    const newFiles: ProcessedBankStatement[] = files.filter(f => !isStructuredStatementFile(f) && !isCsvStatementFile(f)).map(f => ({
       id: Math.random().toString(36).substr(2, 9),
       fileName: f.name,
       status: 'pending' as const,
       fileRaw: f
     }));
-    setStatements(prev => [...prev, ...newFiles]);
+    setUploads(prev => [...prev, ...newFiles]);
+    await Promise.all(structured.map(importStructured));
   };
 
   const stopProcess = () => {
@@ -76,39 +176,32 @@ export const BankStatementAnalyzer: React.FC<BankStatementAnalyzerProps> = ({ su
     setIsStopping(false);
     stopProcessingRef.current = false;
     
-    const pendingIndices = statements
-      .map((s, i) => (s.status === 'pending' || s.status === 'error') ? i : -1)
-      .filter(i => i !== -1);
+    const queue = uploads.filter(s => s.status === 'pending' || s.status === 'error');
 
     let indexInQueue = 0;
     const activeTasks = new Set<Promise<void>>();
 
-    const runTask = async (idx: number) => {
-      const doc = statements[idx];
-      if (!doc.fileRaw) return;
+    const runTask = async (upload: ProcessedBankStatement) => {
+      if (!upload.fileRaw) return;
 
-      setStatements(prev => prev.map((d, i) => i === idx ? { ...d, status: 'processing', error: undefined } : d));
+      setUploads(prev => prev.map(d => d.id === upload.id ? { ...d, status: 'processing', error: undefined } : d));
 
+      // A statement extracted before but refused by the store is only stored again, not re-extracted.
+      let result = upload.data;
       try {
-        const result = await analyzeBankStatement(doc.fileRaw, reportingCurrency);
-        const reconciledTransactions = result.transactions.map(t => {
-          const match = supportingInvoices.find(inv => Math.abs(inv.totalAmount - t.amount) < 0.05);
-          if (match) return { ...t, notes: `Verified: ${match.issuer}`, category: match.expenseCategory };
-          return t;
-        });
-
-        setStatements(prev => prev.map((d, i) => i === idx ? { ...d, status: 'completed', data: { ...result, transactions: reconciledTransactions } } : d));
-        if (!selectedStatementId) setSelectedStatementId(doc.id);
+        result = result || { ...(await analyzeBankStatement(upload.fileRaw, taxonomy)), source: 'ai' };
+        const id = await storeStatement(upload.fileName, result, upload.fileRaw);
+        setUploads(prev => prev.filter(d => d.id !== upload.id));
+        selectFirst(id, upload.id);
       } catch (err: any) {
-        setStatements(prev => prev.map((d, i) => i === idx ? { ...d, status: 'error', error: err.message } : d));
-        addNotification(`${doc.fileName}: ${err.message}`, 'error');
+        setUploads(prev => prev.map(d => d.id === upload.id ? { ...d, status: 'error', error: err.message, data: result } : d));
+        addNotification(`${upload.fileName}: ${err.message}`, 'error');
       }
     };
 
-    while (indexInQueue < pendingIndices.length && !stopProcessingRef.current) {
-      while (activeTasks.size < CONCURRENCY_LIMIT && indexInQueue < pendingIndices.length && !stopProcessingRef.current) {
-        const idx = pendingIndices[indexInQueue++];
-        const task = runTask(idx).finally(() => activeTasks.delete(task));
+    while (indexInQueue < queue.length && !stopProcessingRef.current) {
+      while (activeTasks.size < CONCURRENCY_LIMIT && indexInQueue < queue.length && !stopProcessingRef.current) {
+        const task = runTask(queue[indexInQueue++]).finally(() => activeTasks.delete(task));
         activeTasks.add(task);
       }
       if (activeTasks.size > 0) await Promise.race(activeTasks);
@@ -125,9 +218,70 @@ export const BankStatementAnalyzer: React.FC<BankStatementAnalyzerProps> = ({ su
     const income = activeStatement.data.calculatedTotalIncome || 0;
     const expense = activeStatement.data.calculatedTotalExpense || 0;
     const net = income - expense;
-    return { income, expense, net, count: activeStatement.data.transactions.length };
+    return { income, expense, net, count: activeStatement.data.transactions.length, matches: matchSummary(activeStatement.data) };
   }, [activeStatement]);
 
+  const balanceCheck = useMemo(() => (activeStatement?.data ? checkStatementBalance(activeStatement.data) : null), [activeStatement]);
+
+  const chainEntries = useMemo(
+    () => statements.filter(s => s.status === 'completed' && s.data).map(s => ({ id: s.id, label: s.fileName, statement: s.data! })),
+    [statements]
+  );
+  const chains = useMemo(() => checkBalanceChain(chainEntries).filter(c => c.statementIds.length > 1), [chainEntries]);
+  const chainLabel = (id: string) => {
+    const entry = chainEntries.find(e => e.id === id);
+    if (!entry) return { label: id, range: '' };
+    const range = statementRange(entry.statement);
+    return { label: entry.label, range: range ? `${range.start} – ${range.end}` : '', statement: entry.statement };
+  };
+
+  const docById = useMemo(() => new Map(supportingInvoices.map(d => [d.id, d])), [supportingInvoices]);
+  const availableDocs = useMemo(() => {
+    const used = usedDocumentIds(statements);
+    return supportingInvoices.filter(d => !used.has(d.id));
+  }, [statements, supportingInvoices]);
+
+  const describeDoc = (id: string) => {
+    const doc = docById.get(id);
+    return doc ? `${doc.issuer} · ${doc.totalAmount.toFixed(2)} ${doc.originalCurrency} · ${doc.date}` : 'Document removed';
+  };
+
+  const renderMatch = (t: BankTransaction, idx: number) => {
+    const statementId = activeStatement!.id;
+    const match = t.match;
+    if (!match || match.status === 'unmatched') {
+      return (
+        <select
+          value=""
+          onChange={(e) => e.target.value && updateStatementData(statementId, data => assignDocuments(data, idx, [e.target.value]))}
+          className="w-full max-w-[220px] text-[10px] border border-ypsom-alice rounded-sm px-1 py-1 bg-white text-ypsom-slate"
+        >
+          <option value="">Unmatched — assign…</option>
+          {availableDocs.map(d => <option key={d.id} value={d.id}>{describeDoc(d.id)}</option>)}
+        </select>
+      );
+    }
+    return (
+      <div className="flex items-start gap-2">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-1.5">
+            <span className={`px-1.5 py-0.5 rounded-sm text-[8px] font-black uppercase tracking-widest ${match.status === 'matched' ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}>
+              {match.confirmed ? 'confirmed' : match.status}
+            </span>
+            {match.kind && match.kind !== 'one-to-one' && <span className="text-[8px] font-black uppercase text-ypsom-slate">{match.kind}</span>}
+            <span className="text-[9px] font-mono text-ypsom-slate">{Math.round(match.score * 100)}%</span>
+          </div>
+          {match.documentIds.map(id => <p key={id} className="text-[10px] font-bold text-ypsom-shadow truncate" title={docById.get(id)?.sourceFile}>{describeDoc(id)}</p>)}
+          {match.reasons.length > 0 && <p className="text-[9px] italic text-ypsom-slate">{match.reasons.join(' · ')}</p>}
+        </div>
+        {!match.confirmed && (
+          <button onClick={() => updateStatementData(statementId, data => confirmMatch(data, idx))} title="Confirm match" className="text-green-600 hover:text-green-800"><CheckCircle className="w-4 h-4" /></button>
+        )}
+        <button onClick={() => updateStatementData(statementId, (data, all) => reconcile(rejectMatch(data, idx), statementId, all))} title="Reject match" className="text-ypsom-slate hover:text-red-600"><XCircle className="w-4 h-4" /></button>
+      </div>
+    );
+  };
+
   return (
     <div 
       className={`space-y-6 relative transition-all duration-300 ${isDragging ? 'scale-[1.01]' : ''}`}
@@ -143,8 +297,8 @@ export const BankStatementAnalyzer: React.FC<BankStatementAnalyzerProps> = ({ su
                     <p className="text-sm text-ypsom-slate mb-6">Automated matching with audit evidence.</p>
                     <label className="flex items-center justify-center h-12 border-2 border-dashed border-ypsom-alice hover:bg-ypsom-alice/20 rounded-sm cursor-pointer transition-all">
                         <Upload className="w-4 h-4 mr-2 text-ypsom-slate" />
-                        <span className="text-[10px] font-black uppercase tracking-widest text-ypsom-slate">Upload Statements for Batch Linkage</span>
-                        <input type="file" className="hidden" accept="application/pdf" multiple onChange={(e) => e.target.files && addFiles(Array.from(e.target.files))} />
+                        <span className="text-[10px] font-black uppercase tracking-widest text-ypsom-slate">Upload Statements for Batch Linkage (PDF / image / camt XML / MT940 / CSV)</span>
+                        <input type="file" className="hidden" accept="application/pdf,image/*,.xml,text/xml,application/xml,.sta,.mt940,.940,.txt,.csv,text/csv" multiple onChange={(e) => e.target.files && addFiles(Array.from(e.target.files))} />
                     </label>
                 </div>
                 <div className="w-full md:w-64 flex flex-col gap-3">
@@ -153,7 +307,7 @@ export const BankStatementAnalyzer: React.FC<BankStatementAnalyzerProps> = ({ su
                         <Ban className="w-4 h-4 mr-2" /> {isStopping ? 'Stopping...' : 'Stop Linking'}
                       </button>
                     ) : (
-                      <button onClick={processQueue} disabled={stats.pending === 0} className="w-full bg-ypsom-deep text-white py-3 rounded-sm font-bold text-xs uppercase tracking-widest shadow-md flex items-center justify-center hover:bg-ypsom-shadow">
+                      <button onClick={processQueue} disabled={!uploads.some(s => s.status === 'pending' || s.status === 'error')} className="w-full bg-ypsom-deep text-white py-3 rounded-sm font-bold text-xs uppercase tracking-widest shadow-md flex items-center justify-center hover:bg-ypsom-shadow">
                         <RefreshCcw className="w-4 h-4 mr-2" /> Turbo Linking
                       </button>
                     )}
@@ -173,6 +327,15 @@ export const BankStatementAnalyzer: React.FC<BankStatementAnalyzerProps> = ({ su
             )}
         </div>
 
+        {csvQueue.length > 0 && (
+            <CsvMappingPanel
+                key={`${csvQueue[0].name}-${csvQueue[0].lastModified}`}
+                file={csvQueue[0]}
+                onImport={(result) => importCsv(csvQueue[0], result)}
+                onCancel={() => setCsvQueue(prev => prev.slice(1))}
+            />
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
             <div className="lg:col-span-1 bg-white rounded-sm border border-ypsom-alice h-fit max-h-[600px] overflow-y-auto custom-scrollbar">
                 <div className="p-4 bg-gray-50 border-b border-ypsom-alice font-bold text-[10px] text-ypsom-slate uppercase tracking-widest">Statement Queue</div>
@@ -191,6 +354,30 @@ export const BankStatementAnalyzer: React.FC<BankStatementAnalyzerProps> = ({ su
             <div className="lg:col-span-3">
                 {activeStatement && activeStatement.status === 'completed' && summary ? (
                   <div className="space-y-6">
+                     <div className="flex flex-wrap items-center gap-3 text-[9px] font-black uppercase tracking-widest text-ypsom-slate">
+                        <span className={`px-2 py-1 rounded-sm ${activeStatement.data!.source === 'ai' ? 'bg-amber-100 text-amber-700' : 'bg-emerald-100 text-emerald-700'}`}>
+                          {activeStatement.data!.source === 'ai' ? 'AI extraction' : `${activeStatement.data!.source} import`}
+                        </span>
+                        {activeStatement.data!.accountIban && <span className="font-mono">{activeStatement.data!.accountIban}</span>}
+                        {activeStatement.data!.period && <span>{activeStatement.data!.period}</span>}
+                        {activeStatement.data!.openingBalance !== undefined && <span>Opening {activeStatement.data!.openingBalance.toFixed(2)} {activeStatement.data!.currency}</span>}
+                        {activeStatement.data!.finalBalance !== undefined && <span>Closing {activeStatement.data!.finalBalance.toFixed(2)} {activeStatement.data!.currency}</span>}
+                        <span className="ml-auto flex items-center gap-2">
+                          <Link2 className="w-3 h-3" />
+                          <span className="text-green-700">{summary.matches.matched} matched</span>
+                          <span className="text-amber-600">{summary.matches.suggested} suggested</span>
+                          <span>{summary.matches.unmatched} unmatched</span>
+                        </span>
+                     </div>
+                     {balanceCheck && (
+                        <div className={`p-3 rounded-sm border text-[10px] ${balanceCheck.status === 'ok' ? 'bg-green-50 border-green-100 text-green-800' : balanceCheck.status === 'break' ? 'bg-red-50 border-red-100 text-red-700' : 'bg-amber-50 border-amber-100 text-amber-800'}`}>
+                           <p className="font-black uppercase tracking-widest text-[9px] flex items-center gap-2">
+                              <Scale className="w-3 h-3" />
+                              {balanceCheck.status === 'ok' ? 'Balance proven: opening + income − expense = closing' : balanceCheck.status === 'break' ? 'Balance break' : 'Balance not verifiable'}
+                           </p>
+                           {balanceCheck.issues.map((issue, i) => <p key={i} className="mt-1 font-bold">{issue}</p>)}
+                        </div>
+                     )}
                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                         <div className="bg-white p-4 rounded-sm border border-ypsom-alice shadow-sm">
                            <span className="text-[9px] font-black text-ypsom-slate uppercase tracking-widest">Income</span>
@@ -211,17 +398,22 @@ export const BankStatementAnalyzer: React.FC<BankStatementAnalyzerProps> = ({ su
                               <tr className="font-bold text-[9px] uppercase tracking-wider text-ypsom-slate">
                                  <th className="px-4 py-3 text-left">Date</th>
                                  <th className="px-4 py-3 text-left">Description</th>
+                                 <th className="px-4 py-3 text-left">Bank Ref</th>
                                  <th className="px-4 py-3 text-right">Amount</th>
                                  <th className="px-4 py-3 text-left">Audit Linking</th>
                               </tr>
                            </thead>
                            <tbody className="bg-white divide-y divide-ypsom-alice">
                               {activeStatement.data!.transactions.map((t, idx) => (
-                                 <tr key={idx} className={`hover:bg-ypsom-alice/5 ${t.notes ? 'bg-green-50/20' : ''}`}>
+                                 <tr key={idx} className={`hover:bg-ypsom-alice/5 ${t.match?.status === 'matched' ? 'bg-green-50/20' : t.match?.status === 'suggested' ? 'bg-amber-50/30' : ''}`}>
                                     <td className="px-4 py-3 font-mono">{t.date}</td>
-                                    <td className="px-4 py-3 font-bold">{t.description}</td>
+                                    <td className="px-4 py-3 font-bold">
+                                      {t.description}
+                                      {balanceCheck?.duplicateIndexes.includes(idx) && <span className="ml-2 px-1.5 py-0.5 bg-amber-100 text-amber-700 rounded-sm text-[8px] font-black uppercase tracking-widest">possible duplicate</span>}
+                                    </td>
+                                    <td className="px-4 py-3 font-mono text-[9px] text-ypsom-slate">{t.bankReference || <span className="opacity-20">---</span>}</td>
                                     <td className={`px-4 py-3 text-right font-mono font-bold ${t.type === 'INCOME' ? 'text-green-700' : 'text-red-600'}`}>{t.amount.toFixed(2)}</td>
-                                    <td className="px-4 py-3 text-[10px] italic">{t.notes || <span className="opacity-20">None</span>}</td>
+                                    <td className="px-4 py-3">{renderMatch(t, idx)}</td>
                                  </tr>
                               ))}
                            </tbody>
@@ -231,6 +423,39 @@ export const BankStatementAnalyzer: React.FC<BankStatementAnalyzerProps> = ({ su
                 ) : <div className="h-64 flex items-center justify-center bg-gray-50 border border-dashed border-ypsom-alice rounded-sm text-ypsom-slate/40 text-[10px] font-black uppercase tracking-widest">Select a completed analysis</div>}
             </div>
         </div>
+
+        {chains.length > 0 && (
+            <div className="bg-white rounded-sm border border-ypsom-alice shadow-sm">
+                <div className="p-4 bg-gray-50 border-b border-ypsom-alice font-bold text-[10px] text-ypsom-slate uppercase tracking-widest flex items-center gap-2"><Scale className="w-3 h-3" /> Balance Chain</div>
+                <div className="divide-y divide-ypsom-alice">
+                    {chains.map(chain => (
+                        <div key={chain.account} className="p-4 space-y-2">
+                            <p className="text-[10px] font-black uppercase tracking-widest text-ypsom-deep font-mono">{chain.account} · {chain.currency}</p>
+                            {chain.statementIds.map((id, i) => {
+                                const { label, range, statement } = chainLabel(id);
+                                const link = chain.links[i];
+                                return (
+                                    <React.Fragment key={id}>
+                                        <div className="flex items-center justify-between text-[10px]">
+                                            <span className="font-bold text-ypsom-shadow truncate">{label} <span className="font-mono text-ypsom-slate ml-2">{range}</span></span>
+                                            <span className="font-mono text-ypsom-slate whitespace-nowrap">
+                                                {statement?.openingBalance?.toFixed(2) ?? '?'} → {statement?.finalBalance?.toFixed(2) ?? '?'}
+                                            </span>
+                                        </div>
+                                        {link && (
+                                            <p className={`pl-4 text-[9px] font-bold flex items-center gap-1 ${CHAIN_LINK_STYLES[link.kind]}`}>
+                                                {link.kind === 'continuous' ? <CheckCircle className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
+                                                <span className="uppercase tracking-widest">{link.kind}</span> — {link.message}
+                                            </p>
+                                        )}
+                                    </React.Fragment>
+                                );
+                            })}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
     </div>
   );
 };
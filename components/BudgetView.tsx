@@ -0,0 +1,278 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { PiggyBank, Plus, Save, Trash2, Loader2, AlertTriangle, CheckCircle2, FileSpreadsheet, FileUp } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useClient } from '../context/ClientContext';
+import { useDocuments } from '../context/DocumentContext';
+import { useTaxonomy } from '../context/TaxonomyContext';
+import { CategoryOptions } from './CategoryTaxonomyView';
+import {
+  EMPTY_BUDGET,
+  budgetCategoryMatcher,
+  budgetProgress,
+  budgetYearOf,
+  getBudget,
+  newBudgetLineId,
+  saveBudget,
+} from '../services/budgetService';
+import { trendItemsOf } from '../services/trendService';
+import { fiscalYearLabel } from '../services/periodService';
+import { exportBudget, readBudgetWorkbook } from '../services/excelService';
+import type { BudgetLine, BudgetPeriod, ClientBudget } from '../types';
+
+const inputClass = 'h-8 px-2 bg-white border border-ypsom-alice rounded-sm text-[10px] font-bold outline-none focus:border-ypsom-deep';
+
+const formatAmount = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Per-client budgets by category and fiscal year, against the actuals of the extracted documents.
+ */
+export const BudgetView: React.FC = () => {
+  const { user } = useAuth();
+  const { currentClient, can } = useClient();
+  const { documents } = useDocuments();
+  const { taxonomy, labelOf } = useTaxonomy();
+  const [budget, setBudget] = useState<ClientBudget>(EMPTY_BUDGET);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const profile = currentClient?.profile;
+  const [year, setYear] = useState(() => (profile ? budgetYearOf(profile) : new Date().getFullYear()));
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!currentClient?.id) return;
+    setLoading(true);
+    getBudget(currentClient.id)
+      .then(setBudget)
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [currentClient?.id]);
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  const progress = useMemo(
+    () => (profile ? budgetProgress(budget, trendItemsOf(documents, currentClient?.name || ''), profile, today, budgetCategoryMatcher(taxonomy)) : []),
+    [budget, documents, profile, today, taxonomy, currentClient?.name]
+  );
+
+  const years = useMemo(() => {
+    const current = profile ? budgetYearOf(profile) : new Date().getFullYear();
+    return Array.from(new Set([current - 1, current, current + 1, ...budget.lines.map(l => l.year)])).sort();
+  }, [budget.lines, profile]);
+
+  const rows = progress.filter(p => p.line.year === year);
+  const totals = (['expense', 'income'] as const).map(kind => {
+    const ofKind = rows.filter(r => r.line.kind === kind);
+    return {
+      kind,
+      budget: ofKind.reduce((s, r) => s + r.budget, 0),
+      actual: ofKind.reduce((s, r) => s + r.actual, 0),
+      projected: ofKind.reduce((s, r) => s + r.projected, 0),
+      count: ofKind.length,
+    };
+  });
+
+  const canEdit = can('edit');
+
+  const update = (next: ClientBudget) => {
+    setBudget(next);
+    setDirty(true);
+  };
+
+  const updateLine = (id: string, patch: Partial<BudgetLine>) =>
+    update({ ...budget, lines: budget.lines.map(l => (l.id === id ? { ...l, ...patch } : l)) });
+
+  const addLine = () =>
+    update({ ...budget, lines: [...budget.lines, { id: newBudgetLineId(), year, category: '', kind: 'expense', period: 'year', amount: 0 }] });
+
+  const save = async () => {
+    if (!user?.uid || !currentClient?.id) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await saveBudget(user.uid, currentClient.id, budget);
+      setDirty(false);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // An imported workbook replaces the budget; nothing is stored until it is saved.
+  const importWorkbook = async (file: File) => {
+    setError(null);
+    try {
+      update(await readBudgetWorkbook(file, taxonomy));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  if (loading || !profile) {
+    return <div className="py-20 text-center"><Loader2 className="w-8 h-8 animate-spin text-ypsom-deep/20 mx-auto" /></div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-sm shadow-sm border border-ypsom-alice flex flex-col md:flex-row md:items-center gap-4">
+        <div className="flex-1">
+          <h2 className="text-xl font-bold text-ypsom-deep mb-1 flex items-center"><PiggyBank className="w-6 h-6 mr-2" /> Budget vs Actual</h2>
+          <p className="text-sm text-ypsom-slate">
+            Yearly or monthly budgets per category. The year-end is projected at the current burn rate; lines projected beyond the threshold are flagged in Intelligence.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={year} onChange={e => setYear(Number(e.target.value))} className={inputClass}>
+            {years.map(y => <option key={y} value={y}>FY {fiscalYearLabel(profile, y)}</option>)}
+          </select>
+          <label className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-ypsom-slate">
+            Alert at ±
+            <input
+              type="number"
+              min={0}
+              value={budget.alertThreshold}
+              disabled={!canEdit}
+              onChange={e => update({ ...budget, alertThreshold: Number(e.target.value) || 0 })}
+              className={`${inputClass} w-14`}
+            />
+            %
+          </label>
+          <button
+            onClick={() => exportBudget(budget, progress, taxonomy, currentClient?.name || 'Client')}
+            className="h-9 px-4 bg-white border border-ypsom-alice text-ypsom-deep rounded-sm text-[10px] font-black uppercase tracking-widest flex items-center gap-1 hover:bg-gray-50"
+          >
+            <FileSpreadsheet className="w-3.5 h-3.5" /> Export
+          </button>
+          {canEdit && (
+            <>
+              <button onClick={() => fileInputRef.current?.click()} className="h-9 px-4 bg-white border border-ypsom-alice text-ypsom-deep rounded-sm text-[10px] font-black uppercase tracking-widest flex items-center gap-1 hover:bg-gray-50">
+                <FileUp className="w-3.5 h-3.5" /> Import
+              </button>
+              <input
+                type="file"
+                ref={fileInputRef}
+                accept=".xlsx,.xls"
+                className="hidden"
+                onChange={e => {
+                  if (e.target.files?.[0]) importWorkbook(e.target.files[0]);
+                  e.target.value = '';
+                }}
+              />
+              {!dirty && !error && budget.lines.length > 0 && <span className="text-[10px] font-bold text-green-700 flex items-center gap-1"><CheckCircle2 className="w-3.5 h-3.5" /> Saved</span>}
+              <button onClick={addLine} className="h-9 px-4 bg-ypsom-alice text-ypsom-deep rounded-sm text-[10px] font-black uppercase tracking-widest flex items-center gap-1 hover:bg-ypsom-alice/70">
+                <Plus className="w-3.5 h-3.5" /> Add Line
+              </button>
+              <button onClick={save} disabled={saving || !dirty} className="h-9 px-4 bg-ypsom-deep text-white rounded-sm text-[10px] font-black uppercase tracking-widest flex items-center gap-1 hover:bg-ypsom-shadow disabled:opacity-50">
+                {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />} Save
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 text-red-700 text-[10px] font-black uppercase tracking-widest flex items-center gap-2 rounded-sm">
+          <AlertTriangle className="w-4 h-4 shrink-0" /> {error}
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {totals.filter(t => t.count > 0).map(t => (
+            <div key={t.kind} className="bg-white p-5 rounded-sm border border-ypsom-alice shadow-sm">
+              <span className="text-[10px] font-black uppercase text-ypsom-slate tracking-widest">{t.kind === 'expense' ? 'Expense' : 'Income'} budget FY {fiscalYearLabel(profile, year)}</span>
+              <div className="mt-3 flex items-end justify-between gap-4">
+                <div>
+                  <p className="text-xl font-black text-ypsom-deep font-mono leading-none">{formatAmount(t.actual)} <span className="text-xs opacity-40">/ {formatAmount(t.budget)} CHF</span></p>
+                  <p className="text-[9px] font-bold text-ypsom-slate mt-1">Projected year-end {formatAmount(t.projected)} CHF</p>
+                </div>
+                <span className="text-lg font-black font-mono text-ypsom-deep">{t.budget ? `${Math.round((t.actual / t.budget) * 100)}%` : '—'}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <div className="bg-white py-16 text-center border border-ypsom-alice rounded-sm text-[10px] font-black uppercase tracking-widest text-ypsom-slate opacity-40">
+          No budget for FY {fiscalYearLabel(profile, year)} yet.
+        </div>
+      ) : (
+        <div className="bg-white border border-ypsom-alice rounded-sm shadow-sm overflow-x-auto">
+          <table className="min-w-full text-[10px]">
+            <thead className="bg-gray-50 border-b border-ypsom-alice">
+              <tr className="text-[8px] font-black uppercase tracking-widest text-ypsom-slate">
+                <th className="px-3 py-3 text-left">Category</th>
+                <th className="px-3 py-3 text-left">Type</th>
+                <th className="px-3 py-3 text-left">Per</th>
+                <th className="px-3 py-3 text-right">Amount</th>
+                <th className="px-3 py-3 text-right">Annual</th>
+                <th className="px-3 py-3 text-right">Budget to Date</th>
+                <th className="px-3 py-3 text-right">Actual</th>
+                <th className="px-3 py-3 text-right">Variance</th>
+                <th className="px-3 py-3 text-right">Burn / Month</th>
+                <th className="px-3 py-3 text-right">Projected</th>
+                <th className="px-3 py-3 w-8"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-ypsom-alice">
+              {rows.map(p => {
+                const { line } = p;
+                const over = line.kind === 'expense' ? p.variance > 0 : p.variance < 0;
+                return (
+                  <tr key={line.id} className={p.alert ? 'bg-red-50/40' : ''}>
+                    <td className="px-3 py-2">
+                      <select value={line.category} disabled={!canEdit} onChange={e => updateLine(line.id, { category: e.target.value })} className={`${inputClass} w-full min-w-[160px]`}>
+                        <option value="">-- Category --</option>
+                        <CategoryOptions taxonomy={taxonomy} value={line.category} />
+                      </select>
+                      <div className="mt-1 h-1 bg-gray-100 rounded-full overflow-hidden">
+                        <div className={`h-full ${p.alert ? 'bg-red-500' : 'bg-ypsom-deep'}`} style={{ width: `${Math.min(100, p.budget ? (p.actual / p.budget) * 100 : 0)}%` }} />
+                      </div>
+                    </td>
+                    <td className="px-3 py-2">
+                      <select value={line.kind} disabled={!canEdit} onChange={e => updateLine(line.id, { kind: e.target.value as BudgetLine['kind'] })} className={inputClass}>
+                        <option value="expense">Expense</option>
+                        <option value="income">Income</option>
+                      </select>
+                    </td>
+                    <td className="px-3 py-2">
+                      <select value={line.period} disabled={!canEdit} onChange={e => updateLine(line.id, { period: e.target.value as BudgetPeriod })} className={inputClass}>
+                        <option value="year">Year</option>
+                        <option value="month">Month</option>
+                      </select>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <input type="number" min={0} step="0.01" value={line.amount} disabled={!canEdit} onChange={e => updateLine(line.id, { amount: parseFloat(e.target.value) || 0 })} className={`${inputClass} w-28 text-right font-mono`} />
+                    </td>
+                    <td className="px-3 py-2 text-right font-mono">{formatAmount(p.budget)}</td>
+                    <td className="px-3 py-2 text-right font-mono">{formatAmount(p.budgetToDate)}</td>
+                    <td className="px-3 py-2 text-right font-mono font-black text-ypsom-deep">{formatAmount(p.actual)}</td>
+                    <td className={`px-3 py-2 text-right font-mono ${p.variance === 0 ? '' : over ? 'text-red-600' : 'text-emerald-600'}`}>
+                      {p.variance > 0 ? '+' : ''}{formatAmount(p.variance)}
+                      {p.variancePercent !== null && <span className="opacity-60"> ({p.variancePercent > 0 ? '+' : ''}{p.variancePercent.toFixed(1)}%)</span>}
+                    </td>
+                    <td className="px-3 py-2 text-right font-mono">{formatAmount(p.burnRate)}</td>
+                    <td className={`px-3 py-2 text-right font-mono ${p.alert ? 'text-red-600 font-black' : ''}`}>
+                      {p.alert && <AlertTriangle className="w-3 h-3 inline mr-1 align-text-top" />}
+                      {formatAmount(p.projected)}
+                    </td>
+                    <td className="px-3 py-2 text-center">
+                      {canEdit && (
+                        <button onClick={() => update({ ...budget, lines: budget.lines.filter(l => l.id !== line.id) })} className="p-1 text-ypsom-slate hover:text-red-600" title={`Remove ${labelOf(line.category)}`}>
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,302 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Tags, Plus, Save, Trash2, Loader2, AlertTriangle, CheckCircle2, PencilLine, Merge,
+  Users, Wallet, Bookmark, Building2, Wrench, Package, Code2, Shield, Plane, Coffee, Monitor, Landmark,
+  Banknote, ShoppingBag, Scissors, HeartPulse, ShoppingCart, Tag, Car, Briefcase, Gift, Truck, Megaphone,
+  type LucideIcon,
+} from 'lucide-react';
+import { useClient } from '../context/ClientContext';
+import { useDocuments } from '../context/DocumentContext';
+import { useTaxonomy, type RetagResult } from '../context/TaxonomyContext';
+import { categoryLabel, categoryTree, resolveCategory } from '../services/taxonomyService';
+import type { CategoryColor, CategoryTaxonomy, FinancialData, TaxonomyCategory } from '../types';
+
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  Users, Wallet, Bookmark, Building2, Wrench, Package, Code2, Shield, Plane, Coffee, Monitor, Landmark,
+  Banknote, ShoppingBag, Scissors, HeartPulse, ShoppingCart, Tag, Car, Briefcase, Gift, Truck, Megaphone,
+};
+
+const COLORS: CategoryColor[] = ['emerald', 'indigo', 'pink', 'blue', 'purple', 'red', 'cyan', 'orange', 'slate', 'amber', 'teal', 'gray', 'lime', 'rose'];
+
+export const categoryIcon = (category: TaxonomyCategory | undefined): LucideIcon =>
+  (category && CATEGORY_ICONS[category.icon]) || Tag;
+
+/**
+ * `<option>`s of a category select, grouped. A value the taxonomy does not know (a former id, a typed-in
+ * category) is listed too so the select still shows it.
+ */
+export const CategoryOptions: React.FC<{ taxonomy: CategoryTaxonomy; value?: string }> = ({ taxonomy, value }) => (
+  <>
+    {categoryTree(taxonomy).map(({ group, children }) =>
+      children.length ? (
+        <optgroup key={group.id} label={group.label}>
+          {children.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+        </optgroup>
+      ) : (
+        <option key={group.id} value={group.id}>{group.label}</option>
+      )
+    )}
+    {value && !taxonomy.categories.some(c => c.id === value) && <option value={value}>{categoryLabel(taxonomy, value)}</option>}
+  </>
+);
+
+const categoriesOf = (data: FinancialData): (string | undefined)[] => [
+  data.expenseCategory,
+  ...(data.lineItems || []).map(t => t.category),
+  ...(data.subDocuments || []).flatMap(categoriesOf),
+];
+
+const inputClass = 'h-8 px-2 bg-white border border-ypsom-alice rounded-sm text-[10px] font-bold outline-none focus:border-ypsom-deep';
+
+type PendingAction = { id: string; kind: 'rename' | 'merge'; value: string };
+
+/**
+ * The client's categories: groups, icons, colours and deductibility. Renaming or merging a category
+ * re-tags the documents, rules and account mapping that use it.
+ */
+export const CategoryTaxonomyView: React.FC = () => {
+  const { can } = useClient();
+  const { documents } = useDocuments();
+  const { taxonomy, saveTaxonomy, renameCategory, mergeCategory } = useTaxonomy();
+  const [draft, setDraft] = useState<CategoryTaxonomy>(taxonomy);
+  const [unsaved, setUnsaved] = useState<Set<string>>(new Set());
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(taxonomy);
+    setUnsaved(new Set());
+  }, [taxonomy]);
+
+  const dirty = draft !== taxonomy;
+  const canEdit = can('edit');
+
+  // Documents carrying each category (on the document, a ticket or a bank line), by resolved id.
+  const usage = useMemo(() => {
+    const counts: Record<string, number> = {};
+    documents.forEach(d => {
+      if (!d.data) return;
+      const ids = new Set(categoriesOf(d.data).map(value => resolveCategory(taxonomy, value)?.id).filter(Boolean) as string[]);
+      ids.forEach(id => (counts[id] = (counts[id] || 0) + 1));
+    });
+    return counts;
+  }, [documents, taxonomy]);
+
+  const update = (id: string, patch: Partial<TaxonomyCategory>) =>
+    setDraft(prev => ({ categories: prev.categories.map(c => (c.id === id ? { ...c, ...patch } : c)) }));
+
+  const add = (parentId?: string) => {
+    const parent = draft.categories.find(c => c.id === parentId);
+    let n = 1;
+    while (draft.categories.some(c => c.id === `New category ${n}`)) n++;
+    const id = `New category ${n}`;
+    setUnsaved(prev => new Set(prev).add(id));
+    setDraft(prev => ({
+      categories: [
+        ...prev.categories,
+        { id, label: id, ...(parent && { parentId: parent.id }), icon: parent?.icon || 'Tag', color: parent?.color || 'slate', deductible: parent?.deductible ?? true },
+      ],
+    }));
+  };
+
+  // New categories take their id from the name until saved; afterwards only a rename changes it.
+  const renameUnsaved = (id: string, label: string) => {
+    setUnsaved(prev => new Set([...prev].map(u => (u === id ? label : u))));
+    setDraft(prev => ({
+      categories: prev.categories.map(c =>
+        c.id === id ? { ...c, id: label, label } : c.parentId === id ? { ...c, parentId: label } : c
+      ),
+    }));
+  };
+
+  const remove = (id: string) => setDraft(prev => ({ categories: prev.categories.filter(c => c.id !== id) }));
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const describe = (result: RetagResult) =>
+    `${result.retagged} document(s) re-tagged.` +
+    (result.skipped.length ? ` Not fully processed (closed periods, refused writes): ${result.skipped.join(', ')}.` : '');
+
+  const submitPending = () =>
+    run(async () => {
+      if (!pending) return;
+      const result = pending.kind === 'rename' ? await renameCategory(pending.id, pending.value) : await mergeCategory(pending.id, pending.value);
+      setPending(null);
+      setNotice(describe(result));
+    });
+
+  const groups = draft.categories.filter(c => !c.parentId);
+
+  const renderRow = (category: TaxonomyCategory, isGroup: boolean) => {
+    const Icon = categoryIcon(category);
+    const isNew = unsaved.has(category.id);
+    const children = draft.categories.filter(c => c.parentId === category.id);
+    const used = usage[category.id] || 0;
+    const isPending = pending?.id === category.id;
+    return (
+      <React.Fragment key={category.id}>
+        <tr className={isGroup ? 'bg-gray-50/70' : ''}>
+          <td className={`px-3 py-2 ${isGroup ? '' : 'pl-8'}`}>
+            <div className="flex items-center gap-2">
+              <span className={`p-1.5 rounded-sm bg-${category.color}-50 text-${category.color}-600`}><Icon className="w-3.5 h-3.5" /></span>
+              {isNew ? (
+                <input value={category.label} onChange={e => renameUnsaved(category.id, e.target.value)} className={`${inputClass} w-44`} />
+              ) : (
+                <span className={`text-[11px] ${isGroup ? 'font-black uppercase tracking-widest' : 'font-bold'} text-ypsom-deep`}>{category.label}</span>
+              )}
+            </div>
+          </td>
+          <td className="px-3 py-2">
+            <select value={category.icon} onChange={e => update(category.id, { icon: e.target.value })} className={inputClass}>
+              {Object.keys(CATEGORY_ICONS).map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </td>
+          <td className="px-3 py-2">
+            <select value={category.color} onChange={e => update(category.id, { color: e.target.value as CategoryColor })} className={inputClass}>
+              {COLORS.map(color => <option key={color} value={color}>{color}</option>)}
+            </select>
+          </td>
+          <td className="px-3 py-2">
+            <select
+              value={category.parentId || ''}
+              onChange={e => update(category.id, { parentId: e.target.value || undefined })}
+              disabled={children.length > 0}
+              className={inputClass}
+            >
+              <option value="">— top level —</option>
+              {groups.filter(g => g.id !== category.id).map(g => <option key={g.id} value={g.id}>{g.label}</option>)}
+            </select>
+          </td>
+          <td className="px-3 py-2 text-center">
+            <input type="checkbox" checked={category.deductible} onChange={e => update(category.id, { deductible: e.target.checked })} />
+          </td>
+          <td className="px-3 py-2">
+            <input value={category.hint || ''} onChange={e => update(category.id, { hint: e.target.value || undefined })} placeholder="e.g. Fuel stations, garages" className={`${inputClass} w-full`} />
+          </td>
+          <td className="px-3 py-2 text-right font-mono text-[10px]">{used}</td>
+          <td className="px-3 py-2 text-right whitespace-nowrap">
+            {canEdit && !isNew && (
+              <>
+                <button onClick={() => setPending({ id: category.id, kind: 'rename', value: category.label })} disabled={dirty || busy} title={dirty ? 'Save changes first' : 'Rename'} className="p-1 text-ypsom-slate hover:text-ypsom-deep disabled:opacity-20"><PencilLine className="w-3.5 h-3.5" /></button>
+                <button onClick={() => setPending({ id: category.id, kind: 'merge', value: '' })} disabled={dirty || busy} title={dirty ? 'Save changes first' : 'Merge into…'} className="p-1 text-ypsom-slate hover:text-ypsom-deep disabled:opacity-20"><Merge className="w-3.5 h-3.5" /></button>
+              </>
+            )}
+            {canEdit && (
+              <button
+                onClick={() => remove(category.id)}
+                disabled={used > 0 || children.length > 0 || busy}
+                title={used > 0 ? 'In use; merge it into another category instead' : children.length > 0 ? 'Move or remove its categories first' : 'Remove'}
+                className="p-1 text-ypsom-slate hover:text-red-600 disabled:opacity-20"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </td>
+        </tr>
+        {isPending && (
+          <tr className="bg-ypsom-alice/20">
+            <td colSpan={8} className="px-8 py-3">
+              <div className="flex flex-col sm:flex-row gap-2 items-stretch sm:items-center">
+                <span className="text-[10px] font-bold text-ypsom-deep whitespace-nowrap">
+                  {pending.kind === 'rename' ? `Rename ${category.label} to` : `Merge ${category.label} into`}
+                </span>
+                {pending.kind === 'rename' ? (
+                  <input autoFocus value={pending.value} onChange={e => setPending({ ...pending, value: e.target.value })} className={`${inputClass} flex-1 h-9`} />
+                ) : (
+                  <select value={pending.value} onChange={e => setPending({ ...pending, value: e.target.value })} className={`${inputClass} flex-1 h-9`}>
+                    <option value="">Choose a category…</option>
+                    {draft.categories.filter(c => c.id !== category.id && c.parentId !== category.id).map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                  </select>
+                )}
+                <button onClick={submitPending} disabled={busy || !pending.value.trim()} className="h-9 px-4 bg-ypsom-deep text-white rounded-sm text-[9px] font-black uppercase tracking-widest disabled:opacity-50 flex items-center gap-1">
+                  {busy && <Loader2 className="w-3 h-3 animate-spin" />} Confirm
+                </button>
+                <button onClick={() => setPending(null)} className="h-9 px-4 text-ypsom-slate text-[9px] font-black uppercase tracking-widest hover:text-ypsom-deep">Cancel</button>
+              </div>
+              <p className="mt-2 text-[9px] text-ypsom-slate">Documents, rules and the account mapping using it are re-tagged; documents in closed periods keep their category.</p>
+            </td>
+          </tr>
+        )}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-sm shadow-sm border border-ypsom-alice overflow-hidden">
+      <div className="p-6 flex flex-col md:flex-row md:items-center gap-4 border-b border-ypsom-alice">
+        <div className="flex-1">
+          <h3 className="text-sm font-bold text-ypsom-deep flex items-center"><Tags className="w-4 h-4 mr-2" /> Categories</h3>
+          <p className="text-[10px] text-ypsom-slate mt-1">Used by the extraction, the category selects, insights and exports. Hints tell the extraction what belongs where.</p>
+        </div>
+        {canEdit && (
+          <div className="flex items-center gap-2">
+            <button onClick={() => add()} className="h-9 px-3 bg-ypsom-alice text-ypsom-deep rounded-sm text-[9px] font-black uppercase tracking-widest flex items-center gap-1 hover:bg-ypsom-alice/70">
+              <Plus className="w-3.5 h-3.5" /> Category
+            </button>
+            <button onClick={() => run(() => saveTaxonomy(draft))} disabled={busy || !dirty} className="h-9 px-4 bg-ypsom-deep text-white rounded-sm text-[9px] font-black uppercase tracking-widest flex items-center gap-1 hover:bg-ypsom-shadow disabled:opacity-50">
+              {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />} Save
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <p className="m-4 p-3 bg-red-50 border border-red-200 text-red-700 text-[10px] font-black uppercase tracking-widest flex items-center gap-2 rounded-sm">
+          <AlertTriangle className="w-4 h-4 shrink-0" /> {error}
+        </p>
+      )}
+      {notice && (
+        <p className="m-4 p-3 bg-green-50 border border-green-200 text-green-800 text-[10px] font-bold flex items-center gap-2 rounded-sm">
+          <CheckCircle2 className="w-4 h-4 shrink-0" /> {notice}
+        </p>
+      )}
+
+      <fieldset disabled={!canEdit} className="overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-50">
+            <tr className="text-[9px] font-black uppercase tracking-widest text-ypsom-slate text-left">
+              <th className="px-3 py-3">Category</th>
+              <th className="px-3 py-3">Icon</th>
+              <th className="px-3 py-3">Colour</th>
+              <th className="px-3 py-3">Group</th>
+              <th className="px-3 py-3 text-center">Deductible</th>
+              <th className="px-3 py-3">Extraction Hint</th>
+              <th className="px-3 py-3 text-right">Documents</th>
+              <th className="px-3 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-ypsom-alice">
+            {groups.map(group => (
+              <React.Fragment key={group.id}>
+                {renderRow(group, true)}
+                {draft.categories.filter(c => c.parentId === group.id).map(c => renderRow(c, false))}
+                {canEdit && (
+                  <tr>
+                    <td colSpan={8} className="pl-8 py-1">
+                      <button onClick={() => add(group.id)} className="text-[9px] font-black uppercase tracking-widest text-ypsom-slate hover:text-ypsom-deep flex items-center gap-1">
+                        <Plus className="w-3 h-3" /> Add to {group.label}
+                      </button>
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </fieldset>
+    </div>
+  );
+};
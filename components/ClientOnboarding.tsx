@@ -1,12 +1,62 @@
-import React, { useState } from 'react';
-import { Building2, Plus, ChevronRight, User } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Building2, Plus, ChevronRight, User, Mail, Check, X, Archive } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
 import { useClient } from '../context/ClientContext';
-import type { Client } from '../types';
+import {
+  ROLE_LABELS,
+  acceptInvitation,
+  canPerform,
+  getFirm,
+  getInvitationsForEmail,
+  getUserMemberships,
+  revokeInvitation,
+} from '../services/firmService';
+import type { Client, Firm, FirmInvitation } from '../types';
 
 export function ClientOnboarding() {
-  const { clients, currentClient, setCurrentClient, addClient, loading, error } = useClient();
+  const { user } = useAuth();
+  const { clients, currentClient, setCurrentClient, addClient, refreshClients, loading, error } = useClient();
   const [newName, setNewName] = useState('');
   const [submitting, setSubmitting] = useState(false);
+  const [invitations, setInvitations] = useState<FirmInvitation[]>([]);
+  // Firms the user may add clients to; firm names also label the client list
+  const [firms, setFirms] = useState<{ firm: Firm; canAdd: boolean }[]>([]);
+  const [firmId, setFirmId] = useState('');
+  const [inviteError, setInviteError] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const loadFirms = async () => {
+    if (!user?.uid) return;
+    const memberships = await getUserMemberships(user.uid);
+    const loaded = await Promise.all(
+      memberships.map(async (m) => ({ firm: await getFirm(m.firmId), canAdd: canPerform(m.role, 'manageClients') }))
+    );
+    setFirms(loaded.filter((f): f is { firm: Firm; canAdd: boolean } => f.firm !== null));
+  };
+
+  useEffect(() => {
+    if (!user?.uid) return;
+    loadFirms().catch(() => setFirms([]));
+    if (user.email) getInvitationsForEmail(user.email).then(setInvitations).catch(() => setInvitations([]));
+  }, [user?.uid, user?.email]);
+
+  const handleInvitation = async (invitation: FirmInvitation, accept: boolean) => {
+    if (!user?.uid || !user.email) return;
+    setInviteError(null);
+    try {
+      if (accept) await acceptInvitation(user.uid, user.email, invitation);
+      else await revokeInvitation(invitation);
+      setInvitations((prev) => prev.filter((i) => i.id !== invitation.id));
+      if (accept) await Promise.all([loadFirms(), refreshClients()]);
+    } catch (err) {
+      setInviteError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const firmName = (client: Client) => firms.find((f) => f.firm.id === client.firm_id)?.firm.name;
+
+  const activeClients = clients.filter((c) => !c.archived_at);
+  const archivedClients = clients.filter((c) => c.archived_at);
 
   const handleAddClient = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -14,7 +64,7 @@ export function ClientOnboarding() {
     if (!name) return;
     setSubmitting(true);
     try {
-      await addClient(name);
+      await addClient(name, firmId || undefined);
       setNewName('');
     } finally {
       setSubmitting(false);
@@ -25,6 +75,28 @@ export function ClientOnboarding() {
     setCurrentClient(client);
   };
 
+  const renderClient = (client: Client) => (
+    <li key={client.id}>
+      <button
+        type="button"
+        onClick={() => handleSelectClient(client)}
+        className={`w-full flex items-center justify-between px-4 py-3 rounded-sm border text-left transition-colors ${
+          currentClient?.id === client.id
+            ? 'border-ypsom-deep bg-ypsom-deep/5 text-ypsom-deep'
+            : 'border-ypsom-alice hover:border-ypsom-deep/30 hover:bg-gray-50'
+        }`}
+      >
+        <span className="font-bold text-sm text-ypsom-deep">
+          {client.name}
+          {client.firm_id && (
+            <span className="ml-2 text-[9px] font-black uppercase tracking-widest text-ypsom-slate">{firmName(client) || 'Firm'}</span>
+          )}
+        </span>
+        <ChevronRight className="w-4 h-4 text-ypsom-slate" />
+      </button>
+    </li>
+  );
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center p-6">
@@ -60,8 +132,31 @@ export function ClientOnboarding() {
             </h1>
           </div>
 
-          {error && (
-            <p className="text-xs text-red-600 font-medium mb-4">{error}</p>
+          {(error || inviteError) && (
+            <p className="text-xs text-red-600 font-medium mb-4">{error || inviteError}</p>
+          )}
+
+          {invitations.length > 0 && (
+            <div className="mb-6 space-y-2">
+              {invitations.map((inv) => (
+                <div key={inv.id} className="flex items-center justify-between gap-3 px-4 py-3 border border-ypsom-deep/20 bg-ypsom-alice/30 rounded-sm">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Mail className="w-4 h-4 text-ypsom-deep shrink-0" />
+                    <span className="text-xs text-ypsom-deep truncate">
+                      Join <strong>{inv.firmName}</strong> as {ROLE_LABELS[inv.role]}
+                    </span>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <button type="button" onClick={() => handleInvitation(inv, true)} className="p-1.5 rounded-sm bg-ypsom-deep text-white hover:bg-ypsom-deep/90" title="Accept">
+                      <Check className="w-3.5 h-3.5" />
+                    </button>
+                    <button type="button" onClick={() => handleInvitation(inv, false)} className="p-1.5 rounded-sm text-ypsom-slate hover:bg-red-50 hover:text-red-600" title="Decline">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
           )}
 
           <form onSubmit={handleAddClient} className="mb-6">
@@ -87,33 +182,43 @@ export function ClientOnboarding() {
                 <Plus className="w-4 h-4" /> Add
               </button>
             </div>
+            {firms.some((f) => f.canAdd) && (
+              <select
+                value={firmId}
+                onChange={(e) => setFirmId(e.target.value)}
+                className="mt-2 w-full px-3 py-2 border border-ypsom-alice rounded-sm text-xs text-ypsom-deep focus:outline-none focus:border-ypsom-deep"
+              >
+                <option value="">Personal client</option>
+                {firms.filter((f) => f.canAdd).map(({ firm }) => (
+                  <option key={firm.id} value={firm.id}>Shared with {firm.name}</option>
+                ))}
+              </select>
+            )}
           </form>
 
-          {clients.length > 0 && (
+          {activeClients.length > 0 && (
             <>
               <p className="text-[10px] font-bold uppercase tracking-widest text-ypsom-slate mb-3">
                 Or select existing client
               </p>
               <ul className="space-y-1">
-                {clients.map((client) => (
-                  <li key={client.id}>
-                    <button
-                      type="button"
-                      onClick={() => handleSelectClient(client)}
-                      className={`w-full flex items-center justify-between px-4 py-3 rounded-sm border text-left transition-colors ${
-                        currentClient?.id === client.id
-                          ? 'border-ypsom-deep bg-ypsom-deep/5 text-ypsom-deep'
-                          : 'border-ypsom-alice hover:border-ypsom-deep/30 hover:bg-gray-50'
-                      }`}
-                    >
-                      <span className="font-bold text-sm text-ypsom-deep">{client.name}</span>
-                      <ChevronRight className="w-4 h-4 text-ypsom-slate" />
-                    </button>
-                  </li>
-                ))}
+                {activeClients.map(renderClient)}
               </ul>
             </>
           )}
+
+          {archivedClients.length > 0 && (
+            <div className="mt-6">
+              <button
+                type="button"
+                onClick={() => setShowArchived((v) => !v)}
+                className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest text-ypsom-slate hover:text-ypsom-deep mb-3"
+              >
+                <Archive className="w-3.5 h-3.5" /> {showArchived ? 'Hide' : 'Show'} archived clients ({archivedClients.length})
+              </button>
+              {showArchived && <ul className="space-y-1 opacity-70">{archivedClients.map(renderClient)}</ul>}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import { Building2, Save, Archive, ArchiveRestore, Trash2, Loader2, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { useClient } from '../context/ClientContext';
+import type { ClientProfile, LegalForm, VatMethod, VatPeriodKind } from '../types';
+
+const LEGAL_FORMS: Record<LegalForm, string> = {
+  'sole-proprietorship': 'Sole proprietorship (Einzelunternehmen)',
+  partnership: 'Partnership (Kollektivgesellschaft)',
+  gmbh: 'GmbH / Sàrl',
+  ag: 'AG / SA',
+  association: 'Association (Verein)',
+  foundation: 'Foundation (Stiftung)',
+  other: 'Other',
+};
+
+export const VAT_METHODS: Record<VatMethod, string> = {
+  effective: 'Effective method',
+  'net-tax-rate': 'Net tax rate method (Saldosteuersatz)',
+  'flat-tax-rate': 'Flat tax rate method (Pauschalsteuersatz)',
+  'not-registered': 'Not registered for VAT',
+};
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const CURRENCIES = ['CHF', 'EUR', 'USD'];
+
+const inputClass = 'w-full h-10 px-3 bg-gray-50 border border-ypsom-alice rounded-sm text-xs font-bold outline-none focus:border-ypsom-deep disabled:opacity-60';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block">
+    <span className="text-[9px] font-black uppercase tracking-widest text-ypsom-slate block mb-1">{label}</span>
+    {children}
+  </label>
+);
+
+/**
+ * Master data and lifecycle of the current client: rename, profile, archive/restore and delete.
+ */
+export const ClientProfileView: React.FC = () => {
+  const { currentClient, can, updateClient, archiveClient, removeClient } = useClient();
+  const [name, setName] = useState('');
+  const [profile, setProfile] = useState<ClientProfile | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [confirmName, setConfirmName] = useState('');
+
+  useEffect(() => {
+    setName(currentClient?.name || '');
+    setProfile(currentClient?.profile || null);
+    setConfirmName('');
+  }, [currentClient?.id]);
+
+  if (!currentClient || !profile) return null;
+
+  const canManage = can('manageClients');
+  const isArchived = !!currentClient.archived_at;
+
+  const set = <K extends keyof ClientProfile>(key: K, value: ClientProfile[K]) => {
+    setSaved(false);
+    setProfile(prev => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await updateClient(currentClient.id, { name, profile });
+      setSaved(true);
+    });
+  };
+
+  const handleDelete = () => run(() => removeClient(currentClient.id));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+      <form onSubmit={handleSave} className="lg:col-span-8 bg-white p-6 rounded-sm shadow-sm border border-ypsom-alice space-y-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-bold text-ypsom-deep flex items-center"><Building2 className="w-4 h-4 mr-2" /> Company</h3>
+          {isArchived && <span className="text-[9px] font-black uppercase tracking-widest text-amber-700 bg-amber-50 px-2 py-1 rounded-sm">Archived {currentClient.archived_at!.split('T')[0]}</span>}
+        </div>
+        {error && (
+          <p className="p-3 bg-red-50 border border-red-200 text-red-700 text-[10px] font-black uppercase tracking-widest flex items-center gap-2 rounded-sm">
+            <AlertTriangle className="w-4 h-4 shrink-0" /> {error}
+          </p>
+        )}
+        <fieldset disabled={!canManage || busy} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Field label="Name">
+              <input value={name} onChange={e => { setSaved(false); setName(e.target.value); }} className={inputClass} />
+            </Field>
+            <Field label="Legal Form">
+              <select value={profile.legalForm} onChange={e => set('legalForm', e.target.value as LegalForm)} className={inputClass}>
+                {Object.entries(LEGAL_FORMS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+              </select>
+            </Field>
+            <Field label="UID">
+              <input value={profile.uid} onChange={e => set('uid', e.target.value)} placeholder="CHE-123.456.789" className={inputClass} />
+            </Field>
+            <Field label="VAT Number">
+              <input value={profile.vatNumber} onChange={e => set('vatNumber', e.target.value)} placeholder="CHE-123.456.789 MWST" className={inputClass} />
+            </Field>
+          </div>
+
+          <div>
+            <h4 className="text-[10px] font-black uppercase tracking-widest text-ypsom-deep mb-3">Accounting</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Field label="VAT Method">
+                <select value={profile.vatMethod} onChange={e => set('vatMethod', e.target.value as VatMethod)} className={inputClass}>
+                  {Object.entries(VAT_METHODS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+              </Field>
+              <Field label="VAT Settlement">
+                <select value={profile.vatSettlement} onChange={e => set('vatSettlement', e.target.value as VatPeriodKind)} className={inputClass}>
+                  <option value="quarter">Quarterly</option>
+                  <option value="semester">Semi-annual</option>
+                </select>
+              </Field>
+              <Field label="Fiscal Year Starts">
+                <select value={profile.fiscalYearStartMonth} onChange={e => set('fiscalYearStartMonth', Number(e.target.value))} className={inputClass}>
+                  {MONTHS.map((m, i) => <option key={m} value={i + 1}>{m}</option>)}
+                </select>
+              </Field>
+              <Field label="Base Reporting Currency">
+                <select value={profile.baseCurrency} onChange={e => set('baseCurrency', e.target.value)} className={inputClass}>
+                  {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </Field>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-3">
+              <h4 className="text-[10px] font-black uppercase tracking-widest text-ypsom-deep">Address</h4>
+              <Field label="Street">
+                <input value={profile.address.street} onChange={e => set('address', { ...profile.address, street: e.target.value })} className={inputClass} />
+              </Field>
+              <div className="grid grid-cols-3 gap-2">
+                <Field label="Postal Code">
+                  <input value={profile.address.postalCode} onChange={e => set('address', { ...profile.address, postalCode: e.target.value })} className={inputClass} />
+                </Field>
+                <div className="col-span-2">
+                  <Field label="City">
+                    <input value={profile.address.city} onChange={e => set('address', { ...profile.address, city: e.target.value })} className={inputClass} />
+                  </Field>
+                </div>
+              </div>
+              <Field label="Country">
+                <input value={profile.address.country} onChange={e => set('address', { ...profile.address, country: e.target.value.toUpperCase() })} maxLength={2} className={inputClass} />
+              </Field>
+            </div>
+            <div className="space-y-3">
+              <h4 className="text-[10px] font-black uppercase tracking-widest text-ypsom-deep">Contact</h4>
+              <Field label="Name">
+                <input value={profile.contact.name} onChange={e => set('contact', { ...profile.contact, name: e.target.value })} className={inputClass} />
+              </Field>
+              <Field label="E-mail">
+                <input type="email" value={profile.contact.email} onChange={e => set('contact', { ...profile.contact, email: e.target.value })} className={inputClass} />
+              </Field>
+              <Field label="Phone">
+                <input value={profile.contact.phone} onChange={e => set('contact', { ...profile.contact, phone: e.target.value })} className={inputClass} />
+              </Field>
+            </div>
+          </div>
+        </fieldset>
+
+        {canManage && (
+          <div className="flex items-center justify-end gap-3 pt-4 border-t border-ypsom-alice">
+            {saved && <span className="text-[10px] font-bold text-green-700 flex items-center gap-1"><CheckCircle2 className="w-3.5 h-3.5" /> Saved</span>}
+            <button type="submit" disabled={busy || !name.trim()} className="h-10 px-6 bg-ypsom-deep text-white rounded-sm text-[9px] font-black uppercase tracking-widest flex items-center gap-2 disabled:opacity-50 hover:bg-ypsom-shadow">
+              {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />} Save Profile
+            </button>
+          </div>
+        )}
+      </form>
+
+      {canManage && (
+        <div className="lg:col-span-4 space-y-6">
+          <div className="bg-white p-6 rounded-sm shadow-sm border border-ypsom-alice space-y-3">
+            <h3 className="text-[10px] font-black uppercase tracking-widest text-ypsom-slate">{isArchived ? 'Restore' : 'Archive'}</h3>
+            <p className="text-[10px] text-ypsom-slate">
+              {isArchived
+                ? 'Restoring lists the client with the active clients again.'
+                : 'Archived clients keep all their records but are listed separately when choosing a client.'}
+            </p>
+            <button
+              onClick={() => run(() => archiveClient(currentClient.id, !isArchived))}
+              disabled={busy}
+              className="w-full h-10 bg-ypsom-alice text-ypsom-deep rounded-sm text-[9px] font-black uppercase tracking-widest flex items-center justify-center gap-2 hover:bg-ypsom-alice/70 disabled:opacity-50"
+            >
+              {isArchived ? <><ArchiveRestore className="w-3.5 h-3.5" /> Restore Client</> : <><Archive className="w-3.5 h-3.5" /> Archive Client</>}
+            </button>
+          </div>
+          <div className="bg-white p-6 rounded-sm shadow-sm border border-red-200 space-y-3">
+            <h3 className="text-[10px] font-black uppercase tracking-widest text-red-700">Delete</h3>
+            <p className="text-[10px] text-ypsom-slate">Deletes the client, all of its documents and stored files, its chart of accounts, categorization rules, categories, budgets, period locks and CSV profiles. The change history is kept. Type the client name to confirm.</p>
+            <input value={confirmName} onChange={e => setConfirmName(e.target.value)} placeholder={currentClient.name} className={inputClass} />
+            <button
+              onClick={handleDelete}
+              disabled={busy || confirmName !== currentClient.name}
+              className="w-full h-10 bg-red-600 text-white rounded-sm text-[9px] font-black uppercase tracking-widest flex items-center justify-center gap-2 hover:bg-red-700 disabled:opacity-40"
+            >
+              <Trash2 className="w-3.5 h-3.5" /> Delete Client
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,307 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FileSpreadsheet, Save, Trash2, X, CheckCircle, AlertTriangle, Loader2 } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useClient } from '../context/ClientContext';
+import { CSV_PRESETS, decodeCsv, detectDelimiter, emptyCsvProfile, parseCsvStatement, readCsvTable } from '../services/csvStatementParser';
+import { deleteStatementProfile, getStatementProfiles, saveStatementProfile } from '../services/statementProfileService';
+import type { BankStatementAnalysis, CsvDateFormat, CsvMappingProfile } from '../types';
+
+interface CsvMappingPanelProps {
+  file: File;
+  onImport: (result: BankStatementAnalysis) => void;
+  onCancel: () => void;
+}
+
+const DATE_FORMATS: CsvDateFormat[] = ['DD.MM.YYYY', 'DD.MM.YY', 'YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'];
+const PREVIEW_ROWS = 6;
+
+const labelClass = 'text-[9px] font-black uppercase tracking-widest text-ypsom-slate';
+const inputClass = 'w-full border border-ypsom-alice rounded-sm px-2 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-ypsom-deep';
+
+const tryParse = (text: string, profile: CsvMappingProfile): { result?: BankStatementAnalysis; error?: string } => {
+  try {
+    return { result: parseCsvStatement(text, profile) };
+  } catch (err: any) {
+    return { error: err.message };
+  }
+};
+
+export const CsvMappingPanel: React.FC<CsvMappingPanelProps> = ({ file, onImport, onCancel }) => {
+  const { user } = useAuth();
+  const { currentClient } = useClient();
+  const [savedProfiles, setSavedProfiles] = useState<CsvMappingProfile[]>([]);
+  const [profile, setProfile] = useState<CsvMappingProfile>(CSV_PRESETS[0]);
+  const [text, setText] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [storeError, setStoreError] = useState<string | null>(null);
+  const [profilesLoaded, setProfilesLoaded] = useState(false);
+  const detectedFor = useRef<File | null>(null);
+
+  const allProfiles = useMemo(() => [...CSV_PRESETS, ...savedProfiles], [savedProfiles]);
+
+  useEffect(() => {
+    if (!user?.uid || !currentClient?.id) {
+      setProfilesLoaded(true);
+      return;
+    }
+    getStatementProfiles(user.uid, currentClient.id)
+      .then(setSavedProfiles)
+      .catch((err) => setStoreError(err.message))
+      .finally(() => setProfilesLoaded(true));
+  }, [user?.uid, currentClient?.id]);
+
+  // Once per file: pick the first profile that reads it, otherwise start a blank one with a guessed delimiter.
+  useEffect(() => {
+    if (!profilesLoaded || detectedFor.current === file) return;
+    detectedFor.current = file;
+    let cancelled = false;
+    (async () => {
+      for (const candidate of allProfiles) {
+        const content = await decodeCsv(file, candidate.encoding);
+        if (cancelled) return;
+        if (tryParse(content, candidate).result) {
+          setProfile(candidate);
+          return;
+        }
+      }
+      const content = await decodeCsv(file, 'utf-8');
+      if (!cancelled) setProfile({ ...emptyCsvProfile(), delimiter: detectDelimiter(content) });
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [file, allProfiles, profilesLoaded]);
+
+  useEffect(() => {
+    let cancelled = false;
+    decodeCsv(file, profile.encoding).then((content) => !cancelled && setText(content));
+    return () => {
+      cancelled = true;
+    };
+  }, [file, profile.encoding]);
+
+  const table = useMemo(() => (text === null ? null : readCsvTable(text, profile)), [text, profile]);
+  const parsed = useMemo(() => (text === null ? null : tryParse(text, profile)), [text, profile]);
+
+  const update = (changes: Partial<CsvMappingProfile>) => setProfile((prev) => ({ ...prev, ...changes }));
+
+  const selectProfile = (id: string) => {
+    const next = allProfiles.find((p) => p.id === id);
+    setProfile(next ? next : { ...emptyCsvProfile(), delimiter: text ? detectDelimiter(text) : ';' });
+  };
+
+  const saveProfile = async () => {
+    if (!user?.uid || !currentClient) return;
+    const name = profile.builtIn || !profile.name ? window.prompt('Profile name', profile.builtIn ? `${profile.name} (custom)` : '') : profile.name;
+    if (!name) return;
+    setIsSaving(true);
+    setStoreError(null);
+    try {
+      const saved = await saveStatementProfile(user.uid, currentClient, { ...profile, name });
+      setSavedProfiles((prev) => [...prev.filter((p) => p.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setProfile(saved);
+    } catch (err: any) {
+      setStoreError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removeProfile = async () => {
+    if (!profile.id || profile.builtIn || !window.confirm(`Delete profile "${profile.name}"?`)) return;
+    try {
+      await deleteStatementProfile(profile.id);
+      setSavedProfiles((prev) => prev.filter((p) => p.id !== profile.id));
+      setProfile(CSV_PRESETS[0]);
+    } catch (err: any) {
+      setStoreError(err.message);
+    }
+  };
+
+  const columnSelect = (key: keyof CsvMappingProfile, label: string, optional = true) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <select className={inputClass} value={(profile[key] as string) || ''} onChange={(e) => update({ [key]: e.target.value || undefined })}>
+        {optional && <option value="">—</option>}
+        {!optional && !profile[key] && <option value="">Select column</option>}
+        {table?.headers.map((h) => <option key={h} value={h}>{h}</option>)}
+        {profile[key] && !table?.headers.includes(profile[key] as string) && <option value={profile[key] as string}>{profile[key] as string} (missing)</option>}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-sm shadow-sm border border-ypsom-alice space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-ypsom-deep flex items-center"><FileSpreadsheet className="w-4 h-4 mr-2" /> CSV Mapping — {file.name}</h3>
+        <button onClick={onCancel} className="text-ypsom-slate hover:text-red-600"><X className="w-4 h-4" /></button>
+      </div>
+
+      {storeError && <div className="text-[10px] font-bold text-red-600 bg-red-50 border border-red-100 px-3 py-2 rounded-sm">{storeError}</div>}
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex-1 min-w-[200px]">
+          <label className={labelClass}>Bank Profile</label>
+          <select className={inputClass} value={profile.id} onChange={(e) => selectProfile(e.target.value)}>
+            {allProfiles.map((p) => <option key={p.id} value={p.id}>{p.name}{p.builtIn ? '' : ' (saved)'}</option>)}
+            <option value="">New profile…</option>
+          </select>
+        </div>
+        {!profile.builtIn && (
+          <div className="flex-1 min-w-[200px]">
+            <label className={labelClass}>Profile Name</label>
+            <input className={inputClass} value={profile.name} onChange={(e) => update({ name: e.target.value })} placeholder="e.g. ZKB Business CSV" />
+          </div>
+        )}
+        <button onClick={saveProfile} disabled={isSaving || !user} className="px-3 py-2 bg-ypsom-alice text-ypsom-deep rounded-sm text-[10px] font-black uppercase tracking-widest flex items-center hover:bg-ypsom-alice/70">
+          {isSaving ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Save className="w-3 h-3 mr-1" />} {profile.builtIn ? 'Save as Copy' : 'Save Profile'}
+        </button>
+        {profile.id && !profile.builtIn && (
+          <button onClick={removeProfile} className="px-3 py-2 text-red-600 rounded-sm text-[10px] font-black uppercase tracking-widest flex items-center hover:bg-red-50">
+            <Trash2 className="w-3 h-3 mr-1" /> Delete
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+        <div>
+          <label className={labelClass}>Encoding</label>
+          <select className={inputClass} value={profile.encoding} onChange={(e) => update({ encoding: e.target.value as CsvMappingProfile['encoding'] })}>
+            <option value="utf-8">UTF-8</option>
+            <option value="windows-1252">Windows-1252</option>
+            <option value="iso-8859-1">ISO-8859-1</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Delimiter</label>
+          <select className={inputClass} value={profile.delimiter} onChange={(e) => update({ delimiter: e.target.value })}>
+            <option value=";">Semicolon ;</option>
+            <option value=",">Comma ,</option>
+            <option value={'\t'}>Tab</option>
+            <option value="|">Pipe |</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Skip Rows</label>
+          <input type="number" min={0} className={inputClass} value={profile.skipRows} onChange={(e) => update({ skipRows: Math.max(0, Number(e.target.value) || 0) })} />
+        </div>
+        <div>
+          <label className={labelClass}>Header Row</label>
+          <select className={inputClass} value={profile.hasHeader ? 'yes' : 'no'} onChange={(e) => update({ hasHeader: e.target.value === 'yes' })}>
+            <option value="yes">Yes</option>
+            <option value="no">No (use column numbers)</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Decimal</label>
+          <select className={inputClass} value={profile.decimalSeparator} onChange={(e) => update({ decimalSeparator: e.target.value as CsvMappingProfile['decimalSeparator'] })}>
+            <option value=".">1234.50</option>
+            <option value=",">1234,50</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Thousands</label>
+          <select className={inputClass} value={profile.thousandsSeparator} onChange={(e) => update({ thousandsSeparator: e.target.value as CsvMappingProfile['thousandsSeparator'] })}>
+            <option value="">None</option>
+            <option value="'">1'234</option>
+            <option value=".">1.234</option>
+            <option value=",">1,234</option>
+            <option value=" ">1 234</option>
+          </select>
+        </div>
+        {columnSelect('dateColumn', 'Booking Date', false)}
+        <div>
+          <label className={labelClass}>Date Format</label>
+          <select className={inputClass} value={profile.dateFormat} onChange={(e) => update({ dateFormat: e.target.value as CsvDateFormat })}>
+            {DATE_FORMATS.map((f) => <option key={f} value={f}>{f}</option>)}
+          </select>
+        </div>
+        {columnSelect('valueDateColumn', 'Value Date')}
+        <div>
+          <label className={labelClass}>Amounts</label>
+          <select className={inputClass} value={profile.amountMode} onChange={(e) => update({ amountMode: e.target.value as CsvMappingProfile['amountMode'] })}>
+            <option value="signed">One signed column</option>
+            <option value="split">Debit / credit columns</option>
+          </select>
+        </div>
+        {profile.amountMode === 'signed' ? (
+          <>
+            {columnSelect('amountColumn', 'Amount', false)}
+            <div>
+              <label className={labelClass}>Sign Convention</label>
+              <select className={inputClass} value={profile.negativeIsIncome ? 'income' : 'expense'} onChange={(e) => update({ negativeIsIncome: e.target.value === 'income' })}>
+                <option value="expense">Negative = debit</option>
+                <option value="income">Negative = credit</option>
+              </select>
+            </div>
+          </>
+        ) : (
+          <>
+            {columnSelect('debitColumn', 'Debit')}
+            {columnSelect('creditColumn', 'Credit')}
+          </>
+        )}
+        {columnSelect('balanceColumn', 'Balance')}
+        {columnSelect('referenceColumn', 'Bank Ref')}
+        <div>
+          <label className={labelClass}>Currency</label>
+          <input className={inputClass} value={profile.currency} maxLength={3} onChange={(e) => update({ currency: e.target.value.toUpperCase() })} />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Description Columns</label>
+        <div className="flex flex-wrap gap-2 mt-1">
+          {table?.headers.map((h) => {
+            const active = profile.descriptionColumns.includes(h);
+            return (
+              <button
+                key={h}
+                onClick={() => update({ descriptionColumns: active ? profile.descriptionColumns.filter((c) => c !== h) : [...profile.descriptionColumns, h] })}
+                className={`px-2 py-1 rounded-sm text-[10px] font-bold border ${active ? 'bg-ypsom-deep text-white border-ypsom-deep' : 'border-ypsom-alice text-ypsom-slate hover:bg-ypsom-alice/30'}`}
+              >
+                {h}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {table && (
+        <div className="overflow-x-auto border border-ypsom-alice rounded-sm">
+          <table className="min-w-full text-[10px]">
+            <thead className="bg-gray-50">
+              <tr>{table.headers.map((h) => <th key={h} className="px-2 py-2 text-left font-black uppercase tracking-wider text-ypsom-slate whitespace-nowrap">{h}</th>)}</tr>
+            </thead>
+            <tbody className="divide-y divide-ypsom-alice">
+              {table.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                <tr key={i}>{table.headers.map((_, j) => <td key={j} className="px-2 py-1.5 font-mono whitespace-nowrap">{row[j]}</td>)}</tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        {parsed?.result ? (
+          <span className="text-[10px] font-bold text-green-700 flex items-center">
+            <CheckCircle className="w-3 h-3 mr-1" /> {parsed.result.transactions.length} transactions · {parsed.result.period}
+            {parsed.result.openingBalance !== undefined && ` · opening ${parsed.result.openingBalance.toFixed(2)}`}
+            {parsed.result.finalBalance !== undefined && ` · closing ${parsed.result.finalBalance.toFixed(2)}`}
+          </span>
+        ) : (
+          <span className="text-[10px] font-bold text-red-600 flex items-center">
+            <AlertTriangle className="w-3 h-3 mr-1" /> {parsed?.error || 'Reading file...'}
+          </span>
+        )}
+        <button
+          onClick={() => parsed?.result && onImport(parsed.result)}
+          disabled={!parsed?.result}
+          className="px-4 py-2 bg-ypsom-deep text-white rounded-sm text-[10px] font-black uppercase tracking-widest disabled:opacity-40 hover:bg-ypsom-shadow"
+        >
+          Import Statement
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,16 +1,43 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { DocumentProcessor } from './DocumentProcessor';
 import { FinancialInsights } from './FinancialInsights';
-import { ShieldCheck, Sparkles, Zap, Eye, Building2, LogOut, RefreshCw, User } from 'lucide-react';
-import { ProcessedDocument } from '../types';
+import { BankStatementAnalyzer } from './BankStatementAnalyzer';
+import { VatReport } from './VatReport';
+import { JournalView } from './JournalView';
+import { FirmSettings } from './FirmSettings';
+import { ClientProfileView } from './ClientProfileView';
+import { PeriodCloseView } from './PeriodCloseView';
+import { RulesView } from './RulesView';
+import { BudgetView } from './BudgetView';
+import { CategoryTaxonomyView } from './CategoryTaxonomyView';
+import { ShieldCheck, Sparkles, Zap, Eye, Building2, LogOut, RefreshCw, User, Wallet, Landmark, BookOpen, Users, Settings, CalendarRange, ListFilter, PiggyBank } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { useClient } from '../context/ClientContext';
+import { useDocuments } from '../context/DocumentContext';
+import { toSupportingDocs } from '../services/reconciliationService';
+
+type DashboardTab = 'audit' | 'reconciliation' | 'vat' | 'journal' | 'periods' | 'rules' | 'budgets' | 'insights' | 'team' | 'client';
+
+const TAB_HEADINGS: Record<DashboardTab, { title: string; subtitle: string }> = {
+  audit: { title: 'Fiduciary Control Dashboard', subtitle: 'High-speed automated extraction for Swiss fiduciary audits.' },
+  reconciliation: { title: 'Bank Reconciliation', subtitle: 'Bank statements linked against audited supporting documents.' },
+  vat: { title: 'VAT Return', subtitle: 'ESTV/AFC worksheet built from the audited documents.' },
+  journal: { title: 'Bookkeeping Journal', subtitle: 'Double-entry bookings generated from verified records.' },
+  periods: { title: 'Period Close', subtitle: 'Reviewed and filed periods locked against further changes.' },
+  rules: { title: 'Categorization Rules', subtitle: 'Deterministic categories for recurring suppliers and bank lines.' },
+  budgets: { title: 'Budgets', subtitle: 'Budget versus actuals per category and fiscal year.' },
+  insights: { title: 'Financial Intelligence', subtitle: 'Neural multi-modal analytics on audited datasets.' },
+  team: { title: 'Firm Workspace', subtitle: 'Members, roles and invitations of your fiduciary team.' },
+  client: { title: 'Client Profile', subtitle: 'Company master data, VAT registration, fiscal year and categories.' },
+};
 
 export function Dashboard() {
   const { user, signOut } = useAuth();
   const { currentClient, setCurrentClient } = useClient();
-  const [processedDocuments, setProcessedDocuments] = useState<ProcessedDocument[]>([]);
-  const [activeTab, setActiveTab] = useState<'audit' | 'insights'>('audit');
+  const { documents } = useDocuments();
+  const [activeTab, setActiveTab] = useState<DashboardTab>('audit');
+
+  const supportingDocs = useMemo(() => toSupportingDocs(documents, currentClient?.name), [documents, currentClient?.name]);
 
   const handleSwitchClient = () => {
     setCurrentClient(null);
@@ -47,6 +74,14 @@ export function Dashboard() {
                   >
                     <RefreshCw className="w-3.5 h-3.5" />
                   </button>
+                  <button
+                    type="button"
+                    onClick={() => setActiveTab('client')}
+                    className={`p-1.5 rounded-sm transition-colors ${activeTab === 'client' ? 'bg-ypsom-deep text-white' : 'text-ypsom-slate hover:bg-ypsom-alice hover:text-ypsom-deep'}`}
+                    title="Client profile"
+                  >
+                    <Settings className="w-3.5 h-3.5" />
+                  </button>
                 </div>
               )}
             </div>
@@ -64,12 +99,54 @@ export function Dashboard() {
               >
                 <ShieldCheck className="w-3.5 h-3.5" /> Audit Center
               </button>
+              <button
+                onClick={() => setActiveTab('reconciliation')}
+                className={`px-4 py-2 rounded-sm text-[9px] font-black uppercase tracking-widest transition-all flex items-center gap-2 ${activeTab === 'reconciliation' ? 'bg-ypsom-deep text-white shadow-md' : 'text-ypsom-slate hover:bg-gray-100'}`}
+              >
+                <Wallet className="w-3.5 h-3.5" /> Reconciliation
+              </button>
+              <button
+                onClick={() => setActiveTab('vat')}
+                className={`px-4 py-2 rounded-sm text-[9px] font-black uppercase tracking-widest transition-all flex items-center gap-2 ${activeTab === 'vat' ? 'bg-ypsom-deep text-white shadow-md' : 'text-ypsom-slate hover:bg-gray-100'}`}
+              >
+                <Landmark className="w-3.5 h-3.5" /> VAT
+              </button>
+              <button
+                onClick={() => setActiveTab('journal')}
+                className={`px-4 py-2 rounded-sm text-[9px] font-black uppercase tracking-widest transition-all flex items-center gap-2 ${activeTab === 'journal' ? 'bg-ypsom-deep text-white shadow-md' : 'text-ypsom-slate hover:bg-gray-100'}`}
+              >
+                <BookOpen className="w-3.5 h-3.5" /> Journal
+              </button>
+              <button
+                onClick={() => setActiveTab('periods')}
+                className={`px-4 py-2 rounded-sm text-[9px] font-black uppercase tracking-widest transition-all flex items-center gap-2 ${activeTab === 'periods' ? 'bg-ypsom-deep text-white shadow-md' : 'text-ypsom-slate hover:bg-gray-100'}`}
+              >
+                <CalendarRange className="w-3.5 h-3.5" /> Periods
+              </button>
+              <button
+                onClick={() => setActiveTab('rules')}
+                className={`px-4 py-2 rounded-sm text-[9px] font-black uppercase tracking-widest transition-all flex items-center gap-2 ${activeTab === 'rules' ? 'bg-ypsom-deep text-white shadow-md' : 'text-ypsom-slate hover:bg-gray-100'}`}
+              >
+                <ListFilter className="w-3.5 h-3.5" /> Rules
+              </button>
+              <button
+                onClick={() => setActiveTab('budgets')}
+                className={`px-4 py-2 rounded-sm text-[9px] font-black uppercase tracking-widest transition-all flex items-center gap-2 ${activeTab === 'budgets' ? 'bg-ypsom-deep text-white shadow-md' : 'text-ypsom-slate hover:bg-gray-100'}`}
+              >
+                <PiggyBank className="w-3.5 h-3.5" /> Budgets
+              </button>
               <button
                 onClick={() => setActiveTab('insights')}
                 className={`px-4 py-2 rounded-sm text-[9px] font-black uppercase tracking-widest transition-all flex items-center gap-2 ${activeTab === 'insights' ? 'bg-ypsom-deep text-white shadow-md' : 'text-ypsom-slate hover:bg-gray-100'}`}
               >
                 <Sparkles className="w-3.5 h-3.5" /> Intelligence
               </button>
+              <button
+                onClick={() => setActiveTab('team')}
+                className={`px-4 py-2 rounded-sm text-[9px] font-black uppercase tracking-widest transition-all flex items-center gap-2 ${activeTab === 'team' ? 'bg-ypsom-deep text-white shadow-md' : 'text-ypsom-slate hover:bg-gray-100'}`}
+              >
+                <Users className="w-3.5 h-3.5" /> Team
+              </button>
               <button
                 type="button"
                 onClick={() => signOut()}
@@ -86,21 +163,46 @@ export function Dashboard() {
       <main className="flex-1 max-w-[1400px] w-full mx-auto px-6 py-10">
         <div className="mb-8 border-l-2 border-ypsom-deep pl-4">
           <h1 className="text-xl font-black text-ypsom-deep uppercase tracking-tighter">
-            {activeTab === 'audit' ? 'Fiduciary Control Dashboard' : 'Financial Intelligence'}
+            {TAB_HEADINGS[activeTab].title}
           </h1>
           <p className="text-[11px] text-ypsom-slate mt-1 font-bold uppercase tracking-widest opacity-60">
-            {activeTab === 'audit'
-              ? 'High-speed automated extraction for Swiss fiduciary audits.'
-              : 'Neural multi-modal analytics on audited datasets.'}
+            {TAB_HEADINGS[activeTab].subtitle}
           </p>
         </div>
 
         <div className="w-full">
           {activeTab === 'audit' && (
-            <DocumentProcessor documents={processedDocuments} setDocuments={setProcessedDocuments} />
+            <DocumentProcessor />
+          )}
+          {activeTab === 'reconciliation' && (
+            <BankStatementAnalyzer supportingInvoices={supportingDocs} />
+          )}
+          {activeTab === 'vat' && (
+            <VatReport />
+          )}
+          {activeTab === 'journal' && (
+            <JournalView />
+          )}
+          {activeTab === 'periods' && (
+            <PeriodCloseView />
+          )}
+          {activeTab === 'rules' && (
+            <RulesView />
+          )}
+          {activeTab === 'budgets' && (
+            <BudgetView />
           )}
           {activeTab === 'insights' && (
-            <FinancialInsights documents={processedDocuments} />
+            <FinancialInsights />
+          )}
+          {activeTab === 'team' && (
+            <FirmSettings />
+          )}
+          {activeTab === 'client' && (
+            <div className="space-y-6">
+              <ClientProfileView />
+              <CategoryTaxonomyView />
+            </div>
           )}
         </div>
       </main>
@@ -2,56 +2,65 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { 
   Upload, CheckCircle, Loader2, Trash2, 
-  ChevronDown, ChevronRight, Building2, Wallet, 
-  Layers, AlertTriangle, ShieldCheck, Zap, 
+  ChevronDown, ChevronRight, Layers, AlertTriangle, ShieldCheck, Zap, 
   FileText, Edit3, RefreshCcw, UserCheck, 
-  Cpu, Info, HeartHandshake, Coffee, 
-  Monitor, Calculator, CreditCard, HelpCircle, 
+  Cpu, Info, HeartHandshake, Calculator, CreditCard, HelpCircle, 
   HardDrive, Scale, Landmark, ReceiptSwissFranc, 
   Hash, ListOrdered, Clock, Tag, Ban, 
   Activity, ExternalLink, ShieldAlert,
-  Shield, FileSpreadsheet, Image as ImageIcon,
+  FileSpreadsheet, Image as ImageIcon,
   Eye, FileSearch, Terminal, TerminalSquare, SearchCode,
-  FileBox, Bookmark, Package, FileUp, Sparkles,
-  Scissors, Plane, ShoppingBag, HeartPulse, Banknote,
-  Wrench, ShoppingCart, Code2, PlusCircle, Check,
+  FileBox, FileUp, Sparkles,
+  PlusCircle, Check,
   ArrowUpRight, ArrowDownRight, Scale as ScaleIcon,
-  XCircle
+  XCircle, QrCode, Lock, ListFilter, Undo2
 } from 'lucide-react';
-import { analyzeFinancialDocument, getLiveExchangeRate } from '../services/geminiService';
-import { exportToExcel } from '../services/excelService';
-import { ProcessedDocument, DocumentType, FinancialData, BankTransaction } from '../types';
-
-export const TAX_CATEGORIES = [
-  { id: 'Salary', label: 'Salary / Wages', icon: Wallet, color: 'text-emerald-600', bg: 'bg-emerald-50' },
-  { id: 'Rent', label: 'Rent / Lease', icon: Building2, color: 'text-indigo-600', bg: 'bg-indigo-50' },
-  { id: 'Beauty', label: 'Beauty / Personal Care', icon: Scissors, color: 'text-pink-600', bg: 'bg-pink-50' },
-  { id: 'Travel', label: 'Travel / Transport', icon: Plane, color: 'text-blue-600', bg: 'bg-blue-50' },
-  { id: 'Shopping', label: 'Shopping / Retail', icon: ShoppingBag, color: 'text-purple-600', bg: 'bg-purple-50' },
-  { id: 'Health', label: 'Health / Medical', icon: HeartPulse, color: 'text-red-600', bg: 'bg-red-50' },
-  { id: 'Cash Deposit', label: 'Cash Deposit', icon: Banknote, color: 'text-cyan-600', bg: 'bg-cyan-50' },
-  { id: 'Utility', label: 'Utilities / Bills', icon: Wrench, color: 'text-orange-600', bg: 'bg-orange-50' },
-  { id: 'Groceries', label: 'Groceries / Food', icon: ShoppingCart, color: 'text-slate-600', bg: 'bg-slate-50' },
-  { id: 'Software', label: 'Software / IT', icon: Code2, color: 'text-indigo-700', bg: 'bg-indigo-50' },
-  { id: 'Bank', label: 'Bank Fees / Finance', icon: Landmark, color: 'text-blue-700', bg: 'bg-blue-50' },
-  { id: 'Restaurant', label: 'Restaurant / Dining', icon: Coffee, color: 'text-amber-600', bg: 'bg-amber-50' },
-  { id: 'Entertainment', label: 'Entertainment', icon: Monitor, color: 'text-purple-700', bg: 'bg-purple-50' },
-  { id: 'Insurance', label: 'Insurance', icon: Shield, color: 'text-teal-600', bg: 'bg-teal-50' },
-  { id: 'Education', label: 'Education / Training', icon: Bookmark, color: 'text-blue-800', bg: 'bg-blue-50' },
-  { id: 'Office Supplies', label: 'Office Supplies', icon: Package, color: 'text-gray-600', bg: 'bg-gray-50' },
-  { id: 'Professional Services', label: 'Professional Services', icon: Wrench, color: 'text-indigo-800', bg: 'bg-indigo-50' },
-];
+import { analyzeFinancialDocument } from '../services/extractionService';
+import { FLOW_DIRECTIONS, directionOf } from '../services/directionService';
+import { isCreditNote, linkReversedDocument, reversalCandidates, signCreditNote, withCreditNoteType } from '../services/creditNoteService';
+import { convertFinancialData, describeConversion } from '../services/exchangeRateService';
+import { exportToExcel, readAuditWorkbook, applyWorkbookChanges } from '../services/excelService';
+import { getDocumentFileUrl, loadDocumentFile } from '../services/documentService';
+import { checkStatementBalance, statementFromDocument } from '../services/balanceCheckService';
+import { useDocuments } from '../context/DocumentContext';
+import { useAuth } from '../context/AuthContext';
+import { useClient } from '../context/ClientContext';
+import { useTaxonomy } from '../context/TaxonomyContext';
+import { AuditTrailView } from './AuditTrailView';
+import { CategoryOptions } from './CategoryTaxonomyView';
+import { createEditCoalescer, diffFinancialData, getClientAuditTrail, recordAuditEntries } from '../services/auditService';
+import { WorkbookReviewPanel } from './WorkbookReviewPanel';
+import { DuplicateReviewPanel, type DuplicatePair } from './DuplicateReviewPanel';
+import { findContentDuplicate, findSemanticDuplicate, mergeDuplicate, sha256OfFile } from '../services/duplicateService';
+import { closedPeriodFor, getPeriodLocks } from '../services/periodService';
+import {
+  EMPTY_RULE_SET,
+  applyRulesToDocument,
+  getCategorizationRules,
+  recordCategoryCorrection,
+  ruleFromSuggestion,
+  ruleSuggestions,
+  saveCategorizationRules,
+} from '../services/categorizationRuleService';
+import { ProcessedDocument, DocumentType, FinancialData, BankTransaction, WorkbookChange, WorkbookDiff, AuditSource, PeriodLock, CategorizationRuleSet } from '../types';
 
 const NeuralLog: React.FC<{ doc: ProcessedDocument }> = ({ doc }) => {
   const [docUrl, setDocUrl] = useState<string | null>(null);
 
   useEffect(() => {
-    if (doc.fileRaw) {
-      const url = URL.createObjectURL(doc.fileRaw);
-      setDocUrl(url);
-      return () => { if (url) URL.revokeObjectURL(url); };
-    }
-  }, [doc.fileRaw]);
+    let url: string | null = null;
+    let cancelled = false;
+    getDocumentFileUrl(doc)
+      .then((resolved) => {
+        url = resolved;
+        if (!cancelled) setDocUrl(resolved);
+      })
+      .catch(() => setDocUrl(null));
+    return () => {
+      cancelled = true;
+      if (url && doc.fileRaw) URL.revokeObjectURL(url);
+    };
+  }, [doc.fileRaw, doc.storagePath]);
 
   const steps = [
     { label: 'Neural Buffer Ingestion', icon: Terminal, delay: '0s' },
@@ -107,6 +116,7 @@ const EditableAuditLedger: React.FC<{
   currency: string,
   onUpdate: (newItems: BankTransaction[]) => void
 }> = ({ items, currency, onUpdate }) => {
+  const { taxonomy } = useTaxonomy();
   const handleItemChange = (idx: number, field: keyof BankTransaction, value: any) => {
     const next = [...items];
     next[idx] = { ...next[idx], [field]: value, isHumanVerified: false };
@@ -193,7 +203,7 @@ const EditableAuditLedger: React.FC<{
                     className="w-full bg-transparent font-bold text-[9px] text-ypsom-deep outline-none border-b border-transparent focus:border-ypsom-deep"
                   >
                     <option value="">--</option>
-                    {TAX_CATEGORIES.map(cat => <option key={cat.id} value={cat.id}>{cat.label}</option>)}
+                    <CategoryOptions taxonomy={taxonomy} value={item.category} />
                   </select>
                 </td>
               </tr>
@@ -210,6 +220,8 @@ const EditableZ2Ledger: React.FC<{
   currency: string,
   onUpdate: (newSubs: FinancialData[]) => void
 }> = ({ subs, currency, onUpdate }) => {
+  const { taxonomy } = useTaxonomy();
+  const { currentClient } = useClient();
   const handleChange = (idx: number, field: string, value: any) => {
     const next = [...subs];
     next[idx] = { ...next[idx], [field]: value, isHumanVerified: false };
@@ -244,6 +256,7 @@ const EditableZ2Ledger: React.FC<{
               <th className="px-2 py-3 text-left w-28">Date</th>
               <th className="px-2 py-3 text-left min-w-[120px]">Entity</th>
               <th className="px-2 py-3 text-left w-32">Classification</th>
+              <th className="px-2 py-3 text-left w-24">Flow</th>
               <th className="px-2 py-3 text-right w-28">Value ({currency})</th>
               <th className="px-2 py-3 text-center w-10"></th>
             </tr>
@@ -280,8 +293,17 @@ const EditableZ2Ledger: React.FC<{
                     onChange={e => handleChange(idx, 'expenseCategory', e.target.value)}
                     className="w-full bg-transparent border-b border-transparent focus:border-ypsom-deep px-1 py-1 font-black uppercase text-[9px] outline-none"
                   >
-                    {TAX_CATEGORIES.map(cat => <option key={cat.id} value={cat.id}>{cat.label}</option>)}
-                    <option value="Other">Other...</option>
+                    <option value="">--</option>
+                    <CategoryOptions taxonomy={taxonomy} value={item.expenseCategory} />
+                  </select>
+                </td>
+                <td className="px-2 py-2">
+                  <select 
+                    value={directionOf(item, currentClient?.name || '')} 
+                    onChange={e => handleChange(idx, 'direction', e.target.value)}
+                    className="w-full bg-transparent border-b border-transparent focus:border-ypsom-deep px-1 py-1 font-black uppercase text-[9px] outline-none"
+                  >
+                    {FLOW_DIRECTIONS.map(d => <option key={d} value={d}>{d}</option>)}
                   </select>
                 </td>
                 <td className="px-2 py-2">
@@ -310,9 +332,17 @@ const VerificationHub: React.FC<{
   onUpdate: (data: FinancialData) => void;
   onSave: (data: FinancialData) => void;
   onRefine: (hint: string) => void;
-}> = ({ doc, onUpdate, onSave, onRefine }) => {
+  canCertify: boolean;
+  // Label of the closed period the document is dated in; the record is read-only while it is set
+  closedPeriod?: string;
+  // Names of the categorization rules applied at extraction
+  ruleNames?: string[];
+}> = ({ doc, onUpdate, onSave, onRefine, canCertify, closedPeriod, ruleNames = [] }) => {
   const [hint, setHint] = useState('');
   const [isAddingCustom, setIsAddingCustom] = useState(false);
+  const { taxonomy, addCategory } = useTaxonomy();
+  const { can, currentClient } = useClient();
+  const { documents } = useDocuments();
 
   // Function to calculate total gross value from ledger items or sub-documents
   const recalculateTotal = (data: FinancialData): number => {
@@ -327,22 +357,20 @@ const VerificationHub: React.FC<{
   };
 
   const handleFieldChange = async (field: keyof FinancialData, value: any) => {
+    if (closedPeriod) return;
     let newData = { ...doc.data!, [field]: value };
     
     // If updating ledger items or sub-documents, trigger recalculation of Audit Gross Value
     if (field === 'lineItems' || field === 'subDocuments') {
-      const newTotal = recalculateTotal(newData);
-      newData.totalAmount = newTotal;
-      // Also update target currency conversion
-      const rate = await getLiveExchangeRate(newData.originalCurrency || 'CHF', 'CHF');
-      newData.amountInCHF = newTotal * rate;
-      newData.conversionRateUsed = rate;
+      newData.totalAmount = recalculateTotal(newData);
     }
+
+    // Amounts typed into a credit note are reductions, whichever sign they were typed with
+    newData = signCreditNote(newData);
     
-    if (field === 'totalAmount' || field === 'originalCurrency') {
-      const rate = await getLiveExchangeRate(newData.originalCurrency || 'CHF', 'CHF');
-      newData.amountInCHF = (Number(newData.totalAmount) || 0) * rate;
-      newData.conversionRateUsed = rate;
+    // Amount, currency or date changes all affect the historical conversion
+    if (['lineItems', 'subDocuments', 'totalAmount', 'originalCurrency', 'date'].includes(field)) {
+      newData = await convertFinancialData(newData, newData.conversion?.to || 'CHF');
     }
     onUpdate(newData);
   };
@@ -353,10 +381,32 @@ const VerificationHub: React.FC<{
      handleFieldChange('totalAmount', sum);
   };
 
+  // A typed-in category joins the client's taxonomy, so it can be chosen again and is known to the extraction.
+  const finishCustomCategory = async () => {
+    if (!isAddingCustom) {
+      setIsAddingCustom(true);
+      return;
+    }
+    setIsAddingCustom(false);
+    const typed = doc.data?.expenseCategory?.trim();
+    if (!typed || !can('edit')) return;
+    const category = await addCategory(typed).catch(() => null);
+    if (category && category.id !== doc.data?.expenseCategory) handleFieldChange('expenseCategory', category.id);
+  };
+
+  const toggleCreditNote = async () => {
+    if (closedPeriod) return;
+    const next = withCreditNoteType(doc.data!, !isCreditNote(doc.data!));
+    onUpdate(await convertFinancialData(next, next.conversion?.to || 'CHF'));
+  };
+
   const editedData = doc.data!;
   const isBatch = editedData.documentType === 'Z2 Multi-Ticket Sheet' || (editedData.subDocuments && editedData.subDocuments.length > 1);
   const isBankStatement = editedData.documentType === DocumentType.BANK_STATEMENT;
+  const balanceCheck = isBankStatement ? checkStatementBalance(statementFromDocument(editedData)) : null;
   const isZeroValue = Number(editedData.totalAmount) === 0;
+  const targetCurrency = editedData.conversion?.to || 'CHF';
+  const rateUnavailable = editedData.conversion?.source === 'unavailable';
 
   return (
     <div className="bg-white border-y border-ypsom-alice animate-in slide-in-from-top-2 duration-400 overflow-hidden shadow-inner">
@@ -374,6 +424,11 @@ const VerificationHub: React.FC<{
                  <p className="text-[9px] sm:text-[10px] font-bold text-ypsom-slate uppercase opacity-50 mt-1 truncate max-w-[200px] sm:max-w-md">{doc.fileName}</p>
               </div>
               <div className="flex items-center gap-3 w-full sm:w-auto">
+                 {closedPeriod && (
+                   <div className="px-3 py-1.5 bg-ypsom-alice text-ypsom-deep border border-ypsom-deep/20 rounded-sm text-[9px] sm:text-[10px] font-black uppercase flex items-center gap-2 whitespace-nowrap">
+                      <Lock className="w-3.5 h-3.5" /> {closedPeriod} closed
+                   </div>
+                 )}
                  <div className="px-3 py-1.5 bg-green-50 text-green-700 border border-green-100 rounded-sm text-[9px] sm:text-[10px] font-black uppercase flex items-center gap-2 shadow-sm whitespace-nowrap">
                     <Cpu className="w-3.5 h-3.5" /> Match: {((doc.data?.confidenceScore || 0.95) * 100).toFixed(0)}%
                  </div>
@@ -427,6 +482,12 @@ const VerificationHub: React.FC<{
                       <ScaleIcon className="w-3 h-3 text-amber-600 absolute left-2 top-1/2 -translate-y-1/2" />
                    </div>
                 </div>
+                {balanceCheck && (
+                   <div className={`col-span-2 lg:col-span-4 text-[9px] font-bold ${balanceCheck.status === 'ok' ? 'text-green-700' : balanceCheck.status === 'break' ? 'text-red-600' : 'text-amber-700'}`}>
+                      <span className="font-black uppercase tracking-widest">{balanceCheck.status === 'ok' ? 'Balance proven' : balanceCheck.status === 'break' ? 'Balance break' : 'Not verifiable'}</span>
+                      {balanceCheck.issues.map((issue, i) => <p key={i}>{issue}</p>)}
+                   </div>
+                )}
              </div>
            )}
 
@@ -436,6 +497,34 @@ const VerificationHub: React.FC<{
                     <label className="text-[9px] font-black uppercase text-ypsom-slate tracking-[0.2em] block mb-2">Issuer Entity</label>
                     <input value={editedData.issuer} onChange={e => handleFieldChange('issuer', e.target.value)} className="w-full h-11 px-4 bg-gray-50 border border-ypsom-alice rounded-sm text-xs font-bold outline-none focus:border-ypsom-deep transition-colors" />
                  </div>
+                 {!isBatch && !isBankStatement && (
+                   <div>
+                      <button
+                        onClick={toggleCreditNote}
+                        disabled={!!closedPeriod}
+                        className={`h-9 px-3 rounded-sm border text-[9px] font-black uppercase tracking-widest flex items-center gap-2 transition-all ${isCreditNote(editedData) ? 'bg-rose-600 border-rose-600 text-white' : 'bg-gray-50 border-ypsom-alice text-ypsom-slate hover:border-rose-400'}`}
+                      >
+                        <Undo2 className="w-3.5 h-3.5" /> Credit note
+                      </button>
+                      {isCreditNote(editedData) && (
+                        <div className="mt-3">
+                           <label className="text-[9px] font-black uppercase text-ypsom-slate tracking-[0.2em] block mb-2">
+                              Reverses {editedData.reversesDocumentNumber && <span className="normal-case tracking-normal opacity-60">(printed: {editedData.reversesDocumentNumber})</span>}
+                           </label>
+                           <select
+                             value={editedData.reversesDocumentId || ''}
+                             onChange={e => handleFieldChange('reversesDocumentId', e.target.value || undefined)}
+                             className="w-full h-11 px-4 bg-white border border-ypsom-alice rounded-sm text-[10px] font-bold outline-none"
+                           >
+                              <option value="">-- Not linked --</option>
+                              {reversalCandidates(editedData, documents, doc.id).map(d => (
+                                <option key={d.id} value={d.id}>{d.data!.date} · {d.data!.issuer} · {d.data!.documentNumber || d.fileName} · {d.data!.totalAmount.toFixed(2)} {d.data!.originalCurrency}</option>
+                              ))}
+                           </select>
+                        </div>
+                      )}
+                   </div>
+                 )}
                  <div className="grid grid-cols-2 gap-3">
                     <div>
                        <label className="text-[9px] font-black uppercase text-ypsom-slate tracking-[0.2em] block mb-2">Source Currency</label>
@@ -444,13 +533,9 @@ const VerificationHub: React.FC<{
                     <div>
                        <label className="text-[9px] font-black uppercase text-ypsom-slate tracking-[0.2em] block mb-2">Target Currency</label>
                        <select 
-                         value={editedData.amountInCHF ? 'CHF' : editedData.originalCurrency} 
-                         onChange={async (e) => {
-                           const targetCurrency = e.target.value;
-                           const rate = await getLiveExchangeRate(editedData.originalCurrency || 'CHF', targetCurrency);
-                           handleFieldChange('amountInCHF', (editedData.totalAmount || 0) * rate);
-                           handleFieldChange('conversionRateUsed', rate);
-                         }}
+                         value={targetCurrency} 
+                         disabled={!!closedPeriod}
+                         onChange={async (e) => onUpdate(await convertFinancialData(editedData, e.target.value))}
                          className="w-full h-11 px-4 bg-white border border-ypsom-alice rounded-sm text-xs font-bold outline-none uppercase"
                        >
                          <option value="CHF">CHF</option>
@@ -461,18 +546,23 @@ const VerificationHub: React.FC<{
                        </select>
                     </div>
                  </div>
-                 <div className="bg-amber-50 border border-amber-200 rounded-sm p-3">
+                 <div className={`rounded-sm p-3 border ${rateUnavailable ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
                     <div className="flex items-center justify-between">
-                       <span className="text-[9px] font-black uppercase text-amber-700 tracking-widest">Exchange Rate</span>
-                       <span className="text-xs font-mono font-black text-amber-900">
-                         1 {editedData.originalCurrency} = {(editedData.conversionRateUsed || 1).toFixed(4)} CHF
+                       <span className={`text-[9px] font-black uppercase tracking-widest ${rateUnavailable ? 'text-red-700' : 'text-amber-700'}`}>Exchange Rate</span>
+                       <span className={`text-xs font-mono font-black ${rateUnavailable ? 'text-red-700' : 'text-amber-900'}`}>
+                         {rateUnavailable
+                           ? 'UNAVAILABLE'
+                           : `1 ${editedData.originalCurrency} = ${(editedData.conversionRateUsed || 0).toFixed(4)} ${targetCurrency}`}
                        </span>
                     </div>
+                    <p className={`mt-1 text-[8px] font-bold uppercase tracking-widest ${rateUnavailable ? 'text-red-600' : 'text-amber-600'}`}>
+                       {describeConversion(editedData.conversion)}
+                    </p>
                     <div className="mt-2 pt-2 border-t border-amber-200">
                        <div className="flex items-center justify-between">
                           <span className="text-[9px] font-bold uppercase text-amber-700">Converted Amount</span>
                           <span className="text-sm font-black text-amber-900">
-                            {(editedData.amountInCHF || 0).toFixed(2)} CHF
+                            {rateUnavailable ? '---' : (editedData.amountInCHF || 0).toFixed(2)} {targetCurrency}
                           </span>
                        </div>
                     </div>
@@ -546,19 +636,31 @@ const VerificationHub: React.FC<{
                       ) : (
                         <select value={editedData.expenseCategory} onChange={e => handleFieldChange('expenseCategory', e.target.value)} className={`flex-1 h-11 px-4 bg-white border border-ypsom-alice rounded-sm text-[10px] font-black uppercase outline-none`}>
                            <option value="">-- Uncategorized --</option>
-                           {TAX_CATEGORIES.map(cat => <option key={cat.id} value={cat.id}>{cat.label}</option>)}
-                           {!TAX_CATEGORIES.some(c => c.id === editedData.expenseCategory) && editedData.expenseCategory && (
-                             <option value={editedData.expenseCategory}>{editedData.expenseCategory}</option>
-                           )}
+                           <CategoryOptions taxonomy={taxonomy} value={editedData.expenseCategory} />
                         </select>
                       )}
                       <button 
-                        onClick={() => setIsAddingCustom(!isAddingCustom)} 
+                        onClick={finishCustomCategory} 
                         className={`w-11 h-11 rounded-sm border flex items-center justify-center transition-all shrink-0 ${isAddingCustom ? 'bg-ypsom-deep text-white' : 'bg-gray-100 border-ypsom-alice text-ypsom-slate'}`}
                       >
                         {isAddingCustom ? <CheckCircle className="w-4 h-4" /> : <Edit3 className="w-4 h-4" />}
                       </button>
                     </div>
+                    {ruleNames.length > 0 && (
+                      <p className="mt-1.5 text-[8px] font-black uppercase tracking-widest text-ypsom-slate flex items-center gap-1">
+                        <ListFilter className="w-3 h-3" /> Rule: {ruleNames.join(', ')}
+                      </p>
+                    )}
+                 </div>
+                 <div>
+                    <label className="text-[9px] font-black uppercase text-ypsom-slate tracking-[0.2em] block mb-2">Direction</label>
+                    <select 
+                      value={directionOf(editedData, currentClient?.name || '')} 
+                      onChange={e => handleFieldChange('direction', e.target.value)} 
+                      className="w-full h-11 px-4 bg-white border border-ypsom-alice rounded-sm text-[10px] font-black uppercase outline-none"
+                    >
+                      {FLOW_DIRECTIONS.map(d => <option key={d} value={d}>{d}</option>)}
+                    </select>
                  </div>
               </div>
               <div className="space-y-5 md:col-span-2 xl:col-span-1">
@@ -570,12 +672,45 @@ const VerificationHub: React.FC<{
                     <label className="text-[9px] font-black uppercase text-ypsom-slate tracking-[0.2em] block mb-2 text-amber-600">Neural Context Override</label>
                     <div className="flex gap-2">
                        <input value={hint} onChange={e => setHint(e.target.value)} placeholder="Correction hint..." className="flex-1 h-11 px-4 bg-gray-50 border border-amber-200 rounded-sm text-xs outline-none" />
-                       <button onClick={() => onRefine(hint)} disabled={!hint.trim()} className="w-11 h-11 bg-amber-600 text-white rounded-sm flex items-center justify-center shadow-lg disabled:opacity-20 shrink-0"><RefreshCcw className="w-4 h-4" /></button>
+                       <button onClick={() => onRefine(hint)} disabled={!hint.trim() || !!closedPeriod} className="w-11 h-11 bg-amber-600 text-white rounded-sm flex items-center justify-center shadow-lg disabled:opacity-20 shrink-0"><RefreshCcw className="w-4 h-4" /></button>
                     </div>
                  </div>
               </div>
            </div>
 
+           {editedData.qrBill && (
+             <div className="mt-8 p-4 sm:p-6 bg-ypsom-alice/20 rounded-sm border border-ypsom-alice shadow-sm">
+                <div className="flex items-center gap-2 mb-4">
+                   <QrCode className="w-4 h-4 text-ypsom-deep" />
+                   <h5 className="text-[10px] sm:text-[11px] font-black uppercase tracking-widest text-ypsom-deep">Swiss QR-Bill (decoded)</h5>
+                </div>
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 text-[10px]">
+                   <div>
+                      <span className="text-[8px] font-black uppercase text-ypsom-slate tracking-widest block mb-1">Creditor</span>
+                      <span className="font-bold text-ypsom-deep block">{editedData.qrBill.creditor.name}</span>
+                      <span className="font-mono text-ypsom-slate">{editedData.qrBill.iban}</span>
+                   </div>
+                   <div>
+                      <span className="text-[8px] font-black uppercase text-ypsom-slate tracking-widest block mb-1">Amount</span>
+                      <span className="font-mono font-black text-ypsom-deep">
+                        {editedData.qrBill.amount !== undefined ? editedData.qrBill.amount.toFixed(2) : 'Open amount'} {editedData.qrBill.currency}
+                      </span>
+                   </div>
+                   <div>
+                      <span className="text-[8px] font-black uppercase text-ypsom-slate tracking-widest block mb-1">Reference ({editedData.qrBill.referenceType})</span>
+                      <span className="font-mono text-ypsom-deep break-all">{editedData.qrBill.reference || '---'}</span>
+                   </div>
+                   <div>
+                      <span className="text-[8px] font-black uppercase text-ypsom-slate tracking-widest block mb-1">Debtor</span>
+                      <span className="font-bold text-ypsom-deep">{editedData.qrBill.debtor?.name || '---'}</span>
+                   </div>
+                </div>
+                {editedData.qrBill.message && (
+                  <p className="mt-3 text-[9px] text-ypsom-slate italic">{editedData.qrBill.message}</p>
+                )}
+             </div>
+           )}
+
            <div className="flex-1 overflow-y-auto mt-6 min-h-[300px] custom-scrollbar">
               {editedData.subDocuments && editedData.subDocuments.length > 0 ? (
                 <EditableZ2Ledger 
@@ -596,11 +731,14 @@ const VerificationHub: React.FC<{
               )}
            </div>
            
+           <AuditTrailView documentId={doc.id} />
+
            <div className="pt-6 border-t border-ypsom-alice mt-6">
               <button 
                 onClick={() => onSave({ ...editedData, isHumanVerified: true, forensicAlerts: [] })} 
-                disabled={isZeroValue}
-                className={`w-full h-14 rounded-sm font-black text-[10px] sm:text-[11px] uppercase tracking-[0.3em] shadow-2xl transition-all flex items-center justify-center gap-3 ${isZeroValue ? 'bg-gray-200 text-gray-400 cursor-not-allowed border-red-100 border' : 'bg-ypsom-deep text-white hover:bg-ypsom-shadow'}`}
+                disabled={isZeroValue || !canCertify || !!closedPeriod}
+                title={closedPeriod ? `${closedPeriod} is closed; reopen the period to change this record` : canCertify ? undefined : 'Only owners and reviewers can certify records'}
+                className={`w-full h-14 rounded-sm font-black text-[10px] sm:text-[11px] uppercase tracking-[0.3em] shadow-2xl transition-all flex items-center justify-center gap-3 ${isZeroValue || !canCertify || closedPeriod ? 'bg-gray-200 text-gray-400 cursor-not-allowed border-red-100 border' : 'bg-ypsom-deep text-white hover:bg-ypsom-shadow'}`}
               >
                 <ShieldCheck className="w-5 h-5" /> Certify and Lock Record
               </button>
@@ -611,17 +749,31 @@ const VerificationHub: React.FC<{
   );
 };
 
-export const DocumentProcessor: React.FC<{ 
-  documents: ProcessedDocument[], 
-  setDocuments: React.Dispatch<React.SetStateAction<ProcessedDocument[]>> 
-}> = ({ documents, setDocuments }) => {
+export const DocumentProcessor: React.FC = () => {
+  const { documents, loading, error: storeError, addDocument, updateDocumentData, deleteDocument } = useDocuments();
+  const { user } = useAuth();
+  const { currentClient, can } = useClient();
+  const { taxonomy, labelOf } = useTaxonomy();
+  const canEdit = can('edit');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
-  const [reportingCurrency, setReportingCurrency] = useState('CHF');
+  const [reportingCurrency, setReportingCurrency] = useState(currentClient?.profile.baseCurrency || 'CHF');
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [workbookReview, setWorkbookReview] = useState<{ fileName: string; diff: WorkbookDiff } | null>(null);
+  const [periodLocks, setPeriodLocks] = useState<PeriodLock[]>([]);
+  const [ruleSet, setRuleSet] = useState<CategorizationRuleSet>(EMPTY_RULE_SET);
+  // Extraction batches and the edit log run outside of a render and must see the latest rules.
+  const ruleSetRef = useRef(ruleSet);
+  ruleSetRef.current = ruleSet;
+  const taxonomyRef = useRef(taxonomy);
+  taxonomyRef.current = taxonomy;
   const stopProcessingRef = useRef(false);
   const dragCounter = useRef(0);
+  // Batch extraction outlives a render; duplicate checks must see documents extracted earlier in the batch.
+  const documentsRef = useRef(documents);
+  documentsRef.current = documents;
 
   const CONCURRENCY_LIMIT = 6; 
 
@@ -643,6 +795,15 @@ export const DocumentProcessor: React.FC<{
     return categories;
   }, [documents]);
 
+  const suggestions = useMemo(() => ruleSuggestions(ruleSet), [ruleSet]);
+  const ruleNames = (data?: FinancialData) =>
+    (data?.appliedRules || []).map(id => ruleSet.rules.find(r => r.id === id)?.name).filter((n): n is string => !!n);
+
+  const duplicatePairs = useMemo<DuplicatePair[]>(
+    () => documents.filter(d => d.duplicate).map(d => ({ doc: d, original: documents.find(o => o.id === d.duplicate!.documentId) })),
+    [documents]
+  );
+
   const stats = useMemo(() => {
     const total = documents.length;
     const completed = documents.filter(d => d.status === 'completed').length;
@@ -651,36 +812,198 @@ export const DocumentProcessor: React.FC<{
     return { total, completed, progress, val };
   }, [documents]);
 
-  const addFiles = (files: FileList | null) => {
-    if (!files) return;
+  const addFiles = async (files: FileList | null) => {
+    if (!files || !canEdit) return;
     setUploadError(null);
     const incoming = Array.from(files);
-    
-    // Check for duplicate filenames
-    const duplicates = incoming.filter(f => documents.some(d => d.fileName === f.name));
-    if (duplicates.length > 0) {
-      setUploadError(`Ignored ${duplicates.length} duplicate file(s): ${duplicates.map(f => f.name).join(', ')}`);
+
+    // Files are compared by content, not by name: a re-upload of a stored file is flagged for review,
+    // the same file twice in one upload is only taken once.
+    setIsUploading(true);
+    const hashes = await Promise.all(incoming.map(sha256OfFile));
+    const repeated = incoming.filter((_, i) => hashes.indexOf(hashes[i]) !== i);
+    if (repeated.length > 0) {
+      setUploadError(`Ignored ${repeated.length} identical file(s) in this upload: ${repeated.map(f => f.name).join(', ')}`);
     }
 
-    const uniqueFiles = incoming.filter(f => !documents.some(d => d.fileName === f.name));
-    
-    const news: ProcessedDocument[] = uniqueFiles.map((f: File) => ({ 
-      id: Math.random().toString(36).substr(2,9), 
-      fileName: f.name, 
-      status: 'pending' as const, 
-      fileRaw: f 
+    const news: ProcessedDocument[] = incoming
+      .map((f: File, i) => ({ file: f, hash: hashes[i], index: i }))
+      .filter(({ hash, index }) => hashes.indexOf(hash) === index)
+      .map(({ file, hash }) => {
+        const existing = findContentDuplicate(hash, documents);
+        return {
+          id: Math.random().toString(36).substr(2,9),
+          fileName: file.name,
+          status: 'pending' as const,
+          fileRaw: file,
+          contentHash: hash,
+          ...(existing && {
+            duplicate: { documentId: existing.id, kind: 'content' as const, reasons: [`Identical file content to "${existing.fileName}"`] },
+          }),
+        };
+      });
+
+    const results = await Promise.allSettled(news.map((d) => addDocument(d)));
+    setIsUploading(false);
+    const failed = news.filter((_, i) => results[i].status === 'rejected');
+    if (failed.length > 0) {
+      setUploadError(`Failed to store ${failed.length} file(s): ${failed.map(d => d.fileName).join(', ')}`);
+    }
+  };
+
+  // Resolves to whether the write was stored. Failures are surfaced through the document store's error state;
+  // changes are only recorded in the change history once stored.
+  const persist = (documentId: string, updates: Partial<ProcessedDocument>) =>
+    updateDocumentData(documentId, updates).then(() => true, () => false);
+
+  const audit = (documentId: string, before: FinancialData, after: FinancialData, source: AuditSource, reason?: string) => {
+    if (!user?.uid || !currentClient?.id) return;
+    const owner = { documentId, clientId: currentClient.id, firmId: currentClient.firm_id, userId: user.uid, userEmail: user.email ?? undefined };
+    recordAuditEntries(owner, diffFinancialData(before, after), source, reason)
+      .catch((err) => setUploadError(`Change history not saved: ${err.message}`));
+  };
+  const storeRuleSet = (next: CategorizationRuleSet) => {
+    setRuleSet(next);
+    if (!user?.uid || !currentClient?.id) return;
+    saveCategorizationRules(user.uid, currentClient.id, next).catch((err) => setUploadError(`Categorization rules not saved: ${err.message}`));
+  };
+
+  // A category changed by hand counts towards a rule suggestion for the issuer.
+  const noteCorrection = (before: FinancialData, after: FinancialData) => {
+    if (before.expenseCategory === after.expenseCategory || !after.issuer || !after.expenseCategory) return;
+    storeRuleSet(recordCategoryCorrection(ruleSetRef.current, after.issuer, after.expenseCategory));
+  };
+
+  // Typing in the verification hub is logged once per pause, not per keystroke.
+  const auditRef = useRef(audit);
+  auditRef.current = audit;
+  const noteCorrectionRef = useRef(noteCorrection);
+  noteCorrectionRef.current = noteCorrection;
+  const editLog = useMemo(() => createEditCoalescer((id, before, after) => {
+    auditRef.current(id, before, after, 'manual');
+    noteCorrectionRef.current(before, after);
+  }), []);
+  useEffect(() => () => editLog.flushAll(), [editLog]);
+
+  useEffect(() => {
+    setPeriodLocks([]);
+    if (!user?.uid || !currentClient?.id) return;
+    getPeriodLocks(user.uid, currentClient.id).then(setPeriodLocks).catch((err) => setUploadError(err.message));
+  }, [user?.uid, currentClient?.id]);
+
+  const lockOf = (doc: ProcessedDocument) => closedPeriodFor(doc.data?.date, periodLocks);
+
+  useEffect(() => {
+    setRuleSet(EMPTY_RULE_SET);
+    if (!currentClient?.id) return;
+    getCategorizationRules(currentClient.id).then(setRuleSet).catch((err) => setUploadError(`Categorization rules not loaded: ${err.message}`));
+    // Renaming or merging a category re-tags the stored rules as well.
+  }, [currentClient?.id, taxonomy]);
+
+  // Each client extracts into its own base currency unless overridden for the session.
+  useEffect(() => {
+    if (currentClient) setReportingCurrency(currentClient.profile.baseCurrency);
+  }, [currentClient?.id, currentClient?.profile.baseCurrency]);
+
+  const exportLedger = async () => {
+    let trail: Awaited<ReturnType<typeof getClientAuditTrail>> = [];
+    if (user?.uid && currentClient?.id) {
+      editLog.flushAll();
+      try {
+        trail = await getClientAuditTrail(user.uid, currentClient.id, currentClient.firm_id);
+      } catch (err: any) {
+        setUploadError(`Change history not included in the export: ${err.message}`);
+      }
+    }
+    exportToExcel(documents, 'Ypsom_Certified', reportingCurrency, trail, taxonomy, currentClient?.name);
+  };
+
+  const importWorkbook = async (file?: File) => {
+    if (!file) return;
+    setUploadError(null);
+    try {
+      setWorkbookReview({ fileName: file.name, diff: await readAuditWorkbook(file, documents, taxonomy, currentClient?.name) });
+    } catch (err: any) {
+      setUploadError(err.message);
+    }
+  };
+
+  const applyWorkbook = async (changes: WorkbookChange[]) => {
+    setUploadError(null);
+    const byDocument = new Map<string, WorkbookChange[]>();
+    changes.forEach(c => byDocument.set(c.documentId, [...(byDocument.get(c.documentId) || []), c]));
+    const locked = documents.filter(d => byDocument.has(d.id) && lockOf(d));
+    if (locked.length > 0) {
+      setUploadError(`Skipped ${locked.length} document(s) in closed periods: ${locked.map(d => d.fileName).join(', ')}`);
+    }
+    const refused: string[] = [];
+    await Promise.all(Array.from(byDocument.entries()).map(async ([documentId, docChanges]) => {
+      const doc = documents.find(d => d.id === documentId);
+      if (!doc?.data || lockOf(doc)) return;
+      const data = applyWorkbookChanges(doc.data, docChanges, { certify: can('certify') });
+      try {
+        await updateDocumentData(documentId, { data });
+        audit(documentId, doc.data, data, 'workbook-import', `Offline review: ${workbookReview?.fileName}`);
+      } catch (err: any) {
+        refused.push(`${doc.fileName} (${err.message})`);
+      }
     }));
-    
-    setDocuments((p) => [...p, ...news]);
+    if (refused.length > 0) {
+      setUploadError(prev => [prev, `Not imported: ${refused.join(', ')}`].filter(Boolean).join('. '));
+    }
+    setWorkbookReview(null);
+  };
+
+  const keepDuplicate = (doc: ProcessedDocument) =>
+    persist(doc.id, { duplicate: undefined, notDuplicateOf: [...(doc.notDuplicateOf || []), doc.duplicate!.documentId] });
+
+  const mergeIntoOriginal = async (doc: ProcessedDocument, original: ProcessedDocument) => {
+    const lock = lockOf(original);
+    if (lock) {
+      setUploadError(`${original.fileName} is in the closed period ${lock.period.label}; reopen it to merge the duplicate.`);
+      return;
+    }
+    const data = mergeDuplicate(original.data!, doc.data!);
+    // The duplicate is only removed once its data is safely stored on the original.
+    try {
+      await updateDocumentData(original.id, { data });
+    } catch (err: any) {
+      setUploadError(`${doc.fileName} was not merged and is kept: ${err.message}`);
+      return;
+    }
+    audit(original.id, original.data!, data, 'duplicate-merge', `Merged from ${doc.fileName}`);
+    await deleteDocument(doc.id).catch(() => undefined);
   };
 
   const processDoc = async (doc: ProcessedDocument, hint?: string) => {
-    setDocuments((prev) => prev.map((d) => d.id === doc.id ? { ...d, status: hint ? 'verifying' : 'processing', error: undefined } : d));
+    if (lockOf(doc)) return;
+    // A refused write (closed period, role) means the store would reject the result too, so no model call is made.
+    if (!(await persist(doc.id, { status: hint ? 'verifying' : 'processing', error: undefined }))) return;
     try {
-      const res = await analyzeFinancialDocument(doc.fileRaw!, reportingCurrency, hint);
-      setDocuments((prev) => prev.map((d) => d.id === doc.id ? { ...d, status: 'completed', data: res } : d));
+      const file = await loadDocumentFile(doc);
+      // The client's rules override the model's categorization, so the same supplier always lands in the same place.
+      const res = linkReversedDocument(
+        applyRulesToDocument(await analyzeFinancialDocument(file, reportingCurrency, hint, taxonomyRef.current, currentClient?.name), ruleSetRef.current.rules),
+        documentsRef.current,
+        doc.id
+      );
+      // A document dated in a closed period cannot be stored with its data; it waits for the period to be reopened.
+      const closed = closedPeriodFor(res.date, periodLocks);
+      if (closed) throw new Error(`Dated ${res.date}, in the closed period ${closed.period.label}; reopen the period to add this document.`);
+      const duplicate = doc.duplicate?.kind === 'content' ? doc.duplicate : findSemanticDuplicate(doc, res, documentsRef.current);
+      // A refused write ends up in the catch below, before anything is recorded in the change history.
+      await updateDocumentData(doc.id, { status: 'completed', data: res, duplicate });
+      // The first extraction is kept whole so the AI's original reading stays on record; re-runs log what changed.
+      if (doc.data) audit(doc.id, doc.data, res, hint ? 'refinement' : 'extraction', hint);
+      else if (user?.uid && currentClient?.id) {
+        recordAuditEntries(
+          { documentId: doc.id, clientId: currentClient.id, firmId: currentClient.firm_id, userId: user.uid, userEmail: user.email ?? undefined },
+          [{ path: '*', oldValue: null, newValue: JSON.stringify(res) }],
+          'extraction'
+        ).catch((err) => setUploadError(`Change history not saved: ${err.message}`));
+      }
     } catch (err: any) {
-      setDocuments((prev) => prev.map((d) => d.id === doc.id ? { ...d, status: 'error', error: err.message } : d));
+      await persist(doc.id, { status: 'error', error: err.message });
     }
   };
 
@@ -689,7 +1012,9 @@ export const DocumentProcessor: React.FC<{
     setIsProcessing(true);
     stopProcessingRef.current = false;
     
-    const pending = documents.filter(d => d.status === 'pending' || d.status === 'error');
+    // Re-uploads of a stored file wait for the duplicate review instead of being extracted again.
+    // Documents of closed periods are never re-extracted.
+    const pending = documents.filter(d => (d.status === 'pending' || d.status === 'error') && d.duplicate?.kind !== 'content' && !lockOf(d));
     let index = 0;
     const activeTasks = new Set<Promise<void>>();
 
@@ -713,6 +1038,7 @@ export const DocumentProcessor: React.FC<{
 
   const toggleRow = (id: string) => {
     const next = new Set(expandedRows);
+    if (next.has(id)) editLog.flush(id);
     next.has(id) ? next.delete(id) : next.add(id);
     setExpandedRows(next);
   };
@@ -726,21 +1052,74 @@ export const DocumentProcessor: React.FC<{
       onDrop={(e) => { e.preventDefault(); setIsDragging(false); dragCounter.current = 0; addFiles(e.dataTransfer.files); }}
     >
       <div className="bg-white p-4 sm:p-8 border border-ypsom-alice rounded-sm shadow-sm">
+        {storeError && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-200 text-red-700 text-[10px] font-black uppercase tracking-widest flex items-center gap-2 rounded-sm">
+            <AlertTriangle className="w-4 h-4 shrink-0" /> Document store: {storeError}
+          </div>
+        )}
         {uploadError && (
           <div className="mb-6 p-3 bg-red-50 border border-red-200 text-red-700 text-[10px] font-black uppercase tracking-widest flex items-center justify-between rounded-sm">
             <span className="flex items-center gap-2"><AlertTriangle className="w-4 h-4 shrink-0" /> {uploadError}</span>
             <button onClick={() => setUploadError(null)} className="hover:text-red-900 ml-4"><XCircle className="w-4 h-4" /></button>
           </div>
         )}
+        {duplicatePairs.length > 0 && (
+          <div className="mb-6">
+            <DuplicateReviewPanel
+              pairs={duplicatePairs}
+              onKeep={keepDuplicate}
+              onMerge={mergeIntoOriginal}
+              onDiscard={(doc) => deleteDocument(doc.id).catch(() => undefined)}
+            />
+          </div>
+        )}
+        {suggestions.length > 0 && canEdit && (
+          <div className="mb-6 space-y-2">
+            {suggestions.map(s => (
+              <div key={s.key} className="p-3 bg-ypsom-alice/30 border border-ypsom-alice rounded-sm flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <span className="text-[10px] font-bold text-ypsom-deep flex items-center gap-2">
+                  <ListFilter className="w-4 h-4 shrink-0" /> “{s.issuer}” was recategorized to {labelOf(s.category)} more than once. Always categorize it as {labelOf(s.category)}?
+                </span>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => storeRuleSet({ ...ruleSet, rules: [...ruleSet.rules, ruleFromSuggestion(s.issuer, s.category)] })}
+                    className="px-3 py-1.5 bg-ypsom-deep text-white rounded-sm text-[9px] font-black uppercase tracking-widest hover:bg-ypsom-shadow"
+                  >
+                    Create Rule
+                  </button>
+                  <button
+                    onClick={() => storeRuleSet({ ...ruleSet, dismissedSuggestions: [...ruleSet.dismissedSuggestions, s.key] })}
+                    className="px-3 py-1.5 text-ypsom-slate rounded-sm text-[9px] font-black uppercase tracking-widest hover:text-ypsom-deep"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {workbookReview && (
+          <div className="mb-6">
+            <WorkbookReviewPanel
+              fileName={workbookReview.fileName}
+              diff={workbookReview.diff}
+              documents={documents}
+              onApply={applyWorkbook}
+              onCancel={() => setWorkbookReview(null)}
+            />
+          </div>
+        )}
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 sm:gap-10">
           <div className="lg:col-span-5">
-            <label className={`flex flex-col items-center justify-center h-48 border-2 border-dashed rounded-sm cursor-pointer transition-all group ${isDragging ? 'border-ypsom-deep bg-ypsom-alice/30 scale-105 shadow-xl' : 'border-ypsom-alice hover:bg-gray-50'}`}>
-              <Upload className="w-8 h-8 mb-4 text-ypsom-slate group-hover:-translate-y-1 transition-transform" />
+            <label className={`flex flex-col items-center justify-center h-48 border-2 border-dashed rounded-sm transition-all group ${!canEdit ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer'} ${isDragging ? 'border-ypsom-deep bg-ypsom-alice/30 scale-105 shadow-xl' : 'border-ypsom-alice hover:bg-gray-50'}`}>
+              {isUploading
+                ? <Loader2 className="w-8 h-8 mb-4 text-ypsom-slate animate-spin" />
+                : <Upload className="w-8 h-8 mb-4 text-ypsom-slate group-hover:-translate-y-1 transition-transform" />}
               <div className="text-center px-4">
                 <span className="text-[10px] sm:text-[11px] font-black uppercase tracking-[0.2em] block text-ypsom-deep">Audit Evidence Submission</span>
-                <span className="text-[8px] sm:text-[9px] opacity-40 uppercase tracking-widest mt-1 block">Drop PDF / JPG / PNG files here</span>
+                <span className="text-[8px] sm:text-[9px] opacity-40 uppercase tracking-widest mt-1 block">{canEdit ? 'Drop PDF / JPG / PNG files here' : 'Read-only access to this client'}</span>
               </div>
-              <input type="file" className="hidden" multiple onChange={(e) => addFiles(e.target.files)} />
+              <input type="file" className="hidden" multiple disabled={!canEdit} onChange={(e) => addFiles(e.target.files)} />
             </label>
           </div>
           <div className="lg:col-span-3 flex flex-col justify-between py-1 gap-4 sm:gap-0">
@@ -791,6 +1170,10 @@ export const DocumentProcessor: React.FC<{
         </div>
       </div>
 
+      {loading && documents.length === 0 && (
+        <div className="p-16 text-center"><Loader2 className="w-8 h-8 animate-spin text-ypsom-deep/20 mx-auto" /></div>
+      )}
+
       {documents.length > 0 && (
         <div className="bg-white border border-ypsom-alice rounded-sm shadow-md overflow-hidden animate-in fade-in duration-500">
           <div className="overflow-x-auto custom-scrollbar">
@@ -818,6 +1201,7 @@ export const DocumentProcessor: React.FC<{
                       </tr>
                       {docs.map((doc, idx) => {
                         const isExpanded = expandedRows.has(doc.id);
+                        const lock = lockOf(doc);
                         return (
                           <React.Fragment key={doc.id}>
                             <tr onClick={() => toggleRow(doc.id)} className={`hover:bg-gray-50 transition-all cursor-pointer ${isExpanded ? 'bg-ypsom-alice/10' : ''}`}>
@@ -833,14 +1217,18 @@ export const DocumentProcessor: React.FC<{
                                     </div>
                                  </div>
                               </td>
-                              <td className="px-6 py-4 font-mono text-[10px] text-ypsom-slate hidden md:table-cell">{doc.data?.date || '---'}</td>
+                              <td className="px-6 py-4 font-mono text-[10px] text-ypsom-slate hidden md:table-cell">
+                                 <span className="flex items-center gap-1.5" title={lock ? `${lock.period.label} is closed` : undefined}>
+                                    {lock && <Lock className="w-3 h-3 text-ypsom-deep" />}{doc.data?.date || '---'}
+                                 </span>
+                              </td>
                               <td className="px-6 py-4 text-right font-black font-mono text-[11px] text-ypsom-deep">
                                  {doc.data ? (doc.data.amountInCHF || doc.data.totalAmount || 0).toFixed(2) : '0.00'}
                               </td>
                               <td className="px-6 py-4 text-right">
                                  <div className="flex items-center justify-end gap-3">
                                     <span className={`text-[8px] font-black uppercase tracking-widest hidden sm:inline ${doc.status === 'completed' ? 'text-green-600' : 'text-ypsom-slate'}`}>{doc.status}</span>
-                                    <button onClick={(e) => { e.stopPropagation(); setDocuments(p => p.filter(d => d.id !== doc.id)); }} className="text-ypsom-slate/20 hover:text-red-600"><Trash2 className="w-3.5 h-3.5" /></button>
+                                    {canEdit && !lock && <button onClick={(e) => { e.stopPropagation(); deleteDocument(doc.id).catch(() => undefined); }} className="text-ypsom-slate/20 hover:text-red-600"><Trash2 className="w-3.5 h-3.5" /></button>}
                                  </div>
                               </td>
                             </tr>
@@ -850,9 +1238,12 @@ export const DocumentProcessor: React.FC<{
                                    {doc.data ? (
                                      <VerificationHub 
                                         doc={doc} 
-                                        onUpdate={(d) => setDocuments(p => p.map(x => x.id === doc.id ? { ...x, data: d } : x))}
-                                        onSave={(d) => { setDocuments(p => p.map(x => x.id === doc.id ? { ...x, data: d, status: 'completed' } : x)); toggleRow(doc.id); }} 
+                                        onUpdate={(d) => { const before = doc.data!; persist(doc.id, { data: d }).then(stored => stored && editLog.edit(doc.id, before, d)); }}
+                                        onSave={(d) => { editLog.flush(doc.id); const before = doc.data!; persist(doc.id, { data: d, status: 'completed' }).then(stored => { if (!stored) return; audit(doc.id, before, d, 'certification'); toggleRow(doc.id); }); }} 
                                         onRefine={(h) => processDoc(doc, h)} 
+                                        canCertify={can('certify')}
+                                        closedPeriod={lock?.period.label}
+                                        ruleNames={ruleNames(doc.data)}
                                      />
                                    ) : <div className="p-16 text-center"><Loader2 className="w-8 h-8 animate-spin text-ypsom-deep/20 mx-auto" /></div>}
                                 </td>
@@ -869,9 +1260,15 @@ export const DocumentProcessor: React.FC<{
           </div>
           <div className="p-5 border-t border-ypsom-alice bg-gray-50 flex flex-col sm:flex-row justify-between items-center gap-4">
              <div className="text-[9px] font-black text-ypsom-slate uppercase tracking-widest opacity-40">Certified Ledger • {stats.completed} Assets Reconciliation Complete</div>
-             <button onClick={() => exportToExcel(documents.map(d => d.data!).filter(Boolean), 'Ypsom_Certified', reportingCurrency)} className="w-full sm:w-auto h-10 px-8 bg-ypsom-deep text-white rounded-sm font-black text-[9px] uppercase tracking-widest flex items-center justify-center gap-2 shadow-xl hover:bg-ypsom-shadow transition-all">
-                <FileSpreadsheet className="w-4 h-4" /> Export Ledger (XLSX)
-             </button>
+             <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
+               <label className={`w-full sm:w-auto h-10 px-6 bg-white border border-ypsom-alice text-ypsom-deep rounded-sm font-black text-[9px] uppercase tracking-widest flex items-center justify-center gap-2 transition-all ${canEdit ? 'cursor-pointer hover:bg-ypsom-alice/40' : 'opacity-40 cursor-not-allowed'}`}>
+                  <FileUp className="w-4 h-4" /> Import Review (XLSX)
+                  <input type="file" accept=".xlsx" className="hidden" disabled={!canEdit} onChange={(e) => { importWorkbook(e.target.files?.[0]); e.target.value = ''; }} />
+               </label>
+               <button onClick={exportLedger} className="w-full sm:w-auto h-10 px-8 bg-ypsom-deep text-white rounded-sm font-black text-[9px] uppercase tracking-widest flex items-center justify-center gap-2 shadow-xl hover:bg-ypsom-shadow transition-all">
+                  <FileSpreadsheet className="w-4 h-4" /> Export Ledger (XLSX)
+               </button>
+             </div>
           </div>
         </div>
       )}
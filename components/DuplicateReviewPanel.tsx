@@ -0,0 +1,79 @@
+import React from 'react';
+import { Copy, Check, GitMerge, Trash2, FileText } from 'lucide-react';
+import type { ProcessedDocument } from '../types';
+
+export interface DuplicatePair {
+  doc: ProcessedDocument;
+  original?: ProcessedDocument;
+}
+
+interface DuplicateReviewPanelProps {
+  pairs: DuplicatePair[];
+  onKeep: (doc: ProcessedDocument) => void;
+  onMerge: (doc: ProcessedDocument, original: ProcessedDocument) => void;
+  onDiscard: (doc: ProcessedDocument) => void;
+}
+
+const FIELDS: { label: string; value: (d: ProcessedDocument) => string }[] = [
+  { label: 'File', value: d => d.fileName },
+  { label: 'Uploaded', value: d => d.createdAt?.split('T')[0] || '—' },
+  { label: 'Size', value: d => (d.fileSize ? `${(d.fileSize / 1024).toFixed(0)} KB` : '—') },
+  { label: 'Type', value: d => d.data?.documentType || d.status },
+  { label: 'Date', value: d => d.data?.date || '—' },
+  { label: 'Issuer', value: d => d.data?.issuer || '—' },
+  { label: 'Document #', value: d => d.data?.documentNumber || '—' },
+  { label: 'Amount', value: d => (d.data ? `${d.data.totalAmount?.toFixed(2)} ${d.data.originalCurrency}` : '—') },
+  { label: 'Verified', value: d => (d.data?.isHumanVerified ? 'Yes' : 'No') },
+];
+
+const DocumentCard: React.FC<{ doc: ProcessedDocument; title: string; other?: ProcessedDocument }> = ({ doc, title, other }) => (
+  <div className="flex-1 min-w-0 border border-ypsom-alice rounded-sm">
+    <p className="px-3 py-2 bg-gray-50 border-b border-ypsom-alice text-[9px] font-black uppercase tracking-widest text-ypsom-slate flex items-center gap-1.5">
+      <FileText className="w-3 h-3" /> {title}
+    </p>
+    <dl className="p-3 space-y-1 text-[10px]">
+      {FIELDS.map(f => {
+        const value = f.value(doc);
+        const same = other && f.value(other) === value && value !== '—';
+        return (
+          <div key={f.label} className="flex gap-2">
+            <dt className="w-20 shrink-0 text-ypsom-slate font-bold">{f.label}</dt>
+            <dd className={`truncate font-mono ${same ? 'text-amber-700 font-bold' : 'text-ypsom-shadow'}`}>{value}</dd>
+          </div>
+        );
+      })}
+    </dl>
+  </div>
+);
+
+export const DuplicateReviewPanel: React.FC<DuplicateReviewPanelProps> = ({ pairs, onKeep, onMerge, onDiscard }) => (
+  <div className="bg-white p-6 rounded-sm shadow-sm border border-amber-200 space-y-4">
+    <h3 className="text-sm font-bold text-ypsom-deep flex items-center"><Copy className="w-4 h-4 mr-2 text-amber-600" /> Suspected Duplicates ({pairs.length})</h3>
+    {pairs.map(({ doc, original }) => (
+      <div key={doc.id} className="space-y-3 pb-4 border-b border-ypsom-alice last:border-0 last:pb-0">
+        <p className="text-[10px] font-bold text-amber-800">
+          {doc.duplicate?.kind === 'content' ? 'Identical file' : 'Same content'}: {doc.duplicate?.reasons.join(' · ')}
+        </p>
+        <div className="flex flex-col md:flex-row gap-3">
+          <DocumentCard doc={doc} title="New document" other={original} />
+          {original
+            ? <DocumentCard doc={original} title="Existing document" other={doc} />
+            : <div className="flex-1 border border-dashed border-ypsom-alice rounded-sm p-6 text-center text-[10px] text-ypsom-slate">The existing document has been deleted.</div>}
+        </div>
+        <div className="flex justify-end gap-2">
+          <button onClick={() => onKeep(doc)} className="px-3 py-2 bg-ypsom-alice text-ypsom-deep rounded-sm text-[9px] font-black uppercase tracking-widest flex items-center gap-1 hover:bg-ypsom-alice/70">
+            <Check className="w-3 h-3" /> Keep Both
+          </button>
+          {original?.data && doc.data && (
+            <button onClick={() => onMerge(doc, original)} className="px-3 py-2 bg-ypsom-deep text-white rounded-sm text-[9px] font-black uppercase tracking-widest flex items-center gap-1 hover:bg-ypsom-shadow">
+              <GitMerge className="w-3 h-3" /> Merge Into Existing
+            </button>
+          )}
+          <button onClick={() => onDiscard(doc)} className="px-3 py-2 bg-red-50 text-red-700 rounded-sm text-[9px] font-black uppercase tracking-widest flex items-center gap-1 hover:bg-red-100">
+            <Trash2 className="w-3 h-3" /> Discard New
+          </button>
+        </div>
+      </div>
+    ))}
+  </div>
+);
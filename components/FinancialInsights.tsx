@@ -1,8 +1,6 @@
 
-import React, { useState, useMemo, useRef } from 'react';
-import { GoogleGenAI } from "@google/genai";
-import { ProcessedDocument, DocumentType, BankTransaction, FinancialData } from '../types';
-import { TAX_CATEGORIES } from './DocumentProcessor';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { ProcessedDocument, DocumentType, BankTransaction, FinancialData, DateRange, TrendGranularity, Variance, ClientBudget } from '../types';
 import { 
   MessageSquare, Sparkles, Send, Loader2, 
   X, Eye, AlertCircle, Camera, 
@@ -10,13 +8,28 @@ import {
   CheckCircle, ReceiptSwissFranc, ExternalLink,
   TrendingUp, TrendingDown, Landmark, PieChart,
   ArrowUpRight, ArrowDownRight, Target, 
-  LayoutGrid, BarChart3, Activity, Tag
+  LayoutGrid, BarChart3, Activity, Tag, CalendarRange
 } from 'lucide-react';
-import { fileToBase64 } from '../services/geminiService';
-
-interface FinancialInsightsProps {
-  documents: ProcessedDocument[];
-}
+import { askAssistant } from '../services/extractionService';
+import { getDocumentFileUrl } from '../services/documentService';
+import { useDocuments } from '../context/DocumentContext';
+import { useTaxonomy } from '../context/TaxonomyContext';
+import { useClient } from '../context/ClientContext';
+import { categoryGroup, resolveCategory } from '../services/taxonomyService';
+import {
+  RangePreset,
+  categoryTrends,
+  inRange,
+  presetRange,
+  previousRange,
+  shiftRange,
+  totalsOf,
+  trendWithComparisons,
+  variance,
+  vouchersOf,
+} from '../services/trendService';
+import { budgetCategoryMatcher, budgetProgress, budgetYearOf, getBudget } from '../services/budgetService';
+import { ledgerTools } from '../services/ledgerQueryService';
 
 // Function to render text with clickable links for better AI interaction and audit transparency.
 const renderMessageWithLinks = (text: string) => {
@@ -40,11 +53,18 @@ const EvidenceModal: React.FC<{ doc: ProcessedDocument; onClose: () => void }> =
   const [docUrl, setDocUrl] = useState<string | null>(null);
 
   React.useEffect(() => {
-    if (doc.fileRaw) {
-      const url = URL.createObjectURL(doc.fileRaw);
-      setDocUrl(url);
-      return () => URL.revokeObjectURL(url);
-    }
+    let url: string | null = null;
+    let cancelled = false;
+    getDocumentFileUrl(doc)
+      .then((resolved) => {
+        url = resolved;
+        if (!cancelled) setDocUrl(resolved);
+      })
+      .catch(() => setDocUrl(null));
+    return () => {
+      cancelled = true;
+      if (url && doc.fileRaw) URL.revokeObjectURL(url);
+    };
   }, [doc]);
 
   return (
@@ -124,7 +144,44 @@ const EvidenceModal: React.FC<{ doc: ProcessedDocument; onClose: () => void }> =
   );
 };
 
-export const FinancialInsights: React.FC<FinancialInsightsProps> = ({ documents }) => {
+const formatAmount = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const RANGE_PRESETS: { id: RangePreset | 'custom'; label: string }[] = [
+  { id: 'all', label: 'All time' },
+  { id: 'this-month', label: 'This month' },
+  { id: 'last-month', label: 'Last month' },
+  { id: 'this-quarter', label: 'This quarter' },
+  { id: 'last-quarter', label: 'Last quarter' },
+  { id: 'year-to-date', label: 'Year to date' },
+  { id: 'fiscal-year', label: 'Fiscal year' },
+  { id: 'last-year', label: 'Last year' },
+  { id: 'custom', label: 'Custom' },
+];
+
+// Change against an earlier period, in CHF and percent; green when it is good news.
+const VarianceBadge: React.FC<{ label?: string; change: Variance; lowerIsBetter?: boolean }> = ({ label, change, lowerIsBetter }) => {
+  const good = lowerIsBetter ? change.amount < 0 : change.amount > 0;
+  const Icon = change.amount >= 0 ? ArrowUpRight : ArrowDownRight;
+  return (
+    <span className={`inline-flex items-center gap-1 text-[9px] font-bold font-mono ${change.amount === 0 ? 'text-ypsom-slate' : good ? 'text-emerald-600' : 'text-red-600'}`}>
+      {label && <span className="font-black uppercase tracking-widest font-sans text-ypsom-slate/60">{label}</span>}
+      <Icon className="w-3 h-3" />
+      {change.amount >= 0 ? '+' : ''}{formatAmount(change.amount)}
+      <span className="opacity-60">{change.percent === null ? '(n/a)' : `(${change.percent >= 0 ? '+' : ''}${change.percent.toFixed(1)}%)`}</span>
+    </span>
+  );
+};
+
+export const FinancialInsights: React.FC = () => {
+  const { documents } = useDocuments();
+  const { taxonomy, labelOf } = useTaxonomy();
+  const { currentClient } = useClient();
+  const clientName = currentClient?.name || '';
+  const [groupBy, setGroupBy] = useState<'category' | 'group'>('category');
+  const today = new Date().toISOString().slice(0, 10);
+  const [preset, setPreset] = useState<RangePreset | 'custom'>('all');
+  const [customRange, setCustomRange] = useState<DateRange>(() => presetRange('year-to-date', today));
+  const [granularity, setGranularity] = useState<TrendGranularity>('month');
   const [query, setQuery] = useState('');
   const [chatHistory, setChatHistory] = useState<{ role: 'user' | 'model'; text: string; image?: string }[]>([]);
   const [isAsking, setIsAsking] = useState(false);
@@ -132,54 +189,75 @@ export const FinancialInsights: React.FC<FinancialInsightsProps> = ({ documents
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [previewDoc, setPreviewDoc] = useState<ProcessedDocument | null>(null);
   const [expandedCat, setExpandedCat] = useState<string | null>(null);
+  const [budget, setBudget] = useState<ClientBudget | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const stats = useMemo(() => {
-    const completedDocs = documents.filter(d => d.status === 'completed' && d.data);
-    
-    const flattenedItems: Array<{ 
-      id: string; 
-      issuer: string; 
-      amount: number; 
-      category: string; 
-      parentDoc: ProcessedDocument; 
-      type: string;
-      date: string;
-    }> = [];
-
-    completedDocs.forEach(d => {
-      if (d.data?.subDocuments && d.data.subDocuments.length > 0) {
-        d.data.subDocuments.forEach((sub, idx) => {
-          flattenedItems.push({
-            id: `${d.id}_sub_${idx}`,
-            issuer: sub.issuer || 'Unknown Entity',
-            amount: sub.amountInCHF || sub.totalAmount || 0,
-            category: sub.expenseCategory || d.data?.expenseCategory || 'Bank',
-            parentDoc: d,
-            type: sub.documentType || 'VOUCHER',
-            date: sub.date || d.data?.date || ''
-          });
-        });
-      } else if (d.data) {
-        flattenedItems.push({
-          id: d.id,
-          issuer: d.data.issuer || 'Unknown Entity',
-          amount: d.data.amountInCHF || d.data.totalAmount || 0,
-          category: d.data.expenseCategory || 'Bank',
-          parentDoc: d,
-          type: d.data.documentType,
-          date: d.data.date
-        });
-      }
+  useEffect(() => {
+    if (!currentClient?.id) return;
+    getBudget(currentClient.id).then(setBudget).catch(() => setBudget(null));
+  }, [currentClient?.id]);
+
+  const allItems = useMemo(
+    () =>
+      vouchersOf(documents, clientName).vouchers.map(v => ({
+        id: v.id,
+        issuer: v.data.issuer || 'Unknown Entity',
+        amount: v.amount,
+        category: v.category,
+        direction: v.direction,
+        parentDoc: v.document,
+        type: String(v.data.documentType || 'VOUCHER'),
+        date: v.date,
+      })),
+    [documents, clientName]
+  );
+
+  // Every card, the trends and the assistant's context follow the selected range; "All time" spans the dated documents.
+  const range = useMemo<DateRange | null>(() => {
+    if (preset === 'custom') return customRange;
+    if (preset !== 'all') return presetRange(preset, today, currentClient?.profile.fiscalYearStartMonth);
+    const dates = allItems.map(i => i.date).filter(Boolean).sort();
+    return dates.length ? { from: dates[0], to: dates[dates.length - 1] } : null;
+  }, [preset, customRange, today, allItems, currentClient?.profile.fiscalYearStartMonth]);
+
+  // Budget lines of the current fiscal year projected beyond the client's alert threshold
+  const budgetAlerts = useMemo(() => {
+    const profile = currentClient?.profile;
+    if (!budget || !profile) return [];
+    const year = budgetYearOf(profile);
+    const current = { ...budget, lines: budget.lines.filter(l => l.year === year) };
+    return budgetProgress(current, allItems, profile, today, budgetCategoryMatcher(taxonomy)).filter(p => p.alert);
+  }, [budget, allItems, currentClient?.profile, today, taxonomy]);
+
+  const comparisons = useMemo(() => {
+    if (!range || preset === 'all') return null;
+    const current = totalsOf(allItems.filter(i => inRange(i.date, range)));
+    const prior = previousRange(range);
+    const lastYear = shiftRange(range, -12);
+    const before = totalsOf(allItems.filter(i => inRange(i.date, prior)));
+    const yearBefore = totalsOf(allItems.filter(i => inRange(i.date, lastYear)));
+    const against = (previous: typeof current) => ({
+      income: variance(current.income, previous.income),
+      expense: variance(current.expense, previous.expense),
+      net: variance(current.net, previous.net),
     });
+    return { prior, lastYear, previousPeriod: against(before), previousYear: against(yearBefore) };
+  }, [allItems, range, preset]);
 
-    const income = flattenedItems.reduce((s, d) => s + (d.category.toLowerCase() === 'salary' ? d.amount : 0), 0);
-    const expense = flattenedItems.reduce((s, d) => s + (d.category.toLowerCase() !== 'salary' ? d.amount : 0), 0);
+  const stats = useMemo(() => {
+    const flattenedItems = preset === 'all' || !range ? allItems : allItems.filter(i => inRange(i.date, range));
+
+    // Transfers between the client's own accounts and neutral documents are neither income nor expense.
+    const income = flattenedItems.reduce((s, d) => s + (d.direction === 'income' ? d.amount : 0), 0);
+    const expense = flattenedItems.reduce((s, d) => s + (d.direction === 'expense' ? d.amount : 0), 0);
     
     const byCategory: Record<string, { total: number, items: typeof flattenedItems }> = {};
+    // Deductibility comes from the client's taxonomy; categories it does not know count as not deductible.
+    const deductible = flattenedItems.reduce((s, d) => s + (d.direction === 'expense' && resolveCategory(taxonomy, d.category)?.deductible ? d.amount : 0), 0);
 
     flattenedItems.forEach(item => {
-      const cat = item.category || 'Uncategorized';
+      const resolved = groupBy === 'group' ? categoryGroup(taxonomy, item.category) : resolveCategory(taxonomy, item.category);
+      const cat = resolved?.id || item.category || 'Uncategorized';
       if (!byCategory[cat]) {
         byCategory[cat] = { total: 0, items: [] };
       }
@@ -187,8 +265,19 @@ export const FinancialInsights: React.FC<FinancialInsightsProps> = ({ documents
       byCategory[cat].items.push(item);
     });
     
-    return { income, expense, net: income - expense, byCategory, flattenedItems };
-  }, [documents]);
+    return { income, expense, net: income - expense, deductible, byCategory, flattenedItems };
+  }, [allItems, range, preset, taxonomy, groupBy]);
+
+  const categoryKey = (category: string) =>
+    (groupBy === 'group' ? categoryGroup(taxonomy, category) : resolveCategory(taxonomy, category))?.id || category || 'Uncategorized';
+
+  const trend = useMemo(() => {
+    if (!range) return null;
+    const rows = trendWithComparisons(allItems, range, granularity);
+    const categories = categoryTrends(allItems, range, granularity, item => categoryKey(item.category)).slice(0, 8);
+    const maxBar = Math.max(1, ...rows.map(r => Math.max(r.income, r.expense)));
+    return { rows, categories, maxBar };
+  }, [allItems, range, granularity, taxonomy, groupBy]);
 
   // Explicit type assertion to fix property access errors on sorted entries
   const sortedCategories = useMemo(() => {
@@ -211,24 +300,20 @@ export const FinancialInsights: React.FC<FinancialInsightsProps> = ({ documents
     setIsAsking(true);
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const context = JSON.stringify(stats.flattenedItems.map(item => ({ 
-        issuer: item.issuer, 
-        total: item.amount, 
-        category: item.category, 
-        parentFile: item.parentDoc.fileName,
-        date: item.date
-      })));
-      
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: [
-          ...chatHistory.map(h => ({ role: h.role, parts: [{ text: h.text }] })),
-          { role: 'user', parts: [{ text: `Audit Intelligent Ledger Context: ${context}. User Inquiry: ${userMsg || "Scan dataset"}` }] }
-        ],
-        config: { systemInstruction: "Forensic auditor mode. Support custom user categories. Reference specific tickets by entity name." }
-      });
-      setChatHistory(prev => [...prev, { role: 'model', text: response.text || "Failed." }]);
+      // The ledger stays local: the model queries it through the tools, and figures in the answer come from them.
+      const scope = range && preset !== 'all' ? `The user is looking at ${range.from} to ${range.to}; use it as the date filter unless asked otherwise.` : 'The user is looking at all documents.';
+      const answer = await askAssistant(
+        chatHistory.map(h => ({ role: h.role, text: h.text })),
+        userMsg || "Scan the dataset for anomalies",
+        [
+          "Forensic auditor mode. Reference specific tickets by entity name.",
+          `Client: ${clientName || 'unknown'}. Today is ${today}. ${scope} Amounts are in CHF.`,
+          `Categories (id: label): ${taxonomy.categories.map(c => `${c.id}: ${c.label}`).join('; ')}.`,
+          "Answer from the ledger functions only. Take every count, sum, difference and total from a function result; do not add up or compute figures yourself. If the functions cannot answer, say so.",
+        ].join('\n'),
+        ledgerTools({ documents, clientName, taxonomy, budgetAlerts })
+      );
+      setChatHistory(prev => [...prev, { role: 'model', text: answer || "Failed." }]);
     } catch (err: any) {
       setChatHistory(prev => [...prev, { role: 'model', text: `Diagnostic Error: ${err.message}` }]);
     } finally {
@@ -237,9 +322,50 @@ export const FinancialInsights: React.FC<FinancialInsightsProps> = ({ documents
   };
 
   return (
-    <div className="flex flex-col gap-8 h-[calc(100vh-250px)] animate-in fade-in duration-500">
+    <div className="flex flex-col gap-8 animate-in fade-in duration-500">
       {previewDoc && <EvidenceModal doc={previewDoc} onClose={() => setPreviewDoc(null)} />}
 
+      <div className="bg-white p-4 rounded-sm border border-ypsom-alice shadow-sm flex flex-wrap items-center gap-2">
+        <CalendarRange className="w-4 h-4 text-ypsom-slate opacity-40 mr-1" />
+        {RANGE_PRESETS.map(p => (
+          <button
+            key={p.id}
+            onClick={() => setPreset(p.id)}
+            className={`px-3 py-1.5 rounded-sm text-[9px] font-black uppercase tracking-widest ${preset === p.id ? 'bg-ypsom-deep text-white' : 'text-ypsom-slate hover:bg-gray-100'}`}
+          >
+            {p.label}
+          </button>
+        ))}
+        {preset === 'custom' && (
+          <div className="flex items-center gap-2 ml-2">
+            <input type="date" value={customRange.from} max={customRange.to} onChange={e => e.target.value && setCustomRange({ ...customRange, from: e.target.value })} className="h-8 px-2 bg-gray-50 border border-ypsom-alice rounded-sm text-[10px] font-bold outline-none" />
+            <span className="text-[9px] text-ypsom-slate">–</span>
+            <input type="date" value={customRange.to} min={customRange.from} onChange={e => e.target.value && setCustomRange({ ...customRange, to: e.target.value })} className="h-8 px-2 bg-gray-50 border border-ypsom-alice rounded-sm text-[10px] font-bold outline-none" />
+          </div>
+        )}
+        {range && (
+          <span className="ml-auto text-[9px] font-bold text-ypsom-slate">
+            {range.from} – {range.to}
+            {comparisons && <span className="opacity-60"> · compared with {comparisons.prior.from} – {comparisons.prior.to} and {comparisons.lastYear.from} – {comparisons.lastYear.to}</span>}
+          </span>
+        )}
+      </div>
+
+      {budgetAlerts.length > 0 && (
+        <div className="bg-red-50 p-4 rounded-sm border border-red-200 flex items-start gap-3">
+          <ShieldAlert className="w-5 h-5 text-red-600 shrink-0" />
+          <div className="space-y-1">
+            <p className="text-[10px] font-black uppercase tracking-widest text-red-700">Budget overrun alert · beyond {budget?.alertThreshold}%</p>
+            {budgetAlerts.map(p => (
+              <p key={p.line.id} className="text-[11px] font-bold text-red-800">
+                {labelOf(p.line.category)} ({p.line.kind}): projected {formatAmount(p.projected)} CHF vs budget {formatAmount(p.budget)} CHF
+                <span className="font-mono"> ({p.projectedVariance > 0 ? '+' : ''}{p.budget ? ((p.projectedVariance / p.budget) * 100).toFixed(1) : '—'}%)</span>
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
           <div className="bg-white p-6 rounded-sm border border-ypsom-alice shadow-sm flex flex-col justify-between">
              <div className="flex items-center gap-3 mb-4">
@@ -249,6 +375,12 @@ export const FinancialInsights: React.FC<FinancialInsightsProps> = ({ documents
              <p className="text-xl font-black text-ypsom-deep font-mono leading-none">
                {stats.income.toLocaleString(undefined, { minimumFractionDigits: 2 })} <span className="text-xs opacity-40">CHF</span>
              </p>
+             {comparisons && (
+               <div className="mt-3 flex flex-col gap-0.5">
+                 <VarianceBadge label="Prior period" change={comparisons.previousPeriod.income} />
+                 <VarianceBadge label="Prior year" change={comparisons.previousYear.income} />
+               </div>
+             )}
           </div>
           <div className="bg-white p-6 rounded-sm border border-ypsom-alice shadow-sm flex flex-col justify-between">
              <div className="flex items-center gap-3 mb-4">
@@ -258,6 +390,12 @@ export const FinancialInsights: React.FC<FinancialInsightsProps> = ({ documents
              <p className="text-xl font-black text-ypsom-deep font-mono leading-none">
                {stats.expense.toLocaleString(undefined, { minimumFractionDigits: 2 })} <span className="text-xs opacity-40">CHF</span>
              </p>
+             {comparisons && (
+               <div className="mt-3 flex flex-col gap-0.5">
+                 <VarianceBadge label="Prior period" change={comparisons.previousPeriod.expense} lowerIsBetter />
+                 <VarianceBadge label="Prior year" change={comparisons.previousYear.expense} lowerIsBetter />
+               </div>
+             )}
           </div>
           <div className="bg-white p-6 rounded-sm border border-ypsom-alice shadow-sm flex flex-col justify-between">
              <div className="flex items-center gap-3 mb-4">
@@ -269,22 +407,128 @@ export const FinancialInsights: React.FC<FinancialInsightsProps> = ({ documents
           <div className="bg-ypsom-deep p-6 rounded-sm shadow-xl flex flex-col justify-between">
              <div className="flex items-center gap-3 mb-4">
                 <div className="p-2 bg-white/10 text-white rounded-sm"><Activity className="w-4 h-4" /></div>
-                <span className="text-[10px] font-black uppercase text-white/40 tracking-widest">Reconciliation Status</span>
+                <span className="text-[10px] font-black uppercase text-white/40 tracking-widest">Net Result</span>
              </div>
-             <p className="text-xl font-black text-white font-mono leading-none">CERTIFIED</p>
+             <p className="text-xl font-black text-white font-mono leading-none">
+               {formatAmount(stats.net)} <span className="text-xs opacity-40">CHF</span>
+             </p>
+             {comparisons && (
+               <div className="mt-3 flex flex-col gap-0.5 bg-white rounded-sm px-2 py-1">
+                 <VarianceBadge label="Prior period" change={comparisons.previousPeriod.net} />
+                 <VarianceBadge label="Prior year" change={comparisons.previousYear.net} />
+               </div>
+             )}
           </div>
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-4 gap-12 flex-1 min-h-0">
+      {trend && trend.rows.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-white p-6 rounded-sm border border-ypsom-alice shadow-md">
+             <div className="flex items-center justify-between mb-6 border-b border-ypsom-alice pb-3">
+                <h3 className="text-[11px] font-black uppercase tracking-widest text-ypsom-deep">Income & Expense Trend</h3>
+                <div className="flex items-center gap-1">
+                  {(['month', 'quarter'] as const).map(g => (
+                    <button
+                      key={g}
+                      onClick={() => setGranularity(g)}
+                      className={`px-2 py-1 rounded-sm text-[8px] font-black uppercase tracking-widest ${granularity === g ? 'bg-ypsom-deep text-white' : 'text-ypsom-slate hover:bg-gray-100'}`}
+                    >
+                      {g === 'month' ? 'Monthly' : 'Quarterly'}
+                    </button>
+                  ))}
+                </div>
+             </div>
+             <div className="flex items-end gap-3 h-36 overflow-x-auto custom-scrollbar pb-1">
+                {trend.rows.map(row => (
+                  <div key={row.key} className="flex flex-col items-center gap-1 min-w-[44px] flex-1 h-full justify-end" title={`${row.label}: income ${formatAmount(row.income)}, expenses ${formatAmount(row.expense)}`}>
+                     <div className="flex items-end gap-0.5 flex-1 w-full justify-center">
+                        <div className="w-3 bg-emerald-500 rounded-t-sm" style={{ height: `${(Math.max(row.income, 0) / trend.maxBar) * 100}%` }} />
+                        <div className="w-3 bg-red-500 rounded-t-sm" style={{ height: `${(Math.max(row.expense, 0) / trend.maxBar) * 100}%` }} />
+                     </div>
+                     <span className="text-[7px] font-black uppercase text-ypsom-slate whitespace-nowrap">{row.label}</span>
+                  </div>
+                ))}
+             </div>
+             <div className="mt-6 overflow-x-auto">
+                <table className="min-w-full text-[10px]">
+                   <thead className="border-b border-ypsom-alice">
+                      <tr className="text-[8px] font-black uppercase tracking-widest text-ypsom-slate">
+                         <th className="px-2 py-2 text-left">Period</th>
+                         <th className="px-2 py-2 text-right">Income</th>
+                         <th className="px-2 py-2 text-right">Expenses</th>
+                         <th className="px-2 py-2 text-right">Net</th>
+                         <th className="px-2 py-2 text-right">Net vs prior {granularity}</th>
+                         <th className="px-2 py-2 text-right">Net vs prior year</th>
+                      </tr>
+                   </thead>
+                   <tbody className="divide-y divide-ypsom-alice">
+                      {trend.rows.map(row => (
+                        <tr key={row.key}>
+                           <td className="px-2 py-1.5 font-black text-ypsom-deep uppercase">{row.label}</td>
+                           <td className="px-2 py-1.5 text-right font-mono">{formatAmount(row.income)}</td>
+                           <td className="px-2 py-1.5 text-right font-mono">{formatAmount(row.expense)}</td>
+                           <td className={`px-2 py-1.5 text-right font-mono font-black ${row.net < 0 ? 'text-red-600' : 'text-ypsom-deep'}`}>{formatAmount(row.net)}</td>
+                           <td className="px-2 py-1.5 text-right"><VarianceBadge change={variance(row.net, row.previous.net)} /></td>
+                           <td className="px-2 py-1.5 text-right"><VarianceBadge change={variance(row.net, row.previousYear.net)} /></td>
+                        </tr>
+                      ))}
+                   </tbody>
+                </table>
+             </div>
+          </div>
+          <div className="bg-white p-6 rounded-sm border border-ypsom-alice shadow-md">
+             <div className="flex items-center justify-between mb-6 border-b border-ypsom-alice pb-3">
+                <h3 className="text-[11px] font-black uppercase tracking-widest text-ypsom-deep">{groupBy === 'group' ? 'Group' : 'Category'} Trends</h3>
+                <span className="text-[8px] font-black uppercase tracking-widest text-ypsom-slate">vs prior year</span>
+             </div>
+             <div className="space-y-4">
+                {trend.categories.map(cat => {
+                  const catConfig = resolveCategory(taxonomy, cat.category);
+                  const peak = Math.max(1, ...cat.values.map(v => Math.abs(v)));
+                  return (
+                    <div key={cat.category}>
+                       <div className="flex justify-between items-center mb-1">
+                          <span className="text-[10px] font-black text-ypsom-deep uppercase truncate max-w-[140px]">{labelOf(cat.category)}</span>
+                          <span className="text-[10px] font-black font-mono text-ypsom-deep">{formatAmount(cat.total)}</span>
+                       </div>
+                       <div className="flex items-end gap-0.5 h-6">
+                          {cat.values.map((v, i) => (
+                            <div key={i} className={`flex-1 rounded-t-sm ${catConfig ? `bg-${catConfig.color}-500` : 'bg-slate-400'}`} style={{ height: `${Math.max((Math.abs(v) / peak) * 100, v ? 8 : 2)}%` }} title={`${trend.rows[i]?.label}: ${formatAmount(v)}`} />
+                          ))}
+                       </div>
+                       <div className="text-right mt-0.5"><VarianceBadge change={variance(cat.total, cat.previousYearTotal)} lowerIsBetter={cat.income * 2 < cat.total} /></div>
+                    </div>
+                  );
+                })}
+             </div>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-12 h-[calc(100vh-250px)] min-h-[560px]">
         <div className="lg:col-span-1 space-y-8 overflow-y-auto pr-3 custom-scrollbar h-full">
           <div className="bg-white p-8 rounded-sm border border-ypsom-alice shadow-md">
              <div className="flex items-center justify-between mb-8 border-b border-ypsom-alice pb-3">
                 <h3 className="text-[11px] font-black uppercase tracking-widest text-ypsom-deep">Dynamic Distribution</h3>
-                <BarChart3 className="w-4 h-4 text-ypsom-slate opacity-20" />
+                <div className="flex items-center gap-1">
+                  {(['category', 'group'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => { setGroupBy(mode); setExpandedCat(null); }}
+                      className={`px-2 py-1 rounded-sm text-[8px] font-black uppercase tracking-widest ${groupBy === mode ? 'bg-ypsom-deep text-white' : 'text-ypsom-slate hover:bg-gray-100'}`}
+                    >
+                      {mode === 'category' ? 'Categories' : 'Groups'}
+                    </button>
+                  ))}
+                  <BarChart3 className="w-4 h-4 text-ypsom-slate opacity-20 ml-1" />
+                </div>
              </div>
+             <p className="-mt-5 mb-6 text-[9px] font-bold text-ypsom-slate">
+               Deductible {stats.deductible.toLocaleString(undefined, { minimumFractionDigits: 2 })} · Not deductible {(stats.expense - stats.deductible).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+             </p>
              <div className="space-y-6">
                 {sortedCategories.map(([catName, data]) => {
-                  const catConfig = TAX_CATEGORIES.find(c => c.id === catName);
+                  const catConfig = resolveCategory(taxonomy, catName);
                   const isExpanded = expandedCat === catName;
                   return (
                     <div key={catName} className="space-y-3">
@@ -293,14 +537,14 @@ export const FinancialInsights: React.FC<FinancialInsightsProps> = ({ documents
                          className="w-full text-left group"
                        >
                          <div className="flex justify-between items-end mb-2">
-                            <span className="text-[12px] font-black text-ypsom-deep uppercase tracking-tighter group-hover:text-ypsom-shadow transition-colors truncate max-w-[150px]">{catName}</span>
+                            <span className="text-[12px] font-black text-ypsom-deep uppercase tracking-tighter group-hover:text-ypsom-shadow transition-colors truncate max-w-[150px]">{labelOf(catName)}</span>
                             <span className="text-[11px] font-black text-ypsom-deep font-mono">
                               {data.total.toLocaleString(undefined, { minimumFractionDigits: 2 })}
                             </span>
                          </div>
                          <div className="h-2 bg-gray-100 rounded-full overflow-hidden shadow-inner flex">
                             <div 
-                              className={`h-full ${catConfig?.color.replace('text', 'bg') || 'bg-slate-500'} transition-all duration-700 ease-out`} 
+                              className={`h-full ${catConfig ? `bg-${catConfig.color}-600` : 'bg-slate-500'} transition-all duration-700 ease-out`} 
                               style={{ width: `${(data.total / maxVal) * 100}%` }} 
                             />
                          </div>
@@ -0,0 +1,270 @@
+import React, { useEffect, useState } from 'react';
+import { Users, Plus, Mail, Trash2, Loader2, XCircle, Building } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useClient } from '../context/ClientContext';
+import {
+  ROLE_LABELS,
+  canPerform,
+  createFirm,
+  getFirm,
+  getFirmInvitations,
+  getFirmMembers,
+  getUserMemberships,
+  inviteMember,
+  removeMember,
+  revokeInvitation,
+  updateMemberRole,
+} from '../services/firmService';
+import type { Firm, FirmInvitation, FirmMember, FirmRole } from '../types';
+
+const ROLES = Object.keys(ROLE_LABELS) as FirmRole[];
+
+const ROLE_HINTS: Record<FirmRole, string> = {
+  owner: 'Manages members and clients, certifies records',
+  preparer: 'Uploads and corrects records, adds clients',
+  reviewer: 'Corrects and certifies records',
+  readonly: 'Views records and reports',
+};
+
+/**
+ * Firm workspace administration: create a firm, invite colleagues by e-mail and assign their roles.
+ */
+export const FirmSettings: React.FC = () => {
+  const { user } = useAuth();
+  const { refreshClients } = useClient();
+  const [firms, setFirms] = useState<{ firm: Firm; role: FirmRole }[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [members, setMembers] = useState<FirmMember[]>([]);
+  const [invitations, setInvitations] = useState<FirmInvitation[]>([]);
+  const [firmName, setFirmName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<FirmRole>('preparer');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = firms.find(f => f.firm.id === selectedId) ?? null;
+  const canManage = canPerform(selected?.role, 'manageMembers');
+
+  const loadFirms = async () => {
+    if (!user?.uid) return;
+    setLoading(true);
+    try {
+      const memberships = await getUserMemberships(user.uid);
+      const loaded = await Promise.all(memberships.map(async m => ({ firm: await getFirm(m.firmId), role: m.role })));
+      const available = loaded.filter((f): f is { firm: Firm; role: FirmRole } => f.firm !== null);
+      setFirms(available);
+      setSelectedId(prev => (prev && available.some(f => f.firm.id === prev) ? prev : available[0]?.firm.id ?? null));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadTeam = async (firmId: string) => {
+    try {
+      const [m, i] = await Promise.all([getFirmMembers(firmId), getFirmInvitations(firmId)]);
+      setMembers(m.sort((a, b) => a.email.localeCompare(b.email)));
+      setInvitations(i);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  useEffect(() => { loadFirms(); }, [user?.uid]);
+  useEffect(() => { if (selectedId) loadTeam(selectedId); }, [selectedId]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.uid) return;
+    run(async () => {
+      const firm = await createFirm(user.uid, user.email || '', firmName);
+      setFirmName('');
+      setSelectedId(firm.id);
+      await loadFirms();
+      await refreshClients();
+    });
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.uid || !selected) return;
+    run(async () => {
+      await inviteMember(user.uid, selected.firm, inviteEmail, inviteRole);
+      setInviteEmail('');
+      await loadTeam(selected.firm.id);
+    });
+  };
+
+  const handleRoleChange = (member: FirmMember, role: FirmRole) => {
+    if (!user?.uid || !selected) return;
+    run(async () => {
+      await updateMemberRole(user.uid, selected.firm.id, member.userId, role);
+      await loadTeam(selected.firm.id);
+    });
+  };
+
+  const handleRemove = (member: FirmMember) => {
+    if (!user?.uid || !selected || !confirm(`Remove ${member.email} from ${selected.firm.name}?`)) return;
+    run(async () => {
+      await removeMember(user.uid, selected.firm.id, member.userId);
+      await loadTeam(selected.firm.id);
+    });
+  };
+
+  const handleRevoke = (invitation: FirmInvitation) => {
+    if (!selected) return;
+    run(async () => {
+      await revokeInvitation(invitation);
+      await loadTeam(selected.firm.id);
+    });
+  };
+
+  if (loading) {
+    return <div className="py-20 text-center"><Loader2 className="w-8 h-8 animate-spin text-ypsom-deep/20 mx-auto" /></div>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+      <div className="lg:col-span-4 space-y-6">
+        <div className="bg-white p-6 rounded-sm shadow-sm border border-ypsom-alice">
+          <h3 className="text-sm font-bold text-ypsom-deep flex items-center mb-4"><Building className="w-4 h-4 mr-2" /> Firms</h3>
+          {firms.length === 0 && <p className="text-[10px] text-ypsom-slate mb-4">You are not a member of any firm yet. Clients you create stay personal until you move your work into a firm.</p>}
+          <ul className="space-y-1 mb-6">
+            {firms.map(({ firm, role }) => (
+              <li key={firm.id}>
+                <button
+                  onClick={() => setSelectedId(firm.id)}
+                  className={`w-full flex items-center justify-between px-3 py-2 rounded-sm border text-left ${selectedId === firm.id ? 'border-ypsom-deep bg-ypsom-deep/5' : 'border-ypsom-alice hover:bg-gray-50'}`}
+                >
+                  <span className="text-xs font-bold text-ypsom-deep">{firm.name}</span>
+                  <span className="text-[8px] font-black uppercase tracking-widest text-ypsom-slate">{ROLE_LABELS[role]}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <input
+              value={firmName}
+              onChange={e => setFirmName(e.target.value)}
+              placeholder="New firm name"
+              className="flex-1 h-10 px-3 bg-gray-50 border border-ypsom-alice rounded-sm text-xs font-bold outline-none focus:border-ypsom-deep"
+            />
+            <button type="submit" disabled={busy || !firmName.trim()} className="h-10 px-4 bg-ypsom-deep text-white rounded-sm text-[9px] font-black uppercase tracking-widest flex items-center gap-1 disabled:opacity-50">
+              <Plus className="w-3.5 h-3.5" /> Create
+            </button>
+          </form>
+        </div>
+        <div className="bg-white p-6 rounded-sm shadow-sm border border-ypsom-alice">
+          <h3 className="text-[10px] font-black uppercase tracking-widest text-ypsom-slate mb-3">Roles</h3>
+          <dl className="space-y-2 text-[10px]">
+            {ROLES.map(r => (
+              <div key={r}>
+                <dt className="font-black text-ypsom-deep">{ROLE_LABELS[r]}</dt>
+                <dd className="text-ypsom-slate">{ROLE_HINTS[r]}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      </div>
+
+      <div className="lg:col-span-8 bg-white p-6 rounded-sm shadow-sm border border-ypsom-alice space-y-6">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 text-red-700 text-[10px] font-black uppercase tracking-widest flex items-center justify-between rounded-sm">
+            <span>{error}</span>
+            <button onClick={() => setError(null)}><XCircle className="w-4 h-4" /></button>
+          </div>
+        )}
+        {!selected ? (
+          <p className="py-16 text-center text-[10px] font-black uppercase tracking-widest text-ypsom-slate opacity-40">Create or join a firm to share clients with your team</p>
+        ) : (
+          <>
+            <h3 className="text-sm font-bold text-ypsom-deep flex items-center"><Users className="w-4 h-4 mr-2" /> {selected.firm.name} • Members ({members.length})</h3>
+            <table className="min-w-full text-xs">
+              <thead>
+                <tr className="text-[8px] font-black uppercase tracking-widest text-ypsom-slate text-left border-b border-ypsom-alice">
+                  <th className="py-2">E-mail</th>
+                  <th className="py-2">Role</th>
+                  <th className="py-2">Joined</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-ypsom-alice">
+                {members.map(m => (
+                  <tr key={m.userId}>
+                    <td className="py-2 font-bold text-ypsom-deep">{m.email}{m.userId === user?.uid && <span className="ml-2 text-[8px] text-ypsom-slate uppercase">(you)</span>}</td>
+                    <td className="py-2">
+                      {canManage ? (
+                        <select value={m.role} disabled={busy} onChange={e => handleRoleChange(m, e.target.value as FirmRole)} className="h-8 px-2 bg-gray-50 border border-ypsom-alice rounded-sm text-[10px] font-bold outline-none">
+                          {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                        </select>
+                      ) : (
+                        <span className="text-[10px] font-bold">{ROLE_LABELS[m.role]}</span>
+                      )}
+                    </td>
+                    <td className="py-2 font-mono text-[10px] text-ypsom-slate">{m.joinedAt.split('T')[0]}</td>
+                    <td className="py-2 text-right">
+                      {canManage && (
+                        <button onClick={() => handleRemove(m)} disabled={busy} className="text-ypsom-slate hover:text-red-600"><Trash2 className="w-3.5 h-3.5" /></button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {canManage && (
+              <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2 pt-4 border-t border-ypsom-alice">
+                <div className="relative flex-1">
+                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-ypsom-slate/60" />
+                  <input
+                    type="email"
+                    value={inviteEmail}
+                    onChange={e => setInviteEmail(e.target.value)}
+                    placeholder="colleague@firm.ch"
+                    className="w-full h-10 pl-9 pr-3 bg-gray-50 border border-ypsom-alice rounded-sm text-xs font-bold outline-none focus:border-ypsom-deep"
+                  />
+                </div>
+                <select value={inviteRole} onChange={e => setInviteRole(e.target.value as FirmRole)} className="h-10 px-3 bg-gray-50 border border-ypsom-alice rounded-sm text-[10px] font-bold outline-none">
+                  {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                </select>
+                <button type="submit" disabled={busy || !inviteEmail.trim()} className="h-10 px-5 bg-ypsom-deep text-white rounded-sm text-[9px] font-black uppercase tracking-widest flex items-center justify-center gap-1 disabled:opacity-50">
+                  <Plus className="w-3.5 h-3.5" /> Invite
+                </button>
+              </form>
+            )}
+
+            {invitations.length > 0 && (
+              <div>
+                <p className="text-[10px] font-black uppercase tracking-widest text-ypsom-slate mb-2">Pending Invitations</p>
+                <ul className="space-y-1">
+                  {invitations.map(inv => (
+                    <li key={inv.id} className="flex items-center justify-between px-3 py-2 bg-gray-50 rounded-sm text-[10px]">
+                      <span className="font-bold text-ypsom-deep">{inv.email} <span className="ml-2 text-ypsom-slate uppercase text-[8px] font-black tracking-widest">{ROLE_LABELS[inv.role]}</span></span>
+                      {canManage && (
+                        <button onClick={() => handleRevoke(inv)} disabled={busy} className="text-[9px] font-black uppercase tracking-widest text-red-600 hover:text-red-800">Revoke</button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,306 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BookOpen, Download, Settings2, Save, Plus, Loader2, AlertTriangle, Scale } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useClient } from '../context/ClientContext';
+import { useDocuments } from '../context/DocumentContext';
+import { useTaxonomy } from '../context/TaxonomyContext';
+import { buildJournal, DEFAULT_KMU_CHART, trialBalance } from '../services/journalService';
+import { getChartOfAccounts, saveChartOfAccounts } from '../services/chartOfAccountsService';
+import { exportJournal } from '../services/excelService';
+import { fiscalYearRange } from '../services/clientService';
+import { selectableCategories } from '../services/taxonomyService';
+import { buildAccountingExport, downloadAccountingExport, type AccountingPackage, type UnmappedRecord } from '../services/accountingExportService';
+import type { ChartOfAccounts, LedgerAccountType } from '../types';
+
+const formatChf = (value: number) =>
+  value ? value.toLocaleString('de-CH', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : '';
+
+const DEFAULT_LABELS: Record<keyof ChartOfAccounts['defaults'], string> = {
+  bank: 'Bank',
+  creditors: 'Creditors',
+  debtors: 'Debtors',
+  revenue: 'Revenue',
+  expense: 'Other expense',
+  inputVatMaterial: 'Input VAT (material)',
+  inputVatOther: 'Input VAT (other)',
+  outputVat: 'Output VAT',
+  suspense: 'Suspense',
+};
+
+const ACCOUNT_TYPES: LedgerAccountType[] = ['asset', 'liability', 'equity', 'revenue', 'expense'];
+
+const EXPORT_TARGETS: { id: 'excel' | AccountingPackage; label: string }[] = [
+  { id: 'excel', label: 'Excel' },
+  { id: 'banana', label: 'Banana' },
+  { id: 'bexio', label: 'Bexio' },
+  { id: 'abacus', label: 'Abacus' },
+];
+
+const inputClass = 'h-8 px-2 border border-ypsom-alice rounded-sm text-[10px] font-bold bg-white';
+
+export const JournalView: React.FC = () => {
+  const { user } = useAuth();
+  const { currentClient } = useClient();
+  const { documents } = useDocuments();
+  const { taxonomy, categoryOf, labelOf } = useTaxonomy();
+  const [chart, setChart] = useState<ChartOfAccounts>(DEFAULT_KMU_CHART);
+  const [isEditingChart, setIsEditingChart] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [storeError, setStoreError] = useState<string | null>(null);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [exportTarget, setExportTarget] = useState<'excel' | AccountingPackage>('excel');
+  const [exportReport, setExportReport] = useState<{ target: string; exported: number; unmapped: UnmappedRecord[] } | null>(null);
+  const [newAccount, setNewAccount] = useState({ number: '', name: '', type: 'expense' as LedgerAccountType });
+
+  // The journal opens on the client's current fiscal year.
+  useEffect(() => {
+    if (!currentClient) return;
+    const { from, to } = fiscalYearRange(currentClient.profile);
+    setFromDate(from);
+    setToDate(to);
+  }, [currentClient?.id, currentClient?.profile.fiscalYearStartMonth]);
+
+  useEffect(() => {
+    if (!currentClient?.id) return;
+    getChartOfAccounts(currentClient.id).then(setChart).catch((err) => setStoreError(err.message));
+  }, [currentClient?.id]);
+
+  const journal = useMemo(() => buildJournal(documents, chart, currentClient?.name || ''), [documents, chart, currentClient?.name]);
+  const entries = useMemo(
+    () => journal.entries.filter(e => (!fromDate || e.date >= fromDate) && (!toDate || e.date <= toDate)),
+    [journal, fromDate, toDate]
+  );
+  const balance = useMemo(() => trialBalance(entries, chart), [entries, chart]);
+  const totals = useMemo(
+    () => balance.reduce((t, row) => ({ debit: t.debit + row.debit, credit: t.credit + row.credit }), { debit: 0, credit: 0 }),
+    [balance]
+  );
+
+  const accountName = (number: string) => chart.accounts.find(a => a.number === number)?.name || 'Unknown account';
+  const sortedAccounts = useMemo(() => [...chart.accounts].sort((a, b) => a.number.localeCompare(b.number)), [chart.accounts]);
+  // Mappings kept for the former ids of renamed categories are not listed; only documents in closed periods use them.
+  const categories = useMemo(
+    () => Array.from(new Set([
+      ...selectableCategories(taxonomy).map(c => c.id),
+      ...Object.keys(chart.categoryAccounts).filter(key => (categoryOf(key)?.id ?? key) === key),
+    ])),
+    [taxonomy, categoryOf, chart.categoryAccounts]
+  );
+
+  const saveChart = async () => {
+    if (!user?.uid || !currentClient?.id) return;
+    setIsSaving(true);
+    setStoreError(null);
+    try {
+      await saveChartOfAccounts(user.uid, currentClient.id, chart);
+      setIsEditingChart(false);
+    } catch (err: any) {
+      setStoreError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const runExport = () => {
+    const clientName = currentClient?.name || 'client';
+    if (exportTarget === 'excel') {
+      exportJournal(entries, chart, clientName);
+      setExportReport(null);
+      return;
+    }
+    const file = buildAccountingExport(exportTarget, entries, chart, clientName);
+    if (file.exported > 0) downloadAccountingExport(file);
+    setExportReport({ target: EXPORT_TARGETS.find(t => t.id === exportTarget)!.label, exported: file.exported, unmapped: file.unmapped });
+  };
+
+  const addAccount = () => {
+    if (!newAccount.number.trim() || !newAccount.name.trim() || chart.accounts.some(a => a.number === newAccount.number.trim())) return;
+    setChart(prev => ({ ...prev, accounts: [...prev.accounts, { ...newAccount, number: newAccount.number.trim(), name: newAccount.name.trim() }] }));
+    setNewAccount({ number: '', name: '', type: 'expense' });
+  };
+
+  const accountSelect = (value: string, onChange: (value: string) => void) => (
+    <select value={value} onChange={e => onChange(e.target.value)} className={`${inputClass} w-full`}>
+      {sortedAccounts.map(a => <option key={a.number} value={a.number}>{a.number} {a.name}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-sm shadow-sm border border-ypsom-alice flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex-1">
+          <h2 className="text-xl font-bold text-ypsom-deep mb-1 flex items-center"><BookOpen className="w-6 h-6 mr-2" /> General Journal</h2>
+          <p className="text-sm text-ypsom-slate">
+            {journal.entries.length} bookings from verified records{journal.skipped > 0 && ` · ${journal.skipped} unverified records not booked`}
+          </p>
+        </div>
+        <div className="flex items-end gap-3">
+          <div>
+            <label className="text-[9px] font-black uppercase tracking-widest text-ypsom-slate block mb-1">From</label>
+            <input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="text-[9px] font-black uppercase tracking-widest text-ypsom-slate block mb-1">To</label>
+            <input type="date" value={toDate} onChange={e => setToDate(e.target.value)} className={inputClass} />
+          </div>
+          <button onClick={() => setIsEditingChart(v => !v)} className="h-9 px-4 bg-ypsom-alice text-ypsom-deep rounded-sm text-[10px] font-black uppercase tracking-widest flex items-center hover:bg-ypsom-alice/70">
+            <Settings2 className="w-3.5 h-3.5 mr-2" /> Chart of Accounts
+          </button>
+          <div>
+            <label className="text-[9px] font-black uppercase tracking-widest text-ypsom-slate block mb-1">Export For</label>
+            <select value={exportTarget} onChange={e => setExportTarget(e.target.value as 'excel' | AccountingPackage)} className={`${inputClass} h-9`}>
+              {EXPORT_TARGETS.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+            </select>
+          </div>
+          <button
+            onClick={runExport}
+            disabled={entries.length === 0}
+            className="h-9 px-4 bg-ypsom-deep text-white rounded-sm text-[10px] font-black uppercase tracking-widest flex items-center hover:bg-ypsom-shadow disabled:opacity-40"
+          >
+            <Download className="w-3.5 h-3.5 mr-2" /> Export
+          </button>
+        </div>
+      </div>
+
+      {storeError && <div className="text-[10px] font-bold text-red-600 bg-red-50 border border-red-100 px-3 py-2 rounded-sm">{storeError}</div>}
+      {journal.warnings.length > 0 && (
+        <div className="bg-amber-50 border border-amber-100 rounded-sm p-4 space-y-1">
+          {journal.warnings.map((w, i) => (
+            <p key={i} className="text-[10px] font-bold text-amber-800 flex items-start gap-2"><AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> {w}</p>
+          ))}
+        </div>
+      )}
+
+      {exportReport && (
+        <div className={`border rounded-sm p-4 space-y-1 ${exportReport.unmapped.length ? 'bg-amber-50 border-amber-100' : 'bg-green-50 border-green-100'}`}>
+          <div className="flex justify-between items-center">
+            <p className="text-[10px] font-black uppercase tracking-widest text-ypsom-deep">
+              {exportReport.target}: {exportReport.exported} bookings exported{exportReport.unmapped.length > 0 && `, ${exportReport.unmapped.length} could not be mapped`}
+              {journal.skipped > 0 && ` · ${journal.skipped} unverified records not included`}
+            </p>
+            <button onClick={() => setExportReport(null)} className="text-[9px] font-black uppercase text-ypsom-slate hover:text-ypsom-deep">Dismiss</button>
+          </div>
+          {exportReport.unmapped.map(u => (
+            <p key={u.entryId} className="text-[10px] font-bold text-amber-800 flex items-start gap-2"><AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> {u.label}: {u.reason}</p>
+          ))}
+        </div>
+      )}
+
+      {isEditingChart && (
+        <div className="bg-white p-6 rounded-sm shadow-sm border border-ypsom-alice space-y-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-bold text-ypsom-deep">Chart of Accounts — {currentClient?.name}</h3>
+            <div className="flex gap-2">
+              <button onClick={() => setChart(DEFAULT_KMU_CHART)} className="px-3 py-2 text-ypsom-slate rounded-sm text-[10px] font-black uppercase tracking-widest hover:bg-gray-50">Reset to KMU</button>
+              <button onClick={saveChart} disabled={isSaving} className="px-3 py-2 bg-ypsom-deep text-white rounded-sm text-[10px] font-black uppercase tracking-widest flex items-center hover:bg-ypsom-shadow">
+                {isSaving ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Save className="w-3 h-3 mr-1" />} Save
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="space-y-2">
+              <p className="text-[9px] font-black uppercase tracking-widest text-ypsom-slate">Category → Account</p>
+              {categories.map(category => (
+                <div key={category} className="grid grid-cols-2 gap-2 items-center">
+                  <span className="text-[10px] font-bold text-ypsom-shadow truncate">{labelOf(category)}</span>
+                  {accountSelect(chart.categoryAccounts[category] || chart.defaults.expense, value =>
+                    setChart(prev => ({ ...prev, categoryAccounts: { ...prev.categoryAccounts, [category]: value } }))
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <p className="text-[9px] font-black uppercase tracking-widest text-ypsom-slate">Booking Accounts</p>
+              {(Object.keys(DEFAULT_LABELS) as (keyof ChartOfAccounts['defaults'])[]).map(key => (
+                <div key={key} className="grid grid-cols-2 gap-2 items-center">
+                  <span className="text-[10px] font-bold text-ypsom-shadow">{DEFAULT_LABELS[key]}</span>
+                  {accountSelect(chart.defaults[key], value => setChart(prev => ({ ...prev, defaults: { ...prev.defaults, [key]: value } })))}
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <p className="text-[9px] font-black uppercase tracking-widest text-ypsom-slate">Accounts</p>
+              <div className="max-h-[360px] overflow-y-auto custom-scrollbar border border-ypsom-alice rounded-sm divide-y divide-ypsom-alice">
+                {sortedAccounts.map(a => (
+                  <div key={a.number} className="px-2 py-1.5 text-[10px] flex gap-2">
+                    <span className="font-mono font-bold w-10">{a.number}</span>
+                    <span className="flex-1 truncate">{a.name}</span>
+                    <span className="text-ypsom-slate uppercase text-[8px] font-black">{a.type}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <input value={newAccount.number} onChange={e => setNewAccount(p => ({ ...p, number: e.target.value }))} placeholder="No." className={`${inputClass} w-16`} />
+                <input value={newAccount.name} onChange={e => setNewAccount(p => ({ ...p, name: e.target.value }))} placeholder="Account name" className={`${inputClass} flex-1`} />
+                <select value={newAccount.type} onChange={e => setNewAccount(p => ({ ...p, type: e.target.value as LedgerAccountType }))} className={inputClass}>
+                  {ACCOUNT_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+                <button onClick={addAccount} className="px-2 bg-ypsom-alice text-ypsom-deep rounded-sm"><Plus className="w-3.5 h-3.5" /></button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 bg-white rounded-sm border border-ypsom-alice shadow-sm overflow-hidden">
+          <table className="min-w-full divide-y divide-ypsom-alice text-xs">
+            <thead className="bg-gray-50">
+              <tr className="font-bold text-[9px] uppercase tracking-wider text-ypsom-slate">
+                <th className="px-4 py-3 text-left">Date</th>
+                <th className="px-4 py-3 text-left">Booking</th>
+                <th className="px-4 py-3 text-left">Account</th>
+                <th className="px-4 py-3 text-right">Debit</th>
+                <th className="px-4 py-3 text-right">Credit</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-ypsom-alice">
+              {entries.length === 0 && (
+                <tr><td colSpan={5} className="px-4 py-10 text-center text-[10px] font-black uppercase tracking-widest text-ypsom-slate/40">No verified records in this period</td></tr>
+              )}
+              {entries.map(entry => entry.lines.map((l, i) => (
+                <tr key={`${entry.id}-${i}`} className={i === 0 ? 'border-t-2 border-ypsom-alice' : ''}>
+                  <td className="px-4 py-1.5 font-mono">{i === 0 ? entry.date : ''}</td>
+                  <td className="px-4 py-1.5">
+                    {i === 0 && (
+                      <>
+                        <span className="font-bold">{entry.description}</span>
+                        {entry.reference && <span className="ml-2 font-mono text-[9px] text-ypsom-slate">{entry.reference}</span>}
+                        <span className="ml-2 text-[8px] font-black uppercase text-ypsom-slate">{entry.source}</span>
+                      </>
+                    )}
+                  </td>
+                  <td className={`px-4 py-1.5 ${l.credit ? 'pl-10' : ''}`}><span className="font-mono font-bold">{l.account}</span> <span className="text-ypsom-slate">{accountName(l.account)}</span></td>
+                  <td className="px-4 py-1.5 text-right font-mono">{formatChf(l.debit)}</td>
+                  <td className="px-4 py-1.5 text-right font-mono">{formatChf(l.credit)}</td>
+                </tr>
+              )))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="bg-white rounded-sm border border-ypsom-alice shadow-sm h-fit">
+          <div className="p-4 bg-gray-50 border-b border-ypsom-alice font-bold text-[10px] text-ypsom-slate uppercase tracking-widest flex items-center gap-2"><Scale className="w-3 h-3" /> Trial Balance</div>
+          <table className="min-w-full text-[10px]">
+            <tbody className="divide-y divide-ypsom-alice">
+              {balance.map(row => (
+                <tr key={row.account}>
+                  <td className="px-3 py-1.5 font-mono font-bold">{row.account}</td>
+                  <td className="px-3 py-1.5 truncate max-w-[140px]">{row.name}</td>
+                  <td className={`px-3 py-1.5 text-right font-mono ${row.balance < 0 ? 'text-red-600' : ''}`}>{row.balance.toFixed(2)}</td>
+                </tr>
+              ))}
+              <tr className="font-black text-ypsom-deep">
+                <td className="px-3 py-2" colSpan={2}>Debit {totals.debit.toFixed(2)} · Credit {totals.credit.toFixed(2)}</td>
+                <td className={`px-3 py-2 text-right ${Math.abs(totals.debit - totals.credit) > 0.005 ? 'text-red-600' : 'text-green-700'}`}>
+                  {Math.abs(totals.debit - totals.credit) > 0.005 ? 'Unbalanced' : 'Balanced'}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,6 @@
 import React, { useState } from 'react';
-import { GoogleGenAI } from "@google/genai";
 import { Upload, Camera, Search, Loader2, FileSearch, Sparkles, X, Eye, AlertCircle, RefreshCw, Zap, Layers } from 'lucide-react';
-import { fileToBase64 } from '../services/geminiService';
+import { analyzeImage } from '../services/extractionService';
 
 export const NanoBananaEditor: React.FC = () => {
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
@@ -26,9 +25,6 @@ export const NanoBananaEditor: React.FC = () => {
     setIsAnalyzing(true);
     
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const base64 = await fileToBase64(selectedImage);
-      
       const z2Prompt = `Perform a Z2 Bulk Forensic Analysis on this image containing multiple tickets/receipts. 
       1. Identify and count all distinct documents visible in this batch.
       2. For each identified document:
@@ -39,17 +35,9 @@ export const NanoBananaEditor: React.FC = () => {
       4. Provide a total audit sum for the entire image.
       Format the output using clear Markdown tables for each document's line items and a summary section at the end.`;
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image', 
-        contents: {
-          parts: [
-            { inlineData: { mimeType: selectedImage.type, data: base64 } },
-            { text: isZ2Mode ? z2Prompt : customPrompt }
-          ]
-        }
-      });
+      const result = await analyzeImage(selectedImage, isZ2Mode ? z2Prompt : customPrompt);
 
-      setAnalysisResult(response.text || "No insights extracted from visual analysis.");
+      setAnalysisResult(result || "No insights extracted from visual analysis.");
     } catch (err: any) {
       setAnalysisResult(`Visual Forensic Error: ${err.message}`);
     } finally {
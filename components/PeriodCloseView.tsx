@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Lock, Unlock, CalendarRange, Loader2, AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useClient } from '../context/ClientContext';
+import { useDocuments } from '../context/DocumentContext';
+import { fiscalYearRange } from '../services/clientService';
+import { closePeriod, fiscalPeriods, fiscalYearLabel, getPeriodLocks, reopenPeriod } from '../services/periodService';
+import type { FiscalPeriod, FiscalPeriodKind, PeriodLock } from '../types';
+
+/**
+ * Close and reopen the months or quarters of a client's fiscal year. Closed periods lock the documents
+ * dated inside them; only roles that may certify can change a period's state, always with a reason.
+ */
+export const PeriodCloseView: React.FC = () => {
+  const { user } = useAuth();
+  const { currentClient, can } = useClient();
+  const { documents } = useDocuments();
+  const profile = currentClient?.profile;
+  const currentStartYear = profile ? Number(fiscalYearRange(profile).from.slice(0, 4)) : new Date().getFullYear();
+  const [startYear, setStartYear] = useState(currentStartYear);
+  const [kind, setKind] = useState<FiscalPeriodKind>('quarter');
+  const [locks, setLocks] = useState<PeriodLock[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<{ period: FiscalPeriod; close: boolean; reason: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user?.uid || !currentClient?.id) return;
+    setLoading(true);
+    getPeriodLocks(user.uid, currentClient.id)
+      .then(setLocks)
+      .catch((err) => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [user?.uid, currentClient?.id]);
+
+  const periods = useMemo(() => (profile ? fiscalPeriods(profile, startYear, kind) : []), [profile, startYear, kind]);
+
+  const years = useMemo(() => {
+    if (!profile) return [];
+    const starts = documents
+      .map(d => d.data?.date)
+      .filter((date): date is string => !!date && date > '2000')
+      .map(date => Number(fiscalYearRange(profile, new Date(`${date}T00:00:00`)).from.slice(0, 4)));
+    return Array.from(new Set([...starts, currentStartYear, startYear])).sort((a, b) => b - a);
+  }, [documents, profile, currentStartYear, startYear]);
+
+  if (!currentClient || !profile) return null;
+
+  const canClose = can('certify');
+
+  const stats = (period: FiscalPeriod) => {
+    const inPeriod = documents.filter(d => d.data?.date && d.data.date >= period.from && d.data.date <= period.to);
+    return { total: inPeriod.length, verified: inPeriod.filter(d => d.data?.isHumanVerified).length };
+  };
+
+  const lockOf = (period: FiscalPeriod) => locks.find(l => l.period.id === period.id);
+
+  // A month is also locked while the quarter containing it is closed, and vice versa.
+  const coveredBy = (period: FiscalPeriod) =>
+    locks.find(l => l.closed && l.period.id !== period.id && l.period.from <= period.to && l.period.to >= period.from);
+
+  const submit = async () => {
+    if (!pending || !user) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const action = pending.close ? closePeriod : reopenPeriod;
+      const lock = await action(user, currentClient, pending.period, pending.reason);
+      setLocks(prev => [...prev.filter(l => l.id !== lock.id), lock]);
+      setPending(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-sm shadow-sm border border-ypsom-alice flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex-1">
+          <h2 className="text-xl font-bold text-ypsom-deep mb-1 flex items-center"><CalendarRange className="w-6 h-6 mr-2" /> Fiscal Periods</h2>
+          <p className="text-sm text-ypsom-slate">
+            {currentClient.name} · Fiscal year {fiscalYearLabel(profile, startYear)}
+            {!canClose && ' · Only owners and reviewers can close or reopen periods'}
+          </p>
+        </div>
+        <div className="flex items-end gap-3">
+          <div>
+            <label className="text-[9px] font-black uppercase tracking-widest text-ypsom-slate block mb-1">Fiscal Year</label>
+            <select value={startYear} onChange={e => setStartYear(Number(e.target.value))} className="h-9 px-2 border border-ypsom-alice rounded-sm text-xs font-bold">
+              {years.map(y => <option key={y} value={y}>{fiscalYearLabel(profile, y)}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="text-[9px] font-black uppercase tracking-widest text-ypsom-slate block mb-1">Periods</label>
+            <select value={kind} onChange={e => setKind(e.target.value as FiscalPeriodKind)} className="h-9 px-2 border border-ypsom-alice rounded-sm text-xs font-bold">
+              <option value="quarter">Quarters</option>
+              <option value="month">Months</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 text-red-700 text-[10px] font-black uppercase tracking-widest flex items-center gap-2 rounded-sm">
+          <AlertTriangle className="w-4 h-4 shrink-0" /> {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-sm border border-ypsom-alice shadow-sm overflow-hidden">
+        {loading ? (
+          <div className="py-16 text-center"><Loader2 className="w-6 h-6 animate-spin text-ypsom-deep/20 mx-auto" /></div>
+        ) : (
+          <table className="min-w-full text-xs">
+            <thead className="bg-gray-50">
+              <tr className="text-[9px] font-black uppercase tracking-widest text-ypsom-slate text-left">
+                <th className="px-4 py-3">Period</th>
+                <th className="px-4 py-3">Dates</th>
+                <th className="px-4 py-3 text-right">Documents</th>
+                <th className="px-4 py-3 text-right">Certified</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-ypsom-alice">
+              {periods.map(period => {
+                const lock = lockOf(period);
+                const closed = !!lock?.closed;
+                const covering = coveredBy(period);
+                const { total, verified } = stats(period);
+                const isPending = pending?.period.id === period.id;
+                return (
+                  <React.Fragment key={period.id}>
+                    <tr className={closed ? 'bg-ypsom-alice/20' : ''}>
+                      <td className="px-4 py-3 font-bold text-ypsom-deep">
+                        <button onClick={() => setExpanded(expanded === period.id ? null : period.id)} disabled={!lock?.history.length} className="flex items-center gap-1 disabled:cursor-default">
+                          {lock?.history.length ? (expanded === period.id ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />) : <span className="w-3" />}
+                          {period.label}
+                        </button>
+                      </td>
+                      <td className="px-4 py-3 font-mono text-[10px] text-ypsom-slate">{period.from} – {period.to}</td>
+                      <td className="px-4 py-3 text-right font-mono">{total}</td>
+                      <td className={`px-4 py-3 text-right font-mono ${total > 0 && verified < total ? 'text-amber-700 font-bold' : ''}`}>{verified}</td>
+                      <td className="px-4 py-3">
+                        {closed ? (
+                          <span className="text-[9px] font-black uppercase tracking-widest text-ypsom-deep flex items-center gap-1"><Lock className="w-3 h-3" /> Closed</span>
+                        ) : covering ? (
+                          <span className="text-[9px] font-black uppercase tracking-widest text-ypsom-slate flex items-center gap-1"><Lock className="w-3 h-3" /> Locked by {covering.period.label}</span>
+                        ) : (
+                          <span className="text-[9px] font-black uppercase tracking-widest text-green-700">Open</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {canClose && !isPending && (
+                          <button
+                            onClick={() => setPending({ period, close: !closed, reason: '' })}
+                            className={`h-8 px-3 rounded-sm text-[9px] font-black uppercase tracking-widest inline-flex items-center gap-1 ${closed ? 'bg-amber-50 text-amber-800 hover:bg-amber-100' : 'bg-ypsom-deep text-white hover:bg-ypsom-shadow'}`}
+                          >
+                            {closed ? <><Unlock className="w-3 h-3" /> Reopen</> : <><Lock className="w-3 h-3" /> Close</>}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {isPending && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={6} className="px-4 py-3">
+                          <div className="flex flex-col sm:flex-row gap-2 items-stretch sm:items-center">
+                            <span className="text-[10px] font-bold text-ypsom-deep whitespace-nowrap">
+                              {pending.close ? 'Close' : 'Reopen'} {period.label}
+                              {pending.close && verified < total && <span className="text-amber-700"> ({total - verified} not certified)</span>}
+                            </span>
+                            <input
+                              autoFocus
+                              value={pending.reason}
+                              onChange={e => setPending({ ...pending, reason: e.target.value })}
+                              placeholder={pending.close ? 'Reason, e.g. VAT return filed' : 'Reason for reopening'}
+                              className="flex-1 h-9 px-3 bg-white border border-ypsom-alice rounded-sm text-xs outline-none focus:border-ypsom-deep"
+                            />
+                            <button onClick={submit} disabled={busy || !pending.reason.trim()} className="h-9 px-4 bg-ypsom-deep text-white rounded-sm text-[9px] font-black uppercase tracking-widest disabled:opacity-50 flex items-center gap-1">
+                              {busy && <Loader2 className="w-3 h-3 animate-spin" />} Confirm
+                            </button>
+                            <button onClick={() => setPending(null)} className="h-9 px-4 text-ypsom-slate text-[9px] font-black uppercase tracking-widest hover:text-ypsom-deep">Cancel</button>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                    {expanded === period.id && lock && (
+                      <tr className="bg-gray-50/50">
+                        <td colSpan={6} className="px-10 py-3">
+                          <ul className="space-y-1 text-[10px]">
+                            {lock.history.map((event, i) => (
+                              <li key={i} className="flex gap-3">
+                                <span className="font-mono text-ypsom-slate whitespace-nowrap">{event.at.replace('T', ' ').slice(0, 16)}</span>
+                                <span className="font-black uppercase tracking-widest text-[8px] w-14">{event.action === 'close' ? 'Closed' : 'Reopened'}</span>
+                                <span className="text-ypsom-slate truncate max-w-[160px]">{event.userEmail || event.userId}</span>
+                                <span className="italic">{event.reason}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ListFilter, Plus, Save, Trash2, ArrowUp, ArrowDown, Loader2, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useClient } from '../context/ClientContext';
+import { useDocuments } from '../context/DocumentContext';
+import {
+  EMPTY_RULE_SET,
+  compilePattern,
+  getCategorizationRules,
+  matchesDocument,
+  matchesTransaction,
+  newRuleId,
+  saveCategorizationRules,
+} from '../services/categorizationRuleService';
+import { useTaxonomy } from '../context/TaxonomyContext';
+import { CategoryOptions } from './CategoryTaxonomyView';
+import { DocumentType, type CategorizationRule, type CategorizationRuleSet, type RuleTarget } from '../types';
+
+const TARGETS: Record<RuleTarget, string> = {
+  documents: 'Documents',
+  transactions: 'Bank transactions',
+  both: 'Both',
+};
+
+const inputClass = 'h-8 px-2 bg-white border border-ypsom-alice rounded-sm text-[10px] font-bold outline-none focus:border-ypsom-deep';
+
+const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+/**
+ * Per-client categorization rules, applied in order after every AI extraction and statement import.
+ */
+export const RulesView: React.FC = () => {
+  const { user } = useAuth();
+  const { currentClient, can } = useClient();
+  const { documents } = useDocuments();
+  const { taxonomy } = useTaxonomy();
+  const [ruleSet, setRuleSet] = useState<CategorizationRuleSet>(EMPTY_RULE_SET);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!currentClient?.id) return;
+    setLoading(true);
+    getCategorizationRules(currentClient.id)
+      .then(setRuleSet)
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [currentClient?.id]);
+
+  // How many stored documents and bank lines each rule would match today.
+  const matchCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    ruleSet.rules.forEach(rule => {
+      counts[rule.id] = documents.reduce((n, d) => {
+        if (!d.data) return n;
+        const lines = d.data.documentType === DocumentType.BANK_STATEMENT ? d.data.lineItems || [] : [];
+        return n + (matchesDocument(rule, d.data) ? 1 : 0) + lines.filter(t => matchesTransaction(rule, t, d.data!.originalCurrency)).length;
+      }, 0);
+    });
+    return counts;
+  }, [ruleSet.rules, documents]);
+
+  const canEdit = can('edit');
+
+  const setRules = (rules: CategorizationRule[]) => {
+    setRuleSet(prev => ({ ...prev, rules }));
+    setDirty(true);
+  };
+
+  const updateRule = (id: string, patch: Partial<CategorizationRule>) =>
+    setRules(ruleSet.rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+
+  const moveRule = (index: number, offset: number) => {
+    const rules = [...ruleSet.rules];
+    const [rule] = rules.splice(index, 1);
+    rules.splice(index + offset, 0, rule);
+    setRules(rules);
+  };
+
+  const addRule = () =>
+    setRules([...ruleSet.rules, { id: newRuleId(), name: 'New rule', enabled: true, appliesTo: 'both', pattern: '' }]);
+
+  const save = async () => {
+    if (!user?.uid || !currentClient?.id) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await saveCategorizationRules(user.uid, currentClient.id, ruleSet);
+      setDirty(false);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="py-20 text-center"><Loader2 className="w-8 h-8 animate-spin text-ypsom-deep/20 mx-auto" /></div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-sm shadow-sm border border-ypsom-alice flex flex-col md:flex-row md:items-center gap-4">
+        <div className="flex-1">
+          <h2 className="text-xl font-bold text-ypsom-deep mb-1 flex items-center"><ListFilter className="w-6 h-6 mr-2" /> Categorization Rules</h2>
+          <p className="text-sm text-ypsom-slate">
+            Applied top to bottom after each extraction: the first matching rule sets the category and notes, every matching rule adds its flag.
+          </p>
+        </div>
+        {canEdit && (
+          <div className="flex items-center gap-3">
+            {!dirty && !error && ruleSet.rules.length > 0 && <span className="text-[10px] font-bold text-green-700 flex items-center gap-1"><CheckCircle2 className="w-3.5 h-3.5" /> Saved</span>}
+            <button onClick={addRule} className="h-9 px-4 bg-ypsom-alice text-ypsom-deep rounded-sm text-[10px] font-black uppercase tracking-widest flex items-center gap-1 hover:bg-ypsom-alice/70">
+              <Plus className="w-3.5 h-3.5" /> Add Rule
+            </button>
+            <button onClick={save} disabled={saving || !dirty} className="h-9 px-4 bg-ypsom-deep text-white rounded-sm text-[10px] font-black uppercase tracking-widest flex items-center gap-1 hover:bg-ypsom-shadow disabled:opacity-50">
+              {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />} Save
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 text-red-700 text-[10px] font-black uppercase tracking-widest flex items-center gap-2 rounded-sm">
+          <AlertTriangle className="w-4 h-4 shrink-0" /> {error}
+        </div>
+      )}
+
+      {ruleSet.rules.length === 0 ? (
+        <div className="bg-white py-16 text-center border border-ypsom-alice rounded-sm text-[10px] font-black uppercase tracking-widest text-ypsom-slate opacity-40">
+          No rules yet. Rules are also proposed when the same issuer is recategorized by hand twice.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {ruleSet.rules.map((rule, index) => {
+            const invalidPattern = !compilePattern(rule.pattern);
+            return (
+              <fieldset key={rule.id} disabled={!canEdit} className={`bg-white p-4 rounded-sm border shadow-sm ${rule.enabled ? 'border-ypsom-alice' : 'border-dashed border-ypsom-alice opacity-60'}`}>
+                <div className="flex flex-wrap items-center gap-2 mb-3">
+                  <span className="font-mono text-[10px] text-ypsom-slate w-6">{index + 1}.</span>
+                  <input value={rule.name} onChange={e => updateRule(rule.id, { name: e.target.value })} className={`${inputClass} flex-1 min-w-[160px]`} />
+                  <label className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-ypsom-slate">
+                    <input type="checkbox" checked={rule.enabled} onChange={e => updateRule(rule.id, { enabled: e.target.checked })} /> Enabled
+                  </label>
+                  <span className="text-[9px] font-bold text-ypsom-slate px-2">{matchCounts[rule.id] || 0} match(es)</span>
+                  <button onClick={() => moveRule(index, -1)} disabled={index === 0} className="p-1 text-ypsom-slate hover:text-ypsom-deep disabled:opacity-20"><ArrowUp className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => moveRule(index, 1)} disabled={index === ruleSet.rules.length - 1} className="p-1 text-ypsom-slate hover:text-ypsom-deep disabled:opacity-20"><ArrowDown className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => setRules(ruleSet.rules.filter(r => r.id !== rule.id))} className="p-1 text-ypsom-slate hover:text-red-600"><Trash2 className="w-3.5 h-3.5" /></button>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-2 items-end">
+                  <label className="col-span-2">
+                    <span className="text-[8px] font-black uppercase tracking-widest text-ypsom-slate block mb-1">When issuer / description contains</span>
+                    <input
+                      value={rule.pattern}
+                      onChange={e => updateRule(rule.id, { pattern: e.target.value })}
+                      placeholder="swisscom  or  /^sbb\b/"
+                      className={`${inputClass} w-full font-mono ${invalidPattern ? 'border-red-400 text-red-700' : ''}`}
+                    />
+                  </label>
+                  <label>
+                    <span className="text-[8px] font-black uppercase tracking-widest text-ypsom-slate block mb-1">Applies To</span>
+                    <select value={rule.appliesTo} onChange={e => updateRule(rule.id, { appliesTo: e.target.value as RuleTarget })} className={`${inputClass} w-full`}>
+                      {Object.entries(TARGETS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                    </select>
+                  </label>
+                  <label>
+                    <span className="text-[8px] font-black uppercase tracking-widest text-ypsom-slate block mb-1">Document Type</span>
+                    <select value={rule.documentType || ''} onChange={e => updateRule(rule.id, { documentType: (e.target.value || undefined) as DocumentType | undefined })} className={`${inputClass} w-full`}>
+                      <option value="">Any</option>
+                      {Object.values(DocumentType).map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                  </label>
+                  <label>
+                    <span className="text-[8px] font-black uppercase tracking-widest text-ypsom-slate block mb-1">Min Amount</span>
+                    <input type="number" value={rule.minAmount ?? ''} onChange={e => updateRule(rule.id, { minAmount: optionalNumber(e.target.value) })} className={`${inputClass} w-full`} />
+                  </label>
+                  <label>
+                    <span className="text-[8px] font-black uppercase tracking-widest text-ypsom-slate block mb-1">Max Amount</span>
+                    <input type="number" value={rule.maxAmount ?? ''} onChange={e => updateRule(rule.id, { maxAmount: optionalNumber(e.target.value) })} className={`${inputClass} w-full`} />
+                  </label>
+                  <label>
+                    <span className="text-[8px] font-black uppercase tracking-widest text-ypsom-slate block mb-1">Currency</span>
+                    <input value={rule.currency || ''} onChange={e => updateRule(rule.id, { currency: e.target.value.toUpperCase() || undefined })} maxLength={3} placeholder="Any" className={`${inputClass} w-full uppercase`} />
+                  </label>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mt-2">
+                  <label>
+                    <span className="text-[8px] font-black uppercase tracking-widest text-ypsom-slate block mb-1">Set Category</span>
+                    <select value={rule.setCategory || ''} onChange={e => updateRule(rule.id, { setCategory: e.target.value || undefined })} className={`${inputClass} w-full`}>
+                      <option value="">— keep —</option>
+                      <CategoryOptions taxonomy={taxonomy} value={rule.setCategory} />
+                    </select>
+                  </label>
+                  <label>
+                    <span className="text-[8px] font-black uppercase tracking-widest text-ypsom-slate block mb-1">Add Notes</span>
+                    <input value={rule.setNotes || ''} onChange={e => updateRule(rule.id, { setNotes: e.target.value || undefined })} className={`${inputClass} w-full`} />
+                  </label>
+                  <label>
+                    <span className="text-[8px] font-black uppercase tracking-widest text-ypsom-slate block mb-1">Flag</span>
+                    <input value={rule.flag || ''} onChange={e => updateRule(rule.id, { flag: e.target.value || undefined })} placeholder="e.g. Private expense – check" className={`${inputClass} w-full`} />
+                  </label>
+                </div>
+              </fieldset>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
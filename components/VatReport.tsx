@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Landmark, Download, AlertTriangle, ChevronRight, FileText } from 'lucide-react';
+import { useDocuments } from '../context/DocumentContext';
+import { useClient } from '../context/ClientContext';
+import { buildVatWorksheet, entriesForLine, periodLabel } from '../services/vatService';
+import { exportVatWorksheet } from '../services/excelService';
+import { VAT_METHODS } from './ClientProfileView';
+import type { VatPeriod, VatPeriodKind } from '../types';
+
+const formatChf = (value?: number) =>
+  value === undefined ? '' : value.toLocaleString('de-CH', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Lines that sum other lines are shown in bold, as on the ESTV form.
+const TOTAL_CODES = ['200', '289', '299', '399', '479', '500', '510'];
+
+const currentPeriod = (kind: VatPeriodKind): VatPeriod => {
+  const now = new Date();
+  const month = now.getMonth();
+  return { year: now.getFullYear(), kind, index: kind === 'quarter' ? Math.floor(month / 3) + 1 : Math.floor(month / 6) + 1 };
+};
+
+export const VatReport: React.FC = () => {
+  const { documents } = useDocuments();
+  const { currentClient } = useClient();
+  const [period, setPeriod] = useState<VatPeriod>(() => currentPeriod(currentClient?.profile.vatSettlement || 'quarter'));
+  const [selectedCode, setSelectedCode] = useState<string | null>(null);
+
+  const worksheet = useMemo(
+    () => buildVatWorksheet(documents, currentClient?.name || '', period),
+    [documents, currentClient?.name, period]
+  );
+  const drillDown = useMemo(() => (selectedCode ? entriesForLine(worksheet, selectedCode) : []), [worksheet, selectedCode]);
+
+  const years = useMemo(() => {
+    const fromDocs = documents.map(d => Number(d.data?.date?.slice(0, 4))).filter(y => y > 2000);
+    const all = new Set([...fromDocs, new Date().getFullYear(), period.year]);
+    return Array.from(all).sort((a, b) => b - a);
+  }, [documents, period.year]);
+
+  useEffect(() => {
+    if (currentClient) setPeriod(currentPeriod(currentClient.profile.vatSettlement));
+  }, [currentClient?.id, currentClient?.profile.vatSettlement]);
+
+  const vatMethod = currentClient?.profile.vatMethod || 'effective';
+  const vatNumber = currentClient?.profile.vatNumber;
+
+  const changeKind = (kind: VatPeriodKind) =>
+    setPeriod(prev => ({ ...prev, kind, index: kind === 'semester' ? Math.ceil(prev.index / 2) : (prev.index - 1) * 2 + 1 }));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-sm shadow-sm border border-ypsom-alice flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex-1">
+          <h2 className="text-xl font-bold text-ypsom-deep mb-1 flex items-center"><Landmark className="w-6 h-6 mr-2" /> VAT Return Worksheet</h2>
+          <p className="text-sm text-ypsom-slate">Effective method · {currentClient?.name}{vatNumber && ` · ${vatNumber}`} · {worksheet.from} – {worksheet.to}</p>
+        </div>
+        <div className="flex items-end gap-3">
+          <div>
+            <label className="text-[9px] font-black uppercase tracking-widest text-ypsom-slate block mb-1">Year</label>
+            <select value={period.year} onChange={e => setPeriod(prev => ({ ...prev, year: Number(e.target.value) }))} className="h-9 px-2 border border-ypsom-alice rounded-sm text-xs font-bold">
+              {years.map(y => <option key={y} value={y}>{y}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="text-[9px] font-black uppercase tracking-widest text-ypsom-slate block mb-1">Settlement</label>
+            <select value={period.kind} onChange={e => changeKind(e.target.value as VatPeriodKind)} className="h-9 px-2 border border-ypsom-alice rounded-sm text-xs font-bold">
+              <option value="quarter">Quarterly</option>
+              <option value="semester">Semi-annual</option>
+            </select>
+          </div>
+          <div>
+            <label className="text-[9px] font-black uppercase tracking-widest text-ypsom-slate block mb-1">Period</label>
+            <select value={period.index} onChange={e => setPeriod(prev => ({ ...prev, index: Number(e.target.value) }))} className="h-9 px-2 border border-ypsom-alice rounded-sm text-xs font-bold">
+              {(period.kind === 'quarter' ? [1, 2, 3, 4] : [1, 2]).map(i => (
+                <option key={i} value={i}>{periodLabel({ ...period, index: i })}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={() => exportVatWorksheet(worksheet, vatNumber)}
+            className="h-9 px-4 bg-ypsom-deep text-white rounded-sm text-[10px] font-black uppercase tracking-widest flex items-center hover:bg-ypsom-shadow"
+          >
+            <Download className="w-3.5 h-3.5 mr-2" /> Export
+          </button>
+        </div>
+      </div>
+
+      {vatMethod !== 'effective' && (
+        <div className="p-4 bg-amber-50 border border-amber-200 rounded-sm text-xs text-amber-800 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          {currentClient?.name} is set to “{VAT_METHODS[vatMethod]}” in the client profile. This worksheet follows the effective method and only serves as a reference.
+        </div>
+      )}
+
+      {worksheet.warnings.length > 0 && (
+        <div className="bg-amber-50 border border-amber-100 rounded-sm p-4 space-y-1">
+          {worksheet.warnings.map((w, i) => (
+            <p key={i} className="text-[10px] font-bold text-amber-800 flex items-start gap-2"><AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> {w}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+        <div className="lg:col-span-3 bg-white rounded-sm border border-ypsom-alice shadow-sm overflow-hidden">
+          <table className="min-w-full divide-y divide-ypsom-alice text-xs">
+            <thead className="bg-gray-50">
+              <tr className="font-bold text-[9px] uppercase tracking-wider text-ypsom-slate">
+                <th className="px-4 py-3 text-left w-16">Code</th>
+                <th className="px-4 py-3 text-left">Description</th>
+                <th className="px-4 py-3 text-right">Turnover CHF</th>
+                <th className="px-4 py-3 text-right">Tax CHF</th>
+                <th className="w-8" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-ypsom-alice">
+              {worksheet.lines.map(line => (
+                <tr
+                  key={line.code}
+                  onClick={() => setSelectedCode(line.code)}
+                  className={`cursor-pointer transition-colors ${selectedCode === line.code ? 'bg-ypsom-alice/40' : 'hover:bg-gray-50'} ${TOTAL_CODES.includes(line.code) ? 'font-black text-ypsom-deep' : 'text-ypsom-shadow'}`}
+                >
+                  <td className="px-4 py-2.5 font-mono">{line.code}</td>
+                  <td className="px-4 py-2.5">{line.label}</td>
+                  <td className="px-4 py-2.5 text-right font-mono">{formatChf(line.turnover)}</td>
+                  <td className="px-4 py-2.5 text-right font-mono">{formatChf(line.tax)}</td>
+                  <td className="pr-3 text-ypsom-slate"><ChevronRight className="w-3 h-3" /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="lg:col-span-2 bg-white rounded-sm border border-ypsom-alice shadow-sm h-fit max-h-[640px] overflow-y-auto custom-scrollbar">
+          <div className="p-4 bg-gray-50 border-b border-ypsom-alice font-bold text-[10px] text-ypsom-slate uppercase tracking-widest">
+            {selectedCode ? `Documents behind ${selectedCode} (${drillDown.length})` : 'Select a line to see its documents'}
+          </div>
+          <ul className="divide-y divide-ypsom-alice">
+            {drillDown.map(entry => (
+              <li key={`${entry.documentId}-${entry.code}`} className="p-3 text-[10px]">
+                <div className="flex justify-between gap-3">
+                  <span className="font-bold text-ypsom-shadow truncate flex items-center gap-1.5"><FileText className="w-3 h-3 shrink-0" /> {entry.issuer || entry.sourceFile}</span>
+                  <span className="font-mono font-bold whitespace-nowrap">{formatChf(entry.side === 'input' ? entry.vatAmount : entry.netAmount)}</span>
+                </div>
+                <div className="flex justify-between gap-3 text-ypsom-slate mt-0.5">
+                  <span className="font-mono">{entry.date} · {entry.documentNumber || 'no ref'} · {entry.rate === null ? '?' : entry.rate}%</span>
+                  <span className="uppercase font-black text-[8px] tracking-widest">{entry.side === 'input' ? `input ${entry.code}` : `sales ${entry.code}`}</span>
+                </div>
+                {entry.notes.length > 0 && <p className="text-amber-700 italic mt-0.5">{entry.notes.join(' ')}</p>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useMemo, useState } from 'react';
+import { FileSpreadsheet, X, CheckCircle, AlertTriangle, ArrowRight } from 'lucide-react';
+import type { ProcessedDocument, WorkbookChange, WorkbookDiff } from '../types';
+
+interface WorkbookReviewPanelProps {
+  fileName: string;
+  diff: WorkbookDiff;
+  documents: ProcessedDocument[];
+  onApply: (changes: WorkbookChange[]) => void;
+  onCancel: () => void;
+}
+
+const changeKey = (c: WorkbookChange) => `${c.rowId}:${c.field}`;
+
+const show = (value: string | number | null) =>
+  value === null ? <span className="italic text-ypsom-slate/50">empty</span> : String(value);
+
+export const WorkbookReviewPanel: React.FC<WorkbookReviewPanelProps> = ({ fileName, diff, documents, onApply, onCancel }) => {
+  const [accepted, setAccepted] = useState<Set<string>>(() => new Set(diff.changes.map(changeKey)));
+
+  const groups = useMemo(() => {
+    const byDocument = new Map<string, WorkbookChange[]>();
+    diff.changes.forEach(c => byDocument.set(c.documentId, [...(byDocument.get(c.documentId) || []), c]));
+    return Array.from(byDocument.entries()).map(([documentId, changes]) => ({
+      documentId,
+      doc: documents.find(d => d.id === documentId),
+      changes,
+    }));
+  }, [diff, documents]);
+
+  const toggle = (key: string) =>
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  return (
+    <div className="bg-white p-6 rounded-sm shadow-sm border border-ypsom-alice space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-ypsom-deep flex items-center"><FileSpreadsheet className="w-4 h-4 mr-2" /> Offline Review — {fileName}</h3>
+        <button onClick={onCancel} className="text-ypsom-slate hover:text-red-600"><X className="w-4 h-4" /></button>
+      </div>
+
+      {diff.unmatchedIds.length > 0 && (
+        <div className="text-[10px] font-bold text-amber-800 bg-amber-50 border border-amber-100 px-3 py-2 rounded-sm flex items-start gap-2">
+          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+          {diff.unmatchedIds.length} row(s) no longer match a document and are ignored: {diff.unmatchedIds.slice(0, 8).join(', ')}{diff.unmatchedIds.length > 8 && '…'}
+        </div>
+      )}
+
+      {groups.length === 0 ? (
+        <p className="text-[10px] font-black uppercase tracking-widest text-ypsom-slate/50 text-center py-6">No edits found — the workbook matches the ledger</p>
+      ) : (
+        <div className="max-h-[420px] overflow-y-auto custom-scrollbar border border-ypsom-alice rounded-sm divide-y divide-ypsom-alice">
+          {groups.map(({ documentId, doc, changes }) => (
+            <div key={documentId} className="p-3">
+              <p className="text-[10px] font-black text-ypsom-deep mb-2">{doc?.data?.issuer || documentId} <span className="font-mono font-normal text-ypsom-slate">· {doc?.fileName}</span></p>
+              <ul className="space-y-1">
+                {changes.map(c => (
+                  <li key={changeKey(c)} className="flex items-center gap-3 text-[10px]">
+                    <input type="checkbox" checked={accepted.has(changeKey(c))} onChange={() => toggle(changeKey(c))} className="accent-ypsom-deep" />
+                    <span className="w-40 shrink-0 font-bold text-ypsom-shadow truncate">
+                      {c.target === 'document' ? c.label : `${c.target === 'ticket' ? 'Ticket' : 'Line'} ${(c.index ?? 0) + 1} · ${c.label}`}
+                    </span>
+                    <span className="font-mono text-red-700 line-through truncate max-w-[200px]">{show(c.before)}</span>
+                    <ArrowRight className="w-3 h-3 text-ypsom-slate shrink-0" />
+                    <span className="font-mono text-green-700 font-bold truncate max-w-[200px]">{show(c.after)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-4 py-2 text-ypsom-slate rounded-sm text-[10px] font-black uppercase tracking-widest hover:bg-gray-50">Cancel</button>
+        <button
+          onClick={() => onApply(diff.changes.filter(c => accepted.has(changeKey(c))))}
+          disabled={accepted.size === 0}
+          className="px-4 py-2 bg-ypsom-deep text-white rounded-sm text-[10px] font-black uppercase tracking-widest flex items-center hover:bg-ypsom-shadow disabled:opacity-40"
+        >
+          <CheckCircle className="w-3 h-3 mr-1" /> Apply {accepted.size} change(s)
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,37 +1,39 @@
 import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
-import {
-  collection,
-  query,
-  where,
-  orderBy,
-  addDoc,
-  getDocs,
-  serverTimestamp,
-  type Timestamp,
-} from 'firebase/firestore';
-import { db } from '../lib/firebase';
-import type { Client } from '../types';
+import type { Client, ClientProfile, FirmAction, FirmRole } from '../types';
 import { useAuth } from './AuthContext';
+import {
+  createClient,
+  deleteClient,
+  getClientRole,
+  getClientsForUser,
+  setClientArchived,
+  updateClient as updateStoredClient,
+} from '../services/clientService';
+import { deleteDocumentsByClient } from '../services/documentService';
+import { deleteChartOfAccounts } from '../services/chartOfAccountsService';
+import { deleteCategorizationRules } from '../services/categorizationRuleService';
+import { deleteCategoryTaxonomy } from '../services/taxonomyService';
+import { deleteBudget } from '../services/budgetService';
+import { deletePeriodLocks } from '../services/periodService';
+import { deleteStatementProfilesByClient } from '../services/statementProfileService';
+import { canPerform } from '../services/firmService';
 
 const CURRENT_CLIENT_KEY = 'ypsom_current_client_id';
-const CLIENTS_COLLECTION = 'clients';
-
-function docToClient(id: string, data: { userId: string; name: string; createdAt: Timestamp }): Client {
-  return {
-    id,
-    user_id: data.userId,
-    name: data.name,
-    created_at: data.createdAt?.toDate?.()?.toISOString?.() ?? new Date().toISOString(),
-  };
-}
 
 type ClientContextValue = {
   clients: Client[];
   currentClient: Client | null;
   loading: boolean;
   error: string | null;
+  // The signed-in user's role on the current client, and whether it allows an action
+  role: FirmRole | null;
+  can: (action: FirmAction) => boolean;
   setCurrentClient: (client: Client | null) => void;
-  addClient: (name: string) => Promise<Client | null>;
+  addClient: (name: string, firmId?: string) => Promise<Client | null>;
+  updateClient: (clientId: string, updates: { name?: string; profile?: ClientProfile }) => Promise<void>;
+  archiveClient: (clientId: string, archived: boolean) => Promise<void>;
+  // Deletes the client with all of its documents and its chart of accounts
+  removeClient: (clientId: string) => Promise<void>;
   refreshClients: () => Promise<void>;
 };
 
@@ -41,6 +43,7 @@ export function ClientProvider({ children }: { children: React.ReactNode }) {
   const { user } = useAuth();
   const [clients, setClients] = useState<Client[]>([]);
   const [currentClient, setCurrentClientState] = useState<Client | null>(null);
+  const [role, setRole] = useState<FirmRole | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -54,18 +57,7 @@ export function ClientProvider({ children }: { children: React.ReactNode }) {
     setLoading(true);
     setError(null);
     try {
-      const q = query(
-        collection(db, CLIENTS_COLLECTION),
-        where('userId', '==', uid),
-        orderBy('createdAt', 'desc')
-      );
-      const snapshot = await getDocs(q);
-      const list: Client[] = [];
-      snapshot.forEach((doc) => {
-        const data = doc.data() as { userId: string; name: string; createdAt: Timestamp };
-        list.push(docToClient(doc.id, data));
-      });
-      setClients(list);
+      setClients(await getClientsForUser(uid));
     } catch (err) {
       setError(err instanceof Error ? err.message : String(err));
       setClients([]);
@@ -91,6 +83,20 @@ export function ClientProvider({ children }: { children: React.ReactNode }) {
     }
   }, [clients]);
 
+  useEffect(() => {
+    if (!currentClient || !user?.uid) {
+      setRole(null);
+      return;
+    }
+    let cancelled = false;
+    getClientRole(user.uid, currentClient)
+      .then((r) => !cancelled && setRole(r))
+      .catch(() => !cancelled && setRole(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentClient, user?.uid]);
+
   const setCurrentClient = useCallback((client: Client | null) => {
     setCurrentClientState(client);
     if (client) {
@@ -101,23 +107,13 @@ export function ClientProvider({ children }: { children: React.ReactNode }) {
   }, []);
 
   const addClient = useCallback(
-    async (name: string): Promise<Client | null> => {
+    async (name: string, firmId?: string): Promise<Client | null> => {
       const uid = user?.uid;
       if (!uid) return null;
       const trimmed = name.trim();
       if (!trimmed) return null;
       try {
-        const ref = await addDoc(collection(db, CLIENTS_COLLECTION), {
-          userId: uid,
-          name: trimmed,
-          createdAt: serverTimestamp(),
-        });
-        const newClient: Client = {
-          id: ref.id,
-          user_id: uid,
-          name: trimmed,
-          created_at: new Date().toISOString(),
-        };
+        const newClient = await createClient(uid, trimmed, firmId);
         setClients((prev) => [newClient, ...prev]);
         setCurrentClient(newClient);
         return newClient;
@@ -129,13 +125,65 @@ export function ClientProvider({ children }: { children: React.ReactNode }) {
     [user?.uid, setCurrentClient]
   );
 
+  const patchClient = (clientId: string, patch: Partial<Client>) => {
+    setClients((prev) => prev.map((c) => (c.id === clientId ? { ...c, ...patch } : c)));
+    setCurrentClientState((prev) => (prev?.id === clientId ? { ...prev, ...patch } : prev));
+  };
+
+  // Unlike addClient, the lifecycle actions rethrow so the profile screen can show the failure next to the form.
+  const updateClient = useCallback(
+    async (clientId: string, updates: { name?: string; profile?: ClientProfile }) => {
+      const uid = user?.uid;
+      if (!uid) return;
+      await updateStoredClient(uid, clientId, updates);
+      patchClient(clientId, {
+        ...(updates.name !== undefined && { name: updates.name.trim() }),
+        ...(updates.profile && { profile: updates.profile }),
+      });
+    },
+    [user?.uid]
+  );
+
+  const archiveClient = useCallback(
+    async (clientId: string, archived: boolean) => {
+      const uid = user?.uid;
+      if (!uid) return;
+      await setClientArchived(uid, clientId, archived);
+      patchClient(clientId, { archived_at: archived ? new Date().toISOString() : undefined });
+    },
+    [user?.uid]
+  );
+
+  const removeClient = useCallback(
+    async (clientId: string) => {
+      const uid = user?.uid;
+      if (!uid) return;
+      await deleteDocumentsByClient(uid, clientId);
+      await deleteChartOfAccounts(uid, clientId);
+      await deleteCategorizationRules(uid, clientId);
+      await deleteCategoryTaxonomy(uid, clientId);
+      await deleteBudget(uid, clientId);
+      await deletePeriodLocks(uid, clientId);
+      await deleteStatementProfilesByClient(uid, clientId);
+      await deleteClient(uid, clientId);
+      setClients((prev) => prev.filter((c) => c.id !== clientId));
+      if (currentClient?.id === clientId) setCurrentClient(null);
+    },
+    [user?.uid, currentClient?.id, setCurrentClient]
+  );
+
   const value: ClientContextValue = {
     clients,
     currentClient,
     loading,
     error,
+    role,
+    can: (action) => canPerform(role, action),
     setCurrentClient,
     addClient,
+    updateClient,
+    archiveClient,
+    removeClient,
     refreshClients: fetchClients,
   };
 
@@ -1,4 +1,4 @@
-import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
 import type { ProcessedDocument } from '../types';
 import { useAuth } from './AuthContext';
 import { useClient } from './ClientContext';
@@ -13,7 +13,7 @@ type DocumentContextValue = {
   documents: ProcessedDocument[];
   loading: boolean;
   error: string | null;
-  addDocument: (document: ProcessedDocument) => Promise<void>;
+  addDocument: (document: ProcessedDocument) => Promise<ProcessedDocument>;
   updateDocumentData: (documentId: string, updates: Partial<ProcessedDocument>) => Promise<void>;
   deleteDocument: (documentId: string) => Promise<void>;
   refreshDocuments: () => Promise<void>;
@@ -27,6 +27,8 @@ export function DocumentProvider({ children }: { children: React.ReactNode }) {
   const [documents, setDocuments] = useState<ProcessedDocument[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const documentsRef = useRef(documents);
+  documentsRef.current = documents;
 
   const fetchDocuments = useCallback(async () => {
     const uid = user?.uid;
@@ -67,8 +69,17 @@ export function DocumentProvider({ children }: { children: React.ReactNode }) {
 
       try {
         const docId = await saveDocument(uid, clientId, document);
-        const newDoc = { ...document, id: docId, clientId, userId: uid };
+        const newDoc: ProcessedDocument = {
+          ...document,
+          id: docId,
+          clientId,
+          userId: uid,
+          fileType: document.fileRaw?.type,
+          fileSize: document.fileRaw?.size,
+          createdAt: new Date().toISOString(),
+        };
         setDocuments((prev) => [newDoc, ...prev]);
+        return newDoc;
       } catch (err) {
         setError(err instanceof Error ? err.message : String(err));
         throw err;
@@ -79,28 +90,39 @@ export function DocumentProvider({ children }: { children: React.ReactNode }) {
 
   const updateDocumentData = useCallback(
     async (documentId: string, updates: Partial<ProcessedDocument>) => {
+      // Apply locally first so edits in the verification hub stay responsive.
+      const previous = documentsRef.current.find((doc) => doc.id === documentId);
+      setDocuments((prev) =>
+        prev.map((doc) => (doc.id === documentId ? { ...doc, ...updates } : doc))
+      );
       try {
-        await updateDocument(documentId, updates);
-        setDocuments((prev) =>
-          prev.map((doc) => (doc.id === documentId ? { ...doc, ...updates } : doc))
-        );
+        const uid = user?.uid;
+        if (!uid) throw new Error('User not found');
+        await updateDocument(uid, documentId, updates);
       } catch (err) {
+        // A refused write (missing role, closed period) must not leave the change visible.
+        if (previous) {
+          const restored = Object.fromEntries(Object.keys(updates).map((key) => [key, previous[key as keyof ProcessedDocument]]));
+          setDocuments((prev) => prev.map((doc) => (doc.id === documentId ? { ...doc, ...restored } : doc)));
+        }
         setError(err instanceof Error ? err.message : String(err));
         throw err;
       }
     },
-    []
+    [user?.uid]
   );
 
   const deleteDocument = useCallback(async (documentId: string) => {
     try {
-      await deleteDocumentFromDb(documentId);
+      const uid = user?.uid;
+      if (!uid) throw new Error('User not found');
+      await deleteDocumentFromDb(uid, documentId);
       setDocuments((prev) => prev.filter((doc) => doc.id !== documentId));
     } catch (err) {
       setError(err instanceof Error ? err.message : String(err));
       throw err;
     }
-  }, []);
+  }, [user?.uid]);
 
   const value: DocumentContextValue = {
     documents,
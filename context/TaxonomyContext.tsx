@@ -0,0 +1,179 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import type { CategoryTaxonomy, TaxonomyCategory } from '../types';
+import { useAuth } from './AuthContext';
+import { useClient } from './ClientContext';
+import { useDocuments } from './DocumentContext';
+import { updateDocument } from '../services/documentService';
+import { diffFinancialData, recordAuditEntries } from '../services/auditService';
+import { getCategorizationRules, saveCategorizationRules } from '../services/categorizationRuleService';
+import { getChartOfAccounts, saveChartOfAccounts } from '../services/chartOfAccountsService';
+import {
+  DEFAULT_TAXONOMY,
+  categoryLabel,
+  getCategoryTaxonomy,
+  mergeInTaxonomy,
+  renameInTaxonomy,
+  resolveCategory,
+  retagChart,
+  retagFinancialData,
+  retagRuleSet,
+  saveCategoryTaxonomy,
+} from '../services/taxonomyService';
+
+export type RetagResult = {
+  retagged: number;
+  // File names of documents left as they were (e.g. their period is closed), or re-tagged without a history entry
+  skipped: string[];
+};
+
+type TaxonomyContextValue = {
+  taxonomy: CategoryTaxonomy;
+  loading: boolean;
+  categoryOf: (value: string | undefined) => TaxonomyCategory | undefined;
+  labelOf: (value: string | undefined) => string;
+  saveTaxonomy: (taxonomy: CategoryTaxonomy) => Promise<void>;
+  addCategory: (label: string, parentId?: string) => Promise<TaxonomyCategory>;
+  renameCategory: (id: string, label: string) => Promise<RetagResult>;
+  mergeCategory: (sourceId: string, targetId: string) => Promise<RetagResult>;
+};
+
+const TaxonomyContext = createContext<TaxonomyContextValue | null>(null);
+
+export function TaxonomyProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const { currentClient } = useClient();
+  const { documents, refreshDocuments } = useDocuments();
+  const [taxonomy, setTaxonomy] = useState<CategoryTaxonomy>(DEFAULT_TAXONOMY);
+  const [loading, setLoading] = useState(false);
+  const documentsRef = useRef(documents);
+  documentsRef.current = documents;
+  const taxonomyRef = useRef(taxonomy);
+  taxonomyRef.current = taxonomy;
+
+  useEffect(() => {
+    if (!currentClient?.id) return;
+    setLoading(true);
+    getCategoryTaxonomy(currentClient.id)
+      .then(setTaxonomy)
+      .catch(() => setTaxonomy(DEFAULT_TAXONOMY))
+      .finally(() => setLoading(false));
+  }, [currentClient?.id]);
+
+  const categoryOf = useCallback((value: string | undefined) => resolveCategory(taxonomy, value), [taxonomy]);
+  const labelOf = useCallback((value: string | undefined) => categoryLabel(taxonomy, value), [taxonomy]);
+
+  const saveTaxonomy = useCallback(
+    async (next: CategoryTaxonomy) => {
+      if (!user?.uid || !currentClient?.id) throw new Error('User or client not found');
+      await saveCategoryTaxonomy(user.uid, currentClient.id, next);
+      setTaxonomy(next);
+    },
+    [user?.uid, currentClient?.id]
+  );
+
+  const addCategory = useCallback(
+    async (label: string, parentId?: string) => {
+      const existing = resolveCategory(taxonomyRef.current, label);
+      if (existing) return existing;
+      const parent = parentId ? taxonomyRef.current.categories.find((c) => c.id === parentId) : undefined;
+      const category: TaxonomyCategory = {
+        id: label.trim(),
+        label: label.trim(),
+        ...(parent && { parentId: parent.id }),
+        icon: parent?.icon || 'Tag',
+        color: parent?.color || 'slate',
+        deductible: parent?.deductible ?? true,
+      };
+      await saveTaxonomy({ categories: [...taxonomyRef.current.categories, category] });
+      return category;
+    },
+    [saveTaxonomy]
+  );
+
+  // Every value that stood for a category: its id, its label and its former ids.
+  const namesOf = (category: TaxonomyCategory | undefined, id: string) =>
+    [id, ...(category ? [category.label, ...(category.aliases || [])] : [])];
+
+  // Moves documents, rules and the chart-of-accounts mapping from the retired ids to `to`.
+  const retag = useCallback(
+    async (from: string[], to: string, reason: string): Promise<RetagResult> => {
+      const uid = user?.uid;
+      const clientId = currentClient?.id;
+      if (!uid || !clientId) throw new Error('User or client not found');
+      const result: RetagResult = { retagged: 0, skipped: [] };
+      for (const document of documentsRef.current) {
+        if (!document.data) continue;
+        const data = retagFinancialData(document.data, from, to);
+        if (!data) continue;
+        try {
+          await updateDocument(uid, document.id, { data });
+        } catch {
+          result.skipped.push(document.fileName);
+          continue;
+        }
+        result.retagged++;
+        // The document is already re-tagged; a lost history entry must not stop the others.
+        try {
+          await recordAuditEntries(
+            { documentId: document.id, clientId, firmId: currentClient.firm_id, userId: uid, userEmail: user.email ?? undefined },
+            diffFinancialData(document.data, data),
+            'category-retag',
+            reason
+          );
+        } catch {
+          result.skipped.push(`${document.fileName} (history not recorded)`);
+        }
+      }
+
+      const ruleSet = await getCategorizationRules(clientId);
+      const retaggedRules = retagRuleSet(ruleSet, from, to);
+      if (retaggedRules.rules.some((rule, i) => rule !== ruleSet.rules[i])) await saveCategorizationRules(uid, clientId, retaggedRules);
+      const chart = await getChartOfAccounts(clientId);
+      const retaggedChart = retagChart(chart, from, to);
+      if (retaggedChart !== chart) await saveChartOfAccounts(uid, clientId, retaggedChart);
+
+      if (result.retagged > 0) await refreshDocuments();
+      return result;
+    },
+    [user, currentClient, refreshDocuments]
+  );
+
+  const renameCategory = useCallback(
+    async (id: string, label: string) => {
+      const category = taxonomyRef.current.categories.find((c) => c.id === id);
+      const newId = label.trim();
+      await saveTaxonomy(renameInTaxonomy(taxonomyRef.current, id, newId));
+      if (newId === id) return { retagged: 0, skipped: [] };
+      return retag(namesOf(category, id), newId, `Category "${id}" renamed to "${newId}"`);
+    },
+    [saveTaxonomy, retag]
+  );
+
+  const mergeCategory = useCallback(
+    async (sourceId: string, targetId: string) => {
+      const source = taxonomyRef.current.categories.find((c) => c.id === sourceId);
+      await saveTaxonomy(mergeInTaxonomy(taxonomyRef.current, sourceId, targetId));
+      return retag(namesOf(source, sourceId), targetId, `Category "${sourceId}" merged into "${targetId}"`);
+    },
+    [saveTaxonomy, retag]
+  );
+
+  const value: TaxonomyContextValue = {
+    taxonomy,
+    loading,
+    categoryOf,
+    labelOf,
+    saveTaxonomy,
+    addCategory,
+    renameCategory,
+    mergeCategory,
+  };
+
+  return <TaxonomyContext.Provider value={value}>{children}</TaxonomyContext.Provider>;
+}
+
+export function useTaxonomy() {
+  const ctx = useContext(TaxonomyContext);
+  if (!ctx) throw new Error('useTaxonomy must be used within TaxonomyProvider');
+  return ctx;
+}
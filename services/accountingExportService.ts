@@ -0,0 +1,224 @@
+import type { ChartOfAccounts, JournalEntry } from '../types';
+
+/**
+ * Import files for Swiss accounting packages, built from the double-entry journal.
+ *
+ * The packages book a voucher as one line (debit account, credit account, gross amount, VAT code) and
+ * split off the VAT themselves, so a journal entry with a VAT line is collapsed back to its gross amount.
+ * Entries that cannot be expressed that way are reported instead of being exported.
+ */
+
+export type AccountingPackage = 'banana' | 'bexio' | 'abacus';
+
+type VatClass = 'output' | 'inputMaterial' | 'inputOther';
+
+export interface AccountingBooking {
+  entryId: string;
+  date: string;
+  reference: string;
+  description: string;
+  debitAccount: string;
+  creditAccount: string;
+  amount: number;
+  vatClass?: VatClass;
+  vatRate?: number;
+}
+
+export interface UnmappedRecord {
+  entryId: string;
+  label: string;
+  reason: string;
+}
+
+export interface AccountingExport {
+  fileName: string;
+  content: string;
+  mimeType: string;
+  exported: number;
+  unmapped: UnmappedRecord[];
+}
+
+const rateSuffix = (rate: number) => String(rate).replace('.', '');
+
+// Banana's Swiss VAT table: V = turnover, M = input tax on material/services, I = input tax on investments/operating costs.
+const bananaVatCode = (vatClass: VatClass, rate: number) =>
+  `${vatClass === 'output' ? 'V' : vatClass === 'inputMaterial' ? 'M' : 'I'}${rateSuffix(rate)}`;
+
+// Bexio's standard tax codes: UN/UR/UH = turnover at normal/reduced/accommodation rate, VM/VB = input tax material/operating.
+const bexioVatCode = (vatClass: VatClass, rate: number) => {
+  if (vatClass === 'output') {
+    const kind = rate >= 7 ? 'UN' : rate < 3 ? 'UR' : 'UH';
+    return `${kind}${rateSuffix(rate)}`;
+  }
+  return `${vatClass === 'inputMaterial' ? 'VM' : 'VB'}${rateSuffix(rate)}`;
+};
+
+// Abacus tax codes follow the ESTV form digits (turnover 30x/31x/34x, input tax 400/405); the rate is a separate column.
+const ABACUS_OUTPUT_CODES: Record<string, string> = {
+  '8.1': '303', '2.6': '313', '3.8': '343', '7.7': '302', '2.5': '312', '3.7': '342',
+};
+const abacusVatCode = (vatClass: VatClass, rate: number) =>
+  vatClass === 'output' ? ABACUS_OUTPUT_CODES[String(rate)] : vatClass === 'inputMaterial' ? '400' : '405';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const entryLabel = (entry: JournalEntry) => `${entry.date} ${entry.description}`.trim();
+
+/**
+ * Collapses a journal entry to a single booking line, or explains why it can't be.
+ */
+const toBooking = (entry: JournalEntry, chart: ChartOfAccounts): AccountingBooking | UnmappedRecord => {
+  const unmapped = (reason: string): UnmappedRecord => ({ entryId: entry.id, label: entryLabel(entry), reason });
+  const known = new Set(chart.accounts.map((a) => a.number));
+
+  const missing = entry.lines.find((l) => !known.has(l.account));
+  if (missing) return unmapped(`Account ${missing.account} is not in the chart of accounts.`);
+  if (entry.lines.some((l) => l.account === chart.defaults.suspense)) {
+    return unmapped('No account for its category (booked to suspense).');
+  }
+
+  const vatAccounts = [chart.defaults.outputVat, chart.defaults.inputVatMaterial, chart.defaults.inputVatOther];
+  const vatLines = entry.lines.filter((l) => vatAccounts.includes(l.account));
+  const lines = entry.lines.filter((l) => !vatLines.includes(l));
+  const debits = lines.filter((l) => l.debit > 0);
+  const credits = lines.filter((l) => l.credit > 0);
+  if (debits.length !== 1 || credits.length !== 1 || vatLines.length > 1) {
+    return unmapped('Split booking with several accounts on one side.');
+  }
+
+  const booking: AccountingBooking = {
+    entryId: entry.id,
+    date: entry.date,
+    reference: entry.reference || entry.sourceId,
+    description: entry.description,
+    debitAccount: debits[0].account,
+    creditAccount: credits[0].account,
+    amount: round2(Math.max(debits[0].debit, credits[0].credit)),
+  };
+  if (vatLines.length === 0) return booking;
+
+  if (entry.vatRate === null || entry.vatRate === undefined || entry.vatRate === 0) {
+    return unmapped('VAT amount without a recognised Swiss VAT rate.');
+  }
+  const vatLine = vatLines[0];
+  return {
+    ...booking,
+    vatClass:
+      vatLine.account === chart.defaults.outputVat ? 'output'
+        : vatLine.account === chart.defaults.inputVatMaterial ? 'inputMaterial'
+        : 'inputOther',
+    vatRate: entry.vatRate,
+  };
+};
+
+export const toBookings = (entries: JournalEntry[], chart: ChartOfAccounts) => {
+  const bookings: AccountingBooking[] = [];
+  const unmapped: UnmappedRecord[] = [];
+  entries.forEach((entry) => {
+    const result = toBooking(entry, chart);
+    if ('reason' in result) unmapped.push(result);
+    else bookings.push(result);
+  });
+  return { bookings, unmapped };
+};
+
+const swissDate = (iso: string) => {
+  const [y, m, d] = iso.split('-');
+  return `${d}.${m}.${y}`;
+};
+
+// Quotes a field for a delimited file when it contains the delimiter, quotes or line breaks.
+const field = (value: string | number, delimiter: string) => {
+  const text = String(value ?? '');
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toDelimited = (rows: (string | number)[][], delimiter: string) =>
+  rows.map((row) => row.map((cell) => field(cell, delimiter)).join(delimiter)).join('\r\n');
+
+const safeName = (value: string) => value.replace(/[^\w-]+/g, '_');
+
+/**
+ * Builds the import file of one accounting package.
+ *  Banana  tab-separated "Import transactions" text file (Date, Doc, Description, AccountDebit, AccountCredit, Amount, VatCode)
+ *  Bexio   semicolon CSV for manual entries (Datum, Beleg-Nr., Soll, Haben, Betrag, Beschreibung, MWST-Code, Währung)
+ *  Abacus  semicolon CSV journal (Datum, Beleg, Soll, Haben, Betrag, MWST-Code, MWST-Satz, Text)
+ */
+export const buildAccountingExport = (
+  target: AccountingPackage,
+  entries: JournalEntry[],
+  chart: ChartOfAccounts,
+  clientName: string
+): AccountingExport => {
+  const { bookings, unmapped } = toBookings(entries, chart);
+  const stamp = new Date().toISOString().split('T')[0];
+  const amount = (b: AccountingBooking) => b.amount.toFixed(2);
+
+  if (target === 'banana') {
+    const rows = [
+      ['Date', 'Doc', 'Description', 'AccountDebit', 'AccountCredit', 'Amount', 'VatCode'],
+      ...bookings.map((b) => [
+        b.date, b.reference, b.description, b.debitAccount, b.creditAccount, amount(b),
+        b.vatClass ? bananaVatCode(b.vatClass, b.vatRate!) : '',
+      ]),
+    ];
+    return {
+      fileName: `Banana_${safeName(clientName)}_${stamp}.txt`,
+      content: toDelimited(rows, '\t'),
+      mimeType: 'text/tab-separated-values;charset=utf-8',
+      exported: bookings.length,
+      unmapped,
+    };
+  }
+
+  if (target === 'bexio') {
+    const rows = [
+      ['Datum', 'Beleg-Nr.', 'Soll', 'Haben', 'Betrag', 'Beschreibung', 'MWST-Code', 'Währung'],
+      ...bookings.map((b) => [
+        swissDate(b.date), b.reference, b.debitAccount, b.creditAccount, amount(b), b.description,
+        b.vatClass ? bexioVatCode(b.vatClass, b.vatRate!) : '', 'CHF',
+      ]),
+    ];
+    return {
+      fileName: `Bexio_${safeName(clientName)}_${stamp}.csv`,
+      content: toDelimited(rows, ';'),
+      mimeType: 'text/csv;charset=utf-8',
+      exported: bookings.length,
+      unmapped,
+    };
+  }
+
+  const mapped: AccountingBooking[] = [];
+  bookings.forEach((b) => {
+    if (b.vatClass && !abacusVatCode(b.vatClass, b.vatRate!)) {
+      unmapped.push({ entryId: b.entryId, label: `${b.date} ${b.description}`, reason: `No Abacus tax code for ${b.vatRate}%.` });
+    } else mapped.push(b);
+  });
+  const rows = [
+    ['Datum', 'Beleg', 'Soll', 'Haben', 'Betrag', 'MWST-Code', 'MWST-Satz', 'Text'],
+    ...mapped.map((b) => [
+      swissDate(b.date), b.reference, b.debitAccount, b.creditAccount, amount(b),
+      b.vatClass ? abacusVatCode(b.vatClass, b.vatRate!) : '', b.vatRate !== undefined ? b.vatRate.toFixed(2) : '', b.description,
+    ]),
+  ];
+  return {
+    fileName: `Abacus_${safeName(clientName)}_${stamp}.csv`,
+    content: toDelimited(rows, ';'),
+    mimeType: 'text/csv;charset=utf-8',
+    exported: mapped.length,
+    unmapped,
+  };
+};
+
+/**
+ * Saves an export through the browser. Text files get a BOM so Excel and the importers read the umlauts as UTF-8.
+ */
+export const downloadAccountingExport = (file: AccountingExport) => {
+  const blob = new Blob(['\uFEFF' + file.content], { type: file.mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,143 @@
+import { collection, doc, query, where, orderBy, getDocs, writeBatch, serverTimestamp, type Timestamp } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { AuditEntry, AuditSource, FinancialData } from '../types';
+
+const AUDIT_COLLECTION = 'auditTrail';
+const BATCH_LIMIT = 450;
+
+export type FieldDiff = Pick<AuditEntry, 'path' | 'oldValue' | 'newValue'>;
+
+type AuditValue = AuditEntry['oldValue'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toAuditValue = (value: unknown): AuditValue => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return JSON.stringify(value);
+};
+
+const collectDiffs = (before: unknown, after: unknown, path: string, out: FieldDiff[]) => {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    for (let i = 0; i < Math.max(before.length, after.length); i++) collectDiffs(before[i], after[i], `${path}[${i}]`, out);
+    return;
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.forEach((key) => collectDiffs(before[key], after[key], path ? `${path}.${key}` : key, out));
+    return;
+  }
+  const oldValue = toAuditValue(before);
+  const newValue = toAuditValue(after);
+  if (oldValue !== newValue) out.push({ path, oldValue, newValue });
+};
+
+/**
+ * Field-level differences between two versions of a document's data. Line items and tickets are
+ * compared by position, so an edited cell shows up as e.g. `lineItems[3].amount`.
+ */
+export const diffFinancialData = (before: FinancialData, after: FinancialData): FieldDiff[] => {
+  const diffs: FieldDiff[] = [];
+  collectDiffs(before, after, '', diffs);
+  return diffs;
+};
+
+/**
+ * Appends change entries for one document. Entries are never updated or deleted afterwards
+ * (the Firestore rules in the README enforce this).
+ */
+export const recordAuditEntries = async (
+  entry: Pick<AuditEntry, 'documentId' | 'clientId' | 'firmId' | 'userId' | 'userEmail'>,
+  diffs: FieldDiff[],
+  source: AuditSource,
+  reason?: string
+): Promise<void> => {
+  // Firestore batches are limited to 500 writes; a re-extracted statement can change more fields than that.
+  for (let start = 0; start < diffs.length; start += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    diffs.slice(start, start + BATCH_LIMIT).forEach((diff) => {
+      batch.set(doc(collection(db, AUDIT_COLLECTION)), {
+        ...entry,
+        firmId: entry.firmId ?? null,
+        userEmail: entry.userEmail ?? null,
+        ...diff,
+        source,
+        reason: reason ?? null,
+        createdAt: serverTimestamp(),
+      });
+    });
+    await batch.commit();
+  }
+};
+
+const toEntry = (id: string, data: Record<string, any>): AuditEntry => ({
+  id,
+  documentId: data.documentId,
+  clientId: data.clientId,
+  firmId: data.firmId ?? undefined,
+  userId: data.userId,
+  userEmail: data.userEmail ?? undefined,
+  path: data.path,
+  oldValue: data.oldValue ?? null,
+  newValue: data.newValue ?? null,
+  source: data.source,
+  reason: data.reason ?? undefined,
+  createdAt: (data.createdAt as Timestamp | null)?.toDate?.()?.toISOString?.() ?? new Date().toISOString(),
+});
+
+// Firm histories are shared between members; personal ones are read back by their author only.
+const ownerFilter = (uid: string, firmId?: string) => (firmId ? where('firmId', '==', firmId) : where('userId', '==', uid));
+
+export const getDocumentAuditTrail = async (uid: string, documentId: string, firmId?: string): Promise<AuditEntry[]> => {
+  const q = query(
+    collection(db, AUDIT_COLLECTION),
+    ownerFilter(uid, firmId),
+    where('documentId', '==', documentId),
+    orderBy('createdAt', 'asc')
+  );
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map((d) => toEntry(d.id, d.data()));
+};
+
+export const getClientAuditTrail = async (uid: string, clientId: string, firmId?: string): Promise<AuditEntry[]> => {
+  const q = query(
+    collection(db, AUDIT_COLLECTION),
+    ownerFilter(uid, firmId),
+    where('clientId', '==', clientId),
+    orderBy('createdAt', 'asc')
+  );
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map((d) => toEntry(d.id, d.data()));
+};
+
+/**
+ * Collapses a burst of edits to the same document (typing in a field) into one audit record:
+ * the version before the first edit is kept and diffed against the latest one once the edits pause.
+ */
+export const createEditCoalescer = (
+  onFlush: (documentId: string, before: FinancialData, after: FinancialData) => void,
+  delayMs = 2000
+) => {
+  const pending = new Map<string, { before: FinancialData; after: FinancialData; timer: ReturnType<typeof setTimeout> }>();
+
+  const flush = (documentId: string) => {
+    const edit = pending.get(documentId);
+    if (!edit) return;
+    clearTimeout(edit.timer);
+    pending.delete(documentId);
+    onFlush(documentId, edit.before, edit.after);
+  };
+
+  const edit = (documentId: string, before: FinancialData, after: FinancialData) => {
+    const current = pending.get(documentId);
+    if (current) clearTimeout(current.timer);
+    pending.set(documentId, {
+      before: current ? current.before : before,
+      after,
+      timer: setTimeout(() => flush(documentId), delayMs),
+    });
+  };
+
+  return { edit, flush, flushAll: () => Array.from(pending.keys()).forEach(flush) };
+};
@@ -0,0 +1,205 @@
+import { DocumentType, type BalanceChain, type BalanceChainLink, type BalanceCheck, type BankStatementAnalysis, type BankTransaction, type FinancialData } from '../types';
+
+/**
+ * Proves that a statement was fully extracted: its transactions must bridge the opening balance to the
+ * closing balance, and each statement of an account must open where the previous one closed.
+ */
+
+const TOLERANCE = 0.01;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const format = (value: number) => value.toFixed(2);
+
+const signed = (t: BankTransaction) => (t.type === 'INCOME' ? t.amount : -t.amount);
+
+const duplicateKey = (t: BankTransaction) =>
+  [t.date, t.type, round2(t.amount), t.bankReference || t.description.toLowerCase().replace(/\s+/g, ' ').trim()].join('|');
+
+const findDuplicates = (transactions: BankTransaction[]): number[] => {
+  const seen = new Set<string>();
+  const duplicates: number[] = [];
+  transactions.forEach((t, i) => {
+    const key = duplicateKey(t);
+    if (seen.has(key)) duplicates.push(i);
+    else seen.add(key);
+  });
+  return duplicates;
+};
+
+export const checkStatementBalance = (statement: BankStatementAnalysis): BalanceCheck => {
+  const { transactions, openingBalance, finalBalance } = statement;
+  // Without transaction lines (totals-only extraction) the declared totals are all there is to check.
+  const hasLines = transactions.length > 0;
+  const income = hasLines ? transactions.filter((t) => t.type === 'INCOME').reduce((s, t) => s + t.amount, 0) : statement.calculatedTotalIncome || 0;
+  const expense = hasLines ? transactions.filter((t) => t.type === 'EXPENSE').reduce((s, t) => s + t.amount, 0) : statement.calculatedTotalExpense || 0;
+  const duplicateIndexes = findDuplicates(transactions);
+  const issues: string[] = [];
+
+  if (hasLines && Math.abs(round2(income) - round2(statement.calculatedTotalIncome || 0)) > TOLERANCE) {
+    issues.push(`Declared income ${format(statement.calculatedTotalIncome || 0)} differs from the transactions (${format(income)}).`);
+  }
+  if (hasLines && Math.abs(round2(expense) - round2(statement.calculatedTotalExpense || 0)) > TOLERANCE) {
+    issues.push(`Declared expense ${format(statement.calculatedTotalExpense || 0)} differs from the transactions (${format(expense)}).`);
+  }
+  if (duplicateIndexes.length > 0) {
+    issues.push(`${duplicateIndexes.length} transaction(s) appear twice.`);
+  }
+
+  if (openingBalance === undefined || openingBalance === null || finalBalance === undefined || finalBalance === null) {
+    issues.unshift('Opening or closing balance missing: the statement cannot be proven complete.');
+    return { status: 'incomplete', issues, duplicateIndexes };
+  }
+
+  const computedFinal = round2(openingBalance + income - expense);
+  const difference = round2(computedFinal - finalBalance);
+  if (Math.abs(difference) <= TOLERANCE) {
+    return { status: 'ok', computedFinal, difference: 0, issues, duplicateIndexes };
+  }
+
+  issues.unshift(
+    `Opening ${format(openingBalance)} + income ${format(income)} − expense ${format(expense)} = ${format(computedFinal)}, but the statement closes at ${format(finalBalance)} (difference ${format(difference)}).`
+  );
+  const duplicated = round2(duplicateIndexes.reduce((s, i) => s + signed(transactions[i]), 0));
+  if (duplicateIndexes.length > 0 && Math.abs(duplicated - difference) <= TOLERANCE) {
+    issues.splice(1, 0, 'The duplicated transactions account exactly for the difference.');
+  } else if (difference > 0) {
+    issues.splice(1, 0, `An expense of ${format(difference)} is probably missing (or income was counted twice).`);
+  } else {
+    issues.splice(1, 0, `Income of ${format(-difference)} is probably missing (or an expense was counted twice).`);
+  }
+  return { status: 'break', computedFinal, difference, issues, duplicateIndexes };
+};
+
+/**
+ * A bank statement stored as a document, in the shape the checks expect.
+ */
+export const statementFromDocument = (data: FinancialData): BankStatementAnalysis => {
+  const transactions = data.lineItems || [];
+  const dates = transactions.map((t) => t.date).filter(Boolean).sort();
+  return {
+    transactions,
+    calculatedTotalIncome: data.calculatedTotalIncome ?? transactions.filter((t) => t.type === 'INCOME').reduce((s, t) => s + t.amount, 0),
+    calculatedTotalExpense: data.calculatedTotalExpense ?? transactions.filter((t) => t.type === 'EXPENSE').reduce((s, t) => s + t.amount, 0),
+    openingBalance: data.openingBalance,
+    finalBalance: data.finalBalance,
+    currency: data.originalCurrency || 'CHF',
+    period: data.statementPeriod || (dates.length > 0 ? `${dates[0]} – ${dates[dates.length - 1]}` : data.date),
+    source: data.statementSource,
+    accountIban: data.accountIban,
+  };
+};
+
+/**
+ * A statement of the reconciliation workbench in the shape of a stored bank-statement document, dated
+ * on its last day so that period locks and the journal treat it like an extracted one.
+ */
+export const documentFromStatement = (statement: BankStatementAnalysis): FinancialData => {
+  const range = statementRange(statement);
+  return {
+    documentType: DocumentType.BANK_STATEMENT,
+    date: range?.end || new Date().toISOString().slice(0, 10),
+    issuer: statement.accountIban || 'Bank statement',
+    documentNumber: statement.statementId || '',
+    totalAmount: statement.calculatedTotalExpense,
+    originalCurrency: statement.currency || 'CHF',
+    vatAmount: 0,
+    vatRate: 0,
+    netAmount: statement.calculatedTotalExpense,
+    expenseCategory: 'Bank',
+    direction: 'neutral',
+    amountInCHF: 0,
+    conversionRateUsed: 0,
+    notes: '',
+    lineItems: statement.transactions,
+    openingBalance: statement.openingBalance,
+    finalBalance: statement.finalBalance,
+    calculatedTotalIncome: statement.calculatedTotalIncome,
+    calculatedTotalExpense: statement.calculatedTotalExpense,
+    accountIban: statement.accountIban,
+    statementPeriod: statement.period,
+    statementSource: statement.source,
+  };
+};
+
+const lastDayOfMonth = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  return `${month}-${String(new Date(Date.UTC(year, m, 0)).getUTCDate()).padStart(2, '0')}`;
+};
+
+/**
+ * First and last day covered by a statement: the dates in its period label ("2024-01-01 – 2024-01-31",
+ * "2024-01"), or else its first and last transaction.
+ */
+export const statementRange = (statement: BankStatementAnalysis): { start: string; end: string } | null => {
+  const days = statement.period?.match(/\d{4}-\d{2}-\d{2}/g);
+  if (days && days.length > 0) return { start: days[0], end: days[days.length - 1] };
+  const month = statement.period?.match(/^\d{4}-\d{2}$/)?.[0];
+  if (month) return { start: `${month}-01`, end: lastDayOfMonth(month) };
+  const dates = statement.transactions.map((t) => t.date).filter(Boolean).sort();
+  return dates.length > 0 ? { start: dates[0], end: dates[dates.length - 1] } : null;
+};
+
+const dayAfter = (date: string) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+};
+
+export type ChainEntry = { id: string; statement: BankStatementAnalysis };
+
+const linkBetween = (prev: ChainEntry, next: ChainEntry): BalanceChainLink => {
+  const a = statementRange(prev.statement)!;
+  const b = statementRange(next.statement)!;
+  const closing = prev.statement.finalBalance;
+  const opening = next.statement.openingBalance;
+  const base = { fromId: prev.id, toId: next.id };
+
+  if (b.start < a.end) {
+    return { ...base, kind: 'overlap', message: `Periods overlap (${b.start} before ${a.end}): transactions may be counted twice.` };
+  }
+  if (closing === undefined || opening === undefined) {
+    return { ...base, kind: 'unverifiable', message: 'A balance is missing, continuity cannot be checked.' };
+  }
+  const difference = round2(opening - closing);
+  if (Math.abs(difference) <= TOLERANCE) {
+    return { ...base, kind: 'continuous', difference: 0, message: `Closes and reopens at ${format(closing)}.` };
+  }
+  if (b.start > dayAfter(a.end)) {
+    return {
+      ...base,
+      kind: 'gap',
+      difference,
+      message: `No statement covers the days between ${a.end} and ${b.start} and the balance moves by ${format(difference)}: a statement is missing.`,
+    };
+  }
+  return { ...base, kind: 'break', difference, message: `Closing ${format(closing)} but next opening ${format(opening)} (difference ${format(difference)}).` };
+};
+
+/**
+ * Groups statements by account (IBAN, or currency when the account is unknown), sorts each group
+ * chronologically and checks every consecutive pair.
+ */
+export const checkBalanceChain = (entries: ChainEntry[]): BalanceChain[] => {
+  const groups = new Map<string, ChainEntry[]>();
+  entries
+    .filter((e) => statementRange(e.statement))
+    .forEach((e) => {
+      const key = e.statement.accountIban ? e.statement.accountIban.replace(/\s/g, '') : `${e.statement.currency || 'CHF'} account`;
+      groups.set(key, [...(groups.get(key) || []), e]);
+    });
+
+  return Array.from(groups.entries()).map(([account, group]) => {
+    const sorted = [...group].sort((x, y) => {
+      const a = statementRange(x.statement)!;
+      const b = statementRange(y.statement)!;
+      return a.start.localeCompare(b.start) || a.end.localeCompare(b.end);
+    });
+    return {
+      account,
+      currency: sorted[0].statement.currency || 'CHF',
+      statementIds: sorted.map((e) => e.id),
+      links: sorted.slice(1).map((next, i) => linkBetween(sorted[i], next)),
+    };
+  });
+};
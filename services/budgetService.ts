@@ -0,0 +1,135 @@
+import { doc, getDoc, setDoc, deleteDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { BudgetLine, CategoryTaxonomy, ClientBudget, ClientProfile } from '../types';
+import { assertClientAccess, fiscalYearRange } from './clientService';
+import { inRange, type TrendItem } from './trendService';
+import { resolveCategory } from './taxonomyService';
+
+const BUDGET_COLLECTION = 'budgets';
+const DAY = 86_400_000;
+
+export const EMPTY_BUDGET: ClientBudget = { lines: [], alertThreshold: 10 };
+
+/**
+ * How a budget line stands at a given day of its fiscal year, in CHF. Actuals are the client's income or expense
+ * items of the line's category (or of the categories of its group); the year-end is projected at the current burn rate.
+ */
+export type BudgetProgress = {
+  line: BudgetLine;
+  budget: number;
+  budgetToDate: number;
+  actual: number;
+  // Actual minus the budget to date
+  variance: number;
+  variancePercent: number | null;
+  // Actual per elapsed month
+  burnRate: number;
+  projected: number;
+  projectedVariance: number;
+  // Share of the fiscal year elapsed, 0–1
+  elapsed: number;
+  // Expense projected above, or income projected below, the budget by more than the alert threshold
+  alert: boolean;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const annualBudget = (line: BudgetLine) => (line.period === 'month' ? line.amount * 12 : line.amount);
+
+// The fiscal year starting in `year`
+export const budgetYearRange = (profile: ClientProfile, year: number) =>
+  fiscalYearRange(profile, new Date(year, profile.fiscalYearStartMonth - 1, 15));
+
+// The fiscal year, named after its first calendar year, that contains `date`
+export const budgetYearOf = (profile: ClientProfile, date = new Date()) => Number(fiscalYearRange(profile, date).from.slice(0, 4));
+
+// A group's budget covers the categories listed under it; categories the taxonomy does not know match by name.
+export const budgetCategoryMatcher = (taxonomy: CategoryTaxonomy) => (itemCategory: string, budgetCategory: string) => {
+  const category = resolveCategory(taxonomy, itemCategory);
+  return category ? category.id === budgetCategory || category.parentId === budgetCategory : itemCategory === budgetCategory;
+};
+
+const elapsedShare = (range: { from: string; to: string }, today: string) => {
+  if (today < range.from) return 0;
+  if (today >= range.to) return 1;
+  const total = (Date.parse(range.to) - Date.parse(range.from)) / DAY + 1;
+  return ((Date.parse(today) - Date.parse(range.from)) / DAY + 1) / total;
+};
+
+/**
+ * Progress of every budget line at `today` (YYYY-MM-DD). `belongsTo` tells whether an item's category counts
+ * towards a budget category, so a group's budget can cover its categories.
+ */
+export const budgetProgress = (
+  budget: ClientBudget,
+  items: TrendItem[],
+  profile: ClientProfile,
+  today: string,
+  belongsTo: (itemCategory: string, budgetCategory: string) => boolean
+): BudgetProgress[] =>
+  budget.lines.map((line) => {
+    const range = budgetYearRange(profile, line.year);
+    const elapsed = elapsedShare(range, today);
+    const annual = annualBudget(line);
+    const actual = round2(
+      items
+        .filter((i) => i.direction === line.kind && inRange(i.date, range) && belongsTo(i.category, line.category))
+        .reduce((s, i) => s + i.amount, 0)
+    );
+    const budgetToDate = round2(annual * elapsed);
+    const projected = elapsed > 0 ? round2(actual / elapsed) : 0;
+    const limit = annual * (budget.alertThreshold / 100);
+    return {
+      line,
+      budget: round2(annual),
+      budgetToDate,
+      actual,
+      variance: round2(actual - budgetToDate),
+      variancePercent: budgetToDate ? round2(((actual - budgetToDate) / budgetToDate) * 100) : null,
+      burnRate: elapsed > 0 ? round2(actual / (elapsed * 12)) : 0,
+      projected,
+      projectedVariance: round2(projected - annual),
+      elapsed,
+      alert: elapsed > 0 && annual > 0 && (line.kind === 'expense' ? projected - annual > limit : annual - projected > limit),
+    };
+  });
+
+export const newBudgetLineId = () => Math.random().toString(36).slice(2, 10);
+
+export const getBudget = async (clientId: string): Promise<ClientBudget> => {
+  const snapshot = await getDoc(doc(db, BUDGET_COLLECTION, clientId));
+  if (!snapshot.exists()) return EMPTY_BUDGET;
+  const data = snapshot.data() as Partial<ClientBudget>;
+  return { lines: data.lines || [], alertThreshold: data.alertThreshold ?? EMPTY_BUDGET.alertThreshold };
+};
+
+export const validateBudget = (budget: ClientBudget) => {
+  if (!Number.isFinite(budget.alertThreshold) || budget.alertThreshold < 0) throw new Error('The alert threshold must be a positive percentage');
+  const seen = new Set<string>();
+  for (const line of budget.lines) {
+    if (!line.category) throw new Error(`A ${line.year} budget line has no category`);
+    if (!Number.isInteger(line.year)) throw new Error(`Budget for "${line.category}": invalid year ${line.year}`);
+    if (!Number.isFinite(line.amount) || line.amount < 0) throw new Error(`Budget for "${line.category}" ${line.year}: the amount must be a positive number`);
+    const key = `${line.year}|${line.category}|${line.kind}`;
+    if (seen.has(key)) throw new Error(`"${line.category}" has two ${line.kind} budgets for ${line.year}`);
+    seen.add(key);
+  }
+};
+
+export const saveBudget = async (uid: string, clientId: string, budget: ClientBudget): Promise<void> => {
+  const { firmId } = await assertClientAccess(uid, clientId, 'edit');
+  validateBudget(budget);
+  await setDoc(doc(db, BUDGET_COLLECTION, clientId), {
+    lines: budget.lines,
+    alertThreshold: budget.alertThreshold,
+    userId: uid,
+    clientId,
+    ...(firmId && { firmId }),
+    updatedAt: serverTimestamp(),
+  });
+};
+
+export const deleteBudget = async (uid: string, clientId: string): Promise<void> => {
+  await assertClientAccess(uid, clientId, 'manageClients');
+  await deleteDoc(doc(db, BUDGET_COLLECTION, clientId));
+};
@@ -0,0 +1,136 @@
+import type { BankStatementAnalysis, BankTransaction } from '../types';
+
+/**
+ * ISO 20022 cash management messages, parsed without AI:
+ *  - camt.053 (BkToCstmrStmt / Stmt): account statement with booked balances
+ *  - camt.054 (BkToCstmrDbtCdtNtfctn / Ntfctn): debit/credit notification, entries only
+ * Matching is done on local element names so every bank's namespace version (.001.02 – .001.13) is accepted.
+ */
+
+const childrenNamed = (el: Element | null | undefined, name: string): Element[] =>
+  el ? Array.from(el.children).filter((c) => c.localName === name) : [];
+
+const child = (el: Element | null | undefined, ...path: string[]): Element | undefined => {
+  let current: Element | undefined = el ?? undefined;
+  for (const name of path) {
+    current = childrenNamed(current, name)[0];
+    if (!current) return undefined;
+  }
+  return current;
+};
+
+const text = (el: Element | null | undefined, ...path: string[]): string | undefined =>
+  child(el, ...path)?.textContent?.trim() || undefined;
+
+const dateOf = (el: Element | undefined): string | undefined =>
+  (text(el, 'Dt') || text(el, 'DtTm'))?.slice(0, 10);
+
+const signedAmount = (amount: string | undefined, indicator: string | undefined) => {
+  const value = Number(amount) || 0;
+  return indicator === 'DBIT' ? -value : value;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const balanceOf = (report: Element, codes: string[]): number | undefined => {
+  for (const code of codes) {
+    const bal = childrenNamed(report, 'Bal').find(
+      (b) => text(b, 'Tp', 'CdOrPrtry', 'Cd') === code || text(b, 'Tp', 'CdOrPrtry', 'Prtry') === code
+    );
+    if (bal) return round2(signedAmount(text(bal, 'Amt'), text(bal, 'CdtDbtInd')));
+  }
+  return undefined;
+};
+
+// Entry status is a plain code up to camt.053.001.08 and a <Cd> element afterwards.
+const entryStatus = (entry: Element) => text(entry, 'Sts', 'Cd') || text(entry, 'Sts');
+
+const describeEntry = (entry: Element, isCredit: boolean) => {
+  const tx = child(entry, 'NtryDtls', 'TxDtls');
+  const counterparty = isCredit
+    ? text(tx, 'RltdPties', 'Dbtr', 'Nm') || text(tx, 'RltdPties', 'Dbtr', 'Pty', 'Nm')
+    : text(tx, 'RltdPties', 'Cdtr', 'Nm') || text(tx, 'RltdPties', 'Cdtr', 'Pty', 'Nm');
+  const remittance = childrenNamed(child(tx, 'RmtInf'), 'Ustrd').map((u) => u.textContent?.trim()).filter(Boolean).join(' ');
+  const description =
+    [counterparty, remittance].filter(Boolean).join(' – ') ||
+    text(entry, 'AddtlNtryInf') ||
+    text(tx, 'AddtlTxInf') ||
+    text(entry, 'BkTxCd', 'Prtry', 'Cd') ||
+    'Bank entry';
+  return {
+    description,
+    counterparty,
+    paymentReference: text(tx, 'RmtInf', 'Strd', 'CdtrRefInf', 'Ref') || text(tx, 'Refs', 'EndToEndId'),
+    bankReference: text(entry, 'AcctSvcrRef') || text(tx, 'Refs', 'AcctSvcrRef') || text(entry, 'NtryRef'),
+  };
+};
+
+const parseEntries = (report: Element): BankTransaction[] =>
+  childrenNamed(report, 'Ntry')
+    .filter((entry) => {
+      const status = entryStatus(entry);
+      return !status || status === 'BOOK';
+    })
+    .map((entry): BankTransaction => {
+      const isCredit = text(entry, 'CdtDbtInd') === 'CRDT';
+      const details = describeEntry(entry, isCredit);
+      const paymentReference = details.paymentReference === 'NOTPROVIDED' ? undefined : details.paymentReference;
+      return {
+        date: dateOf(child(entry, 'BookgDt')) || dateOf(child(entry, 'ValDt')) || '',
+        valueDate: dateOf(child(entry, 'ValDt')),
+        description: details.description,
+        amount: round2(Math.abs(Number(text(entry, 'Amt')) || 0)),
+        type: isCredit ? 'INCOME' : 'EXPENSE',
+        category: '',
+        counterparty: details.counterparty,
+        bankReference: details.bankReference,
+        paymentReference,
+      };
+    });
+
+const parseReport = (report: Element, source: 'camt.053' | 'camt.054'): BankStatementAnalysis => {
+  const transactions = parseEntries(report);
+  const income = transactions.filter((t) => t.type === 'INCOME').reduce((s, t) => s + t.amount, 0);
+  const expense = transactions.filter((t) => t.type === 'EXPENSE').reduce((s, t) => s + t.amount, 0);
+
+  const firstBalanceCcy = child(report, 'Bal', 'Amt')?.getAttribute('Ccy');
+  const firstEntryCcy = child(report, 'Ntry', 'Amt')?.getAttribute('Ccy');
+  const currency = text(report, 'Acct', 'Ccy') || firstBalanceCcy || firstEntryCcy || 'CHF';
+
+  const dates = transactions.map((t) => t.date).filter(Boolean).sort();
+  const from = text(report, 'FrToDt', 'FrDtTm')?.slice(0, 10) || dates[0];
+  const to = text(report, 'FrToDt', 'ToDtTm')?.slice(0, 10) || dates[dates.length - 1];
+
+  return {
+    transactions,
+    calculatedTotalIncome: round2(income),
+    calculatedTotalExpense: round2(expense),
+    openingBalance: balanceOf(report, ['OPBD', 'PRCD']),
+    finalBalance: balanceOf(report, ['CLBD']),
+    currency,
+    period: from && to ? (from === to ? from : `${from} – ${to}`) : undefined,
+    source,
+    accountIban: text(report, 'Acct', 'Id', 'IBAN') || text(report, 'Acct', 'Id', 'Othr', 'Id'),
+    statementId: text(report, 'Id'),
+  };
+};
+
+export const isCamtXml = (xml: string) => /<(\w+:)?(BkToCstmrStmt|BkToCstmrDbtCdtNtfctn)[\s>]/.test(xml);
+
+/**
+ * Parses a camt.053 or camt.054 file. A file can hold several statements (one per account or day),
+ * so one BankStatementAnalysis is returned per <Stmt>/<Ntfctn>.
+ */
+export const parseCamt = (xml: string): BankStatementAnalysis[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid XML: the camt file could not be read');
+  }
+  const root = doc.documentElement;
+  const statementRoot = child(root, 'BkToCstmrStmt');
+  const notificationRoot = child(root, 'BkToCstmrDbtCdtNtfctn');
+
+  if (statementRoot) return childrenNamed(statementRoot, 'Stmt').map((r) => parseReport(r, 'camt.053'));
+  if (notificationRoot) return childrenNamed(notificationRoot, 'Ntfctn').map((r) => parseReport(r, 'camt.054'));
+  throw new Error('Not a camt.053 / camt.054 document');
+};
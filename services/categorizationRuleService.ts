@@ -0,0 +1,171 @@
+import { doc, getDoc, setDoc, deleteDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { BankTransaction, CategorizationRule, CategorizationRuleSet, FinancialData } from '../types';
+import { DocumentType } from '../types';
+import { assertClientAccess } from './clientService';
+
+const RULES_COLLECTION = 'categorizationRules';
+
+// Corrections of the same issuer to the same category before a rule is proposed.
+const SUGGESTION_THRESHOLD = 2;
+
+export const EMPTY_RULE_SET: CategorizationRuleSet = { rules: [], corrections: {}, dismissedSuggestions: [] };
+
+const issuerKey = (issuer: string) => issuer.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Returns the compiled matcher of a pattern, or null if a `/…/` pattern is not a valid regular expression.
+ */
+export const compilePattern = (pattern: string): ((text: string) => boolean) | null => {
+  const trimmed = pattern.trim();
+  const regex = trimmed.match(/^\/(.+)\/$/);
+  if (regex) {
+    try {
+      const re = new RegExp(regex[1], 'i');
+      return (text) => re.test(text);
+    } catch {
+      return null;
+    }
+  }
+  const needle = trimmed.toLowerCase();
+  return (text) => text.toLowerCase().includes(needle);
+};
+
+const matchesCommon = (rule: CategorizationRule, text: string, amount: number, currency: string) => {
+  if (!rule.enabled) return false;
+  if (rule.pattern.trim()) {
+    const matcher = compilePattern(rule.pattern);
+    if (!matcher || !matcher(text)) return false;
+  }
+  const abs = Math.abs(Number(amount) || 0);
+  if (rule.minAmount !== undefined && abs < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && abs > rule.maxAmount) return false;
+  if (rule.currency && rule.currency.toUpperCase() !== (currency || '').toUpperCase()) return false;
+  return true;
+};
+
+export const matchesDocument = (rule: CategorizationRule, data: FinancialData) =>
+  rule.appliesTo !== 'transactions' &&
+  (!rule.documentType || rule.documentType === data.documentType) &&
+  matchesCommon(rule, data.issuer || '', data.totalAmount, data.originalCurrency);
+
+// Transactions have no document type of their own; rules restricted to one never apply to them.
+export const matchesTransaction = (rule: CategorizationRule, transaction: BankTransaction, currency: string) =>
+  rule.appliesTo !== 'documents' &&
+  !rule.documentType &&
+  matchesCommon(rule, [transaction.description, transaction.counterparty].filter(Boolean).join(' '), transaction.amount, currency);
+
+const appendNote = (notes: string | undefined, note: string) =>
+  !notes ? note : notes.includes(note) ? notes : `${notes} · ${note}`;
+
+/**
+ * Rules are evaluated in order: the first matching rule that sets a category (or notes) decides it,
+ * flags of every matching rule are kept.
+ */
+const resolveActions = (matching: CategorizationRule[]) => ({
+  category: matching.find((r) => r.setCategory)?.setCategory,
+  notes: matching.find((r) => r.setNotes)?.setNotes,
+  flags: matching.filter((r) => r.flag).map((r) => r.flag!),
+  ids: matching.filter((r) => r.setCategory || r.setNotes || r.flag).map((r) => r.id),
+});
+
+const applyToTransaction = (transaction: BankTransaction, rules: CategorizationRule[], currency: string): BankTransaction => {
+  const { category, notes, flags, ids } = resolveActions(rules.filter((r) => matchesTransaction(r, transaction, currency)));
+  if (ids.length === 0) return transaction;
+  let withNotes = transaction.notes;
+  if (notes) withNotes = appendNote(withNotes, notes);
+  flags.forEach((f) => (withNotes = appendNote(withNotes, `Flag: ${f}`)));
+  return { ...transaction, ...(category && { category }), notes: withNotes, appliedRules: ids };
+};
+
+/**
+ * Applies the rules to an extraction: to the document itself, to each ticket of a batch sheet and,
+ * for bank statements, to each transaction line. Deterministic for a given rule list.
+ */
+export const applyRulesToDocument = (data: FinancialData, rules: CategorizationRule[]): FinancialData => {
+  if (rules.length === 0) return data;
+  const { category, notes, flags, ids } = resolveActions(rules.filter((r) => matchesDocument(r, data)));
+  const result: FinancialData = { ...data };
+  if (category) result.expenseCategory = category;
+  if (notes) result.notes = appendNote(result.notes, notes);
+  if (flags.length) result.forensicAlerts = [...(result.forensicAlerts || []), ...flags.filter((f) => !result.forensicAlerts?.includes(f))];
+  if (ids.length) result.appliedRules = ids;
+  else delete result.appliedRules;
+
+  if (result.subDocuments?.length) result.subDocuments = result.subDocuments.map((sub) => applyRulesToDocument(sub, rules));
+  if (result.documentType === DocumentType.BANK_STATEMENT && result.lineItems?.length) {
+    result.lineItems = result.lineItems.map((t) => applyToTransaction(t, rules, result.originalCurrency));
+  }
+  return result;
+};
+
+export const applyRulesToTransactions = (transactions: BankTransaction[], rules: CategorizationRule[], currency: string): BankTransaction[] =>
+  rules.length === 0 ? transactions : transactions.map((t) => applyToTransaction(t, rules, currency));
+
+/**
+ * The rule set of a client; one Firestore document per client, keyed by the client id.
+ */
+export const getCategorizationRules = async (clientId: string): Promise<CategorizationRuleSet> => {
+  const snapshot = await getDoc(doc(db, RULES_COLLECTION, clientId));
+  if (!snapshot.exists()) return EMPTY_RULE_SET;
+  const data = snapshot.data() as Partial<CategorizationRuleSet>;
+  return {
+    rules: data.rules || [],
+    corrections: data.corrections || {},
+    dismissedSuggestions: data.dismissedSuggestions || [],
+  };
+};
+
+export const saveCategorizationRules = async (uid: string, clientId: string, ruleSet: CategorizationRuleSet): Promise<void> => {
+  const { firmId } = await assertClientAccess(uid, clientId, 'edit');
+  for (const rule of ruleSet.rules) {
+    if (!rule.name.trim()) throw new Error('Every rule needs a name');
+    if (!compilePattern(rule.pattern)) throw new Error(`Rule "${rule.name}": invalid regular expression ${rule.pattern}`);
+  }
+  // Firestore rejects undefined values; optional conditions that are not set are left out.
+  const rules = ruleSet.rules.map((rule) => JSON.parse(JSON.stringify(rule)) as CategorizationRule);
+  await setDoc(doc(db, RULES_COLLECTION, clientId), {
+    ...ruleSet,
+    rules,
+    userId: uid,
+    clientId,
+    ...(firmId && { firmId }),
+    updatedAt: serverTimestamp(),
+  });
+};
+
+export const deleteCategorizationRules = async (uid: string, clientId: string): Promise<void> => {
+  await assertClientAccess(uid, clientId, 'manageClients');
+  await deleteDoc(doc(db, RULES_COLLECTION, clientId));
+};
+
+export const newRuleId = () => Math.random().toString(36).slice(2, 10);
+
+/**
+ * Records that the category of a document from `issuer` was changed by hand.
+ */
+export const recordCategoryCorrection = (ruleSet: CategorizationRuleSet, issuer: string, category: string): CategorizationRuleSet => {
+  const key = issuerKey(issuer);
+  if (!key || !category) return ruleSet;
+  const previous = ruleSet.corrections[key];
+  const count = previous?.category === category ? previous.count + 1 : 1;
+  return { ...ruleSet, corrections: { ...ruleSet.corrections, [key]: { issuer: issuer.trim(), category, count } } };
+};
+
+/**
+ * Issuers corrected to the same category often enough, with no rule covering them yet and not dismissed.
+ */
+export const ruleSuggestions = (ruleSet: CategorizationRuleSet): { key: string; issuer: string; category: string }[] =>
+  Object.entries(ruleSet.corrections)
+    .filter(([key, c]) => c.count >= SUGGESTION_THRESHOLD && !ruleSet.dismissedSuggestions.includes(`${key}=${c.category}`))
+    .filter(([, c]) => !ruleSet.rules.some((r) => r.setCategory === c.category && r.enabled && compilePattern(r.pattern)?.(c.issuer)))
+    .map(([key, c]) => ({ key: `${key}=${c.category}`, issuer: c.issuer, category: c.category }));
+
+export const ruleFromSuggestion = (issuer: string, category: string): CategorizationRule => ({
+  id: newRuleId(),
+  name: `${issuer} → ${category}`,
+  enabled: true,
+  appliesTo: 'documents',
+  pattern: issuer,
+  setCategory: category,
+});
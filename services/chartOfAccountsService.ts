@@ -0,0 +1,38 @@
+import { doc, getDoc, setDoc, deleteDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { ChartOfAccounts } from '../types';
+import { DEFAULT_KMU_CHART } from './journalService';
+import { assertClientAccess } from './clientService';
+
+const CHARTS_COLLECTION = 'chartsOfAccounts';
+
+/**
+ * A client's chart of accounts; one Firestore document per client, keyed by the client id.
+ * Clients without a saved chart get the KMU default.
+ */
+export const getChartOfAccounts = async (clientId: string): Promise<ChartOfAccounts> => {
+  const snapshot = await getDoc(doc(db, CHARTS_COLLECTION, clientId));
+  if (!snapshot.exists()) return DEFAULT_KMU_CHART;
+  const data = snapshot.data() as Partial<ChartOfAccounts>;
+  return {
+    accounts: data.accounts || DEFAULT_KMU_CHART.accounts,
+    categoryAccounts: { ...DEFAULT_KMU_CHART.categoryAccounts, ...data.categoryAccounts },
+    defaults: { ...DEFAULT_KMU_CHART.defaults, ...data.defaults },
+  };
+};
+
+export const saveChartOfAccounts = async (uid: string, clientId: string, chart: ChartOfAccounts): Promise<void> => {
+  const { firmId } = await assertClientAccess(uid, clientId, 'edit');
+  await setDoc(doc(db, CHARTS_COLLECTION, clientId), {
+    ...chart,
+    userId: uid,
+    clientId,
+    ...(firmId && { firmId }),
+    updatedAt: serverTimestamp(),
+  });
+};
+
+export const deleteChartOfAccounts = async (uid: string, clientId: string): Promise<void> => {
+  await assertClientAccess(uid, clientId, 'manageClients');
+  await deleteDoc(doc(db, CHARTS_COLLECTION, clientId));
+};
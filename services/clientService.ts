@@ -0,0 +1,180 @@
+import {
+  collection,
+  doc,
+  query,
+  where,
+  orderBy,
+  addDoc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  serverTimestamp,
+  type Timestamp,
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { Client, ClientProfile, FirmAction, FirmRole } from '../types';
+import { canPerform, getMemberRole, getUserMemberships, ROLE_LABELS, assertFirmAccess } from './firmService';
+
+const CLIENTS_COLLECTION = 'clients';
+
+type StoredClient = {
+  userId: string;
+  name: string;
+  firmId?: string | null;
+  profile?: Partial<ClientProfile>;
+  createdAt: Timestamp;
+  archivedAt?: Timestamp;
+};
+
+export const DEFAULT_CLIENT_PROFILE: ClientProfile = {
+  legalForm: 'gmbh',
+  uid: '',
+  vatNumber: '',
+  vatMethod: 'effective',
+  vatSettlement: 'quarter',
+  fiscalYearStartMonth: 1,
+  baseCurrency: 'CHF',
+  address: { street: '', postalCode: '', city: '', country: 'CH' },
+  contact: { name: '', email: '', phone: '' },
+};
+
+// Clients created before profiles existed, or with a partially filled one, fall back to the defaults field by field.
+const withDefaults = (profile: Partial<ClientProfile> = {}): ClientProfile => ({
+  ...DEFAULT_CLIENT_PROFILE,
+  ...profile,
+  address: { ...DEFAULT_CLIENT_PROFILE.address, ...profile.address },
+  contact: { ...DEFAULT_CLIENT_PROFILE.contact, ...profile.contact },
+});
+
+function docToClient(id: string, data: StoredClient): Client {
+  return {
+    id,
+    user_id: data.userId,
+    name: data.name,
+    created_at: data.createdAt?.toDate?.()?.toISOString?.() ?? new Date().toISOString(),
+    firm_id: data.firmId ?? undefined,
+    profile: withDefaults(data.profile),
+    archived_at: data.archivedAt?.toDate?.()?.toISOString?.(),
+  };
+}
+
+/**
+ * First and last day (YYYY-MM-DD) of the client's fiscal year containing `date`.
+ */
+export const fiscalYearRange = (profile: ClientProfile, date = new Date()): { from: string; to: string } => {
+  const startMonth = profile.fiscalYearStartMonth - 1;
+  const startYear = date.getMonth() >= startMonth ? date.getFullYear() : date.getFullYear() - 1;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const end = new Date(Date.UTC(startYear + 1, startMonth, 0));
+  return {
+    from: `${startYear}-${pad(startMonth + 1)}-01`,
+    to: `${end.getUTCFullYear()}-${pad(end.getUTCMonth() + 1)}-${pad(end.getUTCDate())}`,
+  };
+};
+
+// A client never changes owner, so its owner fields are cached for the access checks of the document services.
+const ownerCache = new Map<string, Pick<Client, 'user_id' | 'firm_id'>>();
+
+const remember = (client: Client) => {
+  ownerCache.set(client.id, { user_id: client.user_id, firm_id: client.firm_id });
+  return client;
+};
+
+/**
+ * All clients a user can open: those of every firm they belong to, plus the personal clients they
+ * created before working in a firm. Firm clients they created are reached through the membership only,
+ * so they disappear once the user leaves the firm.
+ */
+export const getClientsForUser = async (uid: string): Promise<Client[]> => {
+  const memberships = await getUserMemberships(uid);
+  const queries = [
+    query(collection(db, CLIENTS_COLLECTION), where('userId', '==', uid), where('firmId', '==', null), orderBy('createdAt', 'desc')),
+    ...memberships.map((m) =>
+      query(collection(db, CLIENTS_COLLECTION), where('firmId', '==', m.firmId), orderBy('createdAt', 'desc'))
+    ),
+  ];
+  const snapshots = await Promise.all(queries.map((q) => getDocs(q)));
+  const byId = new Map<string, Client>();
+  snapshots.forEach((snapshot) =>
+    snapshot.forEach((d) => byId.set(d.id, remember(docToClient(d.id, d.data() as StoredClient))))
+  );
+  return Array.from(byId.values()).sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+export const createClient = async (
+  uid: string,
+  name: string,
+  firmId?: string,
+  profile: Partial<ClientProfile> = {}
+): Promise<Client> => {
+  if (firmId) await assertFirmAccess(uid, firmId, 'manageClients');
+  const fullProfile = withDefaults(profile);
+  const ref = await addDoc(collection(db, CLIENTS_COLLECTION), {
+    userId: uid,
+    name,
+    // Stored as null on personal clients so they can be queried apart from the firm ones
+    firmId: firmId ?? null,
+    profile: fullProfile,
+    createdAt: serverTimestamp(),
+  });
+  return remember({ id: ref.id, user_id: uid, name, created_at: new Date().toISOString(), firm_id: firmId, profile: fullProfile });
+};
+
+const clientOwner = async (clientId: string) => {
+  const cached = ownerCache.get(clientId);
+  if (cached) return cached;
+  const snapshot = await getDoc(doc(db, CLIENTS_COLLECTION, clientId));
+  if (!snapshot.exists()) throw new Error('Client not found');
+  return remember(docToClient(snapshot.id, snapshot.data() as StoredClient));
+};
+
+/**
+ * The user's role on a client: their firm role, or owner of a personal client they created.
+ */
+export const getClientRole = async (uid: string, client: Pick<Client, 'user_id' | 'firm_id'>): Promise<FirmRole | null> => {
+  if (client.firm_id) return getMemberRole(client.firm_id, uid);
+  return client.user_id === uid ? 'owner' : null;
+};
+
+/**
+ * Throws unless the user may perform `action` on the client. Returns the client's firm (if any),
+ * which new records of the client are tagged with.
+ */
+export const assertClientAccess = async (uid: string, clientId: string, action: FirmAction): Promise<{ firmId?: string }> => {
+  const owner = await clientOwner(clientId);
+  const role = await getClientRole(uid, owner);
+  if (!role) throw new Error('You do not have access to this client.');
+  if (!canPerform(role, action)) throw new Error(`Your role (${ROLE_LABELS[role]}) does not allow this action.`);
+  return { firmId: owner.firm_id };
+};
+
+export const updateClient = async (
+  uid: string,
+  clientId: string,
+  updates: { name?: string; profile?: ClientProfile }
+): Promise<void> => {
+  await assertClientAccess(uid, clientId, 'manageClients');
+  const name = updates.name?.trim();
+  if (updates.name !== undefined && !name) throw new Error('Client name is required');
+  await updateDoc(doc(db, CLIENTS_COLLECTION, clientId), {
+    ...(name && { name }),
+    ...(updates.profile && { profile: updates.profile }),
+  });
+};
+
+export const setClientArchived = async (uid: string, clientId: string, archived: boolean): Promise<void> => {
+  await assertClientAccess(uid, clientId, 'manageClients');
+  await updateDoc(doc(db, CLIENTS_COLLECTION, clientId), { archivedAt: archived ? serverTimestamp() : deleteField() });
+};
+
+/**
+ * Removes the client record only; its documents and chart of accounts are deleted by the caller first
+ * (see ClientContext), since those services depend on this one for their access checks.
+ */
+export const deleteClient = async (uid: string, clientId: string): Promise<void> => {
+  await assertClientAccess(uid, clientId, 'manageClients');
+  await deleteDoc(doc(db, CLIENTS_COLLECTION, clientId));
+  ownerCache.delete(clientId);
+};
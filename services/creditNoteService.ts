@@ -0,0 +1,76 @@
+import { DocumentType, type FinancialData, type ProcessedDocument } from '../types';
+import { isIssuedByClient } from './directionService';
+
+/**
+ * Credit notes, refunds and cancellations carry negative amounts, so every total that adds documents up
+ * (insights, exports, VAT, journal) is reduced by them without special cases.
+ */
+
+// Tickets of a batch sheet carry the schema's own type names
+export const isCreditNote = (data: Pick<FinancialData, 'documentType'>) =>
+  data.documentType === DocumentType.CREDIT_NOTE || String(data.documentType) === 'CREDIT_NOTE';
+
+const negative = (value: number | undefined) => (value ? -Math.abs(Number(value) || 0) : value);
+
+/**
+ * Makes the amounts of credit notes negative, for the document and each of its tickets. Extractions and QR-bills
+ * give them as printed, i.e. positive; amounts that are already negative stay as they are.
+ */
+export const signCreditNote = (data: FinancialData): FinancialData => ({
+  ...data,
+  ...(isCreditNote(data) && {
+    totalAmount: negative(data.totalAmount)!,
+    vatAmount: negative(data.vatAmount)!,
+    netAmount: negative(data.netAmount)!,
+    amountInCHF: negative(data.amountInCHF)!,
+  }),
+  ...(data.subDocuments && { subDocuments: data.subDocuments.map(signCreditNote) }),
+});
+
+// Turns a credit note back into an invoice (or an invoice into a credit note) with the matching sign.
+export const withCreditNoteType = (data: FinancialData, creditNote: boolean): FinancialData => {
+  if (creditNote) return signCreditNote({ ...data, documentType: DocumentType.CREDIT_NOTE });
+  const { reversesDocumentId: _id, reversesDocumentNumber: _number, ...rest } = data;
+  const positive = (value: number) => Math.abs(Number(value) || 0);
+  return {
+    ...rest,
+    documentType: DocumentType.INVOICE,
+    totalAmount: positive(data.totalAmount),
+    vatAmount: positive(data.vatAmount),
+    netAmount: positive(data.netAmount),
+    amountInCHF: positive(data.amountInCHF),
+  };
+};
+
+const compact = (value: string | undefined) => (value || '').replace(/[\s\-/.#]/g, '').toUpperCase();
+
+/**
+ * Documents a credit note can reverse: invoices and receipts from the same issuer first, most recent first.
+ */
+export const reversalCandidates = (creditNote: FinancialData, documents: ProcessedDocument[], excludeId?: string) =>
+  documents
+    .filter((d) => d.id !== excludeId && d.status === 'completed' && d.data && !isCreditNote(d.data))
+    .filter((d) => d.data!.documentType !== DocumentType.BANK_STATEMENT && d.data!.documentType !== DocumentType.BANK_DEPOSIT)
+    .map((d) => ({ document: d, sameIssuer: isIssuedByClient(d.data!.issuer, creditNote.issuer) }))
+    .sort((a, b) => Number(b.sameIssuer) - Number(a.sameIssuer) || (b.document.data!.date || '').localeCompare(a.document.data!.date || ''))
+    .map(({ document }) => document);
+
+/**
+ * The document a credit note reverses, found by the invoice number printed on the credit note.
+ */
+export const findReversedDocument = (
+  creditNote: FinancialData,
+  documents: ProcessedDocument[],
+  excludeId?: string
+): ProcessedDocument | undefined => {
+  const number = compact(creditNote.reversesDocumentNumber);
+  if (number.length < 3) return undefined;
+  return reversalCandidates(creditNote, documents, excludeId).find((d) => compact(d.data!.documentNumber) === number);
+};
+
+// Links an extracted credit note to the document it reverses, when that document is among the client's.
+export const linkReversedDocument = (data: FinancialData, documents: ProcessedDocument[], documentId?: string): FinancialData => {
+  if (!isCreditNote(data) || data.reversesDocumentId) return data;
+  const reversed = findReversedDocument(data, documents, documentId);
+  return reversed ? { ...data, reversesDocumentId: reversed.id } : data;
+};
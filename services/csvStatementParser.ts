@@ -0,0 +1,304 @@
+import type { BankStatementAnalysis, BankTransaction, CsvDateFormat, CsvMappingProfile } from '../types';
+
+/**
+ * Proprietary bank CSV exports, mapped onto BankTransaction through a CsvMappingProfile.
+ * The built-in presets cover the e-banking exports of UBS, PostFinance and Raiffeisen; anything else is
+ * configured once in the mapping panel and saved per user.
+ */
+
+export const CSV_PRESETS: CsvMappingProfile[] = [
+  {
+    id: 'preset-ubs',
+    name: 'UBS (E-Banking CSV)',
+    builtIn: true,
+    encoding: 'utf-8',
+    delimiter: ';',
+    skipRows: 0,
+    hasHeader: true,
+    dateColumn: 'Buchungsdatum',
+    dateFormat: 'YYYY-MM-DD',
+    valueDateColumn: 'Valutadatum',
+    descriptionColumns: ['Beschreibung1', 'Beschreibung2', 'Beschreibung3'],
+    decimalSeparator: '.',
+    thousandsSeparator: "'",
+    amountMode: 'split',
+    debitColumn: 'Belastung',
+    creditColumn: 'Gutschrift',
+    balanceColumn: 'Saldo',
+    referenceColumn: 'Transaktions-Nr.',
+    currency: 'CHF',
+  },
+  {
+    id: 'preset-postfinance',
+    name: 'PostFinance (E-Finance CSV)',
+    builtIn: true,
+    encoding: 'windows-1252',
+    delimiter: ';',
+    skipRows: 0,
+    hasHeader: true,
+    dateColumn: 'Datum',
+    dateFormat: 'DD.MM.YYYY',
+    descriptionColumns: ['Avisierungstext'],
+    decimalSeparator: '.',
+    thousandsSeparator: '',
+    amountMode: 'split',
+    debitColumn: 'Lastschrift in CHF',
+    creditColumn: 'Gutschrift in CHF',
+    balanceColumn: 'Saldo in CHF',
+    currency: 'CHF',
+  },
+  {
+    id: 'preset-raiffeisen',
+    name: 'Raiffeisen (E-Banking CSV)',
+    builtIn: true,
+    encoding: 'utf-8',
+    delimiter: ';',
+    skipRows: 0,
+    hasHeader: true,
+    dateColumn: 'Booked At',
+    dateFormat: 'YYYY-MM-DD',
+    valueDateColumn: 'Valuta Date',
+    descriptionColumns: ['Text'],
+    decimalSeparator: '.',
+    thousandsSeparator: '',
+    amountMode: 'signed',
+    amountColumn: 'Credit/Debit Amount',
+    balanceColumn: 'Balance',
+    currency: 'CHF',
+  },
+];
+
+export const emptyCsvProfile = (): CsvMappingProfile => ({
+  id: '',
+  name: '',
+  encoding: 'utf-8',
+  delimiter: ';',
+  skipRows: 0,
+  hasHeader: true,
+  dateColumn: '',
+  dateFormat: 'DD.MM.YYYY',
+  descriptionColumns: [],
+  decimalSeparator: '.',
+  thousandsSeparator: '',
+  amountMode: 'signed',
+  currency: 'CHF',
+});
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const decodeCsv = async (file: Blob, encoding: CsvMappingProfile['encoding']): Promise<string> =>
+  new TextDecoder(encoding).decode(await file.arrayBuffer()).replace(/^﻿/, '');
+
+/**
+ * Splits CSV text into rows of cells. Quoted cells may contain the delimiter, line breaks and doubled quotes.
+ */
+export const parseCsvRows = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+};
+
+// The delimiter that splits the first lines into the most, and most consistent, columns.
+export const detectDelimiter = (text: string): string => {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim()).slice(0, 20);
+  let best = ';';
+  let bestScore = 0;
+  for (const delimiter of [';', ',', '\t', '|']) {
+    const counts = lines.map((l) => l.split(delimiter).length - 1);
+    const max = Math.max(0, ...counts);
+    const score = max * counts.filter((c) => c === max).length;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+export const parseCsvDate = (value: string, format: CsvDateFormat): string | undefined => {
+  const v = value.trim();
+  let match: RegExpMatchArray | null;
+  let year: string, month: string, day: string;
+  switch (format) {
+    case 'YYYY-MM-DD':
+      match = v.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+      if (!match) return undefined;
+      [, year, month, day] = match;
+      break;
+    case 'MM/DD/YYYY':
+      match = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+      if (!match) return undefined;
+      [, month, day, year] = match;
+      break;
+    default: {
+      const separator = format === 'DD/MM/YYYY' ? '\\/' : '\\.';
+      match = v.match(new RegExp(`^(\\d{1,2})${separator}(\\d{1,2})${separator}(\\d{2,4})`));
+      if (!match) return undefined;
+      [, day, month, year] = match;
+      if (year.length === 2) year = `20${year}`;
+    }
+  }
+  const m = Number(month);
+  const d = Number(day);
+  if (m < 1 || m > 12 || d < 1 || d > 31) return undefined;
+  return `${year}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+};
+
+/**
+ * Reads "1'234.50", "1.234,50", "-12.00" or "12.00-" according to the profile's separators.
+ * Returns undefined for empty cells.
+ */
+export const parseCsvAmount = (value: string, profile: Pick<CsvMappingProfile, 'decimalSeparator' | 'thousandsSeparator'>) => {
+  let v = value.trim().replace(/[\s ’]/g, '');
+  if (!v) return undefined;
+  const trailingMinus = v.endsWith('-');
+  if (trailingMinus) v = v.slice(0, -1);
+  if (profile.thousandsSeparator) v = v.split(profile.thousandsSeparator).join('');
+  if (profile.decimalSeparator === ',') v = v.replace(',', '.');
+  const amount = Number(v.replace(/[^\d.+-]/g, ''));
+  if (!Number.isFinite(amount)) return undefined;
+  return trailingMinus ? -amount : amount;
+};
+
+type CsvTable = { headers: string[]; rows: string[][]; preamble: string[][] };
+
+/**
+ * Applies skipRows and locates the header row. Banks often put account details above the header,
+ * so with hasHeader the first row that contains the date column is taken as the header.
+ */
+export const readCsvTable = (text: string, profile: CsvMappingProfile): CsvTable => {
+  const all = parseCsvRows(text, profile.delimiter).slice(profile.skipRows);
+  if (!profile.hasHeader) {
+    const width = Math.max(0, ...all.map((r) => r.length));
+    return { headers: Array.from({ length: width }, (_, i) => String(i + 1)), rows: all, preamble: [] };
+  }
+  const wanted = profile.dateColumn.trim().toLowerCase();
+  let headerIndex = wanted ? all.findIndex((r) => r.some((c) => c.trim().toLowerCase() === wanted)) : -1;
+  if (headerIndex < 0) headerIndex = 0;
+  return {
+    headers: (all[headerIndex] || []).map((h) => h.trim()),
+    rows: all.slice(headerIndex + 1),
+    preamble: all.slice(0, headerIndex),
+  };
+};
+
+const columnIndex = (table: CsvTable, column: string | undefined): number => {
+  if (!column) return -1;
+  const wanted = column.trim().toLowerCase();
+  return table.headers.findIndex((h) => h.toLowerCase() === wanted);
+};
+
+const IBAN_PATTERN = /\b([A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){3,7}(?:\s?[A-Z0-9]{1,3})?)\b/;
+
+/**
+ * Parses a CSV export into a statement. Rows without a readable date or amount (totals, footers) are skipped.
+ * When a balance column is present, the opening balance is derived from the first row's running balance.
+ */
+export const parseCsvStatement = (text: string, profile: CsvMappingProfile): BankStatementAnalysis => {
+  const table = readCsvTable(text, profile);
+  const dateIdx = columnIndex(table, profile.dateColumn);
+  if (dateIdx < 0) throw new Error(`Date column "${profile.dateColumn}" not found`);
+
+  const amountIdx = columnIndex(table, profile.amountColumn);
+  const debitIdx = columnIndex(table, profile.debitColumn);
+  const creditIdx = columnIndex(table, profile.creditColumn);
+  if (profile.amountMode === 'signed' && amountIdx < 0) throw new Error(`Amount column "${profile.amountColumn || ''}" not found`);
+  if (profile.amountMode === 'split' && debitIdx < 0 && creditIdx < 0) {
+    throw new Error(`Neither debit column "${profile.debitColumn || ''}" nor credit column "${profile.creditColumn || ''}" found`);
+  }
+  const descriptionIdx = profile.descriptionColumns.map((c) => columnIndex(table, c)).filter((i) => i >= 0);
+  const valueDateIdx = columnIndex(table, profile.valueDateColumn);
+  const balanceIdx = columnIndex(table, profile.balanceColumn);
+  const referenceIdx = columnIndex(table, profile.referenceColumn);
+
+  const parsed: { tx: BankTransaction; signed: number; balance?: number }[] = [];
+  table.rows.forEach((row) => {
+    const date = parseCsvDate(row[dateIdx] || '', profile.dateFormat);
+    if (!date) return;
+    let signed: number | undefined;
+    if (profile.amountMode === 'signed') {
+      const amount = parseCsvAmount(row[amountIdx] || '', profile);
+      signed = amount === undefined ? undefined : profile.negativeIsIncome ? -amount : amount;
+    } else {
+      const debit = debitIdx >= 0 ? parseCsvAmount(row[debitIdx] || '', profile) : undefined;
+      const credit = creditIdx >= 0 ? parseCsvAmount(row[creditIdx] || '', profile) : undefined;
+      // Some banks export debits as negative numbers, others as positive ones; the column decides.
+      if (debit || credit) signed = Math.abs(credit || 0) - Math.abs(debit || 0);
+    }
+    if (signed === undefined || signed === 0) return;
+
+    const description = descriptionIdx.map((i) => (row[i] || '').trim()).filter(Boolean).join(' – ') || 'Bank entry';
+    const valueDate = valueDateIdx >= 0 ? parseCsvDate(row[valueDateIdx] || '', profile.dateFormat) : undefined;
+    const reference = referenceIdx >= 0 ? (row[referenceIdx] || '').trim() : '';
+    parsed.push({
+      tx: {
+        date,
+        valueDate,
+        description,
+        amount: round2(Math.abs(signed)),
+        type: signed > 0 ? 'INCOME' : 'EXPENSE',
+        category: '',
+        bankReference: reference || undefined,
+      },
+      signed,
+      balance: balanceIdx >= 0 ? parseCsvAmount(row[balanceIdx] || '', profile) : undefined,
+    });
+  });
+  if (parsed.length === 0) throw new Error('No transactions found with this mapping');
+
+  // Most e-banking exports list the newest booking first.
+  if (parsed[0].tx.date > parsed[parsed.length - 1].tx.date) parsed.reverse();
+
+  const transactions = parsed.map((p) => p.tx);
+  const income = transactions.filter((t) => t.type === 'INCOME').reduce((s, t) => s + t.amount, 0);
+  const expense = transactions.filter((t) => t.type === 'EXPENSE').reduce((s, t) => s + t.amount, 0);
+  const first = parsed.find((p) => p.balance !== undefined);
+  const last = [...parsed].reverse().find((p) => p.balance !== undefined);
+  const from = transactions[0].date;
+  const to = transactions[transactions.length - 1].date;
+  const iban = table.preamble.flat().join(' ').match(IBAN_PATTERN)?.[1];
+
+  return {
+    transactions,
+    calculatedTotalIncome: round2(income),
+    calculatedTotalExpense: round2(expense),
+    openingBalance: first && first === parsed[0] ? round2(first.balance! - first.signed) : undefined,
+    finalBalance: last && last === parsed[parsed.length - 1] ? round2(last.balance!) : undefined,
+    currency: profile.currency || 'CHF',
+    period: from === to ? from : `${from} – ${to}`,
+    source: 'csv',
+    accountIban: iban?.replace(/\s/g, ''),
+  };
+};
@@ -0,0 +1,32 @@
+import { DocumentType, type FinancialData, type FlowDirection } from '../types';
+import { nameTokens } from './nameTokens';
+
+export const FLOW_DIRECTIONS: FlowDirection[] = ['income', 'expense', 'transfer', 'neutral'];
+
+// A sales document is one the client issued itself: every significant word of the client name appears in the issuer.
+export const isIssuedByClient = (issuer: string, clientName: string) => {
+  const client = nameTokens(clientName);
+  const issuerTokens = new Set(nameTokens(issuer));
+  return client.length > 0 && client.every((t) => issuerTokens.has(t));
+};
+
+/**
+ * The direction of a document or ticket. Documents extracted before directions were recorded are inferred:
+ * statements are neutral, deposit confirmations transfers, documents the client issued income, the rest expenses.
+ */
+export const directionOf = (data: FinancialData, clientName: string): FlowDirection => {
+  if (data.direction) return data.direction;
+  if (data.documentType === DocumentType.BANK_STATEMENT) return 'neutral';
+  // Tickets of a batch sheet carry the schema's own type names
+  if (data.documentType === DocumentType.BANK_DEPOSIT || String(data.documentType) === 'BANK_DEPOSIT') return 'transfer';
+  return isIssuedByClient(data.issuer, clientName) ? 'income' : 'expense';
+};
+
+/**
+ * Adds the direction to an extraction that did not return one, for the document and each of its tickets.
+ */
+export const withDirections = (data: FinancialData, clientName: string): FinancialData => ({
+  ...data,
+  direction: directionOf(data, clientName),
+  ...(data.subDocuments && { subDocuments: data.subDocuments.map((sub) => withDirections(sub, clientName)) }),
+});
@@ -0,0 +1,231 @@
+import {
+  collection,
+  doc,
+  query,
+  where,
+  orderBy,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  serverTimestamp,
+  type Timestamp,
+} from 'firebase/firestore';
+import { ref, uploadBytes, getBlob, getDownloadURL, deleteObject } from 'firebase/storage';
+import { db, storage } from '../lib/firebase';
+import type { FinancialData, ProcessedDocument } from '../types';
+import { assertClientAccess } from './clientService';
+import { assertPeriodsOpen } from './periodService';
+
+const DOCUMENTS_COLLECTION = 'documents';
+
+type StoredDocument = {
+  userId: string;
+  clientId: string;
+  firmId?: string;
+  fileName: string;
+  status: ProcessedDocument['status'];
+  data?: FinancialData;
+  error?: string;
+  storagePath?: string;
+  fileType?: string;
+  fileSize?: number;
+  contentHash?: string;
+  duplicate?: ProcessedDocument['duplicate'];
+  notDuplicateOf?: string[];
+  verifiedItems?: string[];
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+};
+
+const toIso = (value?: Timestamp) => value?.toDate?.()?.toISOString?.();
+
+function docToProcessedDocument(id: string, data: StoredDocument): ProcessedDocument {
+  // A reload interrupts any extraction that was in flight; put it back in the queue.
+  const status = data.status === 'processing' || data.status === 'verifying' ? 'pending' : data.status;
+  return {
+    id,
+    userId: data.userId,
+    clientId: data.clientId,
+    fileName: data.fileName,
+    status,
+    data: data.data,
+    error: data.error,
+    storagePath: data.storagePath,
+    fileType: data.fileType,
+    fileSize: data.fileSize,
+    contentHash: data.contentHash,
+    duplicate: data.duplicate,
+    notDuplicateOf: data.notDuplicateOf,
+    createdAt: toIso(data.createdAt) ?? new Date().toISOString(),
+    updatedAt: toIso(data.updatedAt),
+  };
+}
+
+/**
+ * Strips the client-only fields of a ProcessedDocument so the rest can be written to Firestore.
+ */
+function toStoredFields(document: Partial<ProcessedDocument>) {
+  const { id, fileRaw, createdAt, updatedAt, ...rest } = document;
+  return rest;
+}
+
+// Firm clients keep their files under the firm so every member can open them; personal clients under the user.
+const buildStoragePath = (uid: string, clientId: string, docId: string, fileName: string, firmId?: string) =>
+  firmId
+    ? `firms/${firmId}/clients/${clientId}/documents/${docId}/${fileName}`
+    : `users/${uid}/clients/${clientId}/documents/${docId}/${fileName}`;
+
+/**
+ * Paths of the line items and tickets marked human-verified ("lineItems.2", "subDocuments.0"). The journal trusts
+ * these flags, so they are certifications too; the list is stored with the document for the security rules.
+ */
+const verifiedItemsOf = (data?: FinancialData, path = ''): string[] => [
+  ...(data?.lineItems || []).flatMap((t, i) => (t.isHumanVerified ? [`${path}lineItems.${i}`] : [])),
+  ...(data?.subDocuments || []).flatMap((sub, i) => [
+    ...(sub.isHumanVerified ? [`${path}subDocuments.${i}`] : []),
+    ...verifiedItemsOf(sub, `${path}subDocuments.${i}.`),
+  ]),
+];
+
+const isCertified = (data?: FinancialData) => !!data?.isHumanVerified || verifiedItemsOf(data).length > 0;
+
+// The stored record as it is now: another member may have certified or re-dated it since this browser
+// last loaded it, so access and period-lock checks never rely on the copy in memory.
+const readStoredDocument = async (documentId: string): Promise<StoredDocument> => {
+  const snapshot = await getDoc(doc(db, DOCUMENTS_COLLECTION, documentId));
+  if (!snapshot.exists()) throw new Error('Document not found');
+  return snapshot.data() as StoredDocument;
+};
+
+/**
+ * Persists a document for a client. The raw upload goes to Storage, the extraction to Firestore.
+ * Returns the Firestore id, which replaces the temporary id generated at upload time.
+ */
+export const saveDocument = async (
+  uid: string,
+  clientId: string,
+  document: ProcessedDocument
+): Promise<string> => {
+  const { firmId } = await assertClientAccess(uid, clientId, isCertified(document.data) ? 'certify' : 'edit');
+  const docRef = doc(collection(db, DOCUMENTS_COLLECTION));
+
+  let storagePath: string | undefined;
+  if (document.fileRaw) {
+    storagePath = buildStoragePath(uid, clientId, docRef.id, document.fileName, firmId);
+    await uploadBytes(ref(storage, storagePath), document.fileRaw, {
+      contentType: document.fileRaw.type || undefined,
+    });
+  }
+
+  await setDoc(docRef, {
+    ...toStoredFields(document),
+    verifiedItems: verifiedItemsOf(document.data),
+    userId: uid,
+    clientId,
+    ...(firmId && { firmId }),
+    storagePath,
+    fileType: document.fileRaw?.type || document.fileType,
+    fileSize: document.fileRaw?.size ?? document.fileSize,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+
+  return docRef.id;
+};
+
+/**
+ * Documents of a client. Firm clients return the documents of every member, personal clients those of their creator.
+ */
+export const getDocumentsByClient = async (uid: string, clientId: string): Promise<ProcessedDocument[]> => {
+  const { firmId } = await assertClientAccess(uid, clientId, 'read');
+  const q = query(
+    collection(db, DOCUMENTS_COLLECTION),
+    firmId ? where('firmId', '==', firmId) : where('userId', '==', uid),
+    where('clientId', '==', clientId),
+    orderBy('createdAt', 'desc')
+  );
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map((d) => docToProcessedDocument(d.id, d.data() as StoredDocument));
+};
+
+/**
+ * Updates a document. Writing verified data (certifying, changing an already certified record, or
+ * marking or unmarking a line item or ticket as verified) requires a role that may certify; other
+ * changes require edit rights. Documents dated in a closed period cannot be changed, nor can a
+ * document be moved into one.
+ */
+export const updateDocument = async (uid: string, documentId: string, updates: Partial<ProcessedDocument>): Promise<void> => {
+  const stored = await readStoredDocument(documentId);
+  const verifiedItems = updates.data ? verifiedItemsOf(updates.data) : undefined;
+  const certifying =
+    stored.data?.isHumanVerified ||
+    updates.data?.isHumanVerified ||
+    (verifiedItems !== undefined && verifiedItems.join() !== verifiedItemsOf(stored.data).join());
+  await assertClientAccess(uid, stored.clientId, certifying ? 'certify' : 'edit');
+  await assertPeriodsOpen(uid, stored.clientId, [stored.data?.date, updates.data?.date]);
+  const fields: Record<string, unknown> = { ...toStoredFields(updates), ...(verifiedItems && { verifiedItems }) };
+  // An explicit `undefined` in an update (e.g. `error: undefined`) means "clear the field".
+  Object.keys(fields).forEach((key) => {
+    if (fields[key] === undefined) fields[key] = deleteField();
+  });
+  await updateDoc(doc(db, DOCUMENTS_COLLECTION, documentId), {
+    ...fields,
+    updatedAt: serverTimestamp(),
+  });
+};
+
+const removeDocument = async (documentId: string, storagePath?: string): Promise<void> => {
+  if (storagePath) {
+    try {
+      await deleteObject(ref(storage, storagePath));
+    } catch (err: any) {
+      // The binary may already be gone; the record still has to be removed.
+      if (err?.code !== 'storage/object-not-found') throw err;
+    }
+  }
+  await deleteDoc(doc(db, DOCUMENTS_COLLECTION, documentId));
+};
+
+export const deleteDocument = async (uid: string, documentId: string): Promise<void> => {
+  const stored = await readStoredDocument(documentId);
+  // A certified record may only be removed by someone allowed to change it.
+  await assertClientAccess(uid, stored.clientId, isCertified(stored.data) ? 'certify' : 'edit');
+  await assertPeriodsOpen(uid, stored.clientId, [stored.data?.date]);
+  await removeDocument(documentId, stored.storagePath);
+};
+
+/**
+ * Deletes every document of a client together with its stored file. Used when the client itself is deleted,
+ * which also removes the documents of closed periods; certified documents still need a role that may certify.
+ */
+export const deleteDocumentsByClient = async (uid: string, clientId: string): Promise<void> => {
+  await assertClientAccess(uid, clientId, 'manageClients');
+  const documents = await getDocumentsByClient(uid, clientId);
+  // Checked before anything is removed, so a refused client deletion leaves the client whole.
+  if (documents.some((d) => isCertified(d.data))) await assertClientAccess(uid, clientId, 'certify');
+  for (const document of documents) await removeDocument(document.id, document.storagePath);
+};
+
+/**
+ * Returns the uploaded binary of a document, downloading it from Storage when it is not in memory
+ * (i.e. after a reload). Needed to re-run an extraction on a stored document.
+ */
+export const loadDocumentFile = async (document: ProcessedDocument): Promise<File> => {
+  if (document.fileRaw) return document.fileRaw;
+  if (!document.storagePath) throw new Error(`No stored file for ${document.fileName}`);
+  const blob = await getBlob(ref(storage, document.storagePath));
+  return new File([blob], document.fileName, { type: document.fileType || blob.type });
+};
+
+/**
+ * Resolves a URL that can be opened in the browser for preview.
+ * Callers own (and must revoke) object URLs created from in-memory files.
+ */
+export const getDocumentFileUrl = async (document: ProcessedDocument): Promise<string | null> => {
+  if (document.fileRaw) return URL.createObjectURL(document.fileRaw);
+  if (!document.storagePath) return null;
+  return getDownloadURL(ref(storage, document.storagePath));
+};
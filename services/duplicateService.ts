@@ -0,0 +1,100 @@
+import type { DuplicateSuspicion, FinancialData, ProcessedDocument } from '../types';
+import { nameTokens } from './nameTokens';
+
+/**
+ * Duplicate detection over the client's stored documents.
+ *  - content: the uploaded binary has the same SHA-256 as an existing document (same file, any name)
+ *  - semantic: the extraction repeats another document's issuer, date, amount and/or document number
+ *    (e.g. the same receipt scanned twice)
+ */
+
+export const sha256OfFile = async (file: File): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+const isCandidate = (doc: ProcessedDocument, other: ProcessedDocument) =>
+  other.id !== doc.id && !doc.notDuplicateOf?.includes(other.id) && !other.notDuplicateOf?.includes(doc.id);
+
+export const findContentDuplicate = (
+  hash: string,
+  documents: ProcessedDocument[]
+): ProcessedDocument | undefined => documents.find((d) => d.contentHash === hash);
+
+const compact = (value: string | undefined) => (value || '').replace(/[^a-z0-9]/gi, '').toUpperCase();
+
+// Issuers match when most words of the shorter name appear in the longer one ("Migros" vs "Migros Zürich AG").
+const sameIssuer = (a: string, b: string) => {
+  const [shorter, longer] = [nameTokens(a), nameTokens(b)].sort((x, y) => x.length - y.length);
+  if (shorter.length === 0) return false;
+  return shorter.filter((t) => longer.includes(t)).length / shorter.length >= 0.5;
+};
+
+const sameAmount = (a: FinancialData, b: FinancialData) =>
+  (a.originalCurrency || '').toUpperCase() === (b.originalCurrency || '').toUpperCase() &&
+  Math.abs((Number(a.totalAmount) || 0) - (Number(b.totalAmount) || 0)) < 0.01 &&
+  Number(a.totalAmount) !== 0;
+
+/**
+ * Compares two extractions. A document number repeated by the same issuer or for the same amount,
+ * or the same issuer, date and amount without a number, is reported as a likely duplicate.
+ */
+export const compareExtractions = (a: FinancialData, b: FinancialData): string[] | null => {
+  const reasons: string[] = [];
+  const issuer = sameIssuer(a.issuer, b.issuer);
+  const date = !!a.date && a.date === b.date;
+  const amount = sameAmount(a, b);
+  const number = compact(a.documentNumber).length >= 3 && compact(a.documentNumber) === compact(b.documentNumber);
+
+  if (number) reasons.push(`Same document number ${a.documentNumber}`);
+  if (issuer) reasons.push(`Same issuer (${b.issuer})`);
+  if (date) reasons.push(`Same date ${a.date}`);
+  if (amount) reasons.push(`Same amount ${a.totalAmount} ${a.originalCurrency}`);
+
+  const likely = (number && (issuer || amount)) || (issuer && date && amount);
+  return likely ? reasons : null;
+};
+
+export const findSemanticDuplicate = (
+  doc: ProcessedDocument,
+  data: FinancialData,
+  documents: ProcessedDocument[]
+): DuplicateSuspicion | undefined => {
+  for (const other of documents) {
+    if (!other.data || other.status !== 'completed' || !isCandidate(doc, other)) continue;
+    if (other.data.documentType !== data.documentType && !compact(data.documentNumber)) continue;
+    const reasons = compareExtractions(data, other.data);
+    if (reasons) return { documentId: other.id, kind: 'semantic', reasons };
+  }
+  return undefined;
+};
+
+/**
+ * Merges a duplicate into the document that is kept: empty fields (and missing line items / tickets) are
+ * filled from the duplicate and alerts of both are kept. Only the kept document's own verification survives,
+ * and only if nothing was filled in: data taken from another extraction has not been certified by anyone.
+ */
+export const mergeDuplicate = (kept: FinancialData, duplicate: FinancialData): FinancialData => {
+  const merged: FinancialData = { ...kept };
+  let filled = false;
+  const fill = <K extends keyof FinancialData>(key: K) => {
+    const value = merged[key];
+    if ((value === undefined || value === null || value === '' || value === 0) && duplicate[key] !== value) {
+      merged[key] = duplicate[key];
+      filled = true;
+    }
+  };
+  (Object.keys(duplicate) as (keyof FinancialData)[]).filter((key) => key !== 'isHumanVerified').forEach(fill);
+  const alerts = Array.from(new Set([...(kept.forensicAlerts || []), ...(duplicate.forensicAlerts || [])]));
+  if (alerts.length) merged.forensicAlerts = alerts;
+  if (!kept.lineItems?.length && duplicate.lineItems?.length) {
+    merged.lineItems = duplicate.lineItems;
+    filled = true;
+  }
+  if (!kept.subDocuments?.length && duplicate.subDocuments?.length) {
+    merged.subDocuments = duplicate.subDocuments;
+    filled = true;
+  }
+  merged.isHumanVerified = !!kept.isHumanVerified && !filled;
+  return merged;
+};
@@ -1,53 +1,651 @@
 import * as XLSX from 'xlsx';
-import { FinancialData, DocumentType } from '../types';
+import { FinancialData, DocumentType, ProcessedDocument, VatWorksheet, JournalEntry, ChartOfAccounts, WorkbookChange, WorkbookDiff, AuditEntry, CategoryTaxonomy, ClientBudget, BudgetLine } from '../types';
+import { describeConversion } from './exchangeRateService';
+import { trialBalance } from './journalService';
+import { toSupportingDocs } from './reconciliationService';
+import { vatRateOf } from './vatService';
+import { DEFAULT_TAXONOMY, categoryGroup, categoryLabel, resolveCategory } from './taxonomyService';
+import { FLOW_DIRECTIONS, directionOf } from './directionService';
+import { signCreditNote } from './creditNoteService';
+import { EMPTY_BUDGET, newBudgetLineId, validateBudget, type BudgetProgress } from './budgetService';
+
+// Sheet names of the audit workbook; rows on every sheet carry the id of the document they belong to.
+export const AUDIT_SHEETS = {
+  documents: 'Documents',
+  bankLines: 'Bank_Lines',
+  tickets: 'Z2_Tickets',
+  categories: 'Category_Totals',
+  vat: 'VAT_Summary',
+  alerts: 'Open_Alerts',
+  auditTrail: 'Audit_Trail',
+};
+
+type Row = Record<string, string | number | boolean | null>;
+
+const AMOUNT_FORMAT = '#,##0.00';
+const currencyFormat = (currency?: string) => (currency ? `#,##0.00 "${currency.toUpperCase()}"` : AMOUNT_FORMAT);
+
+/**
+ * Builds a sheet from rows with a fixed column order, applying a number format per column to every numeric cell.
+ * A format can depend on the row, e.g. to show each amount in its own currency.
+ */
+const typedSheet = (
+  rows: Row[],
+  headers: string[],
+  formats: Record<string, string | ((row: Row) => string)> = {},
+  widths: number[] = []
+) => {
+  const sheet = XLSX.utils.json_to_sheet(rows, { header: headers });
+  rows.forEach((row, r) =>
+    headers.forEach((header, c) => {
+      const format = formats[header];
+      const cell = sheet[XLSX.utils.encode_cell({ r: r + 1, c })];
+      if (format && cell?.t === 'n') cell.z = typeof format === 'function' ? format(row) : format;
+    })
+  );
+  sheet['!cols'] = headers.map((h, i) => ({ wch: widths[i] || Math.max(12, h.length + 2) }));
+  return sheet;
+};
+
+const num = (value: unknown): number | null => {
+  const n = Number(value);
+  return value === undefined || value === null || value === '' || Number.isNaN(n) ? null : n;
+};
+
+// Factor from a document's original currency to the reporting currency, or null when it was not converted to it.
+const reportingFactor = (data: FinancialData, reportingCurrency: string): number | null => {
+  if ((data.originalCurrency || '').toUpperCase() === reportingCurrency.toUpperCase()) return 1;
+  if (data.conversion?.to?.toUpperCase() === reportingCurrency.toUpperCase() && data.conversion.rate) return data.conversion.rate;
+  return null;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Total in the reporting currency; empty when the document has no rate to it.
+const reportingTotal = (data: FinancialData, reportingCurrency: string): number | null => {
+  const factor = reportingFactor(data, reportingCurrency);
+  return factor === null ? null : round2((Number(data.totalAmount) || 0) * factor);
+};
+
+// Excel refuses cells longer than 32767 characters (a whole extraction snapshot can be).
+const MAX_CELL_TEXT = 32767;
+const cellText = <T>(value: T) =>
+  typeof value === 'string' && value.length > MAX_CELL_TEXT ? `${value.slice(0, MAX_CELL_TEXT - 1)}…` : value;
+
+/**
+ * Exports the audit as a multi-sheet workbook with numeric cells: documents, bank line items, Z2 sub-tickets,
+ * category totals, a VAT summary per rate, the open forensic alerts and the change history. Line ids extend the
+ * document id (`<doc>-L1`, `<doc>#0` for tickets, `<doc>-A1` for alerts) so rows can be cross-referenced between sheets.
+ * Categories are written with their labels from the client's taxonomy; category income and expenses follow each
+ * voucher's direction, so transfers and neutral documents count in neither. Credit notes are negative and net off.
+ */
+export const exportToExcel = (
+  documents: ProcessedDocument[],
+  fileNamePrefix: string,
+  reportingCurrency: string = 'CHF',
+  auditTrail: AuditEntry[] = [],
+  taxonomy: CategoryTaxonomy = DEFAULT_TAXONOMY,
+  clientName: string = ''
+) => {
+  const completed = documents.filter(d => d.status === 'completed' && d.data);
+  if (completed.length === 0) return;
+  const totalHeader = `Audited Total (${reportingCurrency})`;
+  const rowCurrency = (row: Row) => currencyFormat(String(row['Currency'] || ''));
+
+  const documentHeaders = [
+    'Document ID', 'Source File', 'Document Type', 'Date', 'Issuer', 'Document Ref #', 'Reverses Document', 'Category', 'Direction', 'Currency',
+    'Total Amount', 'VAT Rate (%)', 'VAT Amount', 'Net Amount', 'Exchange Rate', 'Rate Effective Date', 'Rate Source',
+    totalHeader, 'Opening Balance', 'Final Balance', 'Line Items', 'Z2 Tickets', 'Alerts', 'Confidence (%)', 'Verified', 'Notes',
+  ];
+  const documentRows: Row[] = completed.map(d => {
+    const data = d.data!;
+    return {
+      'Document ID': d.id,
+      'Source File': d.fileName,
+      'Document Type': data.documentType,
+      'Date': data.date,
+      'Issuer': data.issuer,
+      'Document Ref #': data.documentNumber || '',
+      'Reverses Document': data.reversesDocumentId || data.reversesDocumentNumber || '',
+      'Category': categoryLabel(taxonomy, data.expenseCategory),
+      'Direction': directionOf(data, clientName),
+      'Currency': data.originalCurrency,
+      'Total Amount': num(data.totalAmount),
+      'VAT Rate (%)': num(data.vatRate),
+      'VAT Amount': num(data.vatAmount),
+      'Net Amount': num(data.netAmount),
+      'Exchange Rate': data.conversion ? data.conversion.rate : num(data.conversionRateUsed),
+      'Rate Effective Date': data.conversion?.effectiveDate || '',
+      'Rate Source': describeConversion(data.conversion),
+      [totalHeader]: reportingTotal(data, reportingCurrency),
+      'Opening Balance': num(data.openingBalance),
+      'Final Balance': num(data.finalBalance),
+      'Line Items': data.lineItems?.length || 0,
+      'Z2 Tickets': data.subDocuments?.length || 0,
+      'Alerts': data.forensicAlerts?.length || 0,
+      'Confidence (%)': num(data.confidenceScore),
+      'Verified': !!data.isHumanVerified,
+      'Notes': data.notes || '',
+    };
+  });
+
+  const lineHeaders = [
+    'Line ID', 'Document ID', 'Date', 'Value Date', 'Description', 'Counterparty', 'Category', 'Type', 'Amount', 'Signed Amount',
+    'Currency', 'Bank Reference', 'Payment Reference', 'Match Status', 'Matched Documents', 'Verified', 'Notes',
+  ];
+  const lineRows: Row[] = completed.flatMap(d =>
+    (d.data!.lineItems || []).map((t, i) => ({
+      'Line ID': `${d.id}-L${i + 1}`,
+      'Document ID': d.id,
+      'Date': t.date,
+      'Value Date': t.valueDate || '',
+      'Description': t.description,
+      'Counterparty': t.counterparty || '',
+      'Category': categoryLabel(taxonomy, t.category),
+      'Type': t.type,
+      'Amount': num(t.amount),
+      'Signed Amount': t.type === 'EXPENSE' ? -Math.abs(t.amount) : Math.abs(t.amount),
+      'Currency': d.data!.originalCurrency,
+      'Bank Reference': t.bankReference || '',
+      'Payment Reference': t.paymentReference || '',
+      'Match Status': t.match?.status || '',
+      'Matched Documents': t.match?.documentIds.join(', ') || '',
+      'Verified': !!t.isHumanVerified,
+      'Notes': t.notes || '',
+    }))
+  );
+
+  const ticketHeaders = [
+    'Ticket ID', 'Document ID', 'Date', 'Issuer', 'Document Ref #', 'Category', 'Direction', 'Currency',
+    'Total Amount', 'VAT Rate (%)', 'VAT Amount', 'Net Amount', totalHeader, 'Notes',
+  ];
+  const ticketRows: Row[] = completed.flatMap(d =>
+    (d.data!.subDocuments || []).map((sub, i) => ({
+      'Ticket ID': `${d.id}#${i}`,
+      'Document ID': d.id,
+      'Date': sub.date,
+      'Issuer': sub.issuer,
+      'Document Ref #': sub.documentNumber || '',
+      'Category': categoryLabel(taxonomy, sub.expenseCategory),
+      'Direction': directionOf(sub, clientName),
+      'Currency': sub.originalCurrency,
+      'Total Amount': num(sub.totalAmount),
+      'VAT Rate (%)': num(sub.vatRate),
+      'VAT Amount': num(sub.vatAmount),
+      'Net Amount': num(sub.netAmount),
+      [totalHeader]: reportingTotal(sub, reportingCurrency),
+      'Notes': sub.notes || '',
+    }))
+  );
+
+  // Category totals and the VAT summary count each voucher once: batch sheets by their tickets.
+  const vouchers = toSupportingDocs(completed, clientName);
+  const categories = new Map<string, { vouchers: number; net: number; vat: number; gross: number; income: number; expenses: number; debits: number; credits: number }>();
+  const categoryOf = (name: string) => {
+    const key = resolveCategory(taxonomy, name)?.id || name || 'Uncategorised';
+    if (!categories.has(key)) categories.set(key, { vouchers: 0, net: 0, vat: 0, gross: 0, income: 0, expenses: 0, debits: 0, credits: 0 });
+    return categories.get(key)!;
+  };
+  const vatRates = new Map<string, { rate: number | null; vouchers: number; net: number; vat: number; gross: number }>();
+  const unconverted: string[] = [];
+
+  vouchers.forEach(v => {
+    const factor = reportingFactor(v, reportingCurrency);
+    if (factor === null) {
+      unconverted.push(v.id);
+      return;
+    }
+    const vat = (Number(v.vatAmount) || 0) * factor;
+    const gross = (Number(v.totalAmount) || 0) * factor;
+    const net = gross - vat;
+    const category = categoryOf(v.expenseCategory);
+    category.vouchers++;
+    category.net += net;
+    category.vat += vat;
+    category.gross += gross;
+    const direction = directionOf(v, clientName);
+    if (direction === 'income') category.income += gross;
+    if (direction === 'expense') category.expenses += gross;
+
+    const { rate } = vatRateOf(v);
+    const key = rate === null ? 'unknown' : String(rate);
+    const bucket = vatRates.get(key) || { rate, vouchers: 0, net: 0, vat: 0, gross: 0 };
+    vatRates.set(key, { rate, vouchers: bucket.vouchers + 1, net: bucket.net + net, vat: bucket.vat + vat, gross: bucket.gross + gross });
+  });
+  completed
+    .filter(d => d.data!.documentType === DocumentType.BANK_STATEMENT)
+    .forEach(d => {
+      const factor = reportingFactor(d.data!, reportingCurrency);
+      if (factor === null) {
+        unconverted.push(d.id);
+        return;
+      }
+      (d.data!.lineItems || []).forEach(t => {
+        const category = categoryOf(t.category);
+        if (t.type === 'EXPENSE') category.debits += Math.abs(t.amount) * factor;
+        else category.credits += Math.abs(t.amount) * factor;
+      });
+    });
+
+  const categoryHeaders = ['Category', 'Group', 'Deductible', 'Vouchers', `Net (${reportingCurrency})`, `VAT (${reportingCurrency})`, `Gross (${reportingCurrency})`, `Income (${reportingCurrency})`, `Expenses (${reportingCurrency})`, `Bank Debits (${reportingCurrency})`, `Bank Credits (${reportingCurrency})`];
+  const categoryRows: Row[] = Array.from(categories.entries())
+    .map(([name, t]) => ({ name, t, group: categoryGroup(taxonomy, name), category: resolveCategory(taxonomy, name) }))
+    .sort((a, b) => (a.group?.label || '').localeCompare(b.group?.label || '') || categoryLabel(taxonomy, a.name).localeCompare(categoryLabel(taxonomy, b.name)))
+    .map(({ name, t, group, category }) => ({
+      'Category': categoryLabel(taxonomy, name),
+      'Group': group && group.id !== category?.id ? group.label : '',
+      'Deductible': category ? category.deductible : null,
+      'Vouchers': t.vouchers,
+      [categoryHeaders[4]]: round2(t.net),
+      [categoryHeaders[5]]: round2(t.vat),
+      [categoryHeaders[6]]: round2(t.gross),
+      [categoryHeaders[7]]: round2(t.income),
+      [categoryHeaders[8]]: round2(t.expenses),
+      [categoryHeaders[9]]: round2(t.debits),
+      [categoryHeaders[10]]: round2(t.credits),
+    }));
+  if (unconverted.length) {
+    categoryRows.push({ 'Category': `Not converted to ${reportingCurrency}, left out: ${unconverted.join(', ')}` });
+  }
+
+  const vatHeaders = ['VAT Rate (%)', 'Vouchers', `Net (${reportingCurrency})`, `VAT (${reportingCurrency})`, `Gross (${reportingCurrency})`];
+  const vatRows: Row[] = Array.from(vatRates.values())
+    .sort((a, b) => (b.rate ?? -1) - (a.rate ?? -1))
+    .map(b => ({
+      'VAT Rate (%)': b.rate === null ? 'Unrecognised' : b.rate,
+      'Vouchers': b.vouchers,
+      [vatHeaders[2]]: round2(b.net),
+      [vatHeaders[3]]: round2(b.vat),
+      [vatHeaders[4]]: round2(b.gross),
+    }));
+
+  // Alerts stay open until the document has been verified by a person.
+  const alertHeaders = ['Alert ID', 'Document ID', 'Ticket ID', 'Source File', 'Date', 'Issuer', 'Alert'];
+  const alertRows: Row[] = completed
+    .filter(d => !d.data!.isHumanVerified)
+    .flatMap(d => {
+      const data = d.data!;
+      const own = (data.forensicAlerts || []).map((alert, i) => ({
+        'Alert ID': `${d.id}-A${i + 1}`, 'Document ID': d.id, 'Ticket ID': '', 'Source File': d.fileName, 'Date': data.date, 'Issuer': data.issuer, 'Alert': alert,
+      }));
+      const tickets = (data.subDocuments || []).flatMap((sub, t) =>
+        (sub.forensicAlerts || []).map((alert, i) => ({
+          'Alert ID': `${d.id}#${t}-A${i + 1}`, 'Document ID': d.id, 'Ticket ID': `${d.id}#${t}`, 'Source File': d.fileName, 'Date': sub.date, 'Issuer': sub.issuer, 'Alert': alert,
+        }))
+      );
+      return [...own, ...tickets];
+    });
+
+  const reportingFormat = currencyFormat(reportingCurrency);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, typedSheet(documentRows, documentHeaders, {
+    'Total Amount': rowCurrency, 'VAT Amount': rowCurrency, 'Net Amount': rowCurrency,
+    'Opening Balance': rowCurrency, 'Final Balance': rowCurrency,
+    'VAT Rate (%)': '0.0#', 'Exchange Rate': '0.0000', [totalHeader]: reportingFormat,
+  }, [24, 30, 16, 12, 35, 20, 24, 20, 10, 9, 15, 10, 13, 15, 12, 14, 32, 20, 16, 16, 10, 10, 8, 12, 9, 40]), AUDIT_SHEETS.documents);
+  XLSX.utils.book_append_sheet(workbook, typedSheet(lineRows, lineHeaders, {
+    'Amount': rowCurrency, 'Signed Amount': rowCurrency,
+  }, [28, 24, 12, 12, 40, 25, 18, 9, 14, 14, 9, 20, 28, 12, 30, 9, 35]), AUDIT_SHEETS.bankLines);
+  XLSX.utils.book_append_sheet(workbook, typedSheet(ticketRows, ticketHeaders, {
+    'Total Amount': rowCurrency, 'VAT Amount': rowCurrency, 'Net Amount': rowCurrency, 'VAT Rate (%)': '0.0#', [totalHeader]: reportingFormat,
+  }, [26, 24, 12, 30, 18, 18, 10, 9, 14, 10, 13, 13, 20, 35]), AUDIT_SHEETS.tickets);
+  XLSX.utils.book_append_sheet(workbook, typedSheet(categoryRows, categoryHeaders, Object.fromEntries(
+    categoryHeaders.slice(4).map(h => [h, reportingFormat])
+  ), [28, 22, 11, 10, 18, 18, 18, 18, 18, 20, 20]), AUDIT_SHEETS.categories);
+  XLSX.utils.book_append_sheet(workbook, typedSheet(vatRows, vatHeaders, {
+    'VAT Rate (%)': '0.0#', ...Object.fromEntries(vatHeaders.slice(2).map(h => [h, reportingFormat])),
+  }, [14, 10, 18, 18, 18]), AUDIT_SHEETS.vat);
+  XLSX.utils.book_append_sheet(workbook, typedSheet(alertRows, alertHeaders, {}, [28, 24, 26, 30, 12, 30, 70]), AUDIT_SHEETS.alerts);
+
+  const exportedIds = new Set(completed.map(d => d.id));
+  const auditHeaders = ['Entry ID', 'Document ID', 'Timestamp', 'User', 'Source', 'Field', 'Old Value', 'New Value', 'Reason'];
+  const auditRows: Row[] = auditTrail
+    .filter(e => exportedIds.has(e.documentId))
+    .map(e => ({
+      'Entry ID': e.id || '',
+      'Document ID': e.documentId,
+      'Timestamp': e.createdAt,
+      'User': e.userEmail || e.userId,
+      'Source': e.source,
+      'Field': e.path,
+      'Old Value': cellText(e.oldValue),
+      'New Value': cellText(e.newValue),
+      'Reason': e.reason || '',
+    }));
+  XLSX.utils.book_append_sheet(workbook, typedSheet(auditRows, auditHeaders, {}, [22, 24, 22, 28, 16, 28, 30, 30, 35]), AUDIT_SHEETS.auditTrail);
+
+  XLSX.writeFile(workbook, `${fileNamePrefix}_${new Date().toISOString().split('T')[0]}.xlsx`);
+};
+
+// 'direction' is a bank line's INCOME/EXPENSE; 'flow' a document's income/expense/transfer/neutral direction.
+type CellKind = 'text' | 'number' | 'date' | 'direction' | 'flow' | 'category';
+type EditableColumn = { header: string; field: string; kind: CellKind };
+
+// Columns a reviewer may correct offline; derived columns (converted totals, counts, match status) are ignored on import.
+const DOCUMENT_COLUMNS: EditableColumn[] = [
+  { header: 'Date', field: 'date', kind: 'date' },
+  { header: 'Issuer', field: 'issuer', kind: 'text' },
+  { header: 'Document Ref #', field: 'documentNumber', kind: 'text' },
+  { header: 'Category', field: 'expenseCategory', kind: 'category' },
+  { header: 'Direction', field: 'direction', kind: 'flow' },
+  { header: 'Currency', field: 'originalCurrency', kind: 'text' },
+  { header: 'Total Amount', field: 'totalAmount', kind: 'number' },
+  { header: 'VAT Rate (%)', field: 'vatRate', kind: 'number' },
+  { header: 'VAT Amount', field: 'vatAmount', kind: 'number' },
+  { header: 'Net Amount', field: 'netAmount', kind: 'number' },
+  { header: 'Opening Balance', field: 'openingBalance', kind: 'number' },
+  { header: 'Final Balance', field: 'finalBalance', kind: 'number' },
+  { header: 'Notes', field: 'notes', kind: 'text' },
+];
+const TICKET_COLUMNS = DOCUMENT_COLUMNS.filter(c => !['openingBalance', 'finalBalance'].includes(c.field));
+const LINE_COLUMNS: EditableColumn[] = [
+  { header: 'Date', field: 'date', kind: 'date' },
+  { header: 'Value Date', field: 'valueDate', kind: 'date' },
+  { header: 'Description', field: 'description', kind: 'text' },
+  { header: 'Counterparty', field: 'counterparty', kind: 'text' },
+  { header: 'Category', field: 'category', kind: 'category' },
+  { header: 'Type', field: 'type', kind: 'direction' },
+  { header: 'Amount', field: 'amount', kind: 'number' },
+  { header: 'Notes', field: 'notes', kind: 'text' },
+];
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+// Normalises a cell (or a stored value) so that an unchanged value compares equal after the Excel round trip.
+const normaliseCell = (value: unknown, kind: CellKind): string | number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  if (kind === 'number') {
+    if (typeof value === 'number') return value;
+    const n = Number(String(value).replace(/['\s]/g, '').replace(',', '.'));
+    return Number.isNaN(n) ? null : n;
+  }
+  if (kind === 'date') {
+    if (typeof value === 'number') {
+      const d = XLSX.SSF.parse_date_code(value);
+      return d ? `${d.y}-${pad2(d.m)}-${pad2(d.d)}` : null;
+    }
+    const text = String(value).trim();
+    const swiss = text.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+    return swiss ? `${swiss[3]}-${pad2(Number(swiss[2]))}-${pad2(Number(swiss[1]))}` : text || null;
+  }
+  if (kind === 'direction') {
+    const text = String(value).trim().toUpperCase();
+    return text === 'INCOME' || text === 'EXPENSE' ? text : null;
+  }
+  if (kind === 'flow') {
+    const text = String(value).trim().toLowerCase();
+    return FLOW_DIRECTIONS.find(d => d === text) ?? null;
+  }
+  return String(value).trim() || null;
+};
+
+const sameCell = (a: string | number | null, b: string | number | null) =>
+  typeof a === 'number' && typeof b === 'number' ? Math.abs(a - b) < 0.005 : a === b;
 
 /**
- * Exports financial audit data to an Excel ledger with accurate currency formatting.
+ * Reads a workbook produced by `exportToExcel` and diffs its editable cells against the current documents.
+ * Rows are matched by their stable ids; a direction cell that is not INCOME/EXPENSE (or income/expense/transfer/neutral
+ * for documents and tickets) is ignored rather than applied. Category cells hold labels and are read back as taxonomy ids.
  */
-export const exportToExcel = (data: FinancialData[], fileNamePrefix: string, reportingCurrency: string = 'CHF') => {
-  if (data.length === 0) return;
+export const readAuditWorkbook = async (
+  file: File,
+  documents: ProcessedDocument[],
+  taxonomy: CategoryTaxonomy = DEFAULT_TAXONOMY,
+  clientName: string = ''
+): Promise<WorkbookDiff> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  if (!workbook.Sheets[AUDIT_SHEETS.documents]) {
+    throw new Error(`"${file.name}" is not an audit workbook exported by this app (no ${AUDIT_SHEETS.documents} sheet).`);
+  }
+  const byId = new Map(documents.filter(d => d.data).map(d => [d.id, d]));
+  const changes: WorkbookChange[] = [];
+  const unmatchedIds: string[] = [];
 
-  const rows: any[] = [];
-  let grandTotal = 0;
+  const normalise = (value: unknown, kind: CellKind) => {
+    const cell = normaliseCell(value, kind);
+    return kind === 'category' && typeof cell === 'string' ? resolveCategory(taxonomy, cell)?.id ?? cell : cell;
+  };
 
-  data.forEach(item => {
-    const totalTarget = item.amountInCHF;
-    grandTotal += totalTarget;
+  const rowsOf = (sheetName: string) =>
+    workbook.Sheets[sheetName] ? XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[sheetName], { defval: null }) : [];
 
-    rows.push({
-      'Audit Date': item.date,
-      'Issuer Entity': item.issuer,
-      'Document Ref #': item.documentNumber || 'N/A',
-      'Original Amount': `${item.totalAmount.toLocaleString(undefined, { minimumFractionDigits: 2 })} ${item.originalCurrency}`,
-      'VAT Amount': item.vatAmount?.toLocaleString(undefined, { minimumFractionDigits: 2 }) || '0.00',
-      'Historical Exchange Rate': item.conversionRateUsed?.toFixed(4) || '1.0000',
-      [`Audited Total (${reportingCurrency})`]: totalTarget.toFixed(2),
-      'Diagnostic Notes': item.notes || 'AI Verified'
+  const diffRow = (
+    row: Record<string, unknown>,
+    current: object,
+    columns: EditableColumn[],
+    base: Omit<WorkbookChange, 'field' | 'label' | 'before' | 'after'>
+  ) =>
+    columns.forEach(({ header, field, kind }) => {
+      if (!(header in row)) return;
+      const after = normalise(row[header], kind);
+      // The export writes the inferred direction of documents stored without one
+      const stored = kind === 'flow' ? directionOf(current as FinancialData, clientName) : (current as Record<string, unknown>)[field];
+      const before = normalise(stored, kind);
+      if ((kind === 'direction' || kind === 'flow') && after === null) return;
+      if (!sameCell(before, after)) changes.push({ ...base, field, label: header, before, after });
     });
+
+  rowsOf(AUDIT_SHEETS.documents).forEach(row => {
+    const id = String(row['Document ID'] ?? '');
+    const doc = byId.get(id);
+    if (!doc) return void (id && unmatchedIds.push(id));
+    diffRow(row, doc.data!, DOCUMENT_COLUMNS, { rowId: id, documentId: id, sheet: AUDIT_SHEETS.documents, target: 'document' });
+  });
+
+  rowsOf(AUDIT_SHEETS.bankLines).forEach(row => {
+    const id = String(row['Line ID'] ?? '');
+    const documentId = String(row['Document ID'] ?? '');
+    const index = Number(id.slice(documentId.length).replace(/^-L/, '')) - 1;
+    const item = byId.get(documentId)?.data!.lineItems?.[index];
+    if (!item || !id.startsWith(`${documentId}-L`)) return void (id && unmatchedIds.push(id));
+    diffRow(row, item, LINE_COLUMNS, { rowId: id, documentId, sheet: AUDIT_SHEETS.bankLines, target: 'lineItem', index });
   });
 
-  // Footer Row
-  rows.push({});
-  rows.push({
-    'Issuer Entity': 'CUMULATIVE AUDIT TOTAL',
-    [`Audited Total (${reportingCurrency})`]: `${grandTotal.toLocaleString(undefined, { minimumFractionDigits: 2 })} ${reportingCurrency}`
+  rowsOf(AUDIT_SHEETS.tickets).forEach(row => {
+    const id = String(row['Ticket ID'] ?? '');
+    const documentId = String(row['Document ID'] ?? '');
+    const index = Number(id.slice(documentId.length + 1));
+    const ticket = byId.get(documentId)?.data!.subDocuments?.[index];
+    if (!ticket || !id.startsWith(`${documentId}#`)) return void (id && unmatchedIds.push(id));
+    diffRow(row, ticket, TICKET_COLUMNS, { rowId: id, documentId, sheet: AUDIT_SHEETS.tickets, target: 'ticket', index });
   });
 
-  const worksheet = XLSX.utils.json_to_sheet(rows);
+  return { changes, unmatchedIds };
+};
+
+// Keeps the converted total in line with an edited amount, at the rate already used for the document.
+const reconvert = (before: FinancialData, after: FinancialData): FinancialData => {
+  if (before.totalAmount === after.totalAmount || before.originalCurrency !== after.originalCurrency) return after;
+  const rate = before.conversion ? before.conversion.rate : before.conversionRateUsed || 1;
+  return rate === null ? after : { ...after, amountInCHF: round2(after.totalAmount * rate) };
+};
+
+/**
+ * Applies accepted workbook changes to one document. When the importing user may certify, the changed line items
+ * and tickets are marked human-verified and so is the document if one of its own fields changed, since those values
+ * now come from the reviewer; otherwise the values are applied and the audit trail records the review. Amounts of
+ * credit notes are signed as in the verification hub, whichever sign was typed in the workbook.
+ */
+export const applyWorkbookChanges = (data: FinancialData, changes: WorkbookChange[], { certify }: { certify: boolean }): FinancialData => {
+  const verified = certify ? { isHumanVerified: true } : {};
+  let next: FinancialData = { ...data };
+  const lineItems = data.lineItems ? [...data.lineItems] : undefined;
+  const subDocuments = data.subDocuments ? [...data.subDocuments] : undefined;
+
+  changes.forEach(change => {
+    if (change.target === 'document') {
+      next = { ...next, [change.field]: change.after ?? undefined, ...verified };
+    } else if (change.target === 'lineItem' && lineItems && change.index !== undefined) {
+      lineItems[change.index] = { ...lineItems[change.index], [change.field]: change.after ?? undefined, ...verified };
+    } else if (change.target === 'ticket' && subDocuments && change.index !== undefined) {
+      subDocuments[change.index] = { ...subDocuments[change.index], [change.field]: change.after ?? undefined, ...verified };
+    }
+  });
+
+  if (lineItems) next.lineItems = lineItems;
+  if (subDocuments) next.subDocuments = subDocuments;
+  next = signCreditNote(next);
+  if (next.subDocuments) next.subDocuments = next.subDocuments.map((sub, i) => reconvert(data.subDocuments![i], sub));
+  return reconvert(data, next);
+};
+
+/**
+ * Exports a VAT return worksheet: the form lines, then every contributing document.
+ */
+export const exportVatWorksheet = (worksheet: VatWorksheet, vatNumber?: string) => {
+  const workbook = XLSX.utils.book_new();
+
+  const formRows = worksheet.lines.map(line => ({
+    'Code': line.code,
+    'Description': line.label,
+    'Turnover (CHF)': line.turnover ?? '',
+    'Tax (CHF)': line.tax ?? '',
+  }));
+  const form = XLSX.utils.json_to_sheet([
+    { 'Code': 'Client', 'Description': worksheet.clientName },
+    ...(vatNumber ? [{ 'Code': 'VAT No.', 'Description': vatNumber }] : []),
+    { 'Code': 'Period', 'Description': `${worksheet.from} – ${worksheet.to}` },
+    {},
+    ...formRows,
+    ...(worksheet.warnings.length ? [{}, ...worksheet.warnings.map(w => ({ 'Code': 'Warning', 'Description': w }))] : []),
+  ]);
+  form['!cols'] = [{ wch: 10 }, { wch: 55 }, { wch: 18 }, { wch: 18 }];
+  XLSX.utils.book_append_sheet(workbook, form, 'VAT_Return');
+
+  const documents = XLSX.utils.json_to_sheet(worksheet.entries.map(entry => ({
+    'Code': entry.code,
+    'Side': entry.side === 'output' ? 'Sales' : 'Purchases',
+    'Date': entry.date,
+    'Issuer': entry.issuer,
+    'Document Ref #': entry.documentNumber || 'N/A',
+    'Rate (%)': entry.rate ?? 'unknown',
+    'Net (CHF)': entry.netAmount,
+    'VAT (CHF)': entry.vatAmount,
+    'Source File': entry.sourceFile,
+    'Notes': entry.notes.join(' '),
+  })));
+  documents['!cols'] = [{ wch: 8 }, { wch: 10 }, { wch: 12 }, { wch: 35 }, { wch: 20 }, { wch: 10 }, { wch: 15 }, { wch: 15 }, { wch: 30 }, { wch: 45 }];
+  XLSX.utils.book_append_sheet(workbook, documents, 'VAT_Documents');
+
+  const safeName = worksheet.clientName.replace(/[^\w-]+/g, '_');
+  XLSX.writeFile(workbook, `VAT_${safeName}_${worksheet.from}_${worksheet.to}.xlsx`);
+};
+
+/**
+ * Exports the double-entry journal (one row per booking line) and its trial balance.
+ */
+export const exportJournal = (entries: JournalEntry[], chart: ChartOfAccounts, clientName: string) => {
+  const accountName = (number: string) => chart.accounts.find(a => a.number === number)?.name || '';
   const workbook = XLSX.utils.book_new();
-  XLSX.utils.book_append_sheet(workbook, worksheet, "Financial_Audit_Ledger");
-
-  // Aesthetic column sizing
-  worksheet['!cols'] = [
-    { wch: 15 }, // Date
-    { wch: 35 }, // Issuer
-    { wch: 20 }, // Ref
-    { wch: 22 }, // Original
-    { wch: 15 }, // VAT
-    { wch: 25 }, // Rate
-    { wch: 25 }, // Total
-    { wch: 35 }  // Notes
+
+  const journal = XLSX.utils.json_to_sheet(entries.flatMap(entry => entry.lines.map(line => ({
+    'Entry': entry.id,
+    'Date': entry.date,
+    'Reference': entry.reference || '',
+    'Description': entry.description,
+    'Account': line.account,
+    'Account Name': accountName(line.account),
+    'Debit (CHF)': line.debit || '',
+    'Credit (CHF)': line.credit || '',
+    'Source': entry.source === 'bank' ? 'Bank' : 'Document',
+  }))));
+  journal['!cols'] = [{ wch: 22 }, { wch: 12 }, { wch: 20 }, { wch: 40 }, { wch: 9 }, { wch: 40 }, { wch: 15 }, { wch: 15 }, { wch: 10 }];
+  XLSX.utils.book_append_sheet(workbook, journal, 'Journal');
+
+  const balance = XLSX.utils.json_to_sheet(trialBalance(entries, chart).map(row => ({
+    'Account': row.account,
+    'Account Name': row.name,
+    'Debit (CHF)': row.debit,
+    'Credit (CHF)': row.credit,
+    'Balance (CHF)': row.balance,
+  })));
+  balance['!cols'] = [{ wch: 9 }, { wch: 45 }, { wch: 15 }, { wch: 15 }, { wch: 15 }];
+  XLSX.utils.book_append_sheet(workbook, balance, 'Trial_Balance');
+
+  const safeName = clientName.replace(/[^\w-]+/g, '_');
+  XLSX.writeFile(workbook, `Journal_${safeName}_${new Date().toISOString().split('T')[0]}.xlsx`);
+};
+
+const BUDGET_SHEET = 'Budget';
+const BUDGET_SETTINGS_SHEET = 'Budget_Settings';
+const THRESHOLD_SETTING = 'Alert Threshold (%)';
+
+/**
+ * Exports the budget lines with, where known, their actuals. The Year to Amount columns are the ones read back by
+ * `readBudgetWorkbook`; the others are figures at the export date.
+ */
+export const exportBudget = (budget: ClientBudget, progress: BudgetProgress[], taxonomy: CategoryTaxonomy, clientName: string) => {
+  const byLine = new Map(progress.map(p => [p.line.id, p]));
+  const headers = [
+    'Year', 'Category', 'Type', 'Period', 'Amount (CHF)', 'Annual Budget (CHF)', 'Budget to Date (CHF)', 'Actual (CHF)',
+    'Variance (CHF)', 'Variance (%)', 'Burn Rate / Month (CHF)', 'Projected Year-End (CHF)', 'Alert',
   ];
+  const rows: Row[] = [...budget.lines]
+    .sort((a, b) => a.year - b.year || a.kind.localeCompare(b.kind) || categoryLabel(taxonomy, a.category).localeCompare(categoryLabel(taxonomy, b.category)))
+    .map(line => {
+      const p = byLine.get(line.id);
+      return {
+        'Year': line.year,
+        'Category': categoryLabel(taxonomy, line.category),
+        'Type': line.kind === 'income' ? 'Income' : 'Expense',
+        'Period': line.period === 'month' ? 'Month' : 'Year',
+        'Amount (CHF)': line.amount,
+        'Annual Budget (CHF)': p ? p.budget : null,
+        'Budget to Date (CHF)': p ? p.budgetToDate : null,
+        'Actual (CHF)': p ? p.actual : null,
+        'Variance (CHF)': p ? p.variance : null,
+        'Variance (%)': p ? p.variancePercent : null,
+        'Burn Rate / Month (CHF)': p ? p.burnRate : null,
+        'Projected Year-End (CHF)': p ? p.projected : null,
+        'Alert': p?.alert ? 'Yes' : '',
+      };
+    });
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, typedSheet(rows, headers, {
+    ...Object.fromEntries(headers.filter(h => h.endsWith('(CHF)')).map(h => [h, currencyFormat('CHF')])),
+    'Variance (%)': '0.0',
+  }, [8, 28, 10, 8, 16, 18, 18, 16, 16, 12, 20, 20, 8]), BUDGET_SHEET);
+  XLSX.utils.book_append_sheet(workbook, typedSheet([{ 'Setting': THRESHOLD_SETTING, 'Value': budget.alertThreshold }], ['Setting', 'Value'], {}, [24, 10]), BUDGET_SETTINGS_SHEET);
 
-  XLSX.writeFile(workbook, `${fileNamePrefix}_${new Date().toISOString().split('T')[0]}.xlsx`);
-};
\ No newline at end of file
+  const safeName = clientName.replace(/[^\w-]+/g, '_');
+  XLSX.writeFile(workbook, `Budget_${safeName}_${new Date().toISOString().split('T')[0]}.xlsx`);
+};
+
+/**
+ * Reads budget lines from a workbook laid out like `exportBudget`'s (a "Budget" sheet with Year, Category, Type,
+ * Period and Amount columns). Categories may be given by label or id; every row problem is reported at once.
+ */
+export const readBudgetWorkbook = async (file: File, taxonomy: CategoryTaxonomy = DEFAULT_TAXONOMY): Promise<ClientBudget> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[BUDGET_SHEET];
+  if (!sheet) throw new Error(`"${file.name}" has no ${BUDGET_SHEET} sheet.`);
+
+  const problems: string[] = [];
+  const lines: BudgetLine[] = [];
+  XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: null }).forEach((row, i) => {
+    const rowNumber = i + 2;
+    const categoryCell = String(row['Category'] ?? '').trim();
+    const amount = normaliseCell(row['Amount (CHF)'] ?? row['Amount'], 'number');
+    if (!categoryCell && amount === null) return;
+    const category = resolveCategory(taxonomy, categoryCell);
+    const year = Number(row['Year']);
+    const kind = String(row['Type'] ?? 'Expense').trim().toLowerCase();
+    const period = String(row['Period'] ?? 'Year').trim().toLowerCase();
+    if (!category) problems.push(`Row ${rowNumber}: unknown category "${categoryCell}"`);
+    if (!Number.isInteger(year) || year < 1900) problems.push(`Row ${rowNumber}: invalid year "${row['Year'] ?? ''}"`);
+    if (kind !== 'expense' && kind !== 'income') problems.push(`Row ${rowNumber}: type must be Expense or Income`);
+    if (period !== 'year' && period !== 'month') problems.push(`Row ${rowNumber}: period must be Year or Month`);
+    if (typeof amount !== 'number' || amount < 0) problems.push(`Row ${rowNumber}: invalid amount`);
+    if (!category || typeof amount !== 'number') return;
+    lines.push({ id: newBudgetLineId(), year, category: category.id, kind: kind as BudgetLine['kind'], period: period as BudgetLine['period'], amount });
+  });
+  if (problems.length) throw new Error(`${file.name}: ${problems.join('; ')}`);
+
+  const settings = workbook.Sheets[BUDGET_SETTINGS_SHEET]
+    ? XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[BUDGET_SETTINGS_SHEET], { defval: null })
+    : [];
+  const threshold = normaliseCell(settings.find(r => r['Setting'] === THRESHOLD_SETTING)?.['Value'], 'number');
+  const budget: ClientBudget = { lines, alertThreshold: typeof threshold === 'number' ? threshold : EMPTY_BUDGET.alertThreshold };
+  validateBudget(budget);
+  return budget;
+};
@@ -0,0 +1,136 @@
+import type { CurrencyConversion, FinancialData } from '../types';
+import { OFFLINE_RATE_COVERAGE, getOfflineRate } from './offlineExchangeRates';
+
+const RATE_CACHE_KEY = 'ypsom_fx_rates';
+const FX_ALERT_PREFIX = 'FX:';
+
+type CachedRate = { rate: number; effectiveDate: string };
+
+const todayIso = () => new Date().toISOString().split('T')[0];
+
+const isIsoDate = (value?: string): value is string => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const normalizeCurrency = (currency?: string) => (currency || '').trim().toUpperCase();
+
+const readCache = (): Record<string, CachedRate> => {
+  try {
+    return JSON.parse(localStorage.getItem(RATE_CACHE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writeCache = (key: string, value: CachedRate) => {
+  try {
+    localStorage.setItem(RATE_CACHE_KEY, JSON.stringify({ ...readCache(), [key]: value }));
+  } catch {
+    // Storage full or disabled: the rate is simply fetched again next time.
+  }
+};
+
+/**
+ * Rate to convert `from` into `to` on `date` (YYYY-MM-DD, defaults to today).
+ * Lookup order: local cache → Frankfurter (ECB) historical rates → bundled offline table.
+ * Never invents a rate: when every source fails the result has `source: 'unavailable'` and `rate: null`.
+ */
+export const getExchangeRate = async (from: string, to: string, date?: string): Promise<CurrencyConversion> => {
+  const base = normalizeCurrency(from);
+  const quote = normalizeCurrency(to);
+  const requestedDate = isIsoDate(date) ? date : todayIso();
+
+  if (!base || base === '---' || base === quote) {
+    return { from: base || quote, to: quote, rate: 1, source: 'identity', requestedDate, effectiveDate: requestedDate };
+  }
+
+  const cacheKey = `${base}:${quote}:${requestedDate}`;
+  const cached = readCache()[cacheKey];
+  if (cached) {
+    return { from: base, to: quote, rate: cached.rate, source: 'frankfurter', requestedDate, effectiveDate: cached.effectiveDate };
+  }
+
+  try {
+    const endpoint = requestedDate >= todayIso() ? 'latest' : requestedDate;
+    const res = await fetch(`https://api.frankfurter.app/${endpoint}?from=${base}&to=${quote}`);
+    if (!res.ok) throw new Error(`Rate API responded ${res.status}`);
+    const data = await res.json();
+    const rate = data?.rates?.[quote];
+    if (typeof rate !== 'number' || !(rate > 0)) throw new Error(`No ${base}/${quote} rate returned`);
+    // Published rates for past days never change; today's may still move.
+    if (endpoint !== 'latest') writeCache(cacheKey, { rate, effectiveDate: data.date });
+    return { from: base, to: quote, rate, source: 'frankfurter', requestedDate, effectiveDate: data.date };
+  } catch {
+    const offline = getOfflineRate(base, quote, requestedDate);
+    if (offline) {
+      return {
+        from: base,
+        to: quote,
+        rate: offline.rate,
+        source: 'offline-table',
+        requestedDate,
+        effectiveDate: `${offline.effectiveMonth}-01`,
+      };
+    }
+    return { from: base, to: quote, rate: null, source: 'unavailable', requestedDate };
+  }
+};
+
+export const describeConversion = (conversion?: CurrencyConversion): string => {
+  if (!conversion) return 'Not converted';
+  switch (conversion.source) {
+    case 'identity':
+      return 'Same currency';
+    case 'frankfurter':
+      return `ECB rate of ${conversion.effectiveDate}`;
+    case 'offline-table':
+      return `Offline monthly average (${conversion.effectiveDate?.slice(0, 7)})`;
+    case 'unavailable':
+      return `Rate unavailable (offline table covers ${OFFLINE_RATE_COVERAGE.from} to ${OFFLINE_RATE_COVERAGE.to})`;
+  }
+};
+
+/**
+ * Factor that turns a document's original amounts into CHF, or null when the document was not converted to CHF.
+ */
+export const chfRateOf = (data: FinancialData): number | null => {
+  if (normalizeCurrency(data.originalCurrency || 'CHF') === 'CHF') return 1;
+  if (data.conversion?.to === 'CHF' && data.conversion.rate) return data.conversion.rate;
+  return null;
+};
+
+/**
+ * Converts a document (and its sub-documents) into `targetCurrency` at the rate of each document's own date.
+ * A failed lookup leaves the converted amount at 0 and raises a forensic alert instead of booking 1:1.
+ */
+export const convertFinancialData = async (data: FinancialData, targetCurrency: string): Promise<FinancialData> => {
+  const conversion = await getExchangeRate(data.originalCurrency || targetCurrency, targetCurrency, data.date);
+  const totalAmount = Number(data.totalAmount) || 0;
+
+  const alerts = (data.forensicAlerts || []).filter((a) => !a.startsWith(FX_ALERT_PREFIX));
+  if (conversion.source === 'unavailable') {
+    alerts.push(
+      `${FX_ALERT_PREFIX} No ${conversion.from}/${conversion.to} rate available for ${conversion.requestedDate}; amount left unconverted.`
+    );
+  } else if (!isIsoDate(data.date) && conversion.source !== 'identity') {
+    alerts.push(`${FX_ALERT_PREFIX} Document date missing; converted at the rate of ${conversion.effectiveDate}.`);
+  }
+
+  const subDocuments = data.subDocuments
+    ? await Promise.all(
+        data.subDocuments.map((sub) =>
+          convertFinancialData(
+            { ...sub, originalCurrency: sub.originalCurrency || data.originalCurrency, date: sub.date || data.date },
+            targetCurrency
+          )
+        )
+      )
+    : undefined;
+
+  return {
+    ...data,
+    subDocuments,
+    amountInCHF: conversion.rate !== null ? totalAmount * conversion.rate : 0,
+    conversionRateUsed: conversion.rate ?? 0,
+    conversion,
+    forensicAlerts: alerts,
+  };
+};
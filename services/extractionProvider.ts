@@ -0,0 +1,67 @@
+import type { BankStatementAnalysis, FinancialData, TaxonomyCategory } from '../types';
+import { geminiProvider } from './geminiProvider';
+import { localProvider } from './localProvider';
+
+export interface DocumentInput {
+  fileName: string;
+  mimeType: string;
+  size: number;
+  base64: string;
+}
+
+// What a provider is told about the client a document belongs to.
+export interface ExtractionContext {
+  // The client's selectable categories; providers should answer with their ids
+  categories: TaxonomyCategory[];
+  // Tells documents the client issued (income) from the ones it received
+  clientName?: string;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+/**
+ * A local function the chat model may call. Its result goes back to the model as JSON, so figures in the answer
+ * come from our code rather than from the model's arithmetic.
+ */
+export interface AssistantTool {
+  name: string;
+  description: string;
+  // JSON Schema of the arguments object
+  parameters: Record<string, unknown>;
+  run: (args: Record<string, unknown>) => unknown;
+}
+
+/**
+ * A backend able to read financial documents. Everything that talks to a model goes through one of these,
+ * so the backend can be chosen per deployment with VITE_EXTRACTION_PROVIDER.
+ * Providers return raw extractions; currency conversion and other post-processing stay in extractionService.
+ */
+export interface ExtractionProvider {
+  id: string;
+  label: string;
+  extractFinancialDocument: (input: DocumentInput, context: ExtractionContext, userHint?: string) => Promise<FinancialData>;
+  extractBankStatement: (input: DocumentInput, context: ExtractionContext) => Promise<BankStatementAnalysis>;
+  // Free-form visual analysis (forensic scans, Z2 line-item breakdowns).
+  analyzeImage: (input: DocumentInput, prompt: string) => Promise<string>;
+  // Answers a question; the model may call `tools` any number of times before answering.
+  chat: (history: ChatTurn[], message: string, systemInstruction: string, tools?: AssistantTool[]) => Promise<string>;
+}
+
+const PROVIDERS: Record<string, ExtractionProvider> = {
+  [geminiProvider.id]: geminiProvider,
+  [localProvider.id]: localProvider,
+};
+
+export const getExtractionProvider = (): ExtractionProvider => {
+  const configured = (import.meta.env.VITE_EXTRACTION_PROVIDER || geminiProvider.id).trim().toLowerCase();
+  const provider = PROVIDERS[configured];
+  if (!provider) {
+    throw new Error(
+      `Unknown extraction provider "${configured}". Set VITE_EXTRACTION_PROVIDER to one of: ${Object.keys(PROVIDERS).join(', ')}.`
+    );
+  }
+  return provider;
+};
@@ -0,0 +1,90 @@
+import { FinancialData, BankStatementAnalysis, CategoryTaxonomy } from "../types";
+import { convertFinancialData } from "./exchangeRateService";
+import { getExtractionProvider, type AssistantTool, type ChatTurn, type DocumentInput } from "./extractionProvider";
+import { applyQrBill, decodeQrBill } from "./qrBillService";
+import { DEFAULT_TAXONOMY, normalizeExtractionCategories, resolveCategory, selectableCategories } from "./taxonomyService";
+import { withDirections } from "./directionService";
+import { signCreditNote } from "./creditNoteService";
+
+export const fileToBase64 = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => {
+      const result = reader.result as string;
+      const base64 = result.split(',')[1];
+      resolve(base64);
+    };
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+const withRetry = async <T>(fn: () => Promise<T>, retries = 3, delay = 2000): Promise<T> => {
+  try {
+    return await fn();
+  } catch (error: any) {
+    if (retries > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return withRetry(fn, retries - 1, delay * 2);
+    }
+    throw error;
+  }
+};
+
+const toDocumentInput = async (file: File): Promise<DocumentInput> => ({
+  fileName: file.name,
+  mimeType: file.type,
+  size: file.size,
+  base64: await fileToBase64(file),
+});
+
+export const analyzeFinancialDocument = async (
+  file: File,
+  targetCurrency: string = 'CHF',
+  userHint?: string,
+  taxonomy: CategoryTaxonomy = DEFAULT_TAXONOMY,
+  clientName: string = ''
+): Promise<FinancialData> => {
+  const input = await toDocumentInput(file);
+  const provider = getExtractionProvider();
+  const context = { categories: selectableCategories(taxonomy), clientName };
+
+  // The QR-bill is decoded locally, alongside the model call; a decoding failure just means "no QR-bill".
+  const [extracted, qrBill] = await Promise.all([
+    withRetry(() => provider.extractFinancialDocument(input, context, userHint)),
+    decodeQrBill(file).catch(() => null),
+  ]);
+  const isBatch = !!extracted.subDocuments && extracted.subDocuments.length > 1;
+  const parsed = signCreditNote(withDirections(
+    normalizeExtractionCategories(qrBill && !isBatch ? applyQrBill(extracted, qrBill) : extracted, taxonomy),
+    clientName
+  ));
+
+  if (parsed.subDocuments && parsed.subDocuments.length > 0) {
+     const sum = parsed.subDocuments.reduce((s, doc) => s + (doc.totalAmount || 0), 0);
+     if (!parsed.totalAmount || parsed.totalAmount === 0) {
+        parsed.totalAmount = sum;
+     }
+  }
+
+  // Converted amounts always come from the rate of the document date, never from the model.
+  return convertFinancialData(parsed, targetCurrency);
+};
+
+// Statement amounts stay in the account currency, like the balances they are checked and reconciled against.
+export const analyzeBankStatement = async (file: File, taxonomy: CategoryTaxonomy = DEFAULT_TAXONOMY): Promise<BankStatementAnalysis> => {
+  const input = await toDocumentInput(file);
+  const analysis = await withRetry(() => getExtractionProvider().extractBankStatement(input, { categories: selectableCategories(taxonomy) }));
+  return {
+    ...analysis,
+    transactions: analysis.transactions.map(t => ({ ...t, category: resolveCategory(taxonomy, t.category)?.id ?? t.category })),
+  };
+};
+
+export const analyzeImage = async (file: File, prompt: string): Promise<string> => {
+  const input = await toDocumentInput(file);
+  return getExtractionProvider().analyzeImage(input, prompt);
+};
+
+export const askAssistant = (history: ChatTurn[], message: string, systemInstruction: string, tools: AssistantTool[] = []): Promise<string> =>
+  getExtractionProvider().chat(history, message, systemInstruction, tools);
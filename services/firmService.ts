@@ -0,0 +1,190 @@
+import {
+  collection,
+  doc,
+  query,
+  where,
+  addDoc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  serverTimestamp,
+  type Timestamp,
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { Firm, FirmAction, FirmInvitation, FirmMember, FirmRole } from '../types';
+
+const FIRMS_COLLECTION = 'firms';
+const MEMBERS_COLLECTION = 'firmMembers';
+const INVITATIONS_COLLECTION = 'firmInvitations';
+
+// Memberships and invitations use deterministic ids so the security rules can look them up directly.
+const memberId = (firmId: string, uid: string) => `${firmId}_${uid}`;
+const invitationId = (firmId: string, email: string) => `${firmId}_${email.toLowerCase()}`;
+
+/**
+ * What each role may do on the clients of its firm. Preparers enter and correct records,
+ * reviewers certify them; certified records can only be changed by someone allowed to certify.
+ */
+export const FIRM_PERMISSIONS: Record<FirmRole, FirmAction[]> = {
+  owner: ['read', 'edit', 'certify', 'manageClients', 'manageMembers'],
+  preparer: ['read', 'edit', 'manageClients'],
+  reviewer: ['read', 'edit', 'certify'],
+  readonly: ['read'],
+};
+
+export const ROLE_LABELS: Record<FirmRole, string> = {
+  owner: 'Owner',
+  preparer: 'Preparer',
+  reviewer: 'Reviewer',
+  readonly: 'Read-only',
+};
+
+export const canPerform = (role: FirmRole | null | undefined, action: FirmAction) =>
+  !!role && FIRM_PERMISSIONS[role].includes(action);
+
+const toIso = (value?: Timestamp) => value?.toDate?.()?.toISOString?.() ?? new Date().toISOString();
+
+const toMember = (data: Record<string, any>): FirmMember => ({
+  firmId: data.firmId,
+  userId: data.userId,
+  email: data.email,
+  role: data.role,
+  joinedAt: toIso(data.joinedAt),
+});
+
+const toInvitation = (id: string, data: Record<string, any>): FirmInvitation => ({
+  id,
+  firmId: data.firmId,
+  firmName: data.firmName,
+  email: data.email,
+  role: data.role,
+  invitedBy: data.invitedBy,
+  status: data.status,
+  createdAt: toIso(data.createdAt),
+});
+
+// Access checks run on every write; a role is re-read at most once a minute per firm.
+const ROLE_CACHE_MS = 60_000;
+const roleCache = new Map<string, { role: FirmRole | null; at: number }>();
+
+export const getMemberRole = async (firmId: string, uid: string): Promise<FirmRole | null> => {
+  const key = memberId(firmId, uid);
+  const cached = roleCache.get(key);
+  if (cached && Date.now() - cached.at < ROLE_CACHE_MS) return cached.role;
+  const snapshot = await getDoc(doc(db, MEMBERS_COLLECTION, key));
+  const role = snapshot.exists() ? (snapshot.data().role as FirmRole) : null;
+  roleCache.set(key, { role, at: Date.now() });
+  return role;
+};
+
+export const assertFirmAccess = async (uid: string, firmId: string, action: FirmAction): Promise<FirmRole> => {
+  const role = await getMemberRole(firmId, uid);
+  if (!role) throw new Error('You are not a member of this firm.');
+  if (!canPerform(role, action)) throw new Error(`Your role (${ROLE_LABELS[role]}) does not allow this action.`);
+  return role;
+};
+
+export const createFirm = async (uid: string, email: string, name: string): Promise<Firm> => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Firm name is required');
+  const ref = await addDoc(collection(db, FIRMS_COLLECTION), { name: trimmed, ownerId: uid, createdAt: serverTimestamp() });
+  await setDoc(doc(db, MEMBERS_COLLECTION, memberId(ref.id, uid)), {
+    firmId: ref.id,
+    userId: uid,
+    email: email.toLowerCase(),
+    role: 'owner',
+    joinedAt: serverTimestamp(),
+  });
+  roleCache.delete(memberId(ref.id, uid));
+  return { id: ref.id, name: trimmed, ownerId: uid, createdAt: new Date().toISOString() };
+};
+
+export const getUserMemberships = async (uid: string): Promise<FirmMember[]> => {
+  const snapshot = await getDocs(query(collection(db, MEMBERS_COLLECTION), where('userId', '==', uid)));
+  return snapshot.docs.map((d) => toMember(d.data()));
+};
+
+export const getFirm = async (firmId: string): Promise<Firm | null> => {
+  const snapshot = await getDoc(doc(db, FIRMS_COLLECTION, firmId));
+  if (!snapshot.exists()) return null;
+  const data = snapshot.data();
+  return { id: snapshot.id, name: data.name, ownerId: data.ownerId, createdAt: toIso(data.createdAt) };
+};
+
+export const getFirmMembers = async (firmId: string): Promise<FirmMember[]> => {
+  const snapshot = await getDocs(query(collection(db, MEMBERS_COLLECTION), where('firmId', '==', firmId)));
+  return snapshot.docs.map((d) => toMember(d.data()));
+};
+
+export const inviteMember = async (uid: string, firm: Firm, email: string, role: FirmRole): Promise<FirmInvitation> => {
+  await assertFirmAccess(uid, firm.id, 'manageMembers');
+  const normalized = email.trim().toLowerCase();
+  if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(normalized)) throw new Error('Enter a valid e-mail address');
+  const id = invitationId(firm.id, normalized);
+  await setDoc(doc(db, INVITATIONS_COLLECTION, id), {
+    firmId: firm.id,
+    firmName: firm.name,
+    email: normalized,
+    role,
+    invitedBy: uid,
+    status: 'pending',
+    createdAt: serverTimestamp(),
+  });
+  return { id, firmId: firm.id, firmName: firm.name, email: normalized, role, invitedBy: uid, status: 'pending', createdAt: new Date().toISOString() };
+};
+
+export const getFirmInvitations = async (firmId: string): Promise<FirmInvitation[]> => {
+  const q = query(collection(db, INVITATIONS_COLLECTION), where('firmId', '==', firmId), where('status', '==', 'pending'));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map((d) => toInvitation(d.id, d.data()));
+};
+
+export const getInvitationsForEmail = async (email: string): Promise<FirmInvitation[]> => {
+  const q = query(collection(db, INVITATIONS_COLLECTION), where('email', '==', email.toLowerCase()), where('status', '==', 'pending'));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map((d) => toInvitation(d.id, d.data()));
+};
+
+// The stored invitation is authoritative: it may have been revoked or changed since the caller loaded it.
+export const acceptInvitation = async (uid: string, email: string, { id }: FirmInvitation): Promise<void> => {
+  const snapshot = await getDoc(doc(db, INVITATIONS_COLLECTION, id));
+  if (!snapshot.exists()) throw new Error('This invitation no longer exists');
+  const invitation = toInvitation(snapshot.id, snapshot.data());
+  if (invitation.email !== email.toLowerCase()) throw new Error('This invitation was sent to another e-mail address');
+  if (invitation.status !== 'pending') throw new Error(`This invitation was ${invitation.status} and can no longer be accepted`);
+  await setDoc(doc(db, MEMBERS_COLLECTION, memberId(invitation.firmId, uid)), {
+    firmId: invitation.firmId,
+    userId: uid,
+    email: invitation.email,
+    role: invitation.role,
+    joinedAt: serverTimestamp(),
+  });
+  await updateDoc(doc(db, INVITATIONS_COLLECTION, invitation.id), { status: 'accepted' });
+  roleCache.delete(memberId(invitation.firmId, uid));
+};
+
+// Used both by the invitee (decline) and by a member manager (revoke).
+export const revokeInvitation = async (invitation: FirmInvitation): Promise<void> => {
+  await updateDoc(doc(db, INVITATIONS_COLLECTION, invitation.id), { status: 'revoked' });
+};
+
+const assertKeepsOwner = async (firmId: string, changedUserId: string) => {
+  const owners = (await getFirmMembers(firmId)).filter((m) => m.role === 'owner' && m.userId !== changedUserId);
+  if (owners.length === 0) throw new Error('A firm needs at least one owner');
+};
+
+export const updateMemberRole = async (uid: string, firmId: string, memberUserId: string, role: FirmRole): Promise<void> => {
+  await assertFirmAccess(uid, firmId, 'manageMembers');
+  if (role !== 'owner') await assertKeepsOwner(firmId, memberUserId);
+  await updateDoc(doc(db, MEMBERS_COLLECTION, memberId(firmId, memberUserId)), { role });
+  roleCache.delete(memberId(firmId, memberUserId));
+};
+
+export const removeMember = async (uid: string, firmId: string, memberUserId: string): Promise<void> => {
+  await assertFirmAccess(uid, firmId, 'manageMembers');
+  await assertKeepsOwner(firmId, memberUserId);
+  await deleteDoc(doc(db, MEMBERS_COLLECTION, memberId(firmId, memberUserId)));
+  roleCache.delete(memberId(firmId, memberUserId));
+};
@@ -0,0 +1,246 @@
+import { GoogleGenAI, Type, type Content, type FunctionCall, type Schema } from "@google/genai";
+import type { BankStatementAnalysis, FinancialData, TaxonomyCategory } from "../types";
+import type { AssistantTool, ChatTurn, DocumentInput, ExtractionContext, ExtractionProvider } from "./extractionProvider";
+
+const EXTRACTION_MODEL = import.meta.env.VITE_GEMINI_MODEL || 'gemini-3-flash-preview';
+const VISION_MODEL = import.meta.env.VITE_GEMINI_VISION_MODEL || 'gemini-2.5-flash-image';
+// Rounds of tool calls allowed before the model has to answer
+const MAX_TOOL_ROUNDS = 8;
+
+const getClient = () => {
+  const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
+  if (!apiKey) throw new Error('VITE_GEMINI_API_KEY is not set. Configure it or use VITE_EXTRACTION_PROVIDER=local.');
+  return new GoogleGenAI({ apiKey });
+};
+
+const FINANCIAL_DOCUMENT_SCHEMA: any = {
+  type: Type.OBJECT,
+  properties: {
+    documentType: {
+      type: Type.STRING,
+      enum: ["Bank Statement", "Invoice", "Ticket/Receipt", "Z2 Multi-Ticket Sheet", "Bank Deposit", "Credit Note", "Unknown"],
+      description: "MANDATORY: Use 'Bank Deposit' for ATM/Bank confirmations. Use 'Credit Note' for credit notes, refunds and cancellations (Gutschrift, note de crédit, Storno). Use 'Z2 Multi-Ticket Sheet' ONLY if the file contains 2 or more distinct receipts/invoices."
+    },
+    reversesDocumentNumber: { type: Type.STRING, description: "Credit notes only: number of the original invoice the credit note refers to." },
+    date: { type: Type.STRING, description: "YYYY-MM-DD" },
+    issuer: { type: Type.STRING, description: "Primary entity name." },
+    documentNumber: { type: Type.STRING },
+    totalAmount: { type: Type.NUMBER, description: "Total amount INCLUDING VAT" },
+    originalCurrency: { type: Type.STRING },
+    vatAmount: { type: Type.NUMBER, description: "VAT/Tax amount if shown. Extract from 'TVA', 'VAT', 'MwSt', 'Tax', 'IVA' labels. Set to 0 if not found." },
+    vatRate: { type: Type.NUMBER, description: "VAT rate percentage if shown (e.g., 7.7, 8.1, 19, 20). Set to 0 if not found." },
+    netAmount: { type: Type.NUMBER, description: "Amount BEFORE VAT (net/HT). Calculate as totalAmount - vatAmount if not explicitly shown." },
+    expenseCategory: {
+      type: Type.STRING,
+      description: "CRITICAL: Category id from the client's list in the instructions, chosen from the issuer and context. Be SPECIFIC, not generic."
+    },
+    direction: {
+      type: Type.STRING,
+      enum: ["income", "expense", "transfer", "neutral"],
+      description: "income: the client receives money (invoices it issued, refunds, interest). expense: the client pays. transfer: between the client's own accounts or cash (deposits, withdrawals). neutral: statements and confirmations that move nothing."
+    },
+    notes: { type: Type.STRING },
+    aiInterpretation: { type: Type.STRING, description: "Diagnostic explanation of the scan result." },
+    confidenceScore: { type: Type.NUMBER },
+    forensicAlerts: { type: Type.ARRAY, items: { type: Type.STRING } },
+    openingBalance: { type: Type.NUMBER },
+    finalBalance: { type: Type.NUMBER, description: "The final balance (solde) shown on the bank document." },
+    calculatedTotalIncome: { type: Type.NUMBER },
+    calculatedTotalExpense: { type: Type.NUMBER },
+    lineItems: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          date: { type: Type.STRING },
+          description: { type: Type.STRING },
+          amount: { type: Type.NUMBER },
+          type: { type: Type.STRING, enum: ["INCOME", "EXPENSE"] },
+          category: { type: Type.STRING, description: "Category id from the client's list" }
+        }
+      }
+    },
+    subDocuments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          issuer: { type: Type.STRING },
+          date: { type: Type.STRING },
+          totalAmount: { type: Type.NUMBER, description: "Total including VAT" },
+          originalCurrency: { type: Type.STRING },
+          documentType: { type: Type.STRING, enum: ["VOUCHER", "TICKET/RECEIPT", "BANK_DEPOSIT", "CREDIT_NOTE"] },
+          expenseCategory: { type: Type.STRING },
+          direction: { type: Type.STRING, enum: ["income", "expense", "transfer", "neutral"] },
+          vatAmount: { type: Type.NUMBER, description: "VAT amount if visible" },
+          vatRate: { type: Type.NUMBER, description: "VAT rate % if visible" },
+          netAmount: { type: Type.NUMBER, description: "Amount before VAT" },
+        }
+      }
+    }
+  },
+  required: ["documentType", "totalAmount", "originalCurrency", "issuer", "expenseCategory", "direction"]
+};
+
+// Restricts every category field of a schema to the client's category ids.
+const withCategoryEnum = (schema: Schema, categories: TaxonomyCategory[]): Schema => {
+  if (categories.length === 0) return schema;
+  const ids = categories.map(c => c.id);
+  const walk = (node: Schema, key?: string): Schema => ({
+    ...node,
+    ...((key === 'expenseCategory' || key === 'category') && node.type === Type.STRING && { enum: ids }),
+    ...(node.properties && { properties: Object.fromEntries(Object.entries(node.properties).map(([k, v]) => [k, walk(v, k)])) }),
+    ...(node.items && { items: walk(node.items) }),
+  });
+  return walk(schema);
+};
+
+const categoryGuide = (categories: TaxonomyCategory[]) =>
+  categories.map(c => `               - ${c.hint ? `${c.hint} → ` : ''}"${c.id}"${c.label !== c.id ? ` (${c.label})` : ''}`).join('\n');
+
+const BANK_STATEMENT_SCHEMA: any = {
+  type: Type.OBJECT,
+  properties: {
+    transactions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          date: { type: Type.STRING },
+          description: { type: Type.STRING },
+          amount: { type: Type.NUMBER },
+          type: { type: Type.STRING, enum: ["INCOME", "EXPENSE"] },
+          category: { type: Type.STRING }
+        },
+        required: ["date", "description", "amount", "type"]
+      }
+    },
+    calculatedTotalIncome: { type: Type.NUMBER },
+    calculatedTotalExpense: { type: Type.NUMBER },
+    openingBalance: { type: Type.NUMBER },
+    finalBalance: { type: Type.NUMBER },
+    currency: { type: Type.STRING },
+    period: { type: Type.STRING }
+  },
+  required: ["transactions", "calculatedTotalIncome", "calculatedTotalExpense", "currency"]
+};
+
+const buildExtractionPrompt = ({ categories, clientName }: ExtractionContext, userHint?: string) => `AUDIT INTELLIGENCE MISSION (DEEP SCAN):
+            ${userHint ? `USER OVERRIDE HINT: "${userHint}".` : ""}
+            
+            1. MULTI-PAGE SCAN: This file might have dozens of pages. Scan EVERY page.
+            2. ASSET ISOLATION: Identify every separate transaction confirmation. If multiple exist, use 'Z2 Multi-Ticket Sheet' and list them in 'subDocuments'.
+            3. BANK STATEMENTS (CRITICAL): If this is a bank statement, you MUST extract EVERY transaction from EVERY page into 'lineItems'. Do NOT truncate, summarize, or limit the list. Each transaction row on the statement must appear as one object in lineItems with date, description, amount, type (INCOME or EXPENSE), and category. Include opening balance, final balance (solde), calculatedTotalIncome, and calculatedTotalExpense.
+            4. SMART CATEGORIZATION (CRITICAL): 
+               - Analyze the ISSUER name and document content carefully
+               - Use exactly one of these category ids:
+${categoryGuide(categories)}
+               - DO NOT use a salary category unless it's actually a salary payment
+               - BE SPECIFIC based on the actual business type
+            5. VAT DETECTION (CRITICAL): 
+               - Look for VAT/Tax labels: "TVA", "VAT", "MwSt", "Tax", "IVA", "Steuer", "Taxe"
+               - Extract VAT amount (vatAmount) if shown
+               - Extract VAT rate percentage (vatRate) if shown (e.g., 7.7%, 8.1%, 19%, 20%)
+               - Calculate net amount (netAmount) = totalAmount - vatAmount
+               - If VAT is not shown, set vatAmount=0, vatRate=0, netAmount=totalAmount
+               - For invoices/receipts, VAT is usually shown separately
+               - For Z2 Multi-Ticket sheets, extract VAT for EACH sub-document
+            6. DIRECTION (CRITICAL): ${clientName ? `The client is "${clientName}".` : ''}
+               - "income" when the client receives the money: invoices the client issued, interest, customer payments
+               - "expense" when the client pays
+               - "transfer" for money moving between the client's own accounts or cash: ATM/counter deposits, withdrawals
+               - "neutral" for documents that move no money: bank statements, confirmations
+               - A credit note keeps the direction of the document it reverses: a supplier's credit note is "expense", one the client issued "income"
+               - Set it on the document and on EACH sub-document
+            7. CREDIT NOTES: For credit notes, refunds and cancellations give the amounts as printed (positive); the type marks them as reductions.
+               Put the number of the original invoice they refer to in reversesDocumentNumber.
+            
+            Return JSON only.`;
+
+const inlinePart = (input: DocumentInput) => ({ inlineData: { mimeType: input.mimeType, data: input.base64 } });
+
+// Failures go back to the model as an error it can react to, not as an exception.
+const runTool = (tools: AssistantTool[], call: FunctionCall): Record<string, unknown> => {
+  const tool = tools.find(t => t.name === call.name);
+  if (!tool) return { error: `Unknown function ${call.name}` };
+  try {
+    return { output: tool.run(call.args || {}) };
+  } catch (err: any) {
+    return { error: err.message };
+  }
+};
+
+export const geminiProvider: ExtractionProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+
+  extractFinancialDocument: async (input: DocumentInput, context: ExtractionContext, userHint?: string): Promise<FinancialData> => {
+    const response = await getClient().models.generateContent({
+      model: EXTRACTION_MODEL,
+      contents: { parts: [inlinePart(input), { text: buildExtractionPrompt(context, userHint) }] },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: withCategoryEnum(FINANCIAL_DOCUMENT_SCHEMA, context.categories),
+      }
+    });
+    if (!response.text) throw new Error("Empty response from AI engine");
+    return JSON.parse(response.text) as FinancialData;
+  },
+
+  extractBankStatement: async (input: DocumentInput, { categories }: ExtractionContext): Promise<BankStatementAnalysis> => {
+    const response = await getClient().models.generateContent({
+      model: EXTRACTION_MODEL,
+      contents: {
+        parts: [
+          inlinePart(input),
+          {
+            text: `Extract the full multi-page transaction ledger from this bank statement. You MUST find the opening balance and final balance (solde).
+            Categorize each transaction with one of these category ids:
+${categoryGuide(categories)}`
+          }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: withCategoryEnum(BANK_STATEMENT_SCHEMA, categories),
+      }
+    });
+    if (!response.text) throw new Error("Empty response from AI engine");
+    return JSON.parse(response.text) as BankStatementAnalysis;
+  },
+
+  analyzeImage: async (input: DocumentInput, prompt: string): Promise<string> => {
+    const response = await getClient().models.generateContent({
+      model: VISION_MODEL,
+      contents: { parts: [inlinePart(input), { text: prompt }] }
+    });
+    return response.text || "";
+  },
+
+  chat: async (history: ChatTurn[], message: string, systemInstruction: string, tools: AssistantTool[] = []): Promise<string> => {
+    const client = getClient();
+    const contents: Content[] = [
+      ...history.map(h => ({ role: h.role, parts: [{ text: h.text }] })),
+      { role: 'user', parts: [{ text: message }] }
+    ];
+    const functionDeclarations = tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters }));
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const response = await client.models.generateContent({
+        model: EXTRACTION_MODEL,
+        contents,
+        config: {
+          systemInstruction,
+          ...(functionDeclarations.length && { tools: [{ functionDeclarations }] }),
+        }
+      });
+      const calls = response.functionCalls;
+      if (!calls?.length) return response.text || "";
+      contents.push(response.candidates?.[0]?.content || { role: 'model', parts: calls.map(functionCall => ({ functionCall })) });
+      contents.push({
+        role: 'user',
+        parts: calls.map(call => ({ functionResponse: { id: call.id, name: call.name, response: runTool(tools, call) } }))
+      });
+    }
+    throw new Error(`The assistant did not answer within ${MAX_TOOL_ROUNDS} rounds of ledger queries`);
+  },
+};
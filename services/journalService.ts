@@ -0,0 +1,263 @@
+import {
+  DocumentType,
+  type BankTransaction,
+  type ChartOfAccounts,
+  type FinancialData,
+  type FlowDirection,
+  type JournalEntry,
+  type JournalLine,
+  type ProcessedDocument,
+} from '../types';
+import { chfRateOf } from './exchangeRateService';
+import { statementFromDocument } from './balanceCheckService';
+import { reconcileStatement, toSupportingDocs } from './reconciliationService';
+import { vatRateOf } from './vatService';
+import { directionOf } from './directionService';
+import { isCreditNote } from './creditNoteService';
+
+/**
+ * Double-entry journal generated from verified documents and bank transactions, in CHF.
+ *
+ *  expense document    expense (net) + input VAT  /  creditors (gross)
+ *  income document     debtors (gross)            /  revenue (net) + output VAT
+ *  transfer / neutral  not booked; the bank movement carries it
+ *  bank debit          creditors if the payment is matched to booked documents, else the category account  /  bank
+ *  bank credit         bank  /  debtors if matched to booked documents, else the category account
+ *
+ * A movement matched to documents of the other side (a supplier refunding a credit note) clears their account instead.
+ *
+ * Documents therefore always go through creditors/debtors, and the matched bank movement clears them. Credit notes
+ * have negative amounts and are booked the same way with debit and credit swapped.
+ */
+
+// Swiss SME chart of accounts (Kontenrahmen KMU), reduced to the accounts the journal uses.
+export const DEFAULT_KMU_CHART: ChartOfAccounts = {
+  accounts: [
+    { number: '1000', name: 'Kasse', type: 'asset' },
+    { number: '1020', name: 'Bankguthaben', type: 'asset' },
+    { number: '1099', name: 'Unklare Beträge', type: 'asset' },
+    { number: '1100', name: 'Forderungen aus Lieferungen und Leistungen', type: 'asset' },
+    { number: '1170', name: 'Vorsteuer MWST Material, Waren, Dienstleistungen', type: 'asset' },
+    { number: '1171', name: 'Vorsteuer MWST Investitionen, übriger Betriebsaufwand', type: 'asset' },
+    { number: '2000', name: 'Verbindlichkeiten aus Lieferungen und Leistungen', type: 'liability' },
+    { number: '2200', name: 'Geschuldete MWST (Umsatzsteuer)', type: 'liability' },
+    { number: '2800', name: 'Eigenkapital', type: 'equity' },
+    { number: '3200', name: 'Handelserlöse', type: 'revenue' },
+    { number: '3400', name: 'Dienstleistungserlöse', type: 'revenue' },
+    { number: '4000', name: 'Materialaufwand', type: 'expense' },
+    { number: '4400', name: 'Aufwand für bezogene Dienstleistungen', type: 'expense' },
+    { number: '5000', name: 'Lohnaufwand', type: 'expense' },
+    { number: '5820', name: 'Aus- und Weiterbildung', type: 'expense' },
+    { number: '6000', name: 'Raumaufwand', type: 'expense' },
+    { number: '6300', name: 'Sachversicherungen, Abgaben, Gebühren', type: 'expense' },
+    { number: '6400', name: 'Energie- und Entsorgungsaufwand', type: 'expense' },
+    { number: '6500', name: 'Verwaltungsaufwand', type: 'expense' },
+    { number: '6530', name: 'Buchführungs- und Beratungsaufwand', type: 'expense' },
+    { number: '6570', name: 'Informatikaufwand', type: 'expense' },
+    { number: '6640', name: 'Reise- und Repräsentationsspesen', type: 'expense' },
+    { number: '6700', name: 'Sonstiger betrieblicher Aufwand', type: 'expense' },
+    { number: '6940', name: 'Bankspesen', type: 'expense' },
+  ],
+  categoryAccounts: {
+    'Salary': '5000',
+    'Rent': '6000',
+    'Beauty': '6700',
+    'Travel': '6640',
+    'Shopping': '6700',
+    'Health': '6700',
+    'Cash Deposit': '1000',
+    'Utility': '6400',
+    'Groceries': '6700',
+    'Software': '6570',
+    'Bank': '6940',
+    'Restaurant': '6640',
+    'Entertainment': '6640',
+    'Insurance': '6300',
+    'Education': '5820',
+    'Office Supplies': '6500',
+    'Professional Services': '6530',
+  },
+  defaults: {
+    expense: '6700',
+    revenue: '3400',
+    bank: '1020',
+    creditors: '2000',
+    debtors: '1100',
+    inputVatMaterial: '1170',
+    inputVatOther: '1171',
+    outputVat: '2200',
+    suspense: '1099',
+  },
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const accountForCategory = (chart: ChartOfAccounts, category: string | undefined, fallback: string) =>
+  (category && chart.categoryAccounts[category]) || fallback;
+
+// Material and bought-in services (4xxx) reclaim input tax on 1170, everything else on 1171.
+const inputVatAccount = (chart: ChartOfAccounts, expenseAccount: string) =>
+  expenseAccount.startsWith('4') ? chart.defaults.inputVatMaterial : chart.defaults.inputVatOther;
+
+// A negative amount moves to the other side, so credit notes reverse the booking of the document they cancel.
+const line = (account: string, debit: number, credit: number): JournalLine => {
+  const amount = round2(debit - credit);
+  return { account, debit: amount > 0 ? amount : 0, credit: amount < 0 ? -amount : 0 };
+};
+
+const documentEntry = (
+  id: string,
+  data: FinancialData,
+  chart: ChartOfAccounts,
+  clientName: string,
+  factor: number
+): JournalEntry | null => {
+  const gross = round2((Number(data.totalAmount) || 0) * factor);
+  const vat = round2((Number(data.vatAmount) || 0) * factor);
+  const net = round2(gross - vat);
+  if (gross === 0) return null;
+
+  const direction = directionOf(data, clientName);
+  if (direction === 'transfer' || direction === 'neutral') return null;
+  const isSale = direction === 'income';
+  const lines: JournalLine[] = [];
+  if (isSale) {
+    lines.push(line(chart.defaults.debtors, gross, 0));
+    lines.push(line(chart.defaults.revenue, 0, net));
+    if (vat) lines.push(line(chart.defaults.outputVat, 0, vat));
+  } else {
+    const expenseAccount = accountForCategory(chart, data.expenseCategory, chart.defaults.expense);
+    lines.push(line(expenseAccount, net, 0));
+    if (vat) lines.push(line(inputVatAccount(chart, expenseAccount), vat, 0));
+    lines.push(line(chart.defaults.creditors, 0, gross));
+  }
+  return {
+    id: `doc-${id}`,
+    date: data.date,
+    description: `${isCreditNote(data) ? 'Credit note' : isSale ? 'Sale' : 'Purchase'} ${data.issuer}`.trim(),
+    reference: data.documentNumber || undefined,
+    source: 'document',
+    sourceId: id,
+    lines,
+    vatRate: vat ? vatRateOf(data).rate : undefined,
+  };
+};
+
+const bankEntry = (
+  id: string,
+  t: BankTransaction,
+  chart: ChartOfAccounts,
+  factor: number,
+  directions: Map<string, FlowDirection>
+): JournalEntry | null => {
+  const amount = round2(t.amount * factor);
+  if (amount === 0) return null;
+  // Only booked documents have an open debtors/creditors balance to clear; until all of them are certified the
+  // movement goes to its category, as an unmatched one would.
+  const matched = t.match?.status === 'matched' && t.match.documentIds.length > 0 && t.match.documentIds.every((docId) => directions.has(docId));
+  const isIncome = t.type === 'INCOME';
+  const settles = matched ? t.match!.documentIds.map((docId) => directions.get(docId)).find((d) => d === 'income' || d === 'expense') : undefined;
+  const counterAccount = matched
+    ? (settles ? settles === 'income' : isIncome) ? chart.defaults.debtors : chart.defaults.creditors
+    : accountForCategory(chart, t.category, chart.defaults.suspense);
+  const lines = isIncome
+    ? [line(chart.defaults.bank, amount, 0), line(counterAccount, 0, amount)]
+    : [line(counterAccount, amount, 0), line(chart.defaults.bank, 0, amount)];
+  return {
+    id: `bank-${id}`,
+    date: t.date,
+    description: t.description,
+    reference: t.bankReference || t.paymentReference,
+    source: 'bank',
+    sourceId: id,
+    lines,
+  };
+};
+
+const isVerifiedTransaction = (statementVerified: boolean | undefined, t: BankTransaction) =>
+  !!(statementVerified || t.isHumanVerified || t.match?.confirmed);
+
+/**
+ * Builds the journal of all verified documents and bank transactions. Unverified items and items without
+ * a CHF rate are left out and counted in `skipped` / `warnings`.
+ */
+export const buildJournal = (documents: ProcessedDocument[], chart: ChartOfAccounts, clientName: string) => {
+  const entries: JournalEntry[] = [];
+  const warnings: string[] = [];
+  let skipped = 0;
+
+  const completed = documents.filter((d) => d.status === 'completed' && d.data);
+  const supporting = toSupportingDocs(completed, clientName);
+  // Directions of the booked documents only
+  const directions = new Map<string, FlowDirection>();
+
+  supporting.forEach((doc) => {
+    if (!doc.isHumanVerified) {
+      skipped++;
+      return;
+    }
+    const factor = chfRateOf(doc);
+    if (factor === null) {
+      warnings.push(`${doc.date} ${doc.issuer}: no CHF rate for ${doc.originalCurrency}, not booked.`);
+      return;
+    }
+    directions.set(doc.id, directionOf(doc, clientName));
+    const entry = documentEntry(doc.id, doc, chart, clientName, factor);
+    if (entry) entries.push(entry);
+  });
+
+  // Documents settled by an earlier statement are not offered to the later ones, as in the reconciliation workbench.
+  const used = new Set<string>();
+  completed
+    .filter((d) => d.data!.documentType === DocumentType.BANK_STATEMENT)
+    .forEach((d) => {
+      // Matching is recomputed so that bank movements settle the documents they pay.
+      const statement = reconcileStatement(statementFromDocument(d.data!), supporting, used);
+      statement.transactions.forEach((t) => {
+        if (t.match && t.match.status !== 'unmatched') t.match.documentIds.forEach((id) => used.add(id));
+      });
+      const factor = chfRateOf(d.data!);
+      if (factor === null) {
+        warnings.push(`${d.fileName}: no CHF rate for ${d.data!.originalCurrency}, statement not booked.`);
+        return;
+      }
+      statement.transactions.forEach((t, i) => {
+        if (!isVerifiedTransaction(d.data!.isHumanVerified, t)) {
+          skipped++;
+          return;
+        }
+        const entry = bankEntry(`${d.id}-${i}`, t, chart, factor, directions);
+        if (entry) entries.push(entry);
+      });
+    });
+
+  entries.sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+  return { entries, warnings, skipped };
+};
+
+export interface TrialBalanceRow {
+  account: string;
+  name: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export const trialBalance = (entries: JournalEntry[], chart: ChartOfAccounts): TrialBalanceRow[] => {
+  const totals = new Map<string, { debit: number; credit: number }>();
+  entries.forEach((e) =>
+    e.lines.forEach((l) => {
+      const current = totals.get(l.account) || { debit: 0, credit: 0 };
+      totals.set(l.account, { debit: current.debit + l.debit, credit: current.credit + l.credit });
+    })
+  );
+  return Array.from(totals.entries())
+    .map(([account, t]) => ({
+      account,
+      name: chart.accounts.find((a) => a.number === account)?.name || 'Unknown account',
+      debit: round2(t.debit),
+      credit: round2(t.credit),
+      balance: round2(t.debit - t.credit),
+    }))
+    .sort((a, b) => a.account.localeCompare(b.account));
+};
@@ -0,0 +1,313 @@
+import type { CategoryTaxonomy, FinancialData, FlowDirection, ProcessedDocument } from '../types';
+import type { AssistantTool } from './extractionProvider';
+import type { BudgetProgress } from './budgetService';
+import { directionOf } from './directionService';
+import { categoryGroup, categoryLabel, resolveCategory } from './taxonomyService';
+import { totalsOf, variance, vouchersOf } from './trendService';
+
+/**
+ * Deterministic queries over a client's ledger, offered to the chat assistant as function calls. The model picks
+ * the filters; every count and amount it reports comes from here.
+ */
+
+// One voucher of a completed document (a batch sheet contributes one per ticket), amounts in CHF
+export type LedgerItem = {
+  id: string;
+  documentId: string;
+  fileName: string;
+  date: string;
+  issuer: string;
+  documentNumber: string;
+  documentType: string;
+  category: string;
+  direction: FlowDirection;
+  amount: number;
+};
+
+export type LedgerFilter = {
+  category?: string;
+  issuer?: string;
+  from?: string;
+  to?: string;
+  documentType?: string;
+  direction?: FlowDirection;
+};
+
+export type LedgerGrouping = 'category' | 'group' | 'issuer' | 'month' | 'quarter' | 'documentType' | 'direction';
+
+export type LedgerAlert = { kind: 'budget' | 'duplicate' | 'failed' | 'forensic' | 'unverified'; documentId?: string; message: string };
+
+export type LedgerContext = {
+  documents: ProcessedDocument[];
+  clientName: string;
+  taxonomy: CategoryTaxonomy;
+  // Budget lines currently projected beyond the alert threshold
+  budgetAlerts?: BudgetProgress[];
+};
+
+const MAX_ITEMS = 50;
+const GROUPINGS: LedgerGrouping[] = ['category', 'group', 'issuer', 'month', 'quarter', 'documentType', 'direction'];
+// Documents extracted with less confidence than this and never reviewed are listed as alerts
+const LOW_CONFIDENCE = 0.7;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const compact = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Vouchers without a CHF amount are left out of the items and listed in `unconverted`, so no total mixes currencies.
+export const ledgerItemsOf = (documents: ProcessedDocument[], clientName: string): { items: LedgerItem[]; unconverted: string[] } => {
+  const { vouchers, unconverted } = vouchersOf(documents, clientName);
+  const items = vouchers.map((v) => ({
+    id: v.id,
+    documentId: v.document.id,
+    fileName: v.document.fileName,
+    date: v.date,
+    issuer: v.data.issuer || v.document.data!.issuer || 'Unknown Entity',
+    documentNumber: v.data.documentNumber || '',
+    documentType: String(v.data.documentType || v.document.data!.documentType || ''),
+    category: v.category,
+    direction: v.direction,
+    amount: v.amount,
+  }));
+  return { items, unconverted };
+};
+
+/**
+ * Items matching every given filter. Categories match by id or label, a group matches the categories under it;
+ * issuers and document types match on part of the name ("credit note" finds "Credit Note" and "CREDIT_NOTE").
+ */
+export const filterLedger = (items: LedgerItem[], filter: LedgerFilter, taxonomy: CategoryTaxonomy): LedgerItem[] => {
+  const category = filter.category ? resolveCategory(taxonomy, filter.category) : undefined;
+  if (filter.category && !category) throw new Error(`Unknown category "${filter.category}"`);
+  const issuer = filter.issuer ? compact(filter.issuer) : '';
+  const type = filter.documentType ? compact(filter.documentType) : '';
+  return items.filter((item) => {
+    if (category) {
+      const resolved = resolveCategory(taxonomy, item.category);
+      if (resolved?.id !== category.id && resolved?.parentId !== category.id) return false;
+    }
+    if (issuer && !compact(item.issuer).includes(issuer)) return false;
+    if (type && !compact(item.documentType).includes(type) && !type.includes(compact(item.documentType))) return false;
+    if (filter.direction && item.direction !== filter.direction) return false;
+    if ((filter.from || filter.to) && !item.date) return false;
+    if (filter.from && item.date < filter.from) return false;
+    if (filter.to && item.date > filter.to) return false;
+    return true;
+  });
+};
+
+const groupKey = (item: LedgerItem, by: LedgerGrouping, taxonomy: CategoryTaxonomy): string => {
+  switch (by) {
+    case 'category': return categoryLabel(taxonomy, item.category) || 'Uncategorized';
+    case 'group': return categoryGroup(taxonomy, item.category)?.label || item.category || 'Uncategorized';
+    case 'issuer': return item.issuer;
+    case 'month': return item.date ? item.date.slice(0, 7) : 'Undated';
+    case 'quarter': return item.date ? `${item.date.slice(0, 4)}-Q${Math.floor((Number(item.date.slice(5, 7)) - 1) / 3) + 1}` : 'Undated';
+    case 'documentType': return item.documentType || 'Unknown';
+    case 'direction': return item.direction;
+  }
+};
+
+/**
+ * Count and totals of the matching items: income and expense follow the direction, `total` adds every amount.
+ */
+export const summarizeLedger = (items: LedgerItem[], taxonomy: CategoryTaxonomy, groupBy?: LedgerGrouping) => {
+  const summary = (subset: LedgerItem[]) => ({
+    count: subset.length,
+    total: round2(subset.reduce((s, i) => s + i.amount, 0)),
+    ...totalsOf(subset),
+  });
+  if (!groupBy) return summary(items);
+  const groups = new Map<string, LedgerItem[]>();
+  items.forEach((item) => {
+    const key = groupKey(item, groupBy, taxonomy);
+    groups.set(key, [...(groups.get(key) || []), item]);
+  });
+  return {
+    ...summary(items),
+    groups: Array.from(groups.entries())
+      .map(([key, subset]) => ({ [groupBy]: key, ...summary(subset) }))
+      .sort((a, b) => Math.abs(b.total) - Math.abs(a.total)),
+  };
+};
+
+/**
+ * What needs attention: budget overruns, suspected duplicates, failed extractions, forensic findings and
+ * low-confidence extractions nobody reviewed yet.
+ */
+export const ledgerAlerts = (context: LedgerContext): LedgerAlert[] => {
+  const { documents, taxonomy, budgetAlerts = [] } = context;
+  const byId = new Map(documents.map((d) => [d.id, d]));
+  return [
+    ...budgetAlerts.map((p) => ({
+      kind: 'budget' as const,
+      message: `${categoryLabel(taxonomy, p.line.category)} ${p.line.kind} budget ${p.line.year}: projected ${p.projected} CHF against ${p.budget} CHF`,
+    })),
+    ...documents.flatMap((d): LedgerAlert[] => {
+      const alerts: LedgerAlert[] = [];
+      if (d.duplicate) {
+        alerts.push({ kind: 'duplicate', documentId: d.id, message: `${d.fileName} may repeat ${byId.get(d.duplicate.documentId)?.fileName || d.duplicate.documentId}` });
+      }
+      if (d.status === 'error') alerts.push({ kind: 'failed', documentId: d.id, message: `${d.fileName}: ${d.error || 'extraction failed'}` });
+      (d.data?.forensicAlerts || []).forEach((message) => alerts.push({ kind: 'forensic', documentId: d.id, message: `${d.fileName}: ${message}` }));
+      if (d.data && !d.data.isHumanVerified && d.data.confidenceScore !== undefined && d.data.confidenceScore < LOW_CONFIDENCE) {
+        alerts.push({ kind: 'unverified', documentId: d.id, message: `${d.fileName}: extracted with ${Math.round(d.data.confidenceScore * 100)}% confidence, not reviewed` });
+      }
+      return alerts;
+    }),
+  ];
+};
+
+const documentDetails = (d: ProcessedDocument, taxonomy: CategoryTaxonomy, clientName: string) => {
+  const voucher = (data: FinancialData) => ({
+    documentType: data.documentType,
+    date: data.date,
+    issuer: data.issuer,
+    documentNumber: data.documentNumber,
+    totalAmount: data.totalAmount,
+    currency: data.originalCurrency,
+    amountInCHF: data.amountInCHF,
+    vatAmount: data.vatAmount,
+    vatRate: data.vatRate,
+    netAmount: data.netAmount,
+    category: categoryLabel(taxonomy, data.expenseCategory),
+    direction: directionOf(data, clientName),
+  });
+  return {
+    id: d.id,
+    fileName: d.fileName,
+    status: d.status,
+    ...(d.data && {
+      ...voucher(d.data),
+      notes: d.data.notes,
+      verified: !!d.data.isHumanVerified,
+      reversesDocumentId: d.data.reversesDocumentId,
+      forensicAlerts: d.data.forensicAlerts,
+      tickets: d.data.subDocuments?.map(voucher),
+      bankLines: d.data.lineItems?.slice(0, MAX_ITEMS).map((t) => ({ date: t.date, description: t.description, amount: t.amount, category: categoryLabel(taxonomy, t.category) })),
+      bankLineCount: d.data.lineItems?.length,
+    }),
+  };
+};
+
+// A document by id (or ticket id), document number or part of the file name
+export const findDocument = (documents: ProcessedDocument[], reference: string): ProcessedDocument | undefined => {
+  const id = reference.replace(/_sub_\d+$/, '');
+  const key = compact(reference);
+  return (
+    documents.find((d) => d.id === id) ||
+    documents.find((d) => !!key && compact(d.data?.documentNumber || '') === key) ||
+    documents.find((d) => !!key && compact(d.fileName).includes(key))
+  );
+};
+
+const FILTER_PROPERTIES = {
+  category: { type: 'string', description: 'Category or group id or label; a group includes its categories' },
+  issuer: { type: 'string', description: 'Part of the issuer name' },
+  from: { type: 'string', description: 'First date, YYYY-MM-DD' },
+  to: { type: 'string', description: 'Last date, YYYY-MM-DD' },
+  documentType: { type: 'string', description: 'e.g. Invoice, Receipt, Credit Note, Bank Statement' },
+  direction: { type: 'string', enum: ['income', 'expense', 'transfer', 'neutral'] },
+};
+
+const filterOf = (args: Record<string, unknown>): LedgerFilter => ({
+  category: args.category as string | undefined,
+  issuer: args.issuer as string | undefined,
+  from: args.from as string | undefined,
+  to: args.to as string | undefined,
+  documentType: args.documentType as string | undefined,
+  direction: args.direction as FlowDirection | undefined,
+});
+
+/**
+ * The functions the assistant can call for a client.
+ */
+export const ledgerTools = (context: LedgerContext): AssistantTool[] => {
+  const { documents, clientName, taxonomy } = context;
+  const { items, unconverted } = ledgerItemsOf(documents, clientName);
+  // Told with every total, so the assistant does not present a sum as complete when vouchers are missing from it
+  const leftOut = unconverted.length > 0 ? { notInTotals: { reason: 'no CHF rate', vouchers: unconverted } } : {};
+  return [
+    {
+      name: 'summarize_ledger',
+      description:
+        'Count and CHF totals (total, income, expense, net) of the ledger items matching the filters, optionally per category, group, issuer, month, quarter, document type or direction. Use it for every sum, count or comparison.',
+      parameters: {
+        type: 'object',
+        properties: { ...FILTER_PROPERTIES, groupBy: { type: 'string', enum: GROUPINGS } },
+      },
+      run: (args) => ({ ...summarizeLedger(filterLedger(items, filterOf(args), taxonomy), taxonomy, args.groupBy as LedgerGrouping | undefined), ...leftOut }),
+    },
+    {
+      name: 'find_ledger_items',
+      description: `Ledger items matching the filters, newest or largest first, at most ${MAX_ITEMS}.`,
+      parameters: {
+        type: 'object',
+        properties: {
+          ...FILTER_PROPERTIES,
+          sortBy: { type: 'string', enum: ['date', 'amount'] },
+          limit: { type: 'integer', description: `At most ${MAX_ITEMS}` },
+        },
+      },
+      run: (args) => {
+        const matches = filterLedger(items, filterOf(args), taxonomy).sort((a, b) =>
+          args.sortBy === 'amount' ? Math.abs(b.amount) - Math.abs(a.amount) : b.date.localeCompare(a.date)
+        );
+        const limit = Math.min(MAX_ITEMS, Math.max(1, Number(args.limit) || MAX_ITEMS));
+        return {
+          count: matches.length,
+          items: matches.slice(0, limit).map((i) => ({ ...i, category: categoryLabel(taxonomy, i.category) })),
+          ...(matches.length > limit && { omitted: matches.length - limit }),
+        };
+      },
+    },
+    {
+      name: 'compare_periods',
+      description: 'Totals of the items matching the filters in two date ranges, with the difference in CHF and percent for each total.',
+      parameters: {
+        type: 'object',
+        properties: {
+          ...FILTER_PROPERTIES,
+          from: { type: 'string', description: 'First date of the period, YYYY-MM-DD' },
+          to: { type: 'string', description: 'Last date of the period, YYYY-MM-DD' },
+          compareFrom: { type: 'string', description: 'First date of the period compared against, YYYY-MM-DD' },
+          compareTo: { type: 'string', description: 'Last date of the period compared against, YYYY-MM-DD' },
+        },
+        required: ['from', 'to', 'compareFrom', 'compareTo'],
+      },
+      run: (args) => {
+        const filter = filterOf(args);
+        const current = summarizeLedger(filterLedger(items, filter, taxonomy), taxonomy);
+        const previous = summarizeLedger(filterLedger(items, { ...filter, from: args.compareFrom as string, to: args.compareTo as string }, taxonomy), taxonomy);
+        return {
+          period: { from: filter.from, to: filter.to, ...current },
+          comparedWith: { from: args.compareFrom, to: args.compareTo, ...previous },
+          total: variance(current.total, previous.total),
+          income: variance(current.income, previous.income),
+          expense: variance(current.expense, previous.expense),
+          net: variance(current.net, previous.net),
+          ...leftOut,
+        };
+      },
+    },
+    {
+      name: 'list_alerts',
+      description: 'Budget overruns, suspected duplicates, failed extractions, forensic findings and unreviewed low-confidence documents.',
+      parameters: { type: 'object', properties: {} },
+      run: () => ledgerAlerts(context),
+    },
+    {
+      name: 'get_document',
+      description: 'Full details of one document: amounts, VAT, category, tickets and bank lines.',
+      parameters: {
+        type: 'object',
+        properties: { reference: { type: 'string', description: 'Document or item id, document number, or part of the file name' } },
+        required: ['reference'],
+      },
+      run: (args) => {
+        const document = findDocument(documents, String(args.reference || ''));
+        if (!document) throw new Error(`No document matches "${args.reference}"`);
+        return documentDetails(document, taxonomy, clientName);
+      },
+    },
+  ];
+};
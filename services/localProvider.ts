@@ -0,0 +1,183 @@
+import { DocumentType, type BankStatementAnalysis, type BankTransaction, type FinancialData } from '../types';
+import type { ChatTurn, DocumentInput, ExtractionContext, ExtractionProvider } from './extractionProvider';
+
+/**
+ * Offline stand-in for development and demos: no network, no API key.
+ * Output is derived from the file name and size only, so the same upload always yields the same extraction.
+ * File names steer the fixture: "statement"/"releve"/"kontoauszug" → bank statement, "z2"/"batch" → multi-ticket
+ * sheet, "receipt"/"ticket" → receipt, "eur"/"usd" → foreign currency; anything else is a CHF invoice.
+ * Fixture categories are ids of the default taxonomy, whatever the client's categories are.
+ */
+
+const ISSUERS = [
+  { name: 'Swisscom (Schweiz) AG', category: 'Utility' },
+  { name: 'Migros Genossenschaft', category: 'Groceries' },
+  { name: 'SBB CFF FFS', category: 'Travel' },
+  { name: 'Büro Schoch AG', category: 'Office Supplies' },
+  { name: 'Helvetia Versicherungen', category: 'Insurance' },
+  { name: 'Restaurant Kronenhalle', category: 'Restaurant' },
+  { name: 'Digitec Galaxus AG', category: 'Software' },
+  { name: 'Treuhand Meier GmbH', category: 'Professional Services' },
+];
+
+const VAT_RATE = 8.1;
+
+// FNV-1a: small, stable, good enough to spread fixtures across inputs.
+const hashOf = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const seeded = (input: DocumentInput) => {
+  let state = hashOf(`${input.fileName}:${input.size}`) || 1;
+  return () => {
+    // xorshift32
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 0xffffffff;
+  };
+};
+
+const fixtureDate = (rand: () => number, year = 2024) => {
+  const month = 1 + Math.floor(rand() * 12);
+  const day = 1 + Math.floor(rand() * 28);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const currencyFor = (fileName: string) => {
+  if (/eur/i.test(fileName)) return 'EUR';
+  if (/usd/i.test(fileName)) return 'USD';
+  return 'CHF';
+};
+
+const fixtureVoucher = (rand: () => number, currency: string, documentType: DocumentType): FinancialData => {
+  const issuer = ISSUERS[Math.floor(rand() * ISSUERS.length)];
+  const totalAmount = round2(20 + rand() * 1500);
+  const netAmount = round2(totalAmount / (1 + VAT_RATE / 100));
+  return {
+    documentType,
+    date: fixtureDate(rand),
+    issuer: issuer.name,
+    documentNumber: `LOC-${Math.floor(rand() * 900000 + 100000)}`,
+    totalAmount,
+    originalCurrency: currency,
+    vatAmount: round2(totalAmount - netAmount),
+    vatRate: VAT_RATE,
+    netAmount,
+    expenseCategory: issuer.category,
+    direction: 'expense',
+    amountInCHF: 0,
+    conversionRateUsed: 0,
+    notes: '',
+    confidenceScore: 1,
+    forensicAlerts: [],
+  };
+};
+
+const fixtureTransactions = (rand: () => number, count: number): BankTransaction[] => {
+  const year = 2024;
+  const month = 1 + Math.floor(rand() * 12);
+  return Array.from({ length: count }, (_, i) => {
+    const isIncome = rand() < 0.3;
+    const issuer = ISSUERS[Math.floor(rand() * ISSUERS.length)];
+    const day = Math.min(28, 1 + i * 2);
+    return {
+      date: `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
+      description: isIncome ? `Payment received REF ${1000 + i}` : issuer.name,
+      amount: round2(isIncome ? 500 + rand() * 4000 : 15 + rand() * 900),
+      type: isIncome ? 'INCOME' : 'EXPENSE',
+      category: isIncome ? '' : issuer.category,
+    };
+  });
+};
+
+const fixtureStatement = (input: DocumentInput): BankStatementAnalysis => {
+  const rand = seeded(input);
+  const transactions = fixtureTransactions(rand, 8 + Math.floor(rand() * 8));
+  const income = round2(transactions.filter(t => t.type === 'INCOME').reduce((s, t) => s + t.amount, 0));
+  const expense = round2(transactions.filter(t => t.type === 'EXPENSE').reduce((s, t) => s + t.amount, 0));
+  const openingBalance = round2(5000 + rand() * 20000);
+  return {
+    transactions,
+    calculatedTotalIncome: income,
+    calculatedTotalExpense: expense,
+    openingBalance,
+    finalBalance: round2(openingBalance + income - expense),
+    currency: currencyFor(input.fileName),
+    period: transactions[0]?.date.slice(0, 7),
+  };
+};
+
+export const localProvider: ExtractionProvider = {
+  id: 'local',
+  label: 'Local fixtures (offline)',
+
+  extractFinancialDocument: async (input: DocumentInput, _context: ExtractionContext, userHint?: string): Promise<FinancialData> => {
+    const rand = seeded(input);
+    const currency = currencyFor(input.fileName);
+    const interpretation = `Local fixture for ${input.fileName}.${userHint ? ` Hint received: "${userHint}".` : ''}`;
+
+    if (/statement|releve|relevé|kontoauszug/i.test(input.fileName)) {
+      const statement = fixtureStatement(input);
+      return {
+        documentType: DocumentType.BANK_STATEMENT,
+        date: statement.transactions[statement.transactions.length - 1]?.date || fixtureDate(rand),
+        issuer: 'UBS Switzerland AG',
+        documentNumber: `STMT-${statement.period}`,
+        totalAmount: statement.calculatedTotalExpense,
+        originalCurrency: statement.currency,
+        vatAmount: 0,
+        vatRate: 0,
+        netAmount: statement.calculatedTotalExpense,
+        expenseCategory: 'Bank',
+        direction: 'neutral',
+        amountInCHF: 0,
+        conversionRateUsed: 0,
+        notes: '',
+        lineItems: statement.transactions,
+        openingBalance: statement.openingBalance,
+        finalBalance: statement.finalBalance,
+        calculatedTotalIncome: statement.calculatedTotalIncome,
+        calculatedTotalExpense: statement.calculatedTotalExpense,
+        confidenceScore: 1,
+        forensicAlerts: [],
+        aiInterpretation: interpretation,
+      };
+    }
+
+    if (/z2|batch/i.test(input.fileName)) {
+      const subDocuments = Array.from({ length: 2 + Math.floor(rand() * 4) }, () =>
+        fixtureVoucher(rand, currency, DocumentType.RECEIPT)
+      );
+      const totalAmount = round2(subDocuments.reduce((s, d) => s + d.totalAmount, 0));
+      const vatAmount = round2(subDocuments.reduce((s, d) => s + d.vatAmount, 0));
+      return {
+        ...fixtureVoucher(rand, currency, DocumentType.Z2_BULK_REPORT),
+        issuer: 'Multiple issuers',
+        totalAmount,
+        vatAmount,
+        netAmount: round2(totalAmount - vatAmount),
+        subDocuments,
+        aiInterpretation: interpretation,
+      };
+    }
+
+    const type = /receipt|ticket|quittung/i.test(input.fileName) ? DocumentType.RECEIPT : DocumentType.INVOICE;
+    return { ...fixtureVoucher(rand, currency, type), aiInterpretation: interpretation };
+  },
+
+  extractBankStatement: async (input: DocumentInput, _context: ExtractionContext): Promise<BankStatementAnalysis> => fixtureStatement(input),
+
+  analyzeImage: async (input: DocumentInput, prompt: string): Promise<string> =>
+    `Local provider: visual analysis is not available offline.\n\nFile: ${input.fileName} (${input.mimeType}, ${input.size} bytes)\nObjective: ${prompt}`,
+
+  chat: async (history: ChatTurn[], message: string): Promise<string> =>
+    `Local provider: no language model is configured, so this question was not answered.\n\nQuestion #${history.filter(h => h.role === 'user').length + 1}: ${message}`,
+};
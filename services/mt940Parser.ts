@@ -0,0 +1,142 @@
+import type { BankStatementAnalysis, BankTransaction } from '../types';
+
+/**
+ * SWIFT MT940 customer statements. One file may contain several messages (one per account / period);
+ * each becomes its own BankStatementAnalysis.
+ */
+
+type Field = { tag: string; value: string };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const parseSwiftAmount = (value: string) => Number(value.replace(',', '.')) || 0;
+
+// YYMMDD → YYYY-MM-DD (SWIFT years are 19xx above 79, as in the standard).
+const parseSwiftDate = (value: string) => {
+  const yy = Number(value.slice(0, 2));
+  const year = yy > 79 ? 1900 + yy : 2000 + yy;
+  return `${year}-${value.slice(2, 4)}-${value.slice(4, 6)}`;
+};
+
+// :60F:/:62F: — C240131CHF12345,67
+const parseBalance = (value: string) => {
+  const match = value.match(/^([CD])(\d{6})([A-Z]{3})([\d,]+)/);
+  if (!match) return undefined;
+  const amount = parseSwiftAmount(match[4]);
+  return { amount: round2(match[1] === 'D' ? -amount : amount), date: parseSwiftDate(match[2]), currency: match[3] };
+};
+
+const splitFields = (message: string): Field[] => {
+  const fields: Field[] = [];
+  message.split('\n').forEach((line) => {
+    const tagMatch = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagMatch) fields.push({ tag: tagMatch[1], value: tagMatch[2] });
+    else if (fields.length > 0 && line.trim() && line.trim() !== '-') fields[fields.length - 1].value += `\n${line}`;
+  });
+  return fields;
+};
+
+/**
+ * :86: is either free text or, with German/Swiss banks, "?"-separated subfields
+ * (?00 booking text, ?20–?29 and ?60–?63 purpose, ?32–?33 counterparty name).
+ */
+const parseInformation = (value: string): { description: string; counterparty?: string } => {
+  const flat = value.replace(/\n/g, '');
+  if (!/^\d{3}\?\d{2}/.test(flat) && !flat.startsWith('?')) {
+    return { description: value.split('\n').map((l) => l.trim()).filter(Boolean).join(' ') };
+  }
+  const subfields: Record<string, string> = {};
+  flat.split('?').slice(1).forEach((part) => {
+    const key = part.slice(0, 2);
+    subfields[key] = (subfields[key] || '') + part.slice(2);
+  });
+  const purpose = Object.keys(subfields)
+    .filter((k) => (k >= '20' && k <= '29') || (k >= '60' && k <= '63'))
+    .sort()
+    .map((k) => subfields[k])
+    .join('')
+    .trim();
+  const counterparty = `${subfields['32'] || ''}${subfields['33'] || ''}`.trim() || undefined;
+  const description = [counterparty, purpose].filter(Boolean).join(' – ') || subfields['00'] || 'Bank entry';
+  return { description, counterparty };
+};
+
+// The optional booking date (MMDD) has no year; take the one closest to the value date.
+const entryDateNear = (valueDate: string, mmdd: string) => {
+  const year = Number(valueDate.slice(0, 4));
+  const valueMonth = Number(valueDate.slice(5, 7));
+  const entryMonth = Number(mmdd.slice(0, 2));
+  const shift = valueMonth === 12 && entryMonth === 1 ? 1 : valueMonth === 1 && entryMonth === 12 ? -1 : 0;
+  return `${year + shift}-${mmdd.slice(0, 2)}-${mmdd.slice(2, 4)}`;
+};
+
+// :61: — 2401310131DR1234,56NTRFNONREF//BANKREF123
+const STATEMENT_LINE = /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([A-Z]\w{3})(.*)$/;
+
+const parseStatementLine = (value: string): Omit<BankTransaction, 'description' | 'category'> | null => {
+  const [first, ...rest] = value.split('\n');
+  const match = first.match(STATEMENT_LINE);
+  if (!match) return null;
+  const [, valueDate, entryDate, mark, , amount, , references] = match;
+  const [ownerReference, bankReference] = references.split('//');
+  const date = parseSwiftDate(valueDate);
+  // Reversals flip the direction: RC reverses a credit (money leaves), RD reverses a debit.
+  const isCredit = mark === 'C' || mark === 'RD';
+  return {
+    date: entryDate ? entryDateNear(date, entryDate) : date,
+    valueDate: date,
+    amount: round2(parseSwiftAmount(amount)),
+    type: isCredit ? 'INCOME' : 'EXPENSE',
+    bankReference: bankReference?.trim() || undefined,
+    paymentReference: ownerReference && ownerReference !== 'NONREF' ? ownerReference.trim() : undefined,
+    notes: rest.join(' ').trim() || undefined,
+  };
+};
+
+const parseMessage = (message: string): BankStatementAnalysis | null => {
+  const fields = splitFields(message);
+  const opening = parseBalance(fields.find((f) => f.tag === '60F' || f.tag === '60M')?.value || '');
+  const closing = parseBalance(fields.find((f) => f.tag === '62F' || f.tag === '62M')?.value || '');
+  if (!opening && !fields.some((f) => f.tag === '61')) return null;
+
+  const transactions: BankTransaction[] = [];
+  fields.forEach((field, i) => {
+    if (field.tag !== '61') return;
+    const line = parseStatementLine(field.value);
+    if (!line) return;
+    const info = fields[i + 1]?.tag === '86' ? parseInformation(fields[i + 1].value) : { description: line.notes || 'Bank entry' };
+    transactions.push({ ...line, notes: undefined, description: info.description, counterparty: info.counterparty, category: '' });
+  });
+
+  const income = transactions.filter((t) => t.type === 'INCOME').reduce((s, t) => s + t.amount, 0);
+  const expense = transactions.filter((t) => t.type === 'EXPENSE').reduce((s, t) => s + t.amount, 0);
+  const account = fields.find((f) => f.tag === '25')?.value.trim();
+
+  return {
+    transactions,
+    calculatedTotalIncome: round2(income),
+    calculatedTotalExpense: round2(expense),
+    openingBalance: opening?.amount,
+    finalBalance: closing?.amount,
+    currency: opening?.currency || closing?.currency || 'CHF',
+    period: opening && closing ? `${opening.date} – ${closing.date}` : undefined,
+    source: 'mt940',
+    accountIban: account?.includes('/') ? account.split('/').pop() : account,
+    statementId: fields.find((f) => f.tag === '28C' || f.tag === '28')?.value.trim(),
+  };
+};
+
+export const isMt940 = (content: string) => /:20:/.test(content) && /:6[02][FM]:/.test(content);
+
+export const parseMt940 = (content: string): BankStatementAnalysis[] => {
+  const normalized = content
+    .replace(/\r\n?/g, '\n')
+    // SWIFT envelope blocks {1:...}{2:...}{4: and the -} trailer
+    .replace(/\{[1-3]:[^}]*\}/g, '')
+    .replace(/\{4:\n?/g, '')
+    .replace(/-\}/g, '\n');
+  const messages = normalized.split(/\n(?=:20:)/).filter((m) => m.includes(':20:'));
+  const statements = messages.map(parseMessage).filter((s): s is BankStatementAnalysis => s !== null);
+  if (statements.length === 0) throw new Error('No MT940 statement found');
+  return statements;
+};
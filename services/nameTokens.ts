@@ -0,0 +1,15 @@
+/**
+ * Significant words of a company or person name, shared by duplicate detection, direction inference and
+ * bank matching so that all three read "Muster & Co KG" the same way: lower case, accents and punctuation
+ * removed, legal forms, connectives and words under three letters dropped.
+ */
+
+const LEGAL_FORMS = new Set(['ag', 'sa', 'gmbh', 'sarl', 'ltd', 'llc', 'inc', 'co', 'kg', 'the', 'und', 'and', 'et', 'de', 'la', 'le', 'der', 'die']);
+
+export const nameTokens = (value: string | undefined): string[] =>
+  (value || '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length >= 3 && !LEGAL_FORMS.has(t));
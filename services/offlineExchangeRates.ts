@@ -0,0 +1,82 @@
+/**
+ * Bundled monthly average rates (CHF per 1 unit of currency), used when the rate API cannot be reached.
+ * Values are monthly averages of the ECB reference rates, rounded. The table ends in September 2025, so offline
+ * conversion is unavailable from December 2025 on; see the README for how to extend it.
+ */
+const MONTHLY_CHF_RATES: Record<string, Record<number, number[]>> = {
+  EUR: {
+    2023: [0.999, 0.991, 0.993, 0.986, 0.976, 0.980, 0.966, 0.959, 0.963, 0.954, 0.963, 0.947],
+    2024: [0.933, 0.948, 0.968, 0.981, 0.983, 0.962, 0.964, 0.943, 0.942, 0.938, 0.932, 0.934],
+    2025: [0.941, 0.941, 0.953, 0.935, 0.936, 0.938, 0.934, 0.938, 0.935],
+  },
+  USD: {
+    2023: [0.925, 0.927, 0.923, 0.899, 0.897, 0.900, 0.873, 0.878, 0.894, 0.903, 0.893, 0.867],
+    2024: [0.862, 0.879, 0.892, 0.910, 0.910, 0.894, 0.892, 0.862, 0.849, 0.861, 0.879, 0.892],
+    2025: [0.909, 0.903, 0.882, 0.840, 0.830, 0.816, 0.799, 0.806, 0.797],
+  },
+  GBP: {
+    2023: [1.129, 1.117, 1.122, 1.119, 1.117, 1.141, 1.126, 1.117, 1.111, 1.098, 1.104, 1.098],
+    2024: [1.093, 1.109, 1.132, 1.145, 1.149, 1.138, 1.145, 1.114, 1.123, 1.124, 1.122, 1.129],
+    2025: [1.124, 1.131, 1.138, 1.100, 1.110, 1.105, 1.077, 1.085, 1.075],
+  },
+  JPY: {
+    2023: [0.00712, 0.00693, 0.00689, 0.00673, 0.00657, 0.00637, 0.00623, 0.00604, 0.00605, 0.00605, 0.00597, 0.00602],
+    2024: [0.00590, 0.00589, 0.00597, 0.00593, 0.00583, 0.00566, 0.00564, 0.00590, 0.00592, 0.00578, 0.00573, 0.00578],
+    2025: [0.00580, 0.00593, 0.00592, 0.00577, 0.00573, 0.00565, 0.00545, 0.00546, 0.00540],
+  },
+};
+
+// How far (in months) a missing month may be bridged with the closest one in the table.
+const MAX_MONTH_DISTANCE = 2;
+
+const monthIndex = (year: number, month: number) => year * 12 + month;
+
+/**
+ * CHF value of one unit of `currency` around `date`, with the month the value belongs to.
+ */
+const lookupChfRate = (currency: string, date: string): { rate: number; month: string } | null => {
+  if (currency === 'CHF') return { rate: 1, month: date.slice(0, 7) };
+  const table = MONTHLY_CHF_RATES[currency];
+  const [y, m] = date.split('-').map(Number);
+  if (!table || !y || !m) return null;
+
+  const target = monthIndex(y, m - 1);
+  let best: { rate: number; month: string; distance: number } | null = null;
+  for (const [year, values] of Object.entries(table)) {
+    for (let i = 0; i < values.length; i++) {
+      const distance = Math.abs(monthIndex(Number(year), i) - target);
+      if (distance <= MAX_MONTH_DISTANCE && (!best || distance < best.distance)) {
+        best = { rate: values[i], month: `${year}-${String(i + 1).padStart(2, '0')}`, distance };
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Cross rate from the bundled table. `effectiveMonth` is the month (YYYY-MM) the rate was taken from.
+ */
+export const getOfflineRate = (
+  from: string,
+  to: string,
+  date: string
+): { rate: number; effectiveMonth: string } | null => {
+  const base = lookupChfRate(from, date);
+  const quote = lookupChfRate(to, date);
+  if (!base || !quote) return null;
+  const effectiveMonth = from === 'CHF' ? quote.month : base.month;
+  return { rate: base.rate / quote.rate, effectiveMonth };
+};
+
+export const OFFLINE_RATE_CURRENCIES = ['CHF', ...Object.keys(MONTHLY_CHF_RATES)];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// First and last month (YYYY-MM) of the table, as shown to the user when no rate could be found.
+export const OFFLINE_RATE_COVERAGE = (() => {
+  const months = Object.values(MONTHLY_CHF_RATES).flatMap((table) =>
+    Object.entries(table).flatMap(([year, values]) => values.map((_, i) => `${year}-${pad(i + 1)}`))
+  );
+  months.sort();
+  return { from: months[0], to: months[months.length - 1] };
+})();
@@ -0,0 +1,141 @@
+import { collection, doc, query, where, getDoc, getDocs, setDoc, deleteDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { Client, ClientProfile, FiscalPeriod, FiscalPeriodKind, PeriodLock, PeriodLockEvent } from '../types';
+import { assertClientAccess } from './clientService';
+
+const LOCKS_COLLECTION = 'periodLocks';
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Month `offset` may run past December; Date.UTC rolls it into the next year.
+const monthStart = (year: number, offset: number) => {
+  const d = new Date(Date.UTC(year, offset, 1));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() };
+};
+
+const lastDay = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Fiscal years are named after the calendar year they start in; split years read e.g. `2026/27`.
+ */
+export const fiscalYearLabel = (profile: ClientProfile, startYear: number) =>
+  profile.fiscalYearStartMonth === 1 ? String(startYear) : `${startYear}/${String(startYear + 1).slice(2)}`;
+
+/**
+ * The months or quarters of the fiscal year that starts in `startYear`, in order.
+ */
+export const fiscalPeriods = (profile: ClientProfile, startYear: number, kind: FiscalPeriodKind): FiscalPeriod[] => {
+  const months = kind === 'month' ? 1 : 3;
+  return Array.from({ length: 12 / months }, (_, i) => {
+    const first = monthStart(startYear, profile.fiscalYearStartMonth - 1 + i * months);
+    const last = monthStart(startYear, profile.fiscalYearStartMonth - 1 + i * months + months - 1);
+    const from = `${first.year}-${pad(first.month + 1)}-01`;
+    const to = `${last.year}-${pad(last.month + 1)}-${pad(lastDay(last.year, last.month))}`;
+    const label =
+      kind === 'month'
+        ? `${MONTH_NAMES[first.month]} ${first.year}`
+        : `Q${i + 1} ${fiscalYearLabel(profile, startYear)} (${MONTH_NAMES[first.month]}–${MONTH_NAMES[last.month]})`;
+    return { id: `${kind}-${from}`, kind, label, from, to };
+  });
+};
+
+/**
+ * The closed period containing `date`, if any.
+ */
+export const closedPeriodFor = (date: string | undefined, locks: PeriodLock[]): PeriodLock | undefined =>
+  date ? locks.find((l) => l.closed && date >= l.period.from && date <= l.period.to) : undefined;
+
+const toLock = (id: string, data: Record<string, any>): PeriodLock => ({
+  id,
+  clientId: data.clientId,
+  firmId: data.firmId ?? undefined,
+  period: data.period,
+  closed: !!data.closed,
+  history: data.history || [],
+});
+
+// Document writes check the locks every time; they are re-read at most once a minute per client.
+const LOCKS_CACHE_MS = 60_000;
+const locksCache = new Map<string, { locks: PeriodLock[]; at: number }>();
+
+export const getPeriodLocks = async (uid: string, clientId: string): Promise<PeriodLock[]> => {
+  const { firmId } = await assertClientAccess(uid, clientId, 'read');
+  const cached = locksCache.get(clientId);
+  if (cached && Date.now() - cached.at < LOCKS_CACHE_MS) return cached.locks;
+  const q = query(
+    collection(db, LOCKS_COLLECTION),
+    firmId ? where('firmId', '==', firmId) : where('userId', '==', uid),
+    where('clientId', '==', clientId)
+  );
+  const snapshot = await getDocs(q);
+  const locks = snapshot.docs.map((d) => toLock(d.id, d.data()));
+  locksCache.set(clientId, { locks, at: Date.now() });
+  return locks;
+};
+
+/**
+ * Throws if any of the dates falls in a closed period of the client.
+ */
+export const assertPeriodsOpen = async (uid: string, clientId: string, dates: (string | undefined)[]): Promise<void> => {
+  const locks = await getPeriodLocks(uid, clientId);
+  for (const date of dates) {
+    const lock = closedPeriodFor(date, locks);
+    if (lock) throw new Error(`${date} is in the closed period ${lock.period.label}. Reopen the period to change its documents.`);
+  }
+};
+
+const setPeriodClosed = async (
+  user: { uid: string; email?: string | null },
+  client: Client,
+  period: FiscalPeriod,
+  closed: boolean,
+  reason: string
+): Promise<PeriodLock> => {
+  if (!reason.trim()) throw new Error(`A reason is required to ${closed ? 'close' : 'reopen'} a period`);
+  const { firmId } = await assertClientAccess(user.uid, client.id, 'certify');
+  const ref = doc(db, LOCKS_COLLECTION, `${client.id}_${period.id}`);
+  const snapshot = await getDoc(ref);
+  const current = snapshot.exists() ? toLock(snapshot.id, snapshot.data()) : null;
+  if (!!current?.closed === closed) throw new Error(`${period.label} is already ${closed ? 'closed' : 'open'}`);
+
+  const event: PeriodLockEvent = {
+    action: closed ? 'close' : 'reopen',
+    reason: reason.trim(),
+    userId: user.uid,
+    ...(user.email && { userEmail: user.email }),
+    at: new Date().toISOString(),
+  };
+  const history = [...(current?.history || []), event];
+  await setDoc(ref, {
+    clientId: client.id,
+    ...(firmId && { firmId }),
+    userId: user.uid,
+    period,
+    closed,
+    history,
+    updatedAt: serverTimestamp(),
+  });
+  locksCache.delete(client.id);
+  return { id: ref.id, clientId: client.id, firmId, period, closed, history };
+};
+
+export const closePeriod = (user: { uid: string; email?: string | null }, client: Client, period: FiscalPeriod, reason: string) =>
+  setPeriodClosed(user, client, period, true, reason);
+
+export const reopenPeriod = (user: { uid: string; email?: string | null }, client: Client, period: FiscalPeriod, reason: string) =>
+  setPeriodClosed(user, client, period, false, reason);
+
+// Only used when the client itself is removed; closing and reopening keep the lock and its history.
+export const deletePeriodLocks = async (uid: string, clientId: string): Promise<void> => {
+  const { firmId } = await assertClientAccess(uid, clientId, 'manageClients');
+  const q = query(
+    collection(db, LOCKS_COLLECTION),
+    firmId ? where('firmId', '==', firmId) : where('userId', '==', uid),
+    where('clientId', '==', clientId)
+  );
+  const snapshot = await getDocs(q);
+  for (const lock of snapshot.docs) await deleteDoc(lock.ref);
+  locksCache.delete(clientId);
+};
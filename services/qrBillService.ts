@@ -0,0 +1,159 @@
+import jsQR from 'jsqr';
+import * as pdfjs from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { FinancialData, SwissQrAddress, SwissQrBill } from '../types';
+
+pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+const QR_ALERT_PREFIX = 'QR-bill:';
+// The payment part is on the last page; long PDFs are only scanned from the end.
+const MAX_PDF_PAGES = 4;
+const PDF_RENDER_SCALE = 2.5;
+
+const parseAddress = (lines: string[]): SwissQrAddress | undefined => {
+  const [type, name, line1, line2, postalCode, town, country] = lines.map((l) => (l || '').trim());
+  if (!name) return undefined;
+  if (type === 'K') {
+    // Combined address: two free address lines, no separate postal code / town.
+    return { name, street: line1 || undefined, town: line2 || undefined, country: country || undefined };
+  }
+  return {
+    name,
+    street: line1 || undefined,
+    buildingNumber: line2 || undefined,
+    postalCode: postalCode || undefined,
+    town: town || undefined,
+    country: country || undefined,
+  };
+};
+
+/**
+ * Parses the text of a Swiss QR code (SPC, version 02.xx) into its payment fields.
+ * Returns null for anything that is not a Swiss QR-bill payload.
+ */
+export const parseSwissQrPayload = (payload: string): SwissQrBill | null => {
+  const lines = payload.split(/\r\n|\n|\r/);
+  if (lines[0]?.trim() !== 'SPC' || !lines[1]?.trim().startsWith('02') || lines.length < 31) return null;
+  if (lines[30]?.trim() !== 'EPD') return null;
+
+  const creditor = parseAddress(lines.slice(4, 11));
+  const iban = lines[3].replace(/\s/g, '').toUpperCase();
+  if (!creditor || !iban) return null;
+
+  const amountText = lines[18].trim();
+  const amount = amountText ? Number(amountText) : undefined;
+  const referenceType = lines[27].trim() as SwissQrBill['referenceType'];
+
+  return {
+    iban,
+    creditor,
+    amount: amount !== undefined && Number.isFinite(amount) ? amount : undefined,
+    currency: lines[19].trim().toUpperCase(),
+    debtor: parseAddress(lines.slice(20, 27)),
+    referenceType: ['QRR', 'SCOR', 'NON'].includes(referenceType) ? referenceType : 'NON',
+    reference: lines[28].replace(/\s/g, '') || undefined,
+    message: lines[29].trim() || undefined,
+    billInformation: lines[31]?.trim() || undefined,
+  };
+};
+
+export const isValidIban = (iban: string): boolean => {
+  const compact = iban.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/.test(compact)) return false;
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  const digits = rearranged.replace(/[A-Z]/g, (c) => String(c.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of digits) remainder = (remainder * 10 + Number(digit)) % 97;
+  return remainder === 1;
+};
+
+// QR reference check digit: recursive modulo 10 over the first 26 digits.
+export const isValidQrReference = (reference: string): boolean => {
+  if (!/^\d{27}$/.test(reference)) return false;
+  const table = [0, 9, 4, 6, 8, 2, 7, 1, 3, 5];
+  let carry = 0;
+  for (const digit of reference.slice(0, 26)) carry = table[(carry + Number(digit)) % 10];
+  return (10 - carry) % 10 === Number(reference[26]);
+};
+
+const scanCanvas = (canvas: HTMLCanvasElement): SwissQrBill | null => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+  return code ? parseSwissQrPayload(code.data) : null;
+};
+
+const scanImage = async (file: Blob): Promise<SwissQrBill | null> => {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return scanCanvas(canvas);
+};
+
+const scanPdf = async (file: Blob): Promise<SwissQrBill | null> => {
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const firstPage = Math.max(1, pdf.numPages - MAX_PDF_PAGES + 1);
+    for (let pageNumber = pdf.numPages; pageNumber >= firstPage; pageNumber--) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+      const bill = scanCanvas(canvas);
+      if (bill) return bill;
+    }
+    return null;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * Looks for a Swiss QR-bill in an uploaded invoice (image or PDF). Returns null when there is none.
+ */
+export const decodeQrBill = async (file: File): Promise<SwissQrBill | null> => {
+  if (file.type === 'application/pdf') return scanPdf(file);
+  if (file.type.startsWith('image/')) return scanImage(file);
+  return null;
+};
+
+/**
+ * Merges a decoded QR-bill into an extraction. The QR amount and currency are authoritative;
+ * any disagreement with the printed total is kept as a forensic alert.
+ */
+export const applyQrBill = (data: FinancialData, bill: SwissQrBill): FinancialData => {
+  const alerts = (data.forensicAlerts || []).filter((a) => !a.startsWith(QR_ALERT_PREFIX));
+  const next: FinancialData = { ...data, qrBill: bill };
+
+  if (bill.amount !== undefined) {
+    const printed = Number(data.totalAmount) || 0;
+    const printedCurrency = (data.originalCurrency || '').toUpperCase();
+    if (Math.abs(printed - bill.amount) >= 0.01 || (printedCurrency && printedCurrency !== bill.currency)) {
+      alerts.push(
+        `${QR_ALERT_PREFIX} printed total ${printed.toFixed(2)} ${printedCurrency || '?'} differs from QR amount ${bill.amount.toFixed(2)} ${bill.currency}.`
+      );
+    }
+    next.totalAmount = bill.amount;
+    next.originalCurrency = bill.currency;
+    if (data.vatAmount) next.netAmount = bill.amount - data.vatAmount;
+  } else if (bill.currency) {
+    next.originalCurrency = bill.currency;
+  }
+
+  if (!isValidIban(bill.iban)) {
+    alerts.push(`${QR_ALERT_PREFIX} creditor IBAN ${bill.iban} fails its checksum.`);
+  }
+  if (bill.referenceType === 'QRR' && bill.reference && !isValidQrReference(bill.reference)) {
+    alerts.push(`${QR_ALERT_PREFIX} QR reference ${bill.reference} has an invalid check digit.`);
+  }
+  if (!data.documentNumber && bill.reference) next.documentNumber = bill.reference;
+
+  next.forensicAlerts = alerts;
+  return next;
+};
@@ -0,0 +1,353 @@
+import {
+  DocumentType,
+  type BankStatementAnalysis,
+  type BankTransaction,
+  type ProcessedBankStatement,
+  type ProcessedDocument,
+  type SupportingDoc,
+  type TransactionMatch,
+} from '../types';
+import { directionOf } from './directionService';
+import { nameTokens } from './nameTokens';
+
+/**
+ * Matches bank transactions against supporting documents.
+ * Each (transaction, document) pair is scored on amount, date, issuer/description similarity and references;
+ * pairs are then assigned greedily from the best score down, so a document is never used twice.
+ * Transactions left over are tried against combinations of documents (one payment for several invoices),
+ * and documents left over against combinations of transactions (one invoice paid in instalments).
+ */
+
+const MATCHED_SCORE = 0.75;
+const SUGGESTED_SCORE = 0.45;
+const AMOUNT_TOLERANCE = 0.05;
+// Converted amounts are compared with a relative tolerance: the bank's rate is never the reference rate.
+const FX_TOLERANCE = 0.02;
+// Small differences on same-currency amounts are usually bank charges deducted from the payment.
+const FEE_TOLERANCE = 0.01;
+const MAX_GROUP_SIZE = 4;
+const MAX_INSTALMENTS = 3;
+const GROUP_CANDIDATES = 10;
+
+const WEIGHTS = { amount: 0.45, date: 0.2, name: 0.2, reference: 0.15 };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Completed documents that can justify a bank movement. Bank statements are excluded;
+ * batch sheets contribute one entry per ticket since each ticket is paid on its own, and a ticket
+ * counts as verified once its sheet is certified.
+ * Each entry carries its direction, inferred from `clientName` for documents extracted without one.
+ */
+export const toSupportingDocs = (documents: ProcessedDocument[], clientName = ''): SupportingDoc[] =>
+  documents
+    .filter((d) => d.status === 'completed' && d.data && d.data.documentType !== DocumentType.BANK_STATEMENT)
+    .flatMap((d) => {
+      const data = d.data!;
+      if (data.subDocuments && data.subDocuments.length > 1) {
+        return data.subDocuments.map((sub, i) => ({
+          ...sub,
+          isHumanVerified: sub.isHumanVerified || data.isHumanVerified,
+          direction: directionOf(sub, clientName),
+          id: `${d.id}#${i}`,
+          sourceFile: d.fileName,
+        }));
+      }
+      return [{ ...data, direction: directionOf(data, clientName), id: d.id, sourceFile: d.fileName }];
+    });
+
+// Document amount in the statement currency: the original amount, or the converted one when the document was converted to it.
+const amountIn = (doc: SupportingDoc, currency: string): { amount: number; converted: boolean } | null => {
+  const docCurrency = (doc.originalCurrency || '').toUpperCase();
+  if (docCurrency === currency.toUpperCase()) return { amount: doc.totalAmount, converted: false };
+  if (doc.conversion?.to?.toUpperCase() === currency.toUpperCase() && doc.conversion.rate) {
+    return { amount: doc.amountInCHF, converted: true };
+  }
+  return null;
+};
+
+const amountScore = (txAmount: number, docAmount: { amount: number; converted: boolean }): number => {
+  const diff = Math.abs(txAmount - docAmount.amount);
+  if (diff <= AMOUNT_TOLERANCE) return 1;
+  const relative = docAmount.amount ? diff / Math.abs(docAmount.amount) : 1;
+  if (docAmount.converted) return relative <= FX_TOLERANCE ? 1 - (relative / FX_TOLERANCE) * 0.3 : 0;
+  return relative <= FEE_TOLERANCE ? 0.6 : 0;
+};
+
+const daysBetween = (from: string, to: string): number | null => {
+  const a = Date.parse(from);
+  const b = Date.parse(to);
+  if (Number.isNaN(a) || Number.isNaN(b)) return null;
+  return Math.round((b - a) / 86_400_000);
+};
+
+// Payments usually follow the document within its terms; a few days before is possible (card slips dated at delivery).
+const dateScore = (txDate: string, docDate: string): number => {
+  const days = daysBetween(docDate, txDate);
+  if (days === null) return 0.5;
+  if (days < -5) return 0;
+  if (days < 0) return 0.6;
+  if (days <= 30) return 1;
+  if (days <= 90) return 1 - ((days - 30) / 60) * 0.8;
+  return 0;
+};
+
+const nameScore = (tx: BankTransaction, doc: SupportingDoc): number => {
+  const issuer = nameTokens(doc.issuer);
+  if (issuer.length === 0) return 0;
+  const text = nameTokens(`${tx.counterparty || ''} ${tx.description}`);
+  const hits = issuer.filter((t) => text.some((w) => w === t || (t.length >= 5 && (w.startsWith(t) || t.startsWith(w)) && w.length >= 5)));
+  return hits.length / issuer.length;
+};
+
+const compact = (value: string | undefined) => (value || '').replace(/[\s-]/g, '').toUpperCase();
+
+const referenceHit = (tx: BankTransaction, doc: SupportingDoc): string | undefined => {
+  const haystack = compact(`${tx.paymentReference || ''} ${tx.description} ${tx.bankReference || ''}`);
+  const references = [doc.qrBill?.reference, doc.documentNumber].map(compact).filter((r) => r.length >= 4);
+  return references.find((r) => haystack.includes(r));
+};
+
+type Candidate = { doc: SupportingDoc; score: number; reasons: string[] };
+
+// The side of the statement a document is settled on: expenses go out and income comes in, reversed for credit
+// notes (stored negative). Transfers and neutral documents can appear on either side.
+const expectedType = (doc: SupportingDoc, amount: number): BankTransaction['type'] | null => {
+  if (doc.direction !== 'income' && doc.direction !== 'expense') return null;
+  const outgoing = (doc.direction === 'expense') === amount >= 0;
+  return outgoing ? 'EXPENSE' : 'INCOME';
+};
+
+const sideMatches = (tx: BankTransaction, doc: SupportingDoc, currency: string) => {
+  const expected = expectedType(doc, amountIn(doc, currency)?.amount ?? doc.totalAmount);
+  return !expected || tx.type === expected;
+};
+
+const scorePair = (tx: BankTransaction, doc: SupportingDoc, currency: string): Candidate | null => {
+  // A customer payment never settles a supplier invoice, however well the amounts agree.
+  if (!sideMatches(tx, doc, currency)) return null;
+  // Credit notes are stored negative and refunded as a positive credit on the statement
+  const signed = amountIn(doc, currency);
+  const docAmount = signed && { ...signed, amount: Math.abs(signed.amount) };
+  const amount = docAmount ? amountScore(tx.amount, docAmount) : 0;
+  const date = dateScore(tx.date, doc.date);
+  const name = nameScore(tx, doc);
+  const reference = referenceHit(tx, doc);
+
+  const reasons: string[] = [];
+  if (amount === 1) reasons.push(docAmount!.converted ? `amount via ${doc.originalCurrency}→${currency}` : 'amount exact');
+  else if (amount > 0) reasons.push(docAmount!.converted ? `amount ≈ via ${doc.originalCurrency}→${currency}` : 'amount within fees');
+  const days = daysBetween(doc.date, tx.date);
+  if (date > 0 && days !== null) reasons.push(`paid ${days >= 0 ? '+' : ''}${days}d`);
+  if (name > 0) reasons.push(`issuer ${Math.round(name * 100)}%`);
+  if (reference) reasons.push(`reference ${reference}`);
+
+  let score = WEIGHTS.amount * amount + WEIGHTS.date * date + WEIGHTS.name * name + WEIGHTS.reference * (reference ? 1 : 0);
+  if (amount === 0) {
+    // Without an amount match only a reference can link the two, and then only as a suggestion (partial payment).
+    if (!reference) return null;
+    score = SUGGESTED_SCORE;
+  } else if (reference) {
+    score = Math.max(score, 0.95);
+  }
+  return score >= SUGGESTED_SCORE ? { doc, score: round2(score), reasons } : null;
+};
+
+const statusFor = (score: number): TransactionMatch['status'] =>
+  score >= MATCHED_SCORE ? 'matched' : score >= SUGGESTED_SCORE ? 'suggested' : 'unmatched';
+
+/**
+ * First combination (in the given order) of 2..maxSize items whose values sum to the target.
+ */
+const findCombination = <T>(items: T[], valueOf: (item: T) => number, target: number, maxSize: number): T[] | null => {
+  const chosen: T[] = [];
+  const search = (start: number, sum: number): T[] | null => {
+    if (chosen.length >= 2 && Math.abs(sum - target) <= AMOUNT_TOLERANCE) return [...chosen];
+    if (chosen.length === maxSize) return null;
+    for (let i = start; i < items.length; i++) {
+      const value = valueOf(items[i]);
+      if (value <= 0 || sum + value > target + AMOUNT_TOLERANCE) continue;
+      chosen.push(items[i]);
+      const found = search(i + 1, sum + value);
+      chosen.pop();
+      if (found) return found;
+    }
+    return null;
+  };
+  return search(0, 0);
+};
+
+const average = (values: number[]) => (values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0);
+
+/**
+ * Documents already linked by the other statements of the session, so they are not matched twice.
+ */
+export const usedDocumentIds = (statements: ProcessedBankStatement[], exceptStatementId?: string): Set<string> => {
+  const used = new Set<string>();
+  statements
+    .filter((s) => s.id !== exceptStatementId)
+    .forEach((s) =>
+      s.data?.transactions.forEach((t) => {
+        if (t.match && t.match.status !== 'unmatched') t.match.documentIds.forEach((id) => used.add(id));
+      })
+    );
+  return used;
+};
+
+/**
+ * (Re)computes the match of every transaction of a statement. Confirmed matches are kept as they are
+ * and their documents are taken out of the pool first; rejected documents are never proposed again
+ * for the transaction that rejected them.
+ */
+export const reconcileStatement = (
+  statement: BankStatementAnalysis,
+  documents: SupportingDoc[],
+  reservedDocumentIds: Set<string> = new Set()
+): BankStatementAnalysis => {
+  const currency = statement.currency || 'CHF';
+  const used = new Set(reservedDocumentIds);
+  const matches: (TransactionMatch | undefined)[] = statement.transactions.map((t) => (t.match?.confirmed ? t.match : undefined));
+  matches.forEach((m) => m?.documentIds.forEach((id) => used.add(id)));
+
+  const rejected = (i: number) => new Set(statement.transactions[i].match?.rejectedDocumentIds || []);
+  const open = () => statement.transactions.map((_, i) => i).filter((i) => !matches[i]);
+
+  // 1. One-to-one, best pairs first.
+  const pairs: { index: number; candidate: Candidate }[] = [];
+  open().forEach((index) => {
+    const tx = statement.transactions[index];
+    const excluded = rejected(index);
+    documents.forEach((doc) => {
+      if (used.has(doc.id) || excluded.has(doc.id)) return;
+      const candidate = scorePair(tx, doc, currency);
+      if (candidate) pairs.push({ index, candidate });
+    });
+  });
+  pairs.sort((a, b) => b.candidate.score - a.candidate.score);
+  pairs.forEach(({ index, candidate }) => {
+    if (matches[index] || used.has(candidate.doc.id)) return;
+    used.add(candidate.doc.id);
+    matches[index] = {
+      status: statusFor(candidate.score),
+      kind: 'one-to-one',
+      documentIds: [candidate.doc.id],
+      score: candidate.score,
+      reasons: candidate.reasons,
+    };
+  });
+
+  // 2. One payment settling several documents.
+  open().forEach((index) => {
+    const tx = statement.transactions[index];
+    const excluded = rejected(index);
+    const pool = documents
+      .filter((doc) => !used.has(doc.id) && !excluded.has(doc.id) && amountIn(doc, currency) && sideMatches(tx, doc, currency) && dateScore(tx.date, doc.date) > 0)
+      .map((doc) => ({ doc, amount: amountIn(doc, currency)!.amount, relevance: dateScore(tx.date, doc.date) + nameScore(tx, doc) }))
+      .sort((a, b) => b.relevance - a.relevance)
+      .slice(0, GROUP_CANDIDATES);
+    const group = findCombination(pool, (p) => p.amount, tx.amount, MAX_GROUP_SIZE);
+    if (!group) return;
+    const score = round2(
+      WEIGHTS.amount +
+        WEIGHTS.date * average(group.map((g) => dateScore(tx.date, g.doc.date))) +
+        WEIGHTS.name * average(group.map((g) => nameScore(tx, g.doc))) +
+        WEIGHTS.reference * average(group.map((g) => (referenceHit(tx, g.doc) ? 1 : 0)))
+    );
+    group.forEach((g) => used.add(g.doc.id));
+    matches[index] = {
+      status: statusFor(score),
+      kind: 'one-to-many',
+      documentIds: group.map((g) => g.doc.id),
+      score,
+      reasons: [`sum of ${group.length} documents`],
+    };
+  });
+
+  // 3. One document paid in several transactions.
+  documents.forEach((doc) => {
+    const docAmount = amountIn(doc, currency);
+    if (used.has(doc.id) || !docAmount) return;
+    const pool = open()
+      .filter((i) => !rejected(i).has(doc.id) && sideMatches(statement.transactions[i], doc, currency) && dateScore(statement.transactions[i].date, doc.date) > 0)
+      .map((i) => ({ index: i, tx: statement.transactions[i] }))
+      .sort((a, b) => nameScore(b.tx, doc) - nameScore(a.tx, doc))
+      .slice(0, GROUP_CANDIDATES);
+    const byType = ['EXPENSE', 'INCOME'].map((type) => pool.filter((p) => p.tx.type === type));
+    const group = byType.map((p) => findCombination(p, (x) => x.tx.amount, docAmount.amount, MAX_INSTALMENTS)).find(Boolean);
+    if (!group) return;
+    const score = round2(
+      WEIGHTS.amount +
+        WEIGHTS.date * average(group.map((g) => dateScore(g.tx.date, doc.date))) +
+        WEIGHTS.name * average(group.map((g) => nameScore(g.tx, doc))) +
+        WEIGHTS.reference * average(group.map((g) => (referenceHit(g.tx, doc) ? 1 : 0)))
+    );
+    used.add(doc.id);
+    group.forEach((g) => {
+      matches[g.index] = {
+        status: statusFor(score),
+        kind: 'many-to-one',
+        documentIds: [doc.id],
+        score,
+        reasons: [`instalment ${group.indexOf(g) + 1} of ${group.length}`],
+      };
+    });
+  });
+
+  const byId = new Map(documents.map((d) => [d.id, d]));
+  const transactions = statement.transactions.map((t, i): BankTransaction => {
+    const previous = t.match?.rejectedDocumentIds;
+    const match: TransactionMatch = matches[i]
+      ? { ...matches[i]!, rejectedDocumentIds: previous }
+      : { status: 'unmatched', documentIds: [], score: 0, reasons: [], rejectedDocumentIds: previous };
+    // A matched single document also tells what the expense was for.
+    const linked = match.status === 'matched' && match.documentIds.length === 1 ? byId.get(match.documentIds[0]) : undefined;
+    return { ...t, match, category: t.category || linked?.expenseCategory || '' };
+  });
+  return { ...statement, transactions };
+};
+
+export const confirmMatch = (statement: BankStatementAnalysis, index: number): BankStatementAnalysis => ({
+  ...statement,
+  transactions: statement.transactions.map((t, i) =>
+    i === index && t.match && t.match.documentIds.length > 0 ? { ...t, match: { ...t.match, status: 'matched', confirmed: true } } : t
+  ),
+});
+
+/**
+ * Unlinks a transaction and remembers its documents as rejected. Run reconcileStatement afterwards
+ * to let the freed documents find a better transaction.
+ */
+export const rejectMatch = (statement: BankStatementAnalysis, index: number): BankStatementAnalysis => ({
+  ...statement,
+  transactions: statement.transactions.map((t, i) => {
+    if (i !== index || !t.match) return t;
+    const rejectedDocumentIds = Array.from(new Set([...(t.match.rejectedDocumentIds || []), ...t.match.documentIds]));
+    return { ...t, match: { status: 'unmatched', documentIds: [], score: 0, reasons: [], rejectedDocumentIds } };
+  }),
+});
+
+export const assignDocuments = (statement: BankStatementAnalysis, index: number, documentIds: string[]): BankStatementAnalysis => ({
+  ...statement,
+  transactions: statement.transactions.map((t, i) =>
+    i === index
+      ? {
+          ...t,
+          match: {
+            status: 'matched',
+            kind: documentIds.length > 1 ? 'one-to-many' : 'one-to-one',
+            documentIds,
+            score: 1,
+            reasons: ['assigned manually'],
+            confirmed: true,
+            rejectedDocumentIds: t.match?.rejectedDocumentIds?.filter((id) => !documentIds.includes(id)),
+          },
+        }
+      : t
+  ),
+});
+
+export const matchSummary = (statement: BankStatementAnalysis) => {
+  const counts = { matched: 0, suggested: 0, unmatched: 0 };
+  statement.transactions.forEach((t) => counts[t.match?.status || 'unmatched']++);
+  return counts;
+};
@@ -0,0 +1,23 @@
+import type { BankStatementAnalysis, CsvMappingProfile } from '../types';
+import { isCamtXml, parseCamt } from './camtParser';
+import { isMt940, parseMt940 } from './mt940Parser';
+import { decodeCsv, parseCsvStatement } from './csvStatementParser';
+
+/**
+ * Deterministic statement formats that are parsed locally instead of being sent to the extraction provider.
+ */
+export const isStructuredStatementFile = (file: File): boolean =>
+  /\.(xml|sta|mt940|940|txt)$/i.test(file.name) || file.type === 'text/xml' || file.type === 'application/xml';
+
+// CSV needs a mapping profile before it can be parsed.
+export const isCsvStatementFile = (file: File): boolean => /\.csv$/i.test(file.name) || file.type === 'text/csv';
+
+export const importStatementFile = async (file: File): Promise<BankStatementAnalysis[]> => {
+  const content = await file.text();
+  if (isCamtXml(content)) return parseCamt(content);
+  if (isMt940(content)) return parseMt940(content);
+  throw new Error(`${file.name}: unsupported statement format`);
+};
+
+export const importCsvStatement = async (file: File, profile: CsvMappingProfile): Promise<BankStatementAnalysis> =>
+  parseCsvStatement(await decodeCsv(file, profile.encoding), profile);
@@ -0,0 +1,65 @@
+import { collection, doc, query, where, getDocs, setDoc, updateDoc, deleteDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { Client, CsvMappingProfile } from '../types';
+import { assertClientAccess } from './clientService';
+
+const PROFILES_COLLECTION = 'statementProfiles';
+
+const toProfile = (id: string, data: Record<string, any>): CsvMappingProfile => {
+  const { userId: _userId, updatedAt: _updatedAt, ...profile } = data;
+  return { ...(profile as Omit<CsvMappingProfile, 'id'>), id };
+};
+
+/**
+ * CSV mapping profiles of a client, in addition to the built-in bank presets: those saved for the client
+ * (by any member of its firm) and the user's own profiles saved before profiles belonged to a client.
+ */
+export const getStatementProfiles = async (uid: string, clientId: string): Promise<CsvMappingProfile[]> => {
+  const { firmId } = await assertClientAccess(uid, clientId, 'read');
+  const [forClient, own] = await Promise.all([
+    getDocs(
+      query(
+        collection(db, PROFILES_COLLECTION),
+        firmId ? where('firmId', '==', firmId) : where('userId', '==', uid),
+        where('clientId', '==', clientId)
+      )
+    ),
+    getDocs(query(collection(db, PROFILES_COLLECTION), where('userId', '==', uid))),
+  ]);
+  const byId = new Map<string, CsvMappingProfile>();
+  forClient.docs.forEach((d) => byId.set(d.id, toProfile(d.id, d.data())));
+  own.docs.map((d) => toProfile(d.id, d.data())).filter((p) => !p.clientId).forEach((p) => byId.set(p.id, p));
+  return Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Creates the profile for the client when it has no id yet (or is a built-in preset being saved as a copy);
+// an existing profile keeps its author.
+export const saveStatementProfile = async (uid: string, client: Pick<Client, 'id' | 'firm_id'>, profile: CsvMappingProfile): Promise<CsvMappingProfile> => {
+  await assertClientAccess(uid, client.id, 'edit');
+  const isNew = !profile.id || !!profile.builtIn;
+  const { id: _id, builtIn: _builtIn, ...fields } = profile;
+  if (!isNew) {
+    await updateDoc(doc(db, PROFILES_COLLECTION, profile.id), { ...fields, updatedAt: serverTimestamp() });
+    return profile;
+  }
+  const ref = doc(collection(db, PROFILES_COLLECTION));
+  const saved = { ...fields, clientId: client.id, ...(client.firm_id && { firmId: client.firm_id }) };
+  await setDoc(ref, { ...saved, userId: uid, updatedAt: serverTimestamp() });
+  return { ...saved, id: ref.id };
+};
+
+export const deleteStatementProfile = async (id: string): Promise<void> => {
+  await deleteDoc(doc(db, PROFILES_COLLECTION, id));
+};
+
+// Profiles of every member saved for the client; shared profiles without a client stay.
+export const deleteStatementProfilesByClient = async (uid: string, clientId: string): Promise<void> => {
+  const { firmId } = await assertClientAccess(uid, clientId, 'manageClients');
+  const q = query(
+    collection(db, PROFILES_COLLECTION),
+    firmId ? where('firmId', '==', firmId) : where('userId', '==', uid),
+    where('clientId', '==', clientId)
+  );
+  const snapshot = await getDocs(q);
+  for (const profile of snapshot.docs) await deleteDoc(profile.ref);
+};
@@ -0,0 +1,216 @@
+import { doc, getDoc, setDoc, deleteDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { CategorizationRuleSet, CategoryTaxonomy, ChartOfAccounts, FinancialData, TaxonomyCategory } from '../types';
+import { assertClientAccess } from './clientService';
+
+const TAXONOMY_COLLECTION = 'categoryTaxonomies';
+
+// Groups are categories too; the ids of the leaf categories are the ones documents have always carried.
+export const DEFAULT_TAXONOMY: CategoryTaxonomy = {
+  categories: [
+    { id: 'Staff', label: 'Staff', icon: 'Users', color: 'emerald', deductible: true },
+    { id: 'Salary', label: 'Salary / Wages', parentId: 'Staff', icon: 'Wallet', color: 'emerald', deductible: true, hint: 'Salary and wage payments' },
+    { id: 'Education', label: 'Education / Training', parentId: 'Staff', icon: 'Bookmark', color: 'blue', deductible: true, hint: 'Schools, courses, training' },
+    { id: 'Premises', label: 'Premises', icon: 'Building2', color: 'indigo', deductible: true },
+    { id: 'Rent', label: 'Rent / Lease', parentId: 'Premises', icon: 'Building2', color: 'indigo', deductible: true, hint: 'Rent, leases, parking' },
+    { id: 'Utility', label: 'Utilities / Bills', parentId: 'Premises', icon: 'Wrench', color: 'orange', deductible: true, hint: 'Telecom, electricity, water' },
+    { id: 'Operations', label: 'Operations', icon: 'Package', color: 'gray', deductible: true },
+    { id: 'Software', label: 'Software / IT', parentId: 'Operations', icon: 'Code2', color: 'indigo', deductible: true, hint: 'Tech companies, SaaS, hardware' },
+    { id: 'Office Supplies', label: 'Office Supplies', parentId: 'Operations', icon: 'Package', color: 'gray', deductible: true, hint: 'Stationery, office equipment' },
+    { id: 'Professional Services', label: 'Professional Services', parentId: 'Operations', icon: 'Wrench', color: 'indigo', deductible: true, hint: 'Consultants, lawyers, accountants' },
+    { id: 'Insurance', label: 'Insurance', parentId: 'Operations', icon: 'Shield', color: 'teal', deductible: true, hint: 'Insurance companies' },
+    { id: 'Hospitality', label: 'Travel & Hospitality', icon: 'Plane', color: 'blue', deductible: true },
+    { id: 'Travel', label: 'Travel / Transport', parentId: 'Hospitality', icon: 'Plane', color: 'blue', deductible: true, hint: 'Airlines, trains, taxis, fuel' },
+    { id: 'Restaurant', label: 'Restaurant / Dining', parentId: 'Hospitality', icon: 'Coffee', color: 'amber', deductible: true, hint: 'Restaurants, cafes' },
+    { id: 'Entertainment', label: 'Entertainment', parentId: 'Hospitality', icon: 'Monitor', color: 'purple', deductible: false, hint: 'Cinema, events, subscriptions' },
+    { id: 'Finance', label: 'Finance', icon: 'Landmark', color: 'blue', deductible: true },
+    { id: 'Bank', label: 'Bank Fees / Finance', parentId: 'Finance', icon: 'Landmark', color: 'blue', deductible: true, hint: 'Bank charges, financial institutions' },
+    { id: 'Cash Deposit', label: 'Cash Deposit', parentId: 'Finance', icon: 'Banknote', color: 'cyan', deductible: false, hint: 'ATM and counter deposit confirmations' },
+    { id: 'Private', label: 'Private', icon: 'ShoppingBag', color: 'pink', deductible: false },
+    { id: 'Beauty', label: 'Beauty / Personal Care', parentId: 'Private', icon: 'Scissors', color: 'pink', deductible: false, hint: 'Salons, spas, cosmetics' },
+    { id: 'Shopping', label: 'Shopping / Retail', parentId: 'Private', icon: 'ShoppingBag', color: 'purple', deductible: false, hint: 'Retail stores' },
+    { id: 'Health', label: 'Health / Medical', parentId: 'Private', icon: 'HeartPulse', color: 'red', deductible: false, hint: 'Pharmacies, doctors, hospitals' },
+    { id: 'Groceries', label: 'Groceries / Food', parentId: 'Private', icon: 'ShoppingCart', color: 'slate', deductible: false, hint: 'Supermarkets, food stores' },
+  ],
+};
+
+const normalized = (value: string) => value.trim().toLowerCase();
+
+/**
+ * The category a stored value stands for: matched on id, then on former ids, then on label, all case-insensitive,
+ * so model output that echoes a label and documents tagged before a rename both resolve.
+ */
+export const resolveCategory = (taxonomy: CategoryTaxonomy, value: string | undefined): TaxonomyCategory | undefined => {
+  if (!value) return undefined;
+  const key = normalized(value);
+  return (
+    taxonomy.categories.find((c) => normalized(c.id) === key) ||
+    taxonomy.categories.find((c) => c.aliases?.some((a) => normalized(a) === key)) ||
+    taxonomy.categories.find((c) => normalized(c.label) === key)
+  );
+};
+
+export const categoryLabel = (taxonomy: CategoryTaxonomy, value: string | undefined) =>
+  resolveCategory(taxonomy, value)?.label || value || '';
+
+/**
+ * The top-level group a category belongs to; a top-level category is its own group.
+ */
+export const categoryGroup = (taxonomy: CategoryTaxonomy, value: string | undefined): TaxonomyCategory | undefined => {
+  const category = resolveCategory(taxonomy, value);
+  if (!category?.parentId) return category;
+  return taxonomy.categories.find((c) => c.id === category.parentId) || category;
+};
+
+/**
+ * Top-level categories in order, each with the categories listed under it.
+ */
+export const categoryTree = (taxonomy: CategoryTaxonomy): { group: TaxonomyCategory; children: TaxonomyCategory[] }[] =>
+  taxonomy.categories
+    .filter((c) => !c.parentId)
+    .map((group) => ({ group, children: taxonomy.categories.filter((c) => c.parentId === group.id) }));
+
+// Categories a document can be tagged with: leaves, and groups without children.
+export const selectableCategories = (taxonomy: CategoryTaxonomy): TaxonomyCategory[] =>
+  categoryTree(taxonomy).flatMap(({ group, children }) => (children.length ? children : [group]));
+
+/**
+ * Maps the categories of an extraction onto taxonomy ids. Values the taxonomy does not know are kept as they are.
+ */
+export const normalizeExtractionCategories = (data: FinancialData, taxonomy: CategoryTaxonomy): FinancialData => {
+  const idOf = (value: string | undefined) => resolveCategory(taxonomy, value)?.id ?? value;
+  return {
+    ...data,
+    expenseCategory: idOf(data.expenseCategory) || '',
+    ...(data.subDocuments && { subDocuments: data.subDocuments.map((sub) => normalizeExtractionCategories(sub, taxonomy)) }),
+    ...(data.lineItems && { lineItems: data.lineItems.map((t) => ({ ...t, category: idOf(t.category) ?? t.category })) }),
+  };
+};
+
+/**
+ * The data with every category in `from` replaced by `to`, or null when nothing carries one of them.
+ */
+export const retagFinancialData = (data: FinancialData, from: string[], to: string): FinancialData | null => {
+  const keys = from.map(normalized);
+  const matches = (value: string | undefined) => !!value && keys.includes(normalized(value));
+  let changed = false;
+  const retag = (d: FinancialData): FinancialData => {
+    const result = { ...d };
+    if (matches(d.expenseCategory)) {
+      result.expenseCategory = to;
+      changed = true;
+    }
+    if (d.subDocuments) result.subDocuments = d.subDocuments.map(retag);
+    if (d.lineItems) {
+      result.lineItems = d.lineItems.map((t) => {
+        if (!matches(t.category)) return t;
+        changed = true;
+        return { ...t, category: to };
+      });
+    }
+    return result;
+  };
+  const result = retag(data);
+  return changed ? result : null;
+};
+
+export const retagRuleSet = (ruleSet: CategorizationRuleSet, from: string[], to: string): CategorizationRuleSet => {
+  const keys = from.map(normalized);
+  return {
+    ...ruleSet,
+    rules: ruleSet.rules.map((r) => (r.setCategory && keys.includes(normalized(r.setCategory)) ? { ...r, setCategory: to } : r)),
+  };
+};
+
+// The renamed or surviving category keeps the account of the first retired id that had one.
+export const retagChart = (chart: ChartOfAccounts, from: string[], to: string): ChartOfAccounts => {
+  const inherited = from.map((id) => chart.categoryAccounts[id]).find(Boolean);
+  if (chart.categoryAccounts[to] || !inherited) return chart;
+  return { ...chart, categoryAccounts: { ...chart.categoryAccounts, [to]: inherited } };
+};
+
+/**
+ * Renames a category to `label`, which also becomes its id. The old id is kept as an alias.
+ */
+export const renameInTaxonomy = (taxonomy: CategoryTaxonomy, id: string, label: string): CategoryTaxonomy => {
+  const category = taxonomy.categories.find((c) => c.id === id);
+  const newId = label.trim();
+  if (!category) throw new Error(`Unknown category ${id}`);
+  if (!newId) throw new Error('A category needs a name');
+  if (taxonomy.categories.some((c) => c.id !== id && normalized(c.id) === normalized(newId))) {
+    throw new Error(`A category "${newId}" already exists`);
+  }
+  const aliases = Array.from(new Set([...(category.aliases || []), ...(newId === id ? [] : [id])]));
+  return {
+    categories: taxonomy.categories.map((c) =>
+      c.id === id ? { ...c, id: newId, label: newId, aliases } : c.parentId === id ? { ...c, parentId: newId } : c
+    ),
+  };
+};
+
+/**
+ * Folds `sourceId` into `targetId`: the source disappears, its ids become aliases of the target and the
+ * categories listed under it move to the target's group.
+ */
+export const mergeInTaxonomy = (taxonomy: CategoryTaxonomy, sourceId: string, targetId: string): CategoryTaxonomy => {
+  const source = taxonomy.categories.find((c) => c.id === sourceId);
+  const target = taxonomy.categories.find((c) => c.id === targetId);
+  if (!source || !target) throw new Error('Both categories must exist to merge them');
+  if (sourceId === targetId) throw new Error('A category cannot be merged into itself');
+  if (target.parentId === sourceId) throw new Error(`${target.label} is listed under ${source.label}; merge it the other way round`);
+  const newParent = target.parentId ?? target.id;
+  return {
+    categories: taxonomy.categories
+      .filter((c) => c.id !== sourceId)
+      .map((c) => {
+        if (c.id === targetId) return { ...c, aliases: Array.from(new Set([...(c.aliases || []), source.id, ...(source.aliases || [])])) };
+        if (c.parentId === sourceId) return { ...c, parentId: newParent };
+        return c;
+      }),
+  };
+};
+
+const validateTaxonomy = (taxonomy: CategoryTaxonomy) => {
+  const ids = new Set<string>();
+  for (const category of taxonomy.categories) {
+    if (!category.id.trim() || !category.label.trim()) throw new Error('Every category needs a name');
+    if (ids.has(normalized(category.id))) throw new Error(`Category "${category.id}" appears twice`);
+    ids.add(normalized(category.id));
+  }
+  for (const category of taxonomy.categories) {
+    if (!category.parentId) continue;
+    const parent = taxonomy.categories.find((c) => c.id === category.parentId);
+    if (!parent) throw new Error(`The group of "${category.label}" does not exist`);
+    if (parent.parentId) throw new Error(`"${category.label}" cannot be listed under "${parent.label}", which is itself in a group`);
+  }
+};
+
+/**
+ * A client's category taxonomy; one Firestore document per client, keyed by the client id.
+ * Clients without a saved taxonomy get the default one.
+ */
+export const getCategoryTaxonomy = async (clientId: string): Promise<CategoryTaxonomy> => {
+  const snapshot = await getDoc(doc(db, TAXONOMY_COLLECTION, clientId));
+  if (!snapshot.exists()) return DEFAULT_TAXONOMY;
+  const data = snapshot.data() as Partial<CategoryTaxonomy>;
+  return { categories: data.categories?.length ? data.categories : DEFAULT_TAXONOMY.categories };
+};
+
+export const saveCategoryTaxonomy = async (uid: string, clientId: string, taxonomy: CategoryTaxonomy): Promise<void> => {
+  const { firmId } = await assertClientAccess(uid, clientId, 'edit');
+  validateTaxonomy(taxonomy);
+  // Firestore rejects undefined values; unset optional fields are left out.
+  const categories = taxonomy.categories.map((c) => JSON.parse(JSON.stringify(c)) as TaxonomyCategory);
+  await setDoc(doc(db, TAXONOMY_COLLECTION, clientId), {
+    categories,
+    userId: uid,
+    clientId,
+    ...(firmId && { firmId }),
+    updatedAt: serverTimestamp(),
+  });
+};
+
+export const deleteCategoryTaxonomy = async (uid: string, clientId: string): Promise<void> => {
+  await assertClientAccess(uid, clientId, 'manageClients');
+  await deleteDoc(doc(db, TAXONOMY_COLLECTION, clientId));
+};
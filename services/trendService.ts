@@ -0,0 +1,222 @@
+import type { DateRange, FinancialData, FlowDirection, ProcessedDocument, TrendBucket, TrendGranularity, Variance } from '../types';
+import { directionOf } from './directionService';
+import { chfRateOf } from './exchangeRateService';
+
+/**
+ * Time series and period comparisons for the insights page, in CHF. Like the totals, they follow each item's
+ * direction: transfers and neutral documents count in neither income nor expense.
+ */
+
+export type TrendItem = { date: string; amount: number; direction: FlowDirection; category: string };
+
+// One voucher of a completed document (a batch sheet contributes one per ticket), with its amount in CHF.
+export type Voucher = TrendItem & { id: string; document: ProcessedDocument; data: FinancialData };
+
+// A bucket with the one before it (month or quarter) and the same bucket a year earlier.
+export type TrendRow = TrendBucket & { previous: TrendBucket; previousYear: TrendBucket };
+
+// `income` is the part of the total from income items, so a category can be read as mostly income or mostly expense.
+export type CategoryTrend = { category: string; values: number[]; total: number; income: number; previousYearTotal: number };
+
+export type RangePreset = 'all' | 'this-month' | 'last-month' | 'this-quarter' | 'last-quarter' | 'year-to-date' | 'fiscal-year' | 'last-year';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DAY = 86_400_000;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const lastDay = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+const iso = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`;
+const parts = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return { y, m, d };
+};
+const addDays = (date: string, days: number) => new Date(Date.parse(date) + days * DAY).toISOString().slice(0, 10);
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Month index (months since year 0) and back
+const monthIndex = (date: string) => parts(date).y * 12 + parts(date).m - 1;
+const fromMonthIndex = (index: number) => ({ y: Math.floor(index / 12), m: (index % 12) + 1 });
+
+const isMonthEnd = (date: string) => parts(date).d === lastDay(parts(date).y, parts(date).m);
+const isWholeMonths = (range: DateRange) => parts(range.from).d === 1 && isMonthEnd(range.to);
+
+/**
+ * The vouchers of the completed documents (batch sheets by their tickets) with their CHF amounts. A voucher in
+ * a foreign currency that was never converted to CHF is not counted at face value: it is listed in `unconverted`.
+ */
+export const vouchersOf = (documents: ProcessedDocument[], clientName: string): { vouchers: Voucher[]; unconverted: string[] } => {
+  const vouchers: Voucher[] = [];
+  const unconverted: string[] = [];
+  documents
+    .filter((d) => d.status === 'completed' && d.data)
+    .forEach((d) => {
+      const parent = d.data!;
+      const tickets = parent.subDocuments?.length ? parent.subDocuments : undefined;
+      (tickets || [parent]).forEach((data, index) => {
+        const factor = chfRateOf(data);
+        if (factor === null) {
+          unconverted.push(`${d.fileName}${tickets ? ` (ticket ${index + 1})` : ''}: ${data.originalCurrency}`);
+          return;
+        }
+        vouchers.push({
+          id: tickets ? `${d.id}_sub_${index}` : d.id,
+          document: d,
+          data,
+          date: data.date || parent.date || '',
+          amount: round2((Number(data.totalAmount) || 0) * factor),
+          direction: directionOf(data, clientName),
+          category: data.expenseCategory || parent.expenseCategory || 'Bank',
+        });
+      });
+    });
+  return { vouchers, unconverted };
+};
+
+export const trendItemsOf = (documents: ProcessedDocument[], clientName: string): TrendItem[] => vouchersOf(documents, clientName).vouchers;
+
+export const inRange = (date: string, range: DateRange) => !!date && date >= range.from && date <= range.to;
+
+/**
+ * The range moved by a number of months. A range ending on a month end keeps ending on one (Feb 29 → Feb 28).
+ */
+export const shiftRange = (range: DateRange, months: number): DateRange => {
+  const shift = (date: string, toMonthEnd: boolean) => {
+    const { y, m } = fromMonthIndex(monthIndex(date) + months);
+    return iso(y, m, toMonthEnd ? lastDay(y, m) : Math.min(parts(date).d, lastDay(y, m)));
+  };
+  return { from: shift(range.from, false), to: shift(range.to, isMonthEnd(range.to)) };
+};
+
+/**
+ * The period just before a range and as long as it: the preceding months for whole months, otherwise the preceding days.
+ */
+export const previousRange = (range: DateRange): DateRange => {
+  if (isWholeMonths(range)) return shiftRange(range, -(monthIndex(range.to) - monthIndex(range.from) + 1));
+  const days = Math.round((Date.parse(range.to) - Date.parse(range.from)) / DAY) + 1;
+  return { from: addDays(range.from, -days), to: addDays(range.from, -1) };
+};
+
+/**
+ * Range of a preset relative to `today`. The fiscal year starts in the client's `fiscalYearStartMonth`.
+ */
+export const presetRange = (preset: Exclude<RangePreset, 'all'>, today: string, fiscalYearStartMonth = 1): DateRange => {
+  const { y, m } = parts(today);
+  const quarterStart = Math.floor((m - 1) / 3) * 3 + 1;
+  const month = (year: number, first: number, count: number): DateRange => {
+    const end = fromMonthIndex(year * 12 + first - 1 + count - 1);
+    return { from: iso(year, first, 1), to: iso(end.y, end.m, lastDay(end.y, end.m)) };
+  };
+  switch (preset) {
+    case 'this-month': return month(y, m, 1);
+    case 'last-month': return shiftRange(month(y, m, 1), -1);
+    case 'this-quarter': return month(y, quarterStart, 3);
+    case 'last-quarter': return shiftRange(month(y, quarterStart, 3), -3);
+    case 'year-to-date': return { from: iso(y, 1, 1), to: today };
+    case 'fiscal-year': return month(m >= fiscalYearStartMonth ? y : y - 1, fiscalYearStartMonth, 12);
+    case 'last-year': return month(y - 1, 1, 12);
+  }
+};
+
+const bucketOf = (date: string, granularity: TrendGranularity): Omit<TrendBucket, 'income' | 'expense' | 'net'> => {
+  const { y, m } = parts(date);
+  if (granularity === 'month') {
+    return { key: `${y}-${pad(m)}`, label: `${MONTHS[m - 1]} ${y}`, from: iso(y, m, 1), to: iso(y, m, lastDay(y, m)) };
+  }
+  const q = Math.floor((m - 1) / 3) + 1;
+  return { key: `${y}-Q${q}`, label: `Q${q} ${y}`, from: iso(y, q * 3 - 2, 1), to: iso(y, q * 3, lastDay(y, q * 3)) };
+};
+
+const stepOf = (granularity: TrendGranularity) => (granularity === 'month' ? 1 : 3);
+
+// Empty buckets covering the range, oldest first
+const bucketsOf = (range: DateRange, granularity: TrendGranularity): TrendBucket[] => {
+  const buckets: TrendBucket[] = [];
+  for (let index = monthIndex(bucketOf(range.from, granularity).from); index <= monthIndex(range.to); index += stepOf(granularity)) {
+    const { y, m } = fromMonthIndex(index);
+    buckets.push({ ...bucketOf(iso(y, m, 1), granularity), income: 0, expense: 0, net: 0 });
+  }
+  return buckets;
+};
+
+export const totalsOf = (items: TrendItem[]) => {
+  const income = round2(items.reduce((s, i) => s + (i.direction === 'income' ? i.amount : 0), 0));
+  const expense = round2(items.reduce((s, i) => s + (i.direction === 'expense' ? i.amount : 0), 0));
+  return { income, expense, net: round2(income - expense) };
+};
+
+/**
+ * Income, expense and net per month or quarter of the range, including empty buckets.
+ */
+export const buildTrend = (items: TrendItem[], range: DateRange, granularity: TrendGranularity): TrendBucket[] => {
+  const buckets = bucketsOf(range, granularity);
+  const byKey = new Map(buckets.map((b) => [b.key, b]));
+  items
+    .filter((i) => inRange(i.date, range))
+    .forEach((item) => {
+      const bucket = byKey.get(bucketOf(item.date, granularity).key);
+      if (!bucket) return;
+      if (item.direction === 'income') bucket.income += item.amount;
+      if (item.direction === 'expense') bucket.expense += item.amount;
+    });
+  return buckets.map((b) => ({ ...b, income: round2(b.income), expense: round2(b.expense), net: round2(b.income - b.expense) }));
+};
+
+/**
+ * The trend of a range with, for each bucket, the bucket before it and the same bucket a year earlier.
+ */
+export const trendWithComparisons = (items: TrendItem[], range: DateRange, granularity: TrendGranularity): TrendRow[] => {
+  const history = buildTrend(items, { from: shiftRange(range, -12).from, to: range.to }, granularity);
+  const byKey = new Map(history.map((b) => [b.key, b]));
+  const at = (bucket: TrendBucket, months: number) => {
+    const shifted = bucketOf(shiftRange(bucket, months).from, granularity);
+    return byKey.get(shifted.key) || { ...shifted, income: 0, expense: 0, net: 0 };
+  };
+  return buildTrend(items, range, granularity).map((bucket) => ({
+    ...bucket,
+    previous: at(bucket, -stepOf(granularity)),
+    previousYear: at(bucket, -12),
+  }));
+};
+
+/**
+ * Income and expense per category and bucket, largest categories first. `keyOf` maps an item to its category or group.
+ */
+export const categoryTrends = (
+  items: TrendItem[],
+  range: DateRange,
+  granularity: TrendGranularity,
+  keyOf: (item: TrendItem) => string
+): CategoryTrend[] => {
+  const buckets = bucketsOf(range, granularity);
+  const index = new Map(buckets.map((b, i) => [b.key, i]));
+  const lastYear = shiftRange(range, -12);
+  const trends = new Map<string, CategoryTrend>();
+  const trendOf = (category: string) => {
+    if (!trends.has(category)) trends.set(category, { category, values: buckets.map(() => 0), total: 0, income: 0, previousYearTotal: 0 });
+    return trends.get(category)!;
+  };
+  items
+    .filter((i) => i.direction === 'income' || i.direction === 'expense')
+    .forEach((item) => {
+      if (inRange(item.date, range)) {
+        const trend = trendOf(keyOf(item));
+        const i = index.get(bucketOf(item.date, granularity).key);
+        if (i !== undefined) trend.values[i] += item.amount;
+        trend.total += item.amount;
+        if (item.direction === 'income') trend.income += item.amount;
+      } else if (inRange(item.date, lastYear)) {
+        trendOf(keyOf(item)).previousYearTotal += item.amount;
+      }
+    });
+  return Array.from(trends.values())
+    .filter((t) => t.total !== 0)
+    .map((t) => ({ ...t, values: t.values.map(round2), total: round2(t.total), income: round2(t.income), previousYearTotal: round2(t.previousYearTotal) }))
+    .sort((a, b) => Math.abs(b.total) - Math.abs(a.total));
+};
+
+export const variance = (current: number, previous: number): Variance => ({
+  current,
+  previous,
+  amount: round2(current - previous),
+  percent: previous ? round2(((current - previous) / Math.abs(previous)) * 100) : null,
+});
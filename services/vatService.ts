@@ -0,0 +1,186 @@
+import { DocumentType, type FinancialData, type ProcessedDocument, type VatEntry, type VatLine, type VatPeriod, type VatWorksheet } from '../types';
+import { chfRateOf } from './exchangeRateService';
+import { directionOf } from './directionService';
+import { isCreditNote } from './creditNoteService';
+
+/**
+ * Swiss VAT return worksheet (ESTV/AFC form, effective method) built from the extracted documents.
+ * Income documents feed the turnover and output tax, expense documents feed input tax; transfers and
+ * neutral documents are left out. Credit notes carry negative amounts and so reduce the turnover and output tax
+ * (issued) or correct the input tax (received) of the period they are dated in. All figures are in CHF.
+ */
+
+// Output tax codes per rate. 7.7 / 2.5 / 3.7 applied until 31.12.2023, 8.1 / 2.6 / 3.8 since 1.1.2024.
+const OUTPUT_CODES = [
+  { rate: 8.1, code: '303', label: 'Normal rate 8.1%' },
+  { rate: 2.6, code: '313', label: 'Reduced rate 2.6%' },
+  { rate: 3.8, code: '343', label: 'Accommodation rate 3.8%' },
+  { rate: 7.7, code: '302', label: 'Normal rate 7.7% (until 2023)' },
+  { rate: 2.5, code: '312', label: 'Reduced rate 2.5% (until 2023)' },
+  { rate: 3.7, code: '342', label: 'Accommodation rate 3.7% (until 2023)' },
+];
+
+const CURRENT_RATES = [8.1, 2.6, 3.8];
+const LEGACY_RATES = [7.7, 2.5, 3.7];
+const RATE_CHANGE_DATE = '2024-01-01';
+// Extracted rates are sometimes recomputed from rounded amounts; snap within this distance.
+const RATE_SNAP = 0.15;
+
+// Input tax on material and services bought for resale goes to 400, everything else (operating costs, investments) to 405.
+const MATERIAL_CATEGORY = /material|merchandise|goods|resale|subcontract|waren|marchandise/i;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const periodRange = (period: VatPeriod): { from: string; to: string } => {
+  const months = period.kind === 'quarter' ? 3 : 6;
+  const firstMonth = (period.index - 1) * months + 1;
+  const lastMonth = firstMonth + months - 1;
+  const lastDay = new Date(Date.UTC(period.year, lastMonth, 0)).getUTCDate();
+  return { from: `${period.year}-${pad(firstMonth)}-01`, to: `${period.year}-${pad(lastMonth)}-${pad(lastDay)}` };
+};
+
+export const periodLabel = (period: VatPeriod) => `${period.year} ${period.kind === 'quarter' ? 'Q' : 'S'}${period.index}`;
+
+const snapRate = (rate: number): number | null => {
+  const known = [...CURRENT_RATES, ...LEGACY_RATES].find((r) => Math.abs(r - rate) <= RATE_SNAP);
+  return known ?? null;
+};
+
+/**
+ * The VAT rate of a document: the extracted rate, or the one implied by its VAT and net amounts (both negative on credit notes).
+ */
+export const vatRateOf = (data: FinancialData): { rate: number | null; raw?: number } => {
+  const vat = Number(data.vatAmount) || 0;
+  if (vat === 0) return { rate: 0 };
+  if (data.vatRate && data.vatRate > 0) return { rate: snapRate(data.vatRate), raw: data.vatRate };
+  const net = Number(data.netAmount) || (Number(data.totalAmount) || 0) - vat;
+  if (net === 0 || Math.sign(net) !== Math.sign(vat)) return { rate: null };
+  const implied = round2((vat / net) * 100);
+  return { rate: snapRate(implied), raw: implied };
+};
+
+type Voucher = { id: string; sourceFile: string; data: FinancialData };
+
+const vouchersOf = (documents: ProcessedDocument[]): Voucher[] =>
+  documents
+    .filter((d) => d.status === 'completed' && d.data && d.data.documentType !== DocumentType.BANK_STATEMENT)
+    .flatMap((d) => {
+      const data = d.data!;
+      if (data.subDocuments && data.subDocuments.length > 1) {
+        return data.subDocuments.map((sub, i) => ({ id: `${d.id}#${i}`, sourceFile: d.fileName, data: sub }));
+      }
+      return [{ id: d.id, sourceFile: d.fileName, data }];
+    });
+
+const toEntry = (voucher: Voucher, clientName: string, warnings: string[]): VatEntry | null => {
+  const { data } = voucher;
+  const label = `${data.date} ${data.issuer || voucher.sourceFile}`;
+  const factor = chfRateOf(data);
+  if (factor === null) {
+    warnings.push(`${label}: no CHF rate for ${data.originalCurrency}, document left out.`);
+    return null;
+  }
+  const direction = directionOf(data, clientName);
+  if (direction === 'transfer' || direction === 'neutral') return null;
+  const side = direction === 'income' ? 'output' : 'input';
+  const { rate, raw } = vatRateOf(data);
+  const vat = round2((Number(data.vatAmount) || 0) * factor);
+  const net = round2((Number(data.netAmount) || (Number(data.totalAmount) || 0) - (Number(data.vatAmount) || 0)) * factor);
+  const notes: string[] = [];
+
+  if (rate === null) notes.push(`Rate ${raw ?? '?'}% is not a Swiss VAT rate.`);
+  if (rate && data.date >= RATE_CHANGE_DATE && LEGACY_RATES.includes(rate)) notes.push('Pre-2024 rate on a 2024+ document.');
+  if (rate && data.date < RATE_CHANGE_DATE && CURRENT_RATES.includes(rate)) notes.push('2024 rate on a pre-2024 document.');
+  if (factor !== 1) notes.push(`Converted from ${data.originalCurrency} at ${factor.toFixed(4)}.`);
+  if (isCreditNote(data)) notes.push(side === 'output' ? 'Credit note: reduces turnover and output tax.' : 'Credit note: input tax correction.');
+  if (!data.isHumanVerified) notes.push('Not yet verified.');
+
+  let code: string;
+  if (side === 'output') {
+    if (rate === 0) code = '230';
+    else if (rate === null) {
+      warnings.push(`${label}: sales document with unknown VAT rate ${raw ?? '?'}%, output tax not computed.`);
+      code = '200';
+    } else code = OUTPUT_CODES.find((c) => c.rate === rate)!.code;
+  } else {
+    if (vat === 0) return null; // no input tax to claim
+    code = MATERIAL_CATEGORY.test(data.expenseCategory || '') ? '400' : '405';
+  }
+
+  return {
+    documentId: voucher.id,
+    sourceFile: voucher.sourceFile,
+    date: data.date,
+    issuer: data.issuer,
+    documentNumber: data.documentNumber,
+    side,
+    rate,
+    code,
+    netAmount: net,
+    vatAmount: vat,
+    notes,
+  };
+};
+
+const sum = (entries: VatEntry[], pick: (e: VatEntry) => number) => round2(entries.reduce((s, e) => s + pick(e), 0));
+
+export const buildVatWorksheet = (documents: ProcessedDocument[], clientName: string, period: VatPeriod): VatWorksheet => {
+  const { from, to } = periodRange(period);
+  const warnings: string[] = [];
+  const entries = vouchersOf(documents)
+    .filter((v) => v.data.date >= from && v.data.date <= to)
+    .map((v) => toEntry(v, clientName, warnings))
+    .filter((e): e is VatEntry => e !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const output = entries.filter((e) => e.side === 'output');
+  const input = entries.filter((e) => e.side === 'input');
+  const turnover = sum(output, (e) => e.netAmount);
+  const exempt = sum(output.filter((e) => e.code === '230'), (e) => e.netAmount);
+
+  const taxLines: VatLine[] = OUTPUT_CODES.map(({ rate, code, label }) => {
+    const base = sum(output.filter((e) => e.code === code), (e) => e.netAmount);
+    return { code, label, turnover: base, tax: round2((base * rate) / 100) };
+  });
+  const totalTax = round2(taxLines.reduce((s, l) => s + (l.tax || 0), 0));
+  const inputMaterial = sum(input.filter((e) => e.code === '400'), (e) => e.vatAmount);
+  const inputOther = sum(input.filter((e) => e.code === '405'), (e) => e.vatAmount);
+  const deductible = round2(inputMaterial + inputOther);
+  const balance = round2(totalTax - deductible);
+
+  const lines: VatLine[] = [
+    { code: '200', label: 'Total agreed or collected consideration', turnover },
+    { code: '230', label: 'Supplies exempt from tax (Art. 21)', turnover: exempt },
+    { code: '289', label: 'Total deductions', turnover: exempt },
+    { code: '299', label: 'Taxable turnover', turnover: round2(turnover - exempt) },
+    ...taxLines,
+    { code: '399', label: 'Total tax due', tax: totalTax },
+    { code: '400', label: 'Input tax on cost of materials and services', tax: inputMaterial },
+    { code: '405', label: 'Input tax on investments and other operating costs', tax: inputOther },
+    { code: '479', label: 'Total input tax deductions', tax: deductible },
+    balance >= 0
+      ? { code: '500', label: 'Amount payable', tax: balance }
+      : { code: '510', label: 'Credit in favour of the taxable person', tax: -balance },
+  ];
+
+  return { clientName, period, from, to, lines, entries, warnings };
+};
+
+/**
+ * Documents behind a form line. Summary lines resolve to the documents of the lines they add up.
+ */
+export const entriesForLine = (worksheet: VatWorksheet, code: string): VatEntry[] => {
+  const outputCodes = OUTPUT_CODES.map((c) => c.code);
+  const codes: Record<string, (e: VatEntry) => boolean> = {
+    '200': (e) => e.side === 'output',
+    '289': (e) => e.code === '230',
+    '299': (e) => e.side === 'output' && e.code !== '230',
+    '399': (e) => outputCodes.includes(e.code),
+    '479': (e) => e.side === 'input',
+    '500': () => true,
+    '510': () => true,
+  };
+  return worksheet.entries.filter(codes[code] || ((e) => e.code === code));
+};
@@ -1,8 +1,78 @@
+export type LegalForm = 'sole-proprietorship' | 'partnership' | 'gmbh' | 'ag' | 'association' | 'foundation' | 'other';
+
+// ESTV settlement methods; clients below the turnover threshold are not registered for VAT
+export type VatMethod = 'effective' | 'net-tax-rate' | 'flat-tax-rate' | 'not-registered';
+
+export interface ClientAddress {
+  street: string;
+  postalCode: string;
+  city: string;
+  country: string;
+}
+
+export interface ClientContact {
+  name: string;
+  email: string;
+  phone: string;
+}
+
+/**
+ * Company master data of a client. Drives the defaults of the extraction (reporting currency)
+ * and of the reports (fiscal year, VAT settlement).
+ */
+export interface ClientProfile {
+  legalForm: LegalForm;
+  uid: string; // Swiss enterprise id, e.g. CHE-123.456.789
+  vatNumber: string; // e.g. CHE-123.456.789 MWST
+  vatMethod: VatMethod;
+  vatSettlement: VatPeriodKind;
+  fiscalYearStartMonth: number; // 1–12
+  baseCurrency: string;
+  address: ClientAddress;
+  contact: ClientContact;
+}
+
 export interface Client {
   id: string;
   user_id: string;
   name: string;
   created_at: string;
+  // Firm that owns the client; clients created before firms existed belong to their creator only
+  firm_id?: string;
+  profile: ClientProfile;
+  // Archived clients keep their records but are listed apart from the active ones
+  archived_at?: string;
+}
+
+export type FirmRole = 'owner' | 'preparer' | 'reviewer' | 'readonly';
+
+export type FirmAction = 'read' | 'edit' | 'certify' | 'manageClients' | 'manageMembers';
+
+export interface Firm {
+  id: string;
+  name: string;
+  ownerId: string;
+  createdAt: string;
+}
+
+export interface FirmMember {
+  firmId: string;
+  userId: string;
+  email: string;
+  role: FirmRole;
+  joinedAt: string;
+}
+
+export interface FirmInvitation {
+  id: string;
+  firmId: string;
+  firmName: string;
+  // Lower-cased, matched against the e-mail of the account that accepts
+  email: string;
+  role: FirmRole;
+  invitedBy: string;
+  status: 'pending' | 'accepted' | 'revoked';
+  createdAt: string;
 }
 
 export enum DocumentType {
@@ -11,9 +81,17 @@ export enum DocumentType {
   RECEIPT = 'Ticket/Receipt',
   Z2_BULK_REPORT = 'Z2 Multi-Ticket Sheet',
   BANK_DEPOSIT = 'Bank Deposit',
+  // Credit notes, refunds and cancellations; their amounts are stored negative
+  CREDIT_NOTE = 'Credit Note',
   UNKNOWN = 'Unknown'
 }
 
+/**
+ * Which way money moves for the client: income and expense count towards results, transfers move money
+ * between the client's own accounts or cash, neutral documents (statements, confirmations) move nothing.
+ */
+export type FlowDirection = 'income' | 'expense' | 'transfer' | 'neutral';
+
 export interface BankTransaction {
   date: string;
   description: string;
@@ -24,6 +102,68 @@ export interface BankTransaction {
   quantity?: number;
   unitPrice?: number;
   isHumanVerified?: boolean;
+  // Structured imports (camt / MT940) carry the bank's own identifiers
+  bankReference?: string;
+  paymentReference?: string;
+  valueDate?: string;
+  counterparty?: string;
+  match?: TransactionMatch;
+  // Ids of the categorization rules that set the category, notes or a flag
+  appliedRules?: string[];
+}
+
+export type MatchStatus = 'matched' | 'suggested' | 'unmatched';
+
+/**
+ * Link between a bank transaction and the supporting documents that justify it.
+ * 'one-to-many': one payment settles several documents; 'many-to-one': the document is paid in several transactions.
+ */
+export interface TransactionMatch {
+  status: MatchStatus;
+  kind?: 'one-to-one' | 'one-to-many' | 'many-to-one';
+  documentIds: string[];
+  score: number;
+  reasons: string[];
+  // Set when a reviewer confirmed or assigned the match; the engine never changes a confirmed match.
+  confirmed?: boolean;
+  // Documents a reviewer rejected for this transaction; they are not proposed again.
+  rejectedDocumentIds?: string[];
+}
+
+export type ExchangeRateSource = 'identity' | 'frankfurter' | 'offline-table' | 'unavailable';
+
+export interface CurrencyConversion {
+  from: string;
+  to: string;
+  rate: number | null;
+  source: ExchangeRateSource;
+  // Date the rate was requested for (the document date) and the date it actually applies to.
+  requestedDate: string;
+  effectiveDate?: string;
+}
+
+export interface SwissQrAddress {
+  name: string;
+  street?: string;
+  buildingNumber?: string;
+  postalCode?: string;
+  town?: string;
+  country?: string;
+}
+
+/**
+ * Payment part of a Swiss QR-bill (SPC payload), decoded locally from the invoice.
+ */
+export interface SwissQrBill {
+  iban: string;
+  creditor: SwissQrAddress;
+  amount?: number;
+  currency: string;
+  debtor?: SwissQrAddress;
+  referenceType: 'QRR' | 'SCOR' | 'NON';
+  reference?: string;
+  message?: string;
+  billInformation?: string;
 }
 
 export interface FinancialData {
@@ -34,10 +174,18 @@ export interface FinancialData {
   totalAmount: number;
   originalCurrency: string;
   vatAmount: number;
+  vatRate?: number;
   netAmount: number;
   expenseCategory: string;
+  // Set at extraction and editable; documents stored before it existed fall back to directionOf()
+  direction?: FlowDirection;
   amountInCHF: number;
   conversionRateUsed: number;
+  conversion?: CurrencyConversion;
+  qrBill?: SwissQrBill;
+  // Credit notes: the invoice number printed on the note, and the document it was linked to
+  reversesDocumentNumber?: string;
+  reversesDocumentId?: string;
   notes: string;
   lineItems?: BankTransaction[];
   subDocuments?: FinancialData[]; 
@@ -46,11 +194,121 @@ export interface FinancialData {
   aiInterpretation?: string;
   confidenceScore?: number;
   isHumanVerified?: boolean;
+  // Ids of the categorization rules that set the category, notes or a flag
+  appliedRules?: string[];
   // Bank specific fields for audit
   openingBalance?: number;
   finalBalance?: number;
   calculatedTotalIncome?: number;
   calculatedTotalExpense?: number;
+  // Statements stored from the reconciliation workbench keep their account, period label and origin
+  accountIban?: string;
+  statementPeriod?: string;
+  statementSource?: StatementSource;
+}
+
+/**
+ * A completed document offered to reconciliation. Batch sheets are split into one entry per ticket,
+ * with ids of the form "<documentId>#<index>".
+ */
+export interface SupportingDoc extends FinancialData {
+  id: string;
+  sourceFile: string;
+}
+
+export type VatPeriodKind = 'quarter' | 'semester';
+
+export interface VatPeriod {
+  year: number;
+  kind: VatPeriodKind;
+  index: number; // 1–4 for quarters, 1–2 for semesters
+}
+
+/**
+ * One document's contribution to the VAT return, in CHF.
+ */
+export interface VatEntry {
+  documentId: string;
+  sourceFile: string;
+  date: string;
+  issuer: string;
+  documentNumber: string;
+  side: 'output' | 'input';
+  rate: number | null;
+  code: string;
+  netAmount: number;
+  vatAmount: number;
+  notes: string[];
+}
+
+/**
+ * A line of the ESTV/AFC return (effective method), identified by its form code ("200", "302", "400", ...).
+ */
+export interface VatLine {
+  code: string;
+  label: string;
+  turnover?: number;
+  tax?: number;
+}
+
+export interface VatWorksheet {
+  clientName: string;
+  period: VatPeriod;
+  from: string;
+  to: string;
+  lines: VatLine[];
+  entries: VatEntry[];
+  // Documents of the period that could not be taken into account (no CHF amount, unknown rate...)
+  warnings: string[];
+}
+
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+
+export interface LedgerAccount {
+  number: string;
+  name: string;
+  type: LedgerAccountType;
+}
+
+/**
+ * A client's chart of accounts and the accounts the journal books to.
+ * categoryAccounts maps an expense category id to an account number.
+ */
+export interface ChartOfAccounts {
+  accounts: LedgerAccount[];
+  categoryAccounts: Record<string, string>;
+  defaults: {
+    expense: string;
+    revenue: string;
+    bank: string;
+    creditors: string;
+    debtors: string;
+    inputVatMaterial: string;
+    inputVatOther: string;
+    outputVat: string;
+    suspense: string;
+  };
+}
+
+export interface JournalLine {
+  account: string;
+  debit: number;
+  credit: number;
+}
+
+/**
+ * One balanced booking in CHF, generated from a verified document or bank transaction.
+ */
+export interface JournalEntry {
+  id: string;
+  date: string;
+  description: string;
+  reference?: string;
+  source: 'document' | 'bank';
+  sourceId: string;
+  lines: JournalLine[];
+  // VAT rate of a document booking with a VAT line; null when the rate is not a Swiss VAT rate
+  vatRate?: number | null;
 }
 
 export interface ProcessedDocument {
@@ -60,6 +318,63 @@ export interface ProcessedDocument {
   data?: FinancialData;
   error?: string;
   fileRaw?: File;
+  // Persistence (set once the document is stored in Firestore / Storage)
+  userId?: string;
+  clientId?: string;
+  storagePath?: string;
+  fileType?: string;
+  fileSize?: number;
+  createdAt?: string;
+  updatedAt?: string;
+  // SHA-256 of the uploaded binary, used to spot re-uploads under another name
+  contentHash?: string;
+  // Set while the document is suspected to repeat another one; cleared once a reviewer decides
+  duplicate?: DuplicateSuspicion;
+  // Documents a reviewer confirmed this one is NOT a duplicate of
+  notDuplicateOf?: string[];
+}
+
+export interface DuplicateSuspicion {
+  documentId: string;
+  kind: 'content' | 'semantic';
+  reasons: string[];
+}
+
+export type StatementSource = 'ai' | 'camt.053' | 'camt.054' | 'mt940' | 'csv';
+
+export type CsvDateFormat = 'DD.MM.YYYY' | 'DD.MM.YY' | 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+/**
+ * How one bank's CSV export maps onto BankTransaction. Columns are header names when the file has a
+ * header row, otherwise 1-based column numbers ("1", "2", ...).
+ */
+export interface CsvMappingProfile {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  // Client the profile was saved for, and its firm; profiles saved before this existed serve all of the user's clients
+  clientId?: string;
+  firmId?: string;
+  encoding: 'utf-8' | 'windows-1252' | 'iso-8859-1';
+  delimiter: string;
+  skipRows: number;
+  hasHeader: boolean;
+  dateColumn: string;
+  dateFormat: CsvDateFormat;
+  valueDateColumn?: string;
+  descriptionColumns: string[];
+  decimalSeparator: '.' | ',';
+  thousandsSeparator: '' | "'" | '.' | ',' | ' ';
+  // 'signed': one amount column, negative = money out (or the reverse with negativeIsIncome).
+  // 'split': separate debit and credit columns, both holding positive amounts.
+  amountMode: 'signed' | 'split';
+  amountColumn?: string;
+  negativeIsIncome?: boolean;
+  debitColumn?: string;
+  creditColumn?: string;
+  balanceColumn?: string;
+  referenceColumn?: string;
+  currency: string;
 }
 
 export interface BankStatementAnalysis {
@@ -70,6 +385,39 @@ export interface BankStatementAnalysis {
   finalBalance?: number;
   currency: string;
   period?: string;
+  source?: StatementSource;
+  accountIban?: string;
+  statementId?: string;
+}
+
+/**
+ * Arithmetic check of one statement: opening + income − expense must equal the closing balance.
+ */
+export interface BalanceCheck {
+  status: 'ok' | 'break' | 'incomplete';
+  computedFinal?: number;
+  difference?: number;
+  issues: string[];
+  // Transactions that look like a second copy of an earlier one (same date, amount, direction and text/reference).
+  duplicateIndexes: number[];
+}
+
+export interface BalanceChainLink {
+  fromId: string;
+  toId: string;
+  kind: 'continuous' | 'break' | 'gap' | 'overlap' | 'unverifiable';
+  difference?: number;
+  message: string;
+}
+
+/**
+ * The statements of one account in chronological order, with the check between each consecutive pair.
+ */
+export interface BalanceChain {
+  account: string;
+  currency: string;
+  statementIds: string[];
+  links: BalanceChainLink[];
 }
 
 export interface ProcessedBankStatement {
@@ -80,3 +428,192 @@ export interface ProcessedBankStatement {
   error?: string;
   fileRaw?: File;
 }
+
+/**
+ * One edited cell of a re-imported audit workbook, matched back to its document by the row's stable id.
+ */
+export interface WorkbookChange {
+  rowId: string;
+  documentId: string;
+  sheet: string;
+  target: 'document' | 'lineItem' | 'ticket';
+  // Position of the line item / ticket inside the document
+  index?: number;
+  field: string;
+  label: string;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface WorkbookDiff {
+  changes: WorkbookChange[];
+  // Row ids of the workbook that no longer exist in the client's documents
+  unmatchedIds: string[];
+}
+
+export type AuditSource = 'extraction' | 'refinement' | 'manual' | 'certification' | 'workbook-import' | 'duplicate-merge' | 'category-retag';
+
+/**
+ * One append-only change to a document's extracted data. `path` addresses the field, e.g. `totalAmount`
+ * or `lineItems[3].category`; values are stored as primitives (objects and arrays as JSON).
+ */
+export interface AuditEntry {
+  id?: string;
+  documentId: string;
+  clientId: string;
+  // Set for firm clients so every member can read the history
+  firmId?: string;
+  userId: string;
+  userEmail?: string;
+  path: string;
+  oldValue: string | number | boolean | null;
+  newValue: string | number | boolean | null;
+  source: AuditSource;
+  reason?: string;
+  createdAt: string;
+}
+
+export type FiscalPeriodKind = 'month' | 'quarter';
+
+/**
+ * A month or quarter of a client's fiscal year; `from` and `to` are inclusive YYYY-MM-DD dates.
+ */
+export interface FiscalPeriod {
+  id: string; // e.g. `quarter-2026-07-01`
+  kind: FiscalPeriodKind;
+  label: string;
+  from: string;
+  to: string;
+}
+
+export interface PeriodLockEvent {
+  action: 'close' | 'reopen';
+  reason: string;
+  userId: string;
+  userEmail?: string;
+  at: string;
+}
+
+/**
+ * Close state of one fiscal period of a client. While `closed`, documents dated inside the period
+ * cannot be edited, re-extracted or deleted.
+ */
+export interface PeriodLock {
+  id: string;
+  clientId: string;
+  firmId?: string;
+  period: FiscalPeriod;
+  closed: boolean;
+  history: PeriodLockEvent[];
+}
+
+export type RuleTarget = 'documents' | 'transactions' | 'both';
+
+/**
+ * A client's categorization rule. All set conditions must hold. `pattern` is matched case-insensitively
+ * against the issuer of a document or the description and counterparty of a bank transaction;
+ * a pattern written as `/…/` is a regular expression.
+ */
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  appliesTo: RuleTarget;
+  pattern: string;
+  minAmount?: number;
+  maxAmount?: number;
+  currency?: string;
+  documentType?: DocumentType;
+  setCategory?: string;
+  setNotes?: string;
+  // Added to the document's forensic alerts, or to the transaction's notes
+  flag?: string;
+}
+
+/**
+ * Rules of a client in evaluation order, with the manual category corrections that lead to rule suggestions.
+ */
+export interface CategorizationRuleSet {
+  rules: CategorizationRule[];
+  // Keyed by normalized issuer; the last category chosen by hand and how many times in a row
+  corrections: Record<string, { issuer: string; category: string; count: number }>;
+  dismissedSuggestions: string[];
+}
+
+export type CategoryColor =
+  | 'emerald' | 'indigo' | 'pink' | 'blue' | 'purple' | 'red' | 'cyan' | 'orange'
+  | 'slate' | 'amber' | 'teal' | 'gray' | 'lime' | 'rose';
+
+/**
+ * One category of a client's taxonomy. `id` is the value stored on documents and transactions
+ * (`expenseCategory`, `category`); a category with a `parentId` is listed under that group.
+ */
+export interface TaxonomyCategory {
+  id: string;
+  label: string;
+  parentId?: string;
+  // Name of a lucide icon from CATEGORY_ICONS
+  icon: string;
+  color: CategoryColor;
+  // Business expense deductible for profit tax
+  deductible: boolean;
+  // What belongs in the category; given to the extraction model
+  hint?: string;
+  // Former ids of renamed or merged categories, still carried by documents in closed periods
+  aliases?: string[];
+}
+
+export interface CategoryTaxonomy {
+  categories: TaxonomyCategory[];
+}
+
+// Inclusive range of ISO dates (YYYY-MM-DD)
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export type TrendGranularity = 'month' | 'quarter';
+
+/**
+ * Income and expense of one month or quarter, in CHF. `key` is "2024-03" or "2024-Q1".
+ */
+export interface TrendBucket {
+  key: string;
+  label: string;
+  from: string;
+  to: string;
+  income: number;
+  expense: number;
+  net: number;
+}
+
+export interface Variance {
+  current: number;
+  previous: number;
+  amount: number;
+  // Null when the previous value is zero
+  percent: number | null;
+}
+
+export type BudgetPeriod = 'year' | 'month';
+
+/**
+ * Budget of one category for one fiscal year, in CHF. A monthly amount applies to every month of the year.
+ */
+export interface BudgetLine {
+  id: string;
+  // Fiscal year, named after the calendar year it starts in
+  year: number;
+  // Taxonomy id of a category or of a group, whose budget then covers all its categories
+  category: string;
+  kind: 'expense' | 'income';
+  period: BudgetPeriod;
+  amount: number;
+}
+
+export interface ClientBudget {
+  lines: BudgetLine[];
+  // Percent the projected year-end may deviate from the budget before an alert is raised
+  alertThreshold: number;
+}